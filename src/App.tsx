@@ -1,23 +1,72 @@
 import { useState, useEffect, useRef, useCallback, useReducer, type MouseEvent as ReactMouseEvent } from 'react';
-import { GraphManager, Node as GraphNode, Link } from './GraphManager';
+import { GraphManager, Node as GraphNode, Link, type EncodingLegend, type NodeColorMode } from './GraphManager';
 import { UpdateQueue } from './UpdateQueue';
-import { WikiService } from './WikiService';
+import { WikiService, type CategoryMembers, type LangLink, type PageInfo, type WikiCacheStats } from './WikiService';
 import './index.css';
 import { SearchOverlay } from './components/SearchOverlay';
 import { GraphControls } from './components/GraphControls';
 import { NodeDetailsPanel } from './components/NodeDetailsPanel';
 import { SearchStatusOverlay } from './components/SearchStatusOverlay';
-import { LensingGridBackground } from './components/LensingGridBackground';
+import { LensingGridBackground, drawLensingGrid, getLensingGridOpacity } from './components/LensingGridBackground';
 import { ConnectionStatusBar } from './components/ConnectionStatusBar';
 import type { SearchProgress } from './types/SearchProgress';
-import { runPathfinder } from './features/pathfinding/runPathfinder';
+import { PATHFINDER_STRATEGIES, runPathfinder, type PathfinderStrategy } from './features/pathfinding/runPathfinder';
+import { normalizePathConstraints, type PathConstraints } from './features/pathfinding/pathConstraints';
 import { SUGGESTED_PATHS, type SuggestedPath } from './data/suggestedPaths';
 import LogPanel from './components/LogPanel';
+import { MapLibraryPanel } from './components/MapLibraryPanel';
+import { PathComparisonPanel } from './components/PathComparisonPanel';
+import { DisambiguationChooser, type DisambiguationMeaning } from './components/DisambiguationChooser';
+import { AnalyticsPanel } from './components/AnalyticsPanel';
+import { SharedMapReplayStatus } from './components/SharedMapReplayStatus';
 import { connectionLogger } from './ConnectionLogger';
 import { RecaptchaService } from './services/RecaptchaService';
 import { clientErrorReporter } from './services/ClientErrorReporter';
+import { mapLibrary, type SavedMapEntry } from './services/MapLibrary';
 import { useGraphState } from './hooks/useGraphState';
+import { BACKLINK_COUNT_LIMIT } from './features/backlinks/backlinkRanking';
 import { runtimeConfig } from './config/runtimeConfig';
+import {
+  MapDocumentError,
+  createMapDocument,
+  type MapDocument,
+  MAP_DOCUMENT_EXTENSION,
+  getMapDocumentFilename,
+  parseMapDocument,
+  serializeMapDocument,
+} from './features/persistence/mapDocument';
+import {
+  buildShareHash,
+  decodeSharedMap,
+  encodeSharedMap,
+  readShareHash,
+  type SharedMapState,
+} from './features/sharing/shareUrl';
+import { replaySharedMap, type ReplayProgress } from './features/sharing/replaySharedMap';
+import { GRAPH_EXPORT_FORMATS, exportGraph, type GraphExportFormat } from './features/export/graphExport';
+import { buildGraphSvg, rasterizeSvg, type ImageExportOptions } from './features/export/imageExport';
+import { labelCommunity, type Community } from './features/clustering/communities';
+import type { GraphAnalytics } from './features/analytics/graphMetrics';
+import { isNodeMetric, type NodeMetric } from './features/encoding/nodeEncoding';
+import { findUnlinkedMentions } from './features/mentions/unlinkedMentions';
+import { CATEGORY_MEMBER_LIMIT, getNodeKind, isCategoryTitle, type CategoryRelation } from './features/categories/categoryNodes';
+import { findAliasMatches, type AliasSearchMatch } from './features/aliases/aliasSearch';
+import { summarizeSections, type SectionSummary } from './features/sections/sectionLinks';
+import {
+  DEFAULT_WIKI_SOURCE,
+  PRESET_WIKI_SOURCES,
+  checkImportedWikiSource,
+  getArticleUrl,
+  getLanguageEditionSource,
+  getNodeSource,
+  getWikiSourceById,
+  isPresetWikiSourceId,
+  listWikiSources,
+  parseNodeId,
+  registerWikiSource,
+  toNodeId,
+  type WikiSource,
+} from './config/wikiSources';
 import {
   DEFAULT_BRANCH_SPREAD,
   DEFAULT_SHOW_CROSS_LINKS,
@@ -31,14 +80,39 @@ type SearchJob = {
   from: string;
   to: string;
   source: 'suggested' | 'shift';
+  wikiSourceId?: string;
+  /** Constraints in effect when the search was queued. */
+  constraints?: PathConstraints;
+};
+
+const loadCustomWikiSources = (): WikiSource[] => {
+  try {
+    const raw = localStorage.getItem('wikiCustomSources');
+    const parsed = raw ? JSON.parse(raw) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .filter((item): item is WikiSource =>
+        Boolean(item) && typeof item.id === 'string' && typeof item.apiUrl === 'string' && typeof item.articleUrl === 'string'
+        && !isPresetWikiSourceId(item.id))
+      .map(registerWikiSource);
+  } catch {
+    return [];
+  }
 };
 
 type PinnedAction =
   | { type: 'toggle'; id: string }
   | { type: 'remove'; id: string }
   | { type: 'select'; id: string | null }
+  | { type: 'set'; ids: string[] }
   | { type: 'clear' };
 
+const AUTOSAVE_DELAY_MS = 1500;
+// Long enough for React to commit state from the previous replay step.
+const SHARE_REPLAY_SETTLE_MS = 80;
+// Meanings listed in the chooser; each one costs a summary request.
+const DISAMBIGUATION_MEANING_LIMIT = 12;
+
 const createDefaultSearchProgress = (): SearchProgress => ({
   isSearching: false,
   isPaused: false,
@@ -77,9 +151,18 @@ const WikiWebExplorer = () => {
     pruneGraph,
     pruneLeafNodes,
     pruneBranch,
+    addLangLink,
+    addDisambiguationMeaning,
+    addCategoryNode,
+    addCategoryRelatives,
+    expandCategory,
     undo,
     redo,
     pushHistory,
+    captureSnapshot,
+    restoreSnapshot,
+    resetGraphState,
+    historyRevision,
   } = useGraphState();
 
   // --- Search & UI State ---
@@ -88,8 +171,30 @@ const WikiWebExplorer = () => {
   const [error, setError] = useState('');
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [mapSearchMatches, setMapSearchMatches] = useState<AliasSearchMatch[]>([]);
   const [featuredPaths, setFeaturedPaths] = useState<SuggestedPath[]>([]);
   const [showFeaturedPaths, setShowFeaturedPaths] = useState(true);
+  const [savedMaps, setSavedMaps] = useState<SavedMapEntry[]>([]);
+  const [mapLibraryOpen, setMapLibraryOpen] = useState(false);
+  const [analyticsOpen, setAnalyticsOpen] = useState(false);
+  const [analytics, setAnalytics] = useState<GraphAnalytics | null>(null);
+  const [pathComparisonOpen, setPathComparisonOpen] = useState(false);
+  const [currentMapId, setCurrentMapId] = useState<string | null>(() => localStorage.getItem('wikiCurrentMapId'));
+  const currentMapIdRef = useRef(currentMapId);
+  currentMapIdRef.current = currentMapId;
+  const skipNextAutosaveRef = useRef(false);
+  const [clickedLangLinks, setClickedLangLinks] = useState<{ nodeId: string; langLinks: LangLink[] } | null>(null);
+  const [clickedCategoryMembers, setClickedCategoryMembers] = useState<{ nodeId: string; members: CategoryMembers } | null>(null);
+  // Sections of the clicked page's full article; sections is null while it loads.
+  const [clickedSections, setClickedSections] = useState<{ nodeId: string; sections: SectionSummary[] | null } | null>(null);
+  const [clickedAliases, setClickedAliases] = useState<{ nodeId: string; aliases: string[] } | null>(null);
+  const [disambiguationChoice, setDisambiguationChoice] = useState<{
+    title: string;
+    source: WikiSource;
+    /** The disambiguation node a pick links from, when it is already on the map. */
+    nodeId?: string;
+    meanings: DisambiguationMeaning[] | null;
+  } | null>(null);
 
   // Link Context State
   const [, setActiveLinkContexts] = useState<Set<string>>(new Set());
@@ -115,6 +220,9 @@ const WikiWebExplorer = () => {
         case 'select': {
           return { ...state, selectedId: action.id };
         }
+        case 'set': {
+          return { ids: action.ids, selectedId: action.ids.length > 0 ? action.ids[action.ids.length - 1] : null };
+        }
         case 'clear': {
           return { ids: [], selectedId: null };
         }
@@ -152,6 +260,11 @@ const WikiWebExplorer = () => {
     return fromStorage || fromEnv;
   });
 
+  const [cacheStats, setCacheStats] = useState<WikiCacheStats | null>(null);
+  const [customWikiSources, setCustomWikiSources] = useState<WikiSource[]>(loadCustomWikiSources);
+  const [wikiSourceId, setWikiSourceId] = useState(() => localStorage.getItem('wikiSourceId') || DEFAULT_WIKI_SOURCE.id);
+  const activeWikiSource = getWikiSourceById(wikiSourceId) ?? DEFAULT_WIKI_SOURCE;
+
   // Visual settings
   const [layoutMode, setLayoutMode] = useState<LayoutMode>(() => {
     const stored = localStorage.getItem('wikiLayoutMode');
@@ -171,7 +284,34 @@ const WikiWebExplorer = () => {
     const raw = localStorage.getItem('wikiShowCrossLinks');
     return raw === null ? DEFAULT_SHOW_CROSS_LINKS : raw === 'true';
   });
+  const [showMentionLinks, setShowMentionLinks] = useState(() => localStorage.getItem('wikiShowMentionLinks') === 'true');
+  const [nodeColorMode, setNodeColorMode] = useState<NodeColorMode>(() => {
+    const stored = localStorage.getItem('wikiNodeColorMode');
+    return stored === 'cluster' || stored === 'metric' ? stored : 'origin';
+  });
+  const [clusters, setClusters] = useState<Community[]>([]);
+  const [nodeSizeMetric, setNodeSizeMetric] = useState<NodeMetric>(() => {
+    const stored = localStorage.getItem('wikiNodeSizeMetric');
+    return isNodeMetric(stored) ? stored : 'degree';
+  });
+  const [nodeColorMetric, setNodeColorMetric] = useState<NodeMetric>(() => {
+    const stored = localStorage.getItem('wikiNodeColorMetric');
+    return isNodeMetric(stored) ? stored : 'pageRank';
+  });
+  const [nodePageInfo, setNodePageInfo] = useState<Record<string, PageInfo>>({});
+  const [encodingLegend, setEncodingLegend] = useState<EncodingLegend>({ size: null, color: null });
   const [recursionDepth, setRecursionDepth] = useState(3);
+  const [pathfinderStrategy, setPathfinderStrategy] = useState<PathfinderStrategy>(() => {
+    const stored = localStorage.getItem('wikiPathfinderStrategy');
+    return stored && stored in PATHFINDER_STRATEGIES ? stored as PathfinderStrategy : 'bidirectional';
+  });
+  const [pathConstraints, setPathConstraints] = useState<PathConstraints>(() => {
+    try {
+      return normalizePathConstraints(JSON.parse(localStorage.getItem('wikiPathConstraints') || 'null'));
+    } catch {
+      return normalizePathConstraints(null);
+    }
+  });
   const [nodeSizeScale, setNodeSizeScale] = useState(1);
 
   // Refs needed for App logic
@@ -330,13 +470,52 @@ const WikiWebExplorer = () => {
     }, 500);
   }, []);
 
+  // Nodes already on the map whose title or a known alias matches the search box.
+  const findMapSearchMatches = (term: string) => {
+    const gm = graphManagerRef.current;
+    if (!gm || term.trim().length < 2) return [];
+    return findAliasMatches(term, gm.getNodeIds().map((id) => {
+      const { title } = parseNodeId(id);
+      return { nodeId: id, title, aliases: WikiService.getKnownAliases(title, getNodeSource(id)) };
+    }));
+  };
+
+  // Lists a disambiguation page's meanings at once, then fills in their
+  // summary descriptions as they arrive.
+  const openDisambiguationChooser = useCallback(async (title: string, source: WikiSource, nodeId?: string) => {
+    setDisambiguationChoice({ title, source, nodeId, meanings: null });
+    const options = (await WikiService.fetchDisambiguationOptions(title, source)).slice(0, DISAMBIGUATION_MEANING_LIMIT);
+    const isCurrent = (choice: typeof disambiguationChoice) => choice?.title === title && choice.source.id === source.id;
+    setDisambiguationChoice(prev => (isCurrent(prev) ? { ...prev!, meanings: options } : prev));
+
+    const summaries = await Promise.all(options.map(option => WikiService.fetchSummary(option.title, source)));
+    setDisambiguationChoice(prev => (isCurrent(prev)
+      ? { ...prev!, meanings: options.map((option, index) => ({ ...option, description: summaries[index].description })) }
+      : prev));
+  }, []);
+
   // Wrappers
   const handleAddTopic = (title: string) => {
-    addTopic(title, includeBacklinks, setLoading, setError)
+    addTopic(title, includeBacklinks, setLoading, setError, undefined, (resolvedTitle, source) => {
+      void openDisambiguationChooser(resolvedTitle, source);
+    })
       .then(() => setSearchTerm(''))
       .catch(() => { }); // Error set in hook
   };
 
+  const handleChooseMeaning = (title: string) => {
+    const choice = disambiguationChoice;
+    if (!choice) return;
+    setDisambiguationChoice(null);
+    if (choice.nodeId) {
+      void addDisambiguationMeaning(choice.nodeId, title, includeBacklinks, setLoading, setError);
+      return;
+    }
+    addTopic(title, includeBacklinks, setLoading, setError, choice.source, (resolvedTitle, source) => {
+      void openDisambiguationChooser(resolvedTitle, source);
+    }).catch(() => { });
+  };
+
   const handleAddTopicFromSearchUI = (title: string) => {
     setShowFeaturedPaths(false);
     setShowSuggestions(false);
@@ -344,6 +523,10 @@ const WikiWebExplorer = () => {
   };
 
   const handleExpandNode = (title: string) => {
+    if (graphManagerRef.current?.getNodeMetadata(title)?.isDisambiguation) {
+      void openDisambiguationChooser(parseNodeId(title).title, getNodeSource(title), title);
+      return;
+    }
     expandNode(title, includeBacklinks, setLoading, setError);
   };
 
@@ -401,6 +584,38 @@ const WikiWebExplorer = () => {
     refreshClickedNode();
   }, [clickedNode, graphManagerRef, pushHistory, refreshClickedNode]);
 
+  const handleAddLangLink = useCallback((langLink: LangLink) => {
+    if (!clickedNode) return;
+    void addLangLink(clickedNode.id, langLink, setError);
+  }, [addLangLink, clickedNode]);
+
+  const handleAddCategory = useCallback((categoryName: string) => {
+    void addCategoryNode(categoryName, clickedNode?.id, setError);
+  }, [addCategoryNode, clickedNode]);
+
+  const handleExpandCategory = useCallback((relation: CategoryRelation) => {
+    if (!clickedNode) return;
+    void expandCategory(clickedNode.id, relation, setLoading, setError);
+  }, [clickedNode, expandCategory]);
+
+  const handleLoadSections = useCallback(() => {
+    if (!clickedNode) return;
+    const nodeId = clickedNode.id;
+    setClickedSections({ nodeId, sections: null });
+    void WikiService.fetchSectionLinks(clickedNode.title, getNodeSource(nodeId))
+      .then(links => setClickedSections(prev => (prev?.nodeId === nodeId ? { nodeId, sections: summarizeSections(links) } : prev)));
+  }, [clickedNode]);
+
+  const handleExpandSections = useCallback((sectionKeys: string[]) => {
+    if (!clickedNode || sectionKeys.length === 0) return;
+    void expandNode(clickedNode.id, false, setLoading, setError, sectionKeys);
+  }, [clickedNode, expandNode]);
+
+  const handleAddCategoryMember = useCallback((title: string) => {
+    if (!clickedNode) return;
+    addCategoryRelatives(clickedNode.id, isCategoryTitle(title) ? 'subcategories' : 'members', [title]);
+  }, [addCategoryRelatives, clickedNode]);
+
   const handlePruneBranch = useCallback(() => {
     if (!clickedNode) return;
     pruneBranch(clickedNode.id, setError);
@@ -429,7 +644,12 @@ const WikiWebExplorer = () => {
 
     if (nextSelection.length === 2) {
       const [startNode, endNode] = nextSelection;
-      await enqueueSearch(startNode.id, endNode.id, 'shift');
+      const startSource = getNodeSource(startNode.id);
+      if (startSource.id !== getNodeSource(endNode.id).id) {
+        setError('Paths can only be searched between topics from the same wiki.');
+        return;
+      }
+      await enqueueSearch(startNode.title, endNode.title, 'shift', startSource.id);
       return;
     }
 
@@ -442,7 +662,7 @@ const WikiWebExplorer = () => {
     event.stopPropagation();
 
     if (event.ctrlKey || event.metaKey) {
-      window.open(`https://en.wikipedia.org/wiki/${encodeURIComponent(d.title)}`, '_blank');
+      window.open(getArticleUrl(getNodeSource(d.id), d.title), '_blank');
       return;
     }
 
@@ -455,20 +675,36 @@ const WikiWebExplorer = () => {
 
     setClickedNode(d);
     setClickedSummary('');
-    const [result, categories, backlinks] = await Promise.all([
-      WikiService.fetchSummary(d.title),
-      WikiService.fetchCategories(d.title).catch(() => []),
-      includeBacklinks ? WikiService.fetchBacklinks(d.title, 30) : Promise.resolve([]),
+    setClickedLangLinks(null);
+    setClickedCategoryMembers(null);
+    setClickedSections(null);
+    setClickedAliases(null);
+    const nodeSource = getNodeSource(d.id);
+    const [result, categories, backlinks, langLinks, categoryMembers, redirects] = await Promise.all([
+      WikiService.fetchSummary(d.title, nodeSource),
+      WikiService.fetchCategories(d.title, 50, nodeSource).catch(() => []),
+      includeBacklinks ? WikiService.fetchBacklinks(d.title, BACKLINK_COUNT_LIMIT, nodeSource) : Promise.resolve([]),
+      WikiService.fetchLangLinks(d.title, nodeSource),
+      getNodeKind(d.id) === 'category'
+        ? WikiService.fetchCategoryMembers(d.title, CATEGORY_MEMBER_LIMIT, nodeSource)
+        : Promise.resolve(null),
+      WikiService.fetchRedirectsBatch([d.title], nodeSource),
     ]);
 
     setClickedSummary(result.summary);
-    if (result.thumbnail) setNodeThumbnails(prev => ({ ...prev, [d.title]: result.thumbnail! }));
+    setClickedLangLinks({ nodeId: d.id, langLinks });
+    if (categoryMembers) setClickedCategoryMembers({ nodeId: d.id, members: categoryMembers });
+    setClickedAliases({
+      nodeId: d.id,
+      aliases: Array.from(new Set([...(redirects.get(d.title) || []), ...WikiService.getKnownAliases(d.title, nodeSource)])),
+    });
+    if (result.thumbnail) setNodeThumbnails(prev => ({ ...prev, [d.id]: result.thumbnail! }));
     if (result.description) {
-      setNodeDescriptions(prev => ({ ...prev, [d.title]: result.description! }));
+      setNodeDescriptions(prev => ({ ...prev, [d.id]: result.description! }));
       graphManagerRef.current?.setNodeMetadata(d.id, { colorSeed: result.description });
     }
-    if (categories.length > 0) setNodeCategories(prev => ({ ...prev, [d.title]: categories }));
-    if (includeBacklinks) setNodeBacklinkCounts(prev => ({ ...prev, [d.title]: backlinks.length }));
+    if (categories.length > 0) setNodeCategories(prev => ({ ...prev, [d.id]: categories }));
+    if (includeBacklinks) setNodeBacklinkCounts(prev => ({ ...prev, [d.id]: backlinks.length }));
   }, [
     graphManagerRef,
     includeBacklinks,
@@ -508,6 +744,8 @@ const WikiWebExplorer = () => {
         clearFocusedNode();
       },
       onSelectionChange: (nodes) => setBulkSelectedNodes(nodes),
+      onClustersChange: setClusters,
+      onEncodingLegendChange: setEncodingLegend,
       onLinksApplied: ({ added, updated }) => {
         const normalize = (l: Link) => {
           const source = typeof l.source === 'object' ? l.source.id : l.source;
@@ -530,6 +768,10 @@ const WikiWebExplorer = () => {
     graphManagerRef.current.setTreeSpacing(treeSpacing);
     graphManagerRef.current.setBranchSpread(branchSpread);
     graphManagerRef.current.setShowCrossLinks(showCrossLinks);
+    graphManagerRef.current.setShowMentionLinks(showMentionLinks);
+    graphManagerRef.current.setColorMode(nodeColorMode);
+    graphManagerRef.current.setSizeMetric(nodeSizeMetric);
+    graphManagerRef.current.setColorMetric(nodeColorMetric);
 
     updateQueueRef.current = new UpdateQueue(graphManagerRef.current, 500);
 
@@ -589,9 +831,150 @@ const WikiWebExplorer = () => {
     if (graphManagerRef.current) graphManagerRef.current.setShowCrossLinks(showCrossLinks);
   }, [showCrossLinks]);
 
+  useEffect(() => {
+    if (graphManagerRef.current) graphManagerRef.current.setShowMentionLinks(showMentionLinks);
+  }, [showMentionLinks]);
+
+  // Suggest 'mention' links where a fetched page's lead names another page on the map without linking it.
+  useEffect(() => {
+    const gm = graphManagerRef.current;
+    if (!gm || !showMentionLinks) return;
+    const idsBySource = new Map<string, string[]>();
+    gm.getNodeIds().forEach((id) => {
+      const sourceId = getNodeSource(id).id;
+      idsBySource.set(sourceId, [...(idsBySource.get(sourceId) || []), id]);
+    });
+
+    let cancelled = false;
+    void Promise.all(Array.from(idsBySource.values()).map(async (ids) => {
+      const source = getNodeSource(ids[0]);
+      const redirects = await WikiService.fetchRedirectsBatch(ids.map(id => parseNodeId(id).title), source);
+      const candidates = ids.map((id) => {
+        const { title } = parseNodeId(id);
+        return { id, names: [title, ...(redirects.get(title) ?? [])] };
+      });
+      return ids.flatMap((id): Link[] => {
+        const lead = WikiService.getLeadTextFromCache(id);
+        if (!lead) return [];
+        const linkedIds = new Set((WikiService.getLinksFromCache(id) ?? []).map(link => toNodeId(link.title, source)));
+        linkedIds.add(id);
+        return findUnlinkedMentions(lead.text, candidates, { skipIds: linkedIds, linkedPhrases: lead.linkedPhrases })
+          .filter(mention => !gm.getLinkBetween(id, mention.targetId))
+          .map(mention => ({
+            id: `${id}-${mention.targetId}`,
+            source: id,
+            target: mention.targetId,
+            type: 'mention',
+            context: mention.context,
+            layoutRole: 'cross',
+          }));
+      });
+    })).then((groups) => {
+      const links = groups.flat();
+      if (!cancelled && links.length > 0) gm.addLinks(links);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [showMentionLinks, nodeCount]);
+
   useEffect(() => {
     if (graphManagerRef.current) graphManagerRef.current.setNodeSizeScale(nodeSizeScale);
   }, [nodeSizeScale]);
+
+  useEffect(() => {
+    if (graphManagerRef.current) graphManagerRef.current.setColorMode(nodeColorMode);
+  }, [nodeColorMode]);
+
+  useEffect(() => {
+    if (graphManagerRef.current) graphManagerRef.current.setSizeMetric(nodeSizeMetric);
+  }, [nodeSizeMetric]);
+
+  useEffect(() => {
+    if (graphManagerRef.current) graphManagerRef.current.setColorMetric(nodeColorMetric);
+  }, [nodeColorMetric]);
+
+  const encodedMetrics: NodeMetric[] = nodeColorMode === 'metric' ? [nodeSizeMetric, nodeColorMetric] : [nodeSizeMetric];
+  const needsPageInfo = encodedMetrics.some(metric => metric === 'pageLength' || metric === 'pageViews' || metric === 'lastEdited');
+  const needsBacklinkCounts = encodedMetrics.includes('backlinks');
+
+  // Fetch length, views and edit time for pages on the map while a metric uses them.
+  useEffect(() => {
+    const gm = graphManagerRef.current;
+    if (!gm || !needsPageInfo) return;
+    const missingBySource = new Map<string, string[]>();
+    gm.getNodeIds().forEach((id) => {
+      if (id in nodePageInfo) return;
+      const sourceId = getNodeSource(id).id;
+      missingBySource.set(sourceId, [...(missingBySource.get(sourceId) || []), id]);
+    });
+    if (missingBySource.size === 0) return;
+
+    let cancelled = false;
+    void Promise.all(Array.from(missingBySource.values()).map(async (ids) => {
+      const source = getNodeSource(ids[0]);
+      const infoByTitle = await WikiService.fetchPageInfoBatch(ids.map(id => parseNodeId(id).title), source);
+      return ids.map(id => [id, infoByTitle.get(parseNodeId(id).title) ?? {}] as const);
+    })).then((groups) => {
+      if (cancelled) return;
+      setNodePageInfo(prev => ({ ...prev, ...Object.fromEntries(groups.flat()) }));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [needsPageInfo, nodeCount]);
+
+  // Backlink counts otherwise only arrive when a page is opened or expanded with backlinks on.
+  useEffect(() => {
+    const gm = graphManagerRef.current;
+    if (!gm || !needsBacklinkCounts) return;
+    const missing = gm.getNodeIds().filter(id => nodeBacklinkCounts[id] === undefined);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    void (async () => {
+      for (const id of missing) {
+        if (cancelled) return;
+        const backlinks = await WikiService.fetchBacklinks(parseNodeId(id).title, BACKLINK_COUNT_LIMIT, getNodeSource(id))
+          .catch(() => null);
+        if (cancelled) return;
+        if (backlinks) setNodeBacklinkCounts(prev => ({ ...prev, [id]: backlinks.length }));
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [needsBacklinkCounts, nodeCount]);
+
+  useEffect(() => {
+    graphManagerRef.current?.setExternalMetrics({ backlinks: nodeBacklinkCounts });
+  }, [nodeBacklinkCounts]);
+
+  useEffect(() => {
+    const pick = (field: keyof PageInfo) => {
+      const values: Record<string, number> = {};
+      Object.entries(nodePageInfo).forEach(([id, info]) => {
+        const value = info[field];
+        if (value !== undefined) values[id] = value;
+      });
+      return values;
+    };
+    graphManagerRef.current?.setExternalMetrics({
+      pageLength: pick('length'),
+      pageViews: pick('pageViews'),
+      lastEdited: pick('lastEdited'),
+    });
+  }, [nodePageInfo]);
+
+  // Name each cluster bubble after the category its members share most.
+  useEffect(() => {
+    const labels: Record<string, string> = {};
+    clusters.forEach((cluster) => {
+      const label = labelCommunity(cluster.memberIds, nodeCategories);
+      if (label) labels[cluster.id] = label;
+    });
+    graphManagerRef.current?.setClusterLabels(labels);
+  }, [clusters, nodeCategories]);
 
   useEffect(() => {
     const trimmed = apiContactEmail.trim();
@@ -602,6 +985,328 @@ const WikiWebExplorer = () => {
       : undefined;
     WikiService.setApiUserAgent(apiUserAgent);
   }, [apiContactEmail]);
+
+  const refreshCacheStats = useCallback(() => {
+    void WikiService.getCacheStats().then(setCacheStats);
+  }, []);
+
+  const handleClearCache = useCallback(() => {
+    void WikiService.clearCaches().then(() => {
+      setError('Cleared cached Wikipedia responses.');
+      refreshCacheStats();
+    });
+  }, [refreshCacheStats]);
+
+  useEffect(() => {
+    if (showSettings) refreshCacheStats();
+  }, [showSettings, refreshCacheStats]);
+
+  useEffect(() => {
+    WikiService.setActiveSource(activeWikiSource);
+    localStorage.setItem('wikiSourceId', activeWikiSource.id);
+  }, [activeWikiSource]);
+
+  useEffect(() => {
+    localStorage.setItem('wikiCustomSources', JSON.stringify(customWikiSources));
+  }, [customWikiSources]);
+
+  const handleAddCustomWikiSource = (source: WikiSource) => {
+    registerWikiSource(source);
+    setCustomWikiSources(prev => [...prev.filter(item => item.id !== source.id), source]);
+    setWikiSourceId(source.id);
+  };
+
+  const buildMapDocument = () => {
+    const state = captureSnapshot();
+    if (!state || state.graph.nodes.length === 0) return null;
+
+    const presetIds = new Set(PRESET_WIKI_SOURCES.map(source => source.id));
+    const usedSources = new Map<string, WikiSource>();
+    state.graph.nodes.forEach(node => {
+      const source = getNodeSource(node.id);
+      if (!presetIds.has(source.id)) usedSources.set(source.id, source);
+    });
+
+    return createMapDocument({
+      state,
+      settings: {
+        layoutMode,
+        nodeSpacing,
+        treeSpacing,
+        branchSpread,
+        showCrossLinks,
+        recursionDepth,
+        nodeSizeScale,
+        includeBacklinks,
+      },
+      foundPaths,
+      pinnedLinkIds: pinnedState.ids,
+      wikiSources: Array.from(usedSources.values()),
+    });
+  };
+  const buildMapDocumentRef = useRef(buildMapDocument);
+  buildMapDocumentRef.current = buildMapDocument;
+
+  /**
+   * Register the wiki sources a map file or share link brings along. Unknown
+   * hosts need the user's go-ahead; if any source is refused nothing is
+   * registered or saved, and false is returned so the map isn't opened.
+   */
+  const admitImportedWikiSources = (sources: WikiSource[]) => {
+    for (const source of sources) {
+      const check = checkImportedWikiSource(source);
+      if (check.status === 'rejected') {
+        setError(`Did not open the map: ${check.reason}.`);
+        return false;
+      }
+      if (check.status === 'confirm' && !window.confirm(
+        `This map loads pages from "${source.displayName}" at ${check.host}, which is not a Wikimedia site. `
+        + 'Requests for those pages, including your contact address from Settings, will be sent there. Allow it?'
+      )) {
+        setError(`Did not open the map: ${check.host} was not allowed.`);
+        return false;
+      }
+    }
+
+    sources.forEach(registerWikiSource);
+    if (sources.length > 0) {
+      setCustomWikiSources(prev => [
+        ...prev.filter(item => !sources.some(source => source.id === item.id)),
+        ...sources,
+      ]);
+    }
+    return true;
+  };
+
+  const applyMapDocument = (doc: MapDocument, options: { recordHistory?: boolean } = {}) => {
+    if (!admitImportedWikiSources(doc.wikiSources)) return false;
+    if (isRunningSearchRef.current) searchAbortRef.current = true;
+
+    if (options.recordHistory !== false) pushHistory();
+    restoreSnapshot(doc.state);
+    setLayoutMode(doc.settings.layoutMode);
+    setNodeSpacing(doc.settings.nodeSpacing);
+    setTreeSpacing(doc.settings.treeSpacing);
+    setBranchSpread(doc.settings.branchSpread);
+    setShowCrossLinks(doc.settings.showCrossLinks);
+    setRecursionDepth(doc.settings.recursionDepth);
+    setNodeSizeScale(doc.settings.nodeSizeScale);
+    setIncludeBacklinks(doc.settings.includeBacklinks);
+    setFoundPaths(doc.foundPaths);
+    setSearchDockLinkId(doc.foundPaths[0]?.triggerLinkId ?? null);
+    setSearchDockPosition(null);
+    setActiveLinkContexts(new Set(doc.pinnedLinkIds));
+    dispatchPinned({ type: 'set', ids: doc.pinnedLinkIds });
+    setShowFeaturedPaths(false);
+    return true;
+  };
+
+  const downloadBlob = (filename: string, blob: Blob) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const downloadTextFile = (filename: string, text: string, mimeType: string) =>
+    downloadBlob(filename, new Blob([text], { type: mimeType }));
+
+  const handleExportMap = () => {
+    const doc = buildMapDocument();
+    if (!doc) {
+      setError('Add a topic before saving a map.');
+      return;
+    }
+    downloadTextFile(getMapDocumentFilename(doc), serializeMapDocument(doc), 'application/json');
+  };
+
+  const handleExportGraph = (format: GraphExportFormat) => {
+    const gm = graphManagerRef.current;
+    const doc = buildMapDocument();
+    if (!gm || !doc) {
+      setError('Add a topic before exporting the graph.');
+      return;
+    }
+
+    const snapshot = doc.state.graph;
+    const linkInsights = Object.fromEntries(snapshot.links.map(link => [link.id, gm.getLinkInsightSummary(link.id)]));
+    const text = exportGraph(format, {
+      snapshot,
+      nodeCategories,
+      nodeDescriptions,
+      linkInsights,
+      title: doc.title,
+    });
+    const { extension, mimeType } = GRAPH_EXPORT_FORMATS[format];
+    downloadTextFile(getMapDocumentFilename(doc).replace(MAP_DOCUMENT_EXTENSION, extension), text, mimeType);
+  };
+
+  const handleExportImage = async (format: 'svg' | 'png', options: ImageExportOptions) => {
+    const gm = graphManagerRef.current;
+    const doc = buildMapDocument();
+    if (!gm || !gm.getSvgElement() || !doc) {
+      setError('Add a topic before exporting an image.');
+      return;
+    }
+
+    try {
+      const frame = gm.getExportFrame(options.frame);
+      const svgText = await gm.withSvgRendering(svg => buildGraphSvg({
+        svg,
+        frame,
+        background: options.includeBackground
+          ? {
+            draw: (ctx, width, height) =>
+              drawLensingGrid(ctx, width, height, gm.getLensingNodes(frame.transform), layoutMode),
+            opacity: getLensingGridOpacity(layoutMode),
+          }
+          : undefined,
+      }));
+      const basename = getMapDocumentFilename(doc).replace(MAP_DOCUMENT_EXTENSION, '');
+      if (format === 'svg') {
+        downloadTextFile(`${basename}.svg`, svgText, 'image/svg+xml');
+      } else {
+        downloadBlob(`${basename}.png`, await rasterizeSvg(svgText, frame.width, frame.height, options.scale));
+      }
+    } catch (err: any) {
+      clientErrorReporter.reportError(err, 'Image export failed');
+      setError(err?.message || 'Could not export the image.');
+    }
+  };
+
+  const handleImportMap = async (file: File) => {
+    try {
+      const doc = parseMapDocument(await file.text());
+      if (!applyMapDocument(doc)) return;
+      // Imported files become a new library entry on the next autosave.
+      setCurrentMapId(null);
+      setError(`Opened map${doc.title ? ` "${doc.title}"` : ''} with ${doc.state.graph.nodes.length} topics.`);
+    } catch (err: any) {
+      if (!(err instanceof MapDocumentError)) clientErrorReporter.reportError(err, 'Map import failed');
+      setError(err?.message || 'Could not open that map file.');
+    }
+  };
+
+  // --- Map library & autosave ---
+  const refreshSavedMaps = useCallback(() => {
+    void mapLibrary.list().then(setSavedMaps);
+  }, []);
+
+  const openSavedMap = async (id: string, options: { recordHistory?: boolean } = {}) => {
+    const saved = await mapLibrary.get(id);
+    if (!saved) {
+      setError('That saved map could not be found.');
+      return false;
+    }
+    let doc: MapDocument;
+    try {
+      // Stored documents go through the same migrations as imported files.
+      doc = parseMapDocument(JSON.stringify(saved.document));
+    } catch (err: any) {
+      setError(err?.message || 'That saved map could not be opened.');
+      return false;
+    }
+    if (!applyMapDocument(doc, options)) return false;
+    skipNextAutosaveRef.current = options.recordHistory !== false;
+    setCurrentMapId(id);
+    return true;
+  };
+
+  const handleOpenSavedMap = async (id: string) => {
+    const saved = savedMaps.find(entry => entry.id === id);
+    if (await openSavedMap(id)) {
+      setMapLibraryOpen(false);
+      setError(`Opened "${saved?.name ?? 'map'}".`);
+    }
+  };
+
+  const handleNewMap = () => {
+    if (isRunningSearchRef.current) searchAbortRef.current = true;
+    resetGraphState({ clearHistory: true });
+    setFoundPaths([]);
+    setSearchDockLinkId(null);
+    setSearchDockPosition(null);
+    setActiveLinkContexts(new Set());
+    dispatchPinned({ type: 'clear' });
+    setCurrentMapId(null);
+    setShowFeaturedPaths(true);
+    setMapLibraryOpen(false);
+  };
+
+  const handleRenameSavedMap = (id: string, name: string) => {
+    void mapLibrary.rename(id, name).then(refreshSavedMaps);
+  };
+
+  const handleDuplicateSavedMap = (id: string) => {
+    void mapLibrary.duplicate(id).then(refreshSavedMaps);
+  };
+
+  const handleDeleteSavedMap = (id: string) => {
+    void mapLibrary.remove(id).then(() => {
+      if (id === currentMapId) setCurrentMapId(null);
+      refreshSavedMaps();
+    });
+  };
+
+  useEffect(() => {
+    if (currentMapId) localStorage.setItem('wikiCurrentMapId', currentMapId);
+    else localStorage.removeItem('wikiCurrentMapId');
+  }, [currentMapId]);
+
+  useEffect(() => {
+    if (historyRevision === 0) return;
+    if (skipNextAutosaveRef.current) {
+      skipNextAutosaveRef.current = false;
+      return;
+    }
+
+    // Debounced so the snapshot includes nodes the update queue adds after pushHistory.
+    const handle = window.setTimeout(() => {
+      const doc = buildMapDocumentRef.current();
+      if (!doc) return;
+      void mapLibrary.save(doc, { id: currentMapIdRef.current ?? undefined }).then((entry) => {
+        if (!entry) return;
+        currentMapIdRef.current = entry.id;
+        setCurrentMapId(entry.id);
+        refreshSavedMaps();
+      });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => window.clearTimeout(handle);
+  }, [historyRevision, refreshSavedMaps]);
+
+  useEffect(() => {
+    // A share link in the URL wins over reopening the last edited map.
+    const sharedPayload = readShareHash(window.location.hash);
+    if (sharedPayload) {
+      void openSharedMapPayload(sharedPayload);
+      refreshSavedMaps();
+      return;
+    }
+
+    // Reopen the map that was being edited when the tab closed.
+    const lastMapId = localStorage.getItem('wikiCurrentMapId');
+    if (lastMapId) {
+      void openSavedMap(lastMapId, { recordHistory: false }).then((opened) => {
+        if (opened) return;
+        setCurrentMapId(null);
+        setError('');
+      });
+    }
+    refreshSavedMaps();
+  }, []);
+
+  useEffect(() => {
+    if (mapLibraryOpen) refreshSavedMaps();
+  }, [mapLibraryOpen, refreshSavedMaps]);
+
+  // Metrics are only worth computing while someone is looking at them.
+  useEffect(() => {
+    if (!analyticsOpen) return;
+    setAnalytics(graphManagerRef.current?.getAnalytics() ?? null);
+  }, [analyticsOpen, nodeCount, linkCount]);
 
   useEffect(() => {
     localStorage.setItem('wikiIncludeBacklinks', includeBacklinks ? 'true' : 'false');
@@ -615,6 +1320,14 @@ const WikiWebExplorer = () => {
     localStorage.setItem('wikiTreeSpacing', String(treeSpacing));
   }, [treeSpacing]);
 
+  useEffect(() => {
+    localStorage.setItem('wikiPathfinderStrategy', pathfinderStrategy);
+  }, [pathfinderStrategy]);
+
+  useEffect(() => {
+    localStorage.setItem('wikiPathConstraints', JSON.stringify(pathConstraints));
+  }, [pathConstraints]);
+
   useEffect(() => {
     localStorage.setItem('wikiBranchSpread', String(branchSpread));
   }, [branchSpread]);
@@ -622,6 +1335,22 @@ const WikiWebExplorer = () => {
   useEffect(() => {
     localStorage.setItem('wikiShowCrossLinks', showCrossLinks ? 'true' : 'false');
   }, [showCrossLinks]);
+
+  useEffect(() => {
+    localStorage.setItem('wikiShowMentionLinks', showMentionLinks ? 'true' : 'false');
+  }, [showMentionLinks]);
+
+  useEffect(() => {
+    localStorage.setItem('wikiNodeColorMode', nodeColorMode);
+  }, [nodeColorMode]);
+
+  useEffect(() => {
+    localStorage.setItem('wikiNodeSizeMetric', nodeSizeMetric);
+  }, [nodeSizeMetric]);
+
+  useEffect(() => {
+    localStorage.setItem('wikiNodeColorMetric', nodeColorMetric);
+  }, [nodeColorMetric]);
 
   // Sync Metadata
   useEffect(() => {
@@ -702,10 +1431,18 @@ const WikiWebExplorer = () => {
     keepSearchingRef.current = keepSearching;
   }, [keepSearching]);
 
-  const findPath = (startInput: string, endInput: string) =>
+  const findPath = (
+    startInput: string,
+    endInput: string,
+    source?: WikiSource,
+    constraints: PathConstraints = pathConstraints
+  ) =>
     runPathfinder({
       startInput,
       endInput,
+      source,
+      strategy: pathfinderStrategy,
+      constraints,
       maxDepth: recursionDepth * 2,
       keepSearchingRef,
       graphManagerRef,
@@ -723,19 +1460,177 @@ const WikiWebExplorer = () => {
       },
     });
 
-  const getSearchKey = (from: string, to: string) =>
-    `${from.trim().toLowerCase()}→${to.trim().toLowerCase()}`;
+  // --- Share links ---
+  const [shareReplay, setShareReplay] = useState<ReplayProgress | null>(null);
+  const shareReplayCancelRef = useRef(false);
+  const lastShareHashRef = useRef<string | null>(null);
+  // Replay steps span several renders, so they always call the latest graph actions.
+  const replayActionsRef = useRef({ addTopic, expandNode, findPath });
+  replayActionsRef.current = { addTopic, expandNode, findPath };
+
+  const buildSharedMapState = (): SharedMapState => {
+    const paths = new Map<string, [string, string]>();
+    foundPaths.forEach(({ path }) => {
+      if (path.length < 2) return;
+      const endpoints: [string, string] = [path[0], path[path.length - 1]];
+      paths.set(endpoints.join('\n'), endpoints);
+    });
+
+    const seeds = Array.from(userTypedNodes);
+    const expanded = Array.from(expandedNodes);
+    const presetIds = new Set(PRESET_WIKI_SOURCES.map(source => source.id));
+    const usedSources = new Map<string, WikiSource>();
+    [...seeds, ...expanded, ...Array.from(paths.values()).flat()].forEach(id => {
+      const source = getNodeSource(id);
+      if (!presetIds.has(source.id)) usedSources.set(source.id, source);
+    });
+
+    return {
+      seeds,
+      expanded,
+      layoutMode,
+      paths: Array.from(paths.values()),
+      wikiSources: Array.from(usedSources.values()),
+    };
+  };
+
+  const openSharedMap = async (state: SharedMapState) => {
+    shareReplayCancelRef.current = false;
+    if (!admitImportedWikiSources(state.wikiSources)) return;
+
+    handleNewMap();
+    setShowFeaturedPaths(false);
+    setLayoutMode(state.layoutMode);
+    setShareReplay({ step: 0, total: state.seeds.length + state.expanded.length + state.paths.length, label: 'Preparing map…' });
+
+    // Replayed searches stop at the first result, like the original ones did.
+    const keepSearchingSetting = keepSearchingRef.current;
+    keepSearchingRef.current = false;
+    const settle = async () => {
+      updateQueueRef.current?.flush();
+      await new Promise(resolve => window.setTimeout(resolve, SHARE_REPLAY_SETTLE_MS));
+    };
+
+    try {
+      await settle();
+      const result = await replaySharedMap({
+        state,
+        addTopic: (title, source) =>
+          replayActionsRef.current.addTopic(title, includeBacklinks, undefined, undefined, source),
+        expandNode: nodeId => replayActionsRef.current.expandNode(nodeId, includeBacklinks),
+        findPath: async (startTitle, endTitle, source) => {
+          isRunningSearchRef.current = true;
+          try {
+            return await replayActionsRef.current.findPath(startTitle, endTitle, source);
+          } finally {
+            isRunningSearchRef.current = false;
+          }
+        },
+        hasNode: nodeId => Boolean(graphManagerRef.current?.hasNode(nodeId)),
+        settle,
+        isCancelled: () => shareReplayCancelRef.current,
+        onProgress: setShareReplay,
+      });
+
+      if (result.status === 'aborted') {
+        setError('Stopped opening the shared map. Kept the topics already on the map.');
+      } else if (result.skipped.length > 0) {
+        setError(`Opened shared map. Could not rebuild: ${result.skipped.slice(0, 3).join(', ')}${result.skipped.length > 3 ? '…' : ''}`);
+      } else {
+        setError('Opened shared map.');
+      }
+    } catch (err: any) {
+      clientErrorReporter.reportError(err, 'Shared map replay failed');
+      setError(err?.message || 'Could not open the shared map.');
+    } finally {
+      keepSearchingRef.current = keepSearchingSetting;
+      setShareReplay(null);
+    }
+  };
+
+  const openSharedMapPayload = async (payload: string) => {
+    lastShareHashRef.current = payload;
+    const state = await decodeSharedMap(payload);
+    if (!state) {
+      setError('That share link is damaged, from a newer version of the app, or would replace a built-in wiki.');
+      return;
+    }
+    await openSharedMap(state);
+  };
+
+  const cancelSharedMapReplay = () => {
+    shareReplayCancelRef.current = true;
+    if (isRunningSearchRef.current) searchAbortRef.current = true;
+  };
+
+  const handleCopyShareLink = async () => {
+    const state = buildSharedMapState();
+    if (state.seeds.length === 0) {
+      setError('Add a topic before sharing a map.');
+      return;
+    }
+
+    const { origin, pathname, search } = window.location;
+    const url = `${origin}${pathname}${search}${buildShareHash(await encodeSharedMap(state))}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      setError('Share link copied. Opening it rebuilds this map step by step.');
+    } catch {
+      setError('Could not reach the clipboard. Copy the link from the address bar instead.');
+    }
+  };
+
+  // Keep the address bar in sync so it can be copied directly.
+  useEffect(() => {
+    if (shareReplay) return;
+    const state = buildSharedMapState();
+    const { pathname, search } = window.location;
+    if (state.seeds.length === 0) {
+      if (readShareHash(window.location.hash)) window.history.replaceState(null, '', `${pathname}${search}`);
+      lastShareHashRef.current = null;
+      return;
+    }
+
+    let cancelled = false;
+    void encodeSharedMap(state).then((encoded) => {
+      if (cancelled) return;
+      lastShareHashRef.current = encoded;
+      window.history.replaceState(null, '', `${pathname}${search}${buildShareHash(encoded)}`);
+    });
+    return () => { cancelled = true; };
+  }, [userTypedNodes, expandedNodes, layoutMode, foundPaths, shareReplay]);
+
+  const openSharedMapPayloadRef = useRef(openSharedMapPayload);
+  openSharedMapPayloadRef.current = openSharedMapPayload;
+
+  // Pasting a different share link into the same tab only changes the hash.
+  useEffect(() => {
+    const handleHashChange = () => {
+      const payload = readShareHash(window.location.hash);
+      if (payload && payload !== lastShareHashRef.current) void openSharedMapPayloadRef.current(payload);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const getSearchKey = (from: string, to: string, wikiSourceId?: string) =>
+    `${wikiSourceId || DEFAULT_WIKI_SOURCE.id}:${from.trim().toLowerCase()}→${to.trim().toLowerCase()}`;
 
-  const enqueueSearch = async (from: string, to: string, source: 'suggested' | 'shift') => {
+  const enqueueSearch = async (
+    from: string,
+    to: string,
+    source: 'suggested' | 'shift',
+    wikiSourceId: string = WikiService.getActiveSource().id
+  ) => {
     const passedVerification = await RecaptchaService.verify('pathfinding');
     if (!passedVerification) {
       setError('Bot verification failed. Please try again.');
       return;
     }
 
-    const requestedKey = getSearchKey(from, to);
-    const activeKey = activeSearch ? getSearchKey(activeSearch.from, activeSearch.to) : null;
-    const duplicateQueued = searchQueueRef.current.some((job) => getSearchKey(job.from, job.to) === requestedKey);
+    const requestedKey = getSearchKey(from, to, wikiSourceId);
+    const activeKey = activeSearch ? getSearchKey(activeSearch.from, activeSearch.to, activeSearch.wikiSourceId) : null;
+    const duplicateQueued = searchQueueRef.current.some((job) => getSearchKey(job.from, job.to, job.wikiSourceId) === requestedKey);
     if (activeKey === requestedKey || duplicateQueued) {
       setError('That search is already running or queued.');
       setSearchTerminalMinimized(false);
@@ -743,7 +1638,7 @@ const WikiWebExplorer = () => {
     }
 
     setSearchQueue(prev => {
-      if (prev.some((job) => getSearchKey(job.from, job.to) === requestedKey)) {
+      if (prev.some((job) => getSearchKey(job.from, job.to, job.wikiSourceId) === requestedKey)) {
         setError('That search is already queued.');
         return prev;
       }
@@ -752,7 +1647,7 @@ const WikiWebExplorer = () => {
         return prev;
       }
       const id = `${Date.now()}-${Math.random().toString(16).slice(2)}`;
-      const next = [...prev, { id, from, to, source }];
+      const next = [...prev, { id, from, to, source, wikiSourceId, constraints: pathConstraints }];
       searchQueueRef.current = next;
       setSearchTerminalMinimized(false);
       return next;
@@ -790,10 +1685,11 @@ const WikiWebExplorer = () => {
         setSearchLog([`[QUEUE] Searching path: ${job.from} → ${job.to}`]);
       }
 
+      const jobSource = getWikiSourceById(job.wikiSourceId) ?? WikiService.getActiveSource();
       // We need addTopic to return the title, but hook version returns promise<string>.
       const [startTitle, endTitle] = await Promise.all([
-        addTopic(job.from, true, undefined, undefined),
-        addTopic(job.to, true, undefined, undefined)
+        addTopic(job.from, true, undefined, undefined, jobSource),
+        addTopic(job.to, true, undefined, undefined, jobSource)
       ]);
       if (searchAbortRef.current) {
         return;
@@ -802,7 +1698,7 @@ const WikiWebExplorer = () => {
       if (job.source === 'shift') {
         pushHistory();
       }
-      const result = await findPath(startTitle || job.from, endTitle || job.to);
+      const result = await findPath(startTitle || job.from, endTitle || job.to, jobSource, job.constraints);
       if (result.status === 'aborted') {
         setError('Search stopped. Kept the topics already visible on the map.');
       } else if (result.status === 'not_found') {
@@ -862,9 +1758,12 @@ const WikiWebExplorer = () => {
     const source = typeof link.source === 'object' ? link.source.id : link.source;
     const target = typeof link.target === 'object' ? link.target.id : link.target;
 
+    const sourceTitle = parseNodeId(source).title;
+    const targetTitle = parseNodeId(target).title;
+
     const handle = window.setTimeout(() => {
-      void WikiService.fetchLinkContext(source, target).then((context) => {
-        const nextContext = context || `Snippet unavailable. Connection confirmed because “${source}” contains a link to “${target}”.`;
+      void WikiService.fetchLinkContext(sourceTitle, targetTitle, getNodeSource(source)).then((context) => {
+        const nextContext = context || `Snippet unavailable. Connection confirmed because “${sourceTitle}” contains a link to “${targetTitle}”.`;
         graphManagerRef.current?.addLinks([{
           source,
           target,
@@ -902,9 +1801,22 @@ const WikiWebExplorer = () => {
         onBlurSearch={() => setShowFeaturedPaths(false)}
         onSearchChange={(e) => {
           const term = e.target.value;
+          const matches = findMapSearchMatches(term);
           setSearchTerm(term);
+          setMapSearchMatches(matches);
+          if (matches.length > 0) setShowSuggestions(true);
           debouncedSearch(term);
         }}
+        mapMatches={mapSearchMatches}
+        onFocusMapNode={(nodeId) => {
+          setSearchTerm('');
+          setMapSearchMatches([]);
+          setShowSuggestions(false);
+          const gm = graphManagerRef.current;
+          if (!gm) return;
+          gm.highlightNode(nodeId);
+          gm.centerOnNode(nodeId);
+        }}
         onAddTopic={handleAddTopicFromSearchUI}
         onRunSuggestedPath={runSuggestedPath}
       />
@@ -922,14 +1834,34 @@ const WikiWebExplorer = () => {
         setBranchSpread={setBranchSpread}
         showCrossLinks={showCrossLinks}
         setShowCrossLinks={setShowCrossLinks}
+        showMentionLinks={showMentionLinks}
+        setShowMentionLinks={setShowMentionLinks}
+        nodeColorMode={nodeColorMode}
+        setNodeColorMode={setNodeColorMode}
+        nodeSizeMetric={nodeSizeMetric}
+        setNodeSizeMetric={setNodeSizeMetric}
+        nodeColorMetric={nodeColorMetric}
+        setNodeColorMetric={setNodeColorMetric}
+        encodingLegend={encodingLegend}
         recursionDepth={recursionDepth}
         setRecursionDepth={setRecursionDepth}
+        pathfinderStrategy={pathfinderStrategy}
+        setPathfinderStrategy={setPathfinderStrategy}
+        pathConstraints={pathConstraints}
+        setPathConstraints={setPathConstraints}
         nodeSizeScale={nodeSizeScale}
         setNodeSizeScale={setNodeSizeScale}
         includeBacklinks={includeBacklinks}
         setIncludeBacklinks={setIncludeBacklinks}
         apiContactEmail={apiContactEmail}
         setApiContactEmail={setApiContactEmail}
+        wikiSources={listWikiSources()}
+        wikiSourceId={activeWikiSource.id}
+        setWikiSourceId={setWikiSourceId}
+        onAddCustomWikiSource={handleAddCustomWikiSource}
+        cacheStats={cacheStats}
+        onRefreshCacheStats={refreshCacheStats}
+        onClearCache={handleClearCache}
         nodeCount={nodeCount}
         linkCount={linkCount}
         canPruneLeaves={nodeCount > 0}
@@ -939,6 +1871,13 @@ const WikiWebExplorer = () => {
         onPruneLeaves={() => pruneLeafNodes(setError)}
         onDeleteSelection={handleDeleteSelection}
         onOpenLogs={() => setLogPanelOpen(true)}
+        onExportMap={handleExportMap}
+        onCopyShareLink={() => { void handleCopyShareLink(); }}
+        onExportGraph={handleExportGraph}
+        onExportImage={(format, options) => { void handleExportImage(format, options); }}
+        onImportMap={(file) => { void handleImportMap(file); }}
+        onOpenMapLibrary={() => setMapLibraryOpen(true)}
+        onOpenAnalytics={() => setAnalyticsOpen(true)}
       />
 
       <SearchStatusOverlay
@@ -962,15 +1901,83 @@ const WikiWebExplorer = () => {
         persistentVisible={keepSearching || searchQueue.length > 0 || Boolean(activeSearch)}
         isTouchDevice={isTouchDevice}
         onOpenLogs={() => setLogPanelOpen(true)}
+        onComparePaths={() => setPathComparisonOpen(true)}
+      />
+
+      <DisambiguationChooser
+        title={disambiguationChoice?.title ?? null}
+        meanings={disambiguationChoice?.meanings ?? null}
+        isOnMap={Boolean(disambiguationChoice?.nodeId)}
+        onChoose={handleChooseMeaning}
+        onAddAnyway={() => {
+          const choice = disambiguationChoice;
+          setDisambiguationChoice(null);
+          if (choice) addTopic(choice.title, includeBacklinks, setLoading, setError, choice.source).catch(() => { });
+        }}
+        onClose={() => setDisambiguationChoice(null)}
+      />
+
+      <PathComparisonPanel
+        isOpen={pathComparisonOpen}
+        paths={foundPaths.map(found => found.path)}
+        highlightedPath={pathNodes.size > 0 ? Array.from(pathNodes) : null}
+        getHopContext={(fromId, toId) => graphManagerRef.current?.getLinkById(`${fromId}-${toId}`)?.context}
+        onShowPath={(path) => {
+          setPathNodes(new Set(path));
+          graphManagerRef.current?.centerOnNode(path[Math.floor(path.length / 2)]);
+        }}
+        onClose={() => setPathComparisonOpen(false)}
+      />
+
+      <AnalyticsPanel
+        isOpen={analyticsOpen}
+        analytics={analytics}
+        selectedCount={bulkSelectedNodes.length}
+        onSelectNodes={(nodeIds) => graphManagerRef.current?.selectNodes(nodeIds)}
+        onFocusNode={(nodeId) => {
+          const gm = graphManagerRef.current;
+          if (!gm) return;
+          gm.highlightNode(nodeId);
+          gm.centerOnNode(nodeId);
+        }}
+        onClose={() => setAnalyticsOpen(false)}
       />
 
       <NodeDetailsPanel
         clickedNode={clickedNode}
         clickedSummary={clickedSummary}
-        clickedDescription={clickedNode ? nodeDescriptions[clickedNode.title] : undefined}
-        clickedCategories={clickedNode ? nodeCategories[clickedNode.title] : undefined}
-        clickedBacklinkCount={clickedNode ? nodeBacklinkCounts[clickedNode.title] : undefined}
+        clickedDescription={clickedNode ? nodeDescriptions[clickedNode.id] : undefined}
+        clickedCategories={clickedNode ? nodeCategories[clickedNode.id] : undefined}
+        clickedBacklinkCount={clickedNode ? nodeBacklinkCounts[clickedNode.id] : undefined}
+        clickedAliases={clickedNode && clickedAliases?.nodeId === clickedNode.id ? clickedAliases.aliases : undefined}
+        clickedIsDisambiguation={Boolean(clickedNode && graphManagerRef.current?.getNodeMetadata(clickedNode.id)?.isDisambiguation)}
+        clickedLangLinks={clickedNode && clickedLangLinks?.nodeId === clickedNode.id
+          ? clickedLangLinks.langLinks.map(langLink => {
+            const editionSource = getLanguageEditionSource(getNodeSource(clickedNode.id), langLink.language);
+            return {
+              ...langLink,
+              isOnMap: Boolean(editionSource && graphManagerRef.current?.getNodeIds().includes(toNodeId(langLink.title, editionSource))),
+            };
+          })
+          : undefined}
+        onAddLangLink={handleAddLangLink}
+        clickedCategoryMembers={clickedNode && clickedCategoryMembers?.nodeId === clickedNode.id
+          ? [...clickedCategoryMembers.members.subcategories, ...clickedCategoryMembers.members.pages].map(title => ({
+            title,
+            isOnMap: Boolean(graphManagerRef.current?.hasNode(toNodeId(title, getNodeSource(clickedNode.id)))),
+          }))
+          : undefined}
+        onAddCategory={handleAddCategory}
+        onExpandCategory={handleExpandCategory}
+        onAddCategoryMember={handleAddCategoryMember}
+        clickedSections={clickedNode && clickedSections?.nodeId === clickedNode.id ? clickedSections.sections : undefined}
+        onLoadSections={handleLoadSections}
+        onExpandSections={handleExpandSections}
         nodeThumbnails={nodeThumbnails}
+        articleUrl={clickedNode ? getArticleUrl(getNodeSource(clickedNode.id), clickedNode.title) : ''}
+        sourceName={clickedNode && getNodeSource(clickedNode.id).id !== DEFAULT_WIKI_SOURCE.id
+          ? getNodeSource(clickedNode.id).displayName
+          : undefined}
         layoutMode={layoutMode}
         isPinned={Boolean(clickedNodeMeta?.isPinned)}
         isBranchCollapsed={Boolean(clickedNodeMeta?.isCollapsed)}
@@ -991,6 +1998,21 @@ const WikiWebExplorer = () => {
 
       <LogPanel isOpen={logPanelOpen} onClose={() => setLogPanelOpen(false)} />
 
+      <SharedMapReplayStatus progress={shareReplay} onCancel={cancelSharedMapReplay} />
+
+      <MapLibraryPanel
+        isOpen={mapLibraryOpen}
+        maps={savedMaps}
+        currentMapId={currentMapId}
+        isAvailable={mapLibrary.isAvailable()}
+        onClose={() => setMapLibraryOpen(false)}
+        onOpen={(id) => { void handleOpenSavedMap(id); }}
+        onRename={handleRenameSavedMap}
+        onDuplicate={handleDuplicateSavedMap}
+        onDelete={handleDeleteSavedMap}
+        onNewMap={handleNewMap}
+      />
+
       <ConnectionStatusBar
         link={displayedLink}
         linkInsight={displayedLinkInsight}
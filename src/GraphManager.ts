@@ -3,8 +3,61 @@ import {
   collectBranchNodeIds,
   computeForestLayout,
   type ForestLayoutMetadata,
+  type ForestLayoutResult,
 } from './features/layout/forestLayout';
-import { type LayoutMode } from './features/layout/layoutConfig';
+import { OFF_THREAD_LAYOUT_MIN_NODES, type LayoutMode } from './features/layout/layoutConfig';
+import { computeForestLayoutOffThread, isComputeWorkerAvailable } from './features/compute-worker/computeClient';
+import {
+  LABEL_ZOOM_THRESHOLD,
+  THUMBNAIL_ZOOM_THRESHOLD,
+  getLabelPriority,
+  getViewportBox,
+  isCircleInBox,
+  isSegmentInBox,
+  placeLabels,
+  type LabelCandidate,
+} from './features/rendering/levelOfDetail';
+import { detectCommunities, type Community } from './features/clustering/communities';
+import { analyzeGraph, computePageRankById, type GraphAnalytics } from './features/analytics/graphMetrics';
+import {
+  MISSING_METRIC_COLOR,
+  getMetricColor,
+  getMetricDomain,
+  getMetricLegend,
+  normalizeMetric,
+  type ExternalMetricValues,
+  type MetricDomain,
+  type MetricLegend,
+  type NodeMetric,
+} from './features/encoding/nodeEncoding';
+import { getClusterHullShape } from './features/clustering/clusterHulls';
+import { getCategoryName, getNodeKind } from './features/categories/categoryNodes';
+import {
+  CanvasGraphRenderer,
+  type CanvasHullItem,
+  type CanvasLinkItem,
+  type CanvasLinkStyle,
+  type CanvasNodeItem,
+  type CanvasNodeStyle,
+} from './features/rendering/canvasRenderer';
+
+// Maps this large draw to a canvas instead of SVG, and go back to SVG once
+// they shrink below the lower bound (the gap stops flip-flopping at the edge).
+const CANVAS_RENDERER_MIN_NODES = 400;
+const SVG_RENDERER_MAX_NODES = 320;
+// Labels and off-screen culling follow the simulation at most this often.
+const DETAIL_TICK_INTERVAL_MS = 160;
+
+const CATEGORY_NODE_COLOR = '#14b8a6';
+// Side of a category node's square relative to the radius of a page node of the same weight.
+const CATEGORY_NODE_SIDE_RATIO = 1.7;
+// Disambiguation pages are grey with a dashed outline: a fork in the road, not a topic.
+const DISAMBIGUATION_NODE_COLOR = '#78716c';
+const DISAMBIGUATION_STROKE_DASH = [3, 2];
+// Communities smaller than this get their color but no bubble.
+const CLUSTER_HULL_MIN_MEMBERS = 3;
+
+const PATH_GRADIENT_STOPS: [string, string] = ['#22d3ee', '#a855f7'];
 
 const TREE_META_KEYS = new Set([
   'primaryParentId',
@@ -15,6 +68,12 @@ const TREE_META_KEYS = new Set([
   'isCollapsed',
 ]);
 
+// Unlinked mentions are suggestions rather than links, so they stay out of
+// degree, the link force, clustering and the graph metrics.
+const isStructuralLink = (link: Link) => link.type !== 'mention';
+// Links that don't stand for a hyperlink between two pages.
+const NON_HYPERLINK_TYPES = new Set(['langlink', 'mention', 'category']);
+
 const createDefaultNodeMetadata = (): NodeMetadata => ({
   isUserTyped: false,
   isAutoDiscovered: false,
@@ -34,6 +93,7 @@ const createDefaultNodeMetadata = (): NodeMetadata => ({
   originDepth: undefined,
   colorSeed: undefined,
   colorRole: undefined,
+  clusterId: undefined,
   primaryParentId: undefined,
   treeId: undefined,
   layoutDepth: undefined,
@@ -58,8 +118,9 @@ export interface Link {
   source: string | Node;
   target: string | Node;
   id: string; // Made required for easier tracking
-  type?: string; // 'manual', 'auto', 'expand', 'path'
+  type?: string; // 'manual', 'auto', 'expand', 'path', 'langlink', 'mention', 'category'
   context?: string; // Text context from Wikipedia
+  section?: string; // Article section the context came from; unset for the lead
   layoutRole?: 'primary' | 'cross';
 }
 
@@ -69,6 +130,24 @@ export type GraphStateSnapshot = {
   nodeMetadata: Record<string, NodeMetadata>;
 };
 
+export type ViewTransform = { x: number; y: number; k: number };
+
+export type GraphRendererKind = 'svg' | 'canvas';
+
+/**
+ * 'origin' colors nodes by the tree they grew from, 'cluster' by detected
+ * community, 'metric' by the chosen color metric.
+ */
+export type NodeColorMode = 'origin' | 'cluster' | 'metric';
+
+export type EncodingLegend = { size: MetricLegend | null; color: MetricLegend | null };
+
+export type ExportFrame = {
+  width: number;
+  height: number;
+  transform: ViewTransform;
+};
+
 export interface GraphCallbacks {
   onNodeClick?: (node: Node, event: MouseEvent) => void;
   onNodeDoubleClick?: (node: Node, event: MouseEvent) => void;
@@ -80,6 +159,8 @@ export interface GraphCallbacks {
   onLinksApplied?: (args: { added: Link[]; updated: Link[] }) => void;
   onStatsUpdate?: (stats: { nodeCount: number; linkCount: number }) => void;
   onSelectionChange?: (selectedNodes: Node[]) => void;
+  onClustersChange?: (clusters: Community[]) => void;
+  onEncodingLegendChange?: (legend: EncodingLegend) => void;
 }
 
 export interface NodeMetadata {
@@ -107,6 +188,10 @@ export interface NodeMetadata {
   isPinned?: boolean;
   manualPosition?: { x: number; y: number };
   isCollapsed?: boolean;
+  wikiSourceId?: string;
+  clusterId?: string;
+  /** Set once the page is known to be a disambiguation page. */
+  isDisambiguation?: boolean;
 }
 
 type LinkInsight = {
@@ -117,7 +202,7 @@ type LinkInsight = {
 };
 
 export type LinkInsightSummary = {
-  role: 'primary' | 'cross' | 'backlink' | 'path';
+  role: 'primary' | 'cross' | 'backlink' | 'path' | 'langlink' | 'mention' | 'category';
   tier: 'light' | 'moderate' | 'strong';
   sharedNeighbors: number;
   sharedNeighborRatio: number;
@@ -134,6 +219,7 @@ export class GraphManager {
   private g!: d3.Selection<SVGGElement, unknown, null, undefined>;
   private linksGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
   private nodesGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
+  private hullsGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
   private defs!: d3.Selection<SVGDefsElement, unknown, null, undefined>;
   private brushGroup!: d3.Selection<SVGGElement, unknown, null, undefined>;
   private zoomBehavior!: d3.ZoomBehavior<SVGSVGElement, unknown>;
@@ -153,10 +239,25 @@ export class GraphManager {
   private childrenByParent: Map<string, string[]> = new Map();
   private hiddenNodeIds: Set<string> = new Set();
   private forestTargets: Map<string, { x: number; y: number }> = new Map();
+  /** Bumped per forest layout so stale worker results are dropped. */
+  private layoutRequestId = 0;
+  private isDestroyed = false;
   private layoutMode: LayoutMode = 'web';
   private treeSpacing: number = 190;
   private branchSpread: number = 160;
   private showCrossLinks: boolean = true;
+  private showMentionLinks: boolean = false;
+  private colorMode: NodeColorMode = 'origin';
+  private clusters: Community[] = [];
+  private clusterLabels: Map<string, string> = new Map();
+
+  // Visual encoding: which metric drives node size and (in 'metric' color mode) node color.
+  private sizeMetric: NodeMetric = 'degree';
+  private colorMetric: NodeMetric = 'pageRank';
+  private externalMetrics: ExternalMetricValues = {};
+  private metricCache: Map<NodeMetric, { values: Map<string, number>; domain: MetricDomain | null }> = new Map();
+  private pageRankById: Map<string, number> | null = null;
+  private lastLegendKey = '';
 
   private callbacks: GraphCallbacks = {};
   private width: number;
@@ -168,6 +269,19 @@ export class GraphManager {
   private dragThreshold = 5;
   private dragStartPos: { x: number; y: number } | null = null;
 
+  // Canvas backend for large maps; the SVG stays on top for zoom, brush and pointer input.
+  private renderer: GraphRendererKind = 'svg';
+  private canvasRenderer: CanvasGraphRenderer | null = null;
+  private canvasHitSurface: d3.Selection<SVGRectElement, unknown, null, undefined> | null = null;
+  private hoveredCanvasLinkId: string | null = null;
+  /** Set while an export snapshot is taken: the SVG draws every node at full detail. */
+  private isExporting = false;
+
+  // Level of detail: thumbnails collapse and labels thin out as the map zooms out.
+  private showThumbnails = true;
+  private detailFrameId: number | null = null;
+  private lastTickDetailUpdate = 0;
+
   constructor(svgElement: SVGSVGElement, callbacks: GraphCallbacks = {}) {
     this.svg = d3.select(svgElement);
     this.callbacks = callbacks;
@@ -192,7 +306,7 @@ export class GraphManager {
     this.svg.selectAll('*').remove();
 
     // Create main group for zoom/pan
-    this.g = this.svg.append('g');
+    this.g = this.svg.append('g').attr('class', 'graph-viewport');
 
     // Setup zoom
     this.zoomBehavior = d3.zoom<SVGSVGElement, unknown>()
@@ -201,6 +315,8 @@ export class GraphManager {
       .on('zoom', (event) => {
         this.currentZoomTransform = event.transform;
         this.g.attr('transform', event.transform);
+        this.canvasRenderer?.setTransform(event.transform);
+        this.scheduleLevelOfDetail();
       });
 
     this.svg.call(this.zoomBehavior)
@@ -216,7 +332,8 @@ export class GraphManager {
       .on('end', (event) => this.dragSelectionEnd(event));
 
     this.svg.call(selectionDrag);
-    // Create groups for links and nodes
+    // Create groups for cluster bubbles, links and nodes
+    this.hullsGroup = this.g.append('g').attr('class', 'cluster-hulls');
     this.linksGroup = this.g.append('g').attr('class', 'links');
     this.nodesGroup = this.g.append('g').attr('class', 'nodes');
 
@@ -283,7 +400,8 @@ export class GraphManager {
     this.simulation = d3.forceSimulation<Node>(this.nodes)
       .force('link', d3.forceLink<Node, Link>(this.links)
         .id((d: any) => d.id)
-        .distance((link) => this.getLinkDistance(link)))
+        .distance((link) => this.getLinkDistance(link))
+        .strength((link) => this.getLinkStrength(link)))
       .force('charge', d3.forceManyBody().strength((node) => this.getChargeStrength(node as Node)))
       .force('center', d3.forceCenter(this.width / 2, this.height / 2))
       .force('collision', d3.forceCollide().radius((d: any) => {
@@ -308,6 +426,8 @@ export class GraphManager {
   }
 
   private rebuildGraphCaches() {
+    this.metricCache.clear();
+    this.pageRankById = null;
     this.degreeById = new Map();
     this.neighborIdsById = new Map();
     this.linkInsightsById = new Map();
@@ -322,8 +442,10 @@ export class GraphManager {
       const sourceId = typeof link.source === 'object' ? link.source.id : link.source;
       const targetId = typeof link.target === 'object' ? link.target.id : link.target;
 
-      this.degreeById.set(sourceId, (this.degreeById.get(sourceId) || 0) + 1);
-      this.degreeById.set(targetId, (this.degreeById.get(targetId) || 0) + 1);
+      if (isStructuralLink(link)) {
+        this.degreeById.set(sourceId, (this.degreeById.get(sourceId) || 0) + 1);
+        this.degreeById.set(targetId, (this.degreeById.get(targetId) || 0) + 1);
+      }
       if (!this.neighborIdsById.has(sourceId)) this.neighborIdsById.set(sourceId, new Set());
       if (!this.neighborIdsById.has(targetId)) this.neighborIdsById.set(targetId, new Set());
       this.neighborIdsById.get(sourceId)!.add(targetId);
@@ -386,7 +508,7 @@ export class GraphManager {
       metadataById.set(node.id, this.getMetadata(node.id));
     });
 
-    const forestLayout = computeForestLayout({
+    const input = {
       nodes: this.nodes,
       metadataById,
       width: this.width,
@@ -394,8 +516,30 @@ export class GraphManager {
       treeSpacing: this.treeSpacing,
       branchSpread: this.branchSpread,
       layoutMode: this.layoutMode,
+    };
+    const requestId = ++this.layoutRequestId;
+
+    if (this.nodes.length < OFF_THREAD_LAYOUT_MIN_NODES || !isComputeWorkerAvailable()) {
+      this.applyForestLayout(computeForestLayout(input));
+      return;
+    }
+
+    // Until the worker answers, the previous targets and visibility stay in place.
+    void computeForestLayoutOffThread({
+      ...input,
+      nodes: this.nodes.map(({ id, x, y }) => ({ id, x, y })),
+    }).then((forestLayout) => {
+      if (requestId !== this.layoutRequestId || this.isDestroyed) return;
+      this.applyForestLayout(forestLayout);
+      // forceX/forceY cache their targets, so setting the strength again re-reads them.
+      (this.simulation.force('x') as d3.ForceX<Node>).strength((node) => this.getTargetStrength(node));
+      (this.simulation.force('y') as d3.ForceY<Node>).strength((node) => this.getTargetStrength(node));
+      this.updateDOM();
+      this.simulation.alpha(Math.max(this.simulation.alpha(), 0.3)).restart();
     });
+  }
 
+  private applyForestLayout(forestLayout: ForestLayoutResult) {
     this.childrenByParent = forestLayout.childrenByParent;
     this.hiddenNodeIds = forestLayout.hiddenNodeIds;
     this.forestTargets = forestLayout.targets;
@@ -407,13 +551,17 @@ export class GraphManager {
 
     this.rebuildGraphCaches();
     this.rebuildTreeCaches();
+    this.notifyEncodingLegend();
 
     if (structureChanged) {
+      this.detectClusters();
       this.simulation.nodes(this.nodes);
       (this.simulation.force('link') as d3.ForceLink<any, Link>).links(this.links);
     }
 
-    (this.simulation.force('link') as d3.ForceLink<any, Link>).distance((link) => this.getLinkDistance(link));
+    (this.simulation.force('link') as d3.ForceLink<any, Link>)
+      .distance((link) => this.getLinkDistance(link))
+      .strength((link) => this.getLinkStrength(link));
     (this.simulation.force('charge') as d3.ForceManyBody<Node>).strength((node) => this.getChargeStrength(node));
     (this.simulation.force('collision') as d3.ForceCollide<Node>).radius((node) => this.getCollisionRadius(node) + 15);
     (this.simulation.force('x') as d3.ForceX<Node>).strength((node) => this.getTargetStrength(node));
@@ -426,12 +574,20 @@ export class GraphManager {
   }
 
   private getCollisionRadius(node: Node) {
-    const connections = this.degreeById.get(node.id) || 0;
     const meta = this.getMetadata(node.id);
     const layoutBoost = meta.colorRole === 'root'
       ? (this.usesGuidedTreeLayout() ? (this.isStructuredMapMode() ? 8 : 6) : 10)
       : 0;
-    return (Math.min(30 + connections * 0.5, 60) * this.nodeSizeScale) + layoutBoost;
+    return (this.getBaseRadius(node.id) * this.nodeSizeScale) + layoutBoost;
+  }
+
+  /** 30 to 60 before scaling; nodes without a value for the size metric stay smallest. */
+  private getBaseRadius(nodeId: string) {
+    if (this.sizeMetric === 'degree') {
+      return Math.min(30 + (this.degreeById.get(nodeId) || 0) * 0.5, 60);
+    }
+    const t = this.getNormalizedMetric(this.sizeMetric, nodeId);
+    return 30 + (t ?? 0) * 30;
   }
 
   private getWebRootAnchor(nodeId: string) {
@@ -528,6 +684,14 @@ export class GraphManager {
       : Math.max(this.treeSpacing * 0.58, 92);
   }
 
+  /** d3's default link strength, counted over structural links only; mentions exert no pull. */
+  private getLinkStrength(link: Link) {
+    if (!isStructuralLink(link)) return 0;
+    const sourceId = typeof link.source === 'object' ? link.source.id : link.source;
+    const targetId = typeof link.target === 'object' ? link.target.id : link.target;
+    return 1 / Math.max(1, Math.min(this.degreeById.get(sourceId) || 0, this.degreeById.get(targetId) || 0));
+  }
+
   private hasTreeMetadataChange(metadata: Partial<NodeMetadata>) {
     return Object.keys(metadata).some((key) => TREE_META_KEYS.has(key));
   }
@@ -538,6 +702,7 @@ export class GraphManager {
 
     if (this.hiddenNodeIds.has(sourceId) || this.hiddenNodeIds.has(targetId)) return false;
     if (this.usesGuidedTreeLayout() && !this.showCrossLinks && link.layoutRole === 'cross') return false;
+    if (!this.showMentionLinks && link.type === 'mention') return false;
     return true;
   }
 
@@ -638,6 +803,7 @@ export class GraphManager {
           }
           if (link.context && !existingLink.context) {
             existingLink.context = link.context; // Enrich
+            if (link.section) existingLink.section = link.section;
             if (!updatedLinks.includes(existingLink)) updatedLinks.push(existingLink);
           }
         }
@@ -906,6 +1072,114 @@ export class GraphManager {
     this.updateStyleState();
   }
 
+  /** Unlinked-mention links are low-confidence suggestions, so they stay hidden unless asked for. */
+  setShowMentionLinks(show: boolean) {
+    this.showMentionLinks = show;
+    this.updateStyleState();
+  }
+
+  setColorMode(mode: NodeColorMode) {
+    if (this.colorMode === mode) return;
+    this.colorMode = mode;
+    this.notifyEncodingLegend();
+    this.updateStyleState();
+    this.updateClusterHulls();
+  }
+
+  getColorMode() {
+    return this.colorMode;
+  }
+
+  setSizeMetric(metric: NodeMetric) {
+    if (this.sizeMetric === metric) return;
+    this.sizeMetric = metric;
+    this.refreshDerivedState({ reheat: true });
+    this.updateDOM();
+  }
+
+  setColorMetric(metric: NodeMetric) {
+    if (this.colorMetric === metric) return;
+    this.colorMetric = metric;
+    this.notifyEncodingLegend();
+    if (this.colorMode === 'metric') this.updateStyleState();
+  }
+
+  /**
+   * Values fetched from the wiki, keyed by node id and merged per metric.
+   * Nodes missing from a metric's record are drawn as having no value.
+   */
+  setExternalMetrics(values: ExternalMetricValues) {
+    this.externalMetrics = { ...this.externalMetrics, ...values };
+    const changed = (Object.keys(values) as NodeMetric[]).filter(metric => this.metricCache.delete(metric));
+    if (changed.includes(this.sizeMetric)) {
+      this.refreshDerivedState({ reheat: true });
+      this.updateDOM();
+      return;
+    }
+    this.notifyEncodingLegend();
+    if (this.colorMode === 'metric' && changed.includes(this.colorMetric)) this.updateStyleState();
+  }
+
+  getEncodingLegend(): EncodingLegend {
+    const sizeDomain = this.getMetricEntry(this.sizeMetric).domain;
+    const colorDomain = this.colorMode === 'metric' ? this.getMetricEntry(this.colorMetric).domain : null;
+    return {
+      size: sizeDomain ? getMetricLegend(this.sizeMetric, sizeDomain) : null,
+      color: colorDomain ? getMetricLegend(this.colorMetric, colorDomain, true) : null,
+    };
+  }
+
+  private notifyEncodingLegend() {
+    if (!this.callbacks.onEncodingLegendChange) return;
+    const legend = this.getEncodingLegend();
+    const key = JSON.stringify(legend);
+    if (key === this.lastLegendKey) return;
+    this.lastLegendKey = key;
+    this.callbacks.onEncodingLegendChange(legend);
+  }
+
+  /** Values and domain for a metric over the current nodes, cached until the graph or the fetched values change. */
+  private getMetricEntry(metric: NodeMetric) {
+    const cached = this.metricCache.get(metric);
+    if (cached) return cached;
+
+    const values = new Map<string, number>();
+    if (metric === 'degree') {
+      this.nodes.forEach(node => values.set(node.id, this.degreeById.get(node.id) || 0));
+    } else if (metric === 'pageRank') {
+      this.pageRankById ??= computePageRankById(this.nodes.map(node => node.id), this.getLinkEndpoints());
+      this.pageRankById.forEach((value, id) => values.set(id, value));
+    } else if (metric === 'originDepth') {
+      this.nodes.forEach((node) => {
+        const meta = this.getMetadata(node.id);
+        const depth = meta.originDepth ?? meta.layoutDepth;
+        if (depth !== undefined) values.set(node.id, depth);
+      });
+    } else {
+      const external = this.externalMetrics[metric] ?? {};
+      this.nodes.forEach((node) => {
+        const value = external[node.id];
+        if (Number.isFinite(value)) values.set(node.id, value);
+      });
+    }
+
+    const entry = { values, domain: getMetricDomain(values.values()) };
+    this.metricCache.set(metric, entry);
+    return entry;
+  }
+
+  private getNormalizedMetric(metric: NodeMetric, nodeId: string) {
+    const { values, domain } = this.getMetricEntry(metric);
+    const value = values.get(nodeId);
+    return value === undefined || !domain ? null : normalizeMetric(metric, value, domain);
+  }
+
+  /** Names shown on the cluster bubbles, keyed by cluster id. */
+  setClusterLabels(labels: Record<string, string>) {
+    this.clusterLabels = new Map(Object.entries(labels));
+    this.updateClusterHulls();
+  }
+
   getLayoutMode() {
     return this.layoutMode;
   }
@@ -975,6 +1249,20 @@ export class GraphManager {
     this.updateDOM();
   }
 
+  /** Replaces the bulk selection with these nodes, as if they had been brushed. */
+  selectNodes(nodeIds: string[]) {
+    const wanted = new Set(nodeIds);
+    this.callbacks.onSelectionChange?.(this.nodes.filter(node => wanted.has(node.id)));
+  }
+
+  private getLinkEndpoints() {
+    return this.links.filter(isStructuralLink).map(link => ({
+      source: typeof link.source === 'object' ? link.source.id : link.source,
+      target: typeof link.target === 'object' ? link.target.id : link.target,
+      type: link.type,
+    }));
+  }
+
   /**
    * Get current graph statistics
    */
@@ -985,6 +1273,17 @@ export class GraphManager {
     };
   }
 
+  /**
+   * Centrality, cut structure and degree distribution of the current map,
+   * over pages and the hyperlinks between them. Category, language and
+   * mention links would otherwise show up as bridges and cut points.
+   */
+  getAnalytics(): GraphAnalytics {
+    const pageIds = this.nodes.map(node => node.id).filter(id => getNodeKind(id) === 'page');
+    const hyperlinks = this.getLinkEndpoints().filter(({ type }) => !NON_HYPERLINK_TYPES.has(type ?? ''));
+    return analyzeGraph(pageIds, hyperlinks);
+  }
+
   /**
    * Clear all nodes and links
    */
@@ -1000,6 +1299,9 @@ export class GraphManager {
     this.childrenByParent = new Map();
     this.hiddenNodeIds = new Set();
     this.forestTargets = new Map();
+    this.layoutRequestId++;
+    this.clusters = [];
+    this.callbacks.onClustersChange?.([]);
 
     this.simulation.nodes(this.nodes);
     (this.simulation.force('link') as d3.ForceLink<any, Link>).links(this.links);
@@ -1014,6 +1316,8 @@ export class GraphManager {
     this.width = nextW;
     this.height = nextH;
     (this.simulation.force('center') as d3.ForceCenter<Node>).x(this.width / 2).y(this.height / 2);
+    this.canvasRenderer?.resize(this.width, this.height);
+    this.canvasHitSurface?.attr('width', this.width).attr('height', this.height);
     this.refreshDerivedState({ reheat: true });
   }
 
@@ -1094,6 +1398,7 @@ export class GraphManager {
           }
           if (link.context && !existingLink.context) {
             existingLink.context = link.context;
+            if (link.section) existingLink.section = link.section;
             if (!updatedLinks.includes(existingLink)) updatedLinks.push(existingLink);
           }
         }
@@ -1151,6 +1456,13 @@ export class GraphManager {
    * Update DOM - D3 join pattern
    */
   private updateDOM() {
+    this.syncRenderer();
+    if (this.renderer === 'canvas') {
+      this.updateCanvasScene();
+      this.applyLevelOfDetail();
+      return;
+    }
+
     // Update image patterns in defs
     this.updateImagePatterns();
 
@@ -1162,12 +1474,381 @@ export class GraphManager {
 
     // Force initial tick to position elements
     this.onTick();
+    this.applyLevelOfDetail();
   }
 
   private updateStyleState() {
+    if (this.renderer === 'canvas') {
+      this.updateCanvasScene();
+      this.applyLevelOfDetail();
+      return;
+    }
     this.updateLinks();
     this.updateNodes();
     this.onTick();
+    this.applyLevelOfDetail();
+  }
+
+  // --- Canvas renderer ---
+
+  getRenderer(): GraphRendererKind {
+    return this.renderer;
+  }
+
+  /**
+   * Runs `fn` with every node drawn into the SVG at full detail. Image export
+   * clones the SVG, so canvas-rendered maps fill it in for the duration and
+   * culled labels and thumbnails come back.
+   */
+  async withSvgRendering<T>(fn: (svg: SVGSVGElement) => Promise<T>): Promise<T> {
+    this.isExporting = true;
+    this.updateDOM();
+    try {
+      return await fn(this.svg.node()!);
+    } finally {
+      this.isExporting = false;
+      this.updateDOM();
+    }
+  }
+
+  private syncRenderer() {
+    const count = this.nodes.length;
+    let next: GraphRendererKind = this.renderer;
+    if (this.isExporting || count <= SVG_RENDERER_MAX_NODES) next = 'svg';
+    else if (count >= CANVAS_RENDERER_MIN_NODES) next = 'canvas';
+    // The canvas sits next to the SVG, so a detached SVG has to keep drawing itself.
+    if (next === 'canvas' && !this.svg.node()?.parentElement) next = 'svg';
+    if (next === this.renderer) return;
+
+    this.renderer = next;
+    if (next === 'canvas') {
+      this.enterCanvasRenderer();
+    } else {
+      this.setCanvasHover(null, null);
+      this.canvasRenderer?.setScene([], []);
+      this.canvasRenderer?.setHulls([]);
+      this.canvasRenderer?.setVisible(false);
+      this.canvasHitSurface?.style('display', 'none');
+    }
+  }
+
+  private enterCanvasRenderer() {
+    if (!this.canvasRenderer) {
+      const svgNode = this.svg.node()!;
+      this.canvasRenderer = new CanvasGraphRenderer(svgNode.parentElement!, svgNode, this.width, this.height);
+      // Keep the SVG (brush, hit surface) stacked above the canvas.
+      this.svg.style('position', 'relative');
+      this.setupCanvasInput();
+    }
+    this.canvasRenderer.setTransform(this.currentZoomTransform);
+    this.canvasRenderer.setVisible(true);
+    this.canvasHitSurface?.style('display', null);
+
+    this.linksGroup.selectAll('*').interrupt().remove();
+    this.nodesGroup.selectAll('*').interrupt().remove();
+    this.defs.selectAll('pattern, linearGradient.link-gradient').remove();
+  }
+
+  /**
+   * Pointer input for the canvas: a transparent rect under the brush layer
+   * hit-tests against the renderer's spatial index. Presses that miss every
+   * node fall through to zoom/pan on the SVG.
+   */
+  private setupCanvasInput() {
+    const viewport = this.g.node()!;
+    const toWorld = (event: MouseEvent) => d3.pointer(event, viewport);
+
+    this.canvasHitSurface = this.svg.insert<SVGRectElement>('rect', 'g.brush-layer')
+      .attr('class', 'canvas-hit-surface')
+      .attr('width', this.width)
+      .attr('height', this.height)
+      .attr('fill', 'transparent')
+      .style('pointer-events', 'all');
+
+    const nodeDrag = this.setupDrag()
+      .container(() => viewport)
+      .filter((event) => !event.altKey && !event.button)
+      .subject((event) => this.findCanvasNode(event.x, event.y) as any);
+
+    this.canvasHitSurface
+      .call(nodeDrag as any)
+      .on('mousemove', (event: MouseEvent) => {
+        if (event.buttons) return;
+        const [x, y] = toWorld(event);
+        const node = this.findCanvasNode(x, y);
+        const link = node ? undefined : this.findCanvasLink(x, y);
+        this.setCanvasHover(node?.id ?? null, link?.id ?? null, event);
+      })
+      .on('mouseleave', (event: MouseEvent) => this.setCanvasHover(null, null, event))
+      .on('click', (event: MouseEvent) => {
+        const [x, y] = toWorld(event);
+        const node = this.findCanvasNode(x, y);
+        if (node) {
+          if (!event.defaultPrevented) this.callbacks.onNodeClick?.(node, event);
+          return;
+        }
+        const link = this.findCanvasLink(x, y);
+        if (link) {
+          event.stopPropagation();
+          this.callbacks.onLinkClick?.(link, event);
+          return;
+        }
+        this.callbacks.onBackgroundClick?.(event);
+      })
+      .on('dblclick', (event: MouseEvent) => {
+        const [x, y] = toWorld(event);
+        const node = this.findCanvasNode(x, y);
+        if (!node) return;
+        event.stopPropagation();
+        this.callbacks.onNodeDoubleClick?.(node, event);
+      });
+  }
+
+  private findCanvasNode(x: number, y: number): Node | undefined {
+    const nodeId = this.canvasRenderer?.nodeAt(x, y);
+    return nodeId ? this.nodes.find(n => n.id === nodeId) : undefined;
+  }
+
+  private findCanvasLink(x: number, y: number): Link | undefined {
+    const linkId = this.canvasRenderer?.linkAt(x, y);
+    return linkId ? this.getLinkById(linkId) : undefined;
+  }
+
+  private setCanvasHover(nodeId: string | null, linkId: string | null, event?: MouseEvent) {
+    if (linkId !== this.hoveredCanvasLinkId) {
+      const previous = this.hoveredCanvasLinkId ? this.getLinkById(this.hoveredCanvasLinkId) : undefined;
+      const next = linkId ? this.getLinkById(linkId) : undefined;
+      this.hoveredCanvasLinkId = linkId;
+      if (previous && event) this.callbacks.onLinkHoverEnd?.(previous, event);
+      if (next && event) this.callbacks.onLinkHover?.(next, event);
+    }
+    this.canvasHitSurface?.style('cursor', nodeId || linkId ? 'pointer' : 'default');
+    this.canvasRenderer?.setHover({ nodeId, linkId });
+  }
+
+  private updateCanvasScene() {
+    if (!this.canvasRenderer) return;
+    const nodes: CanvasNodeItem[] = this.nodes
+      .filter(node => !this.hiddenNodeIds.has(node.id))
+      .map(node => ({ id: node.id, position: node, style: this.getCanvasNodeStyle(node) }));
+    const links: CanvasLinkItem[] = [];
+    this.links.forEach((link) => {
+      if (typeof link.source !== 'object' || typeof link.target !== 'object' || !this.isLinkVisible(link)) return;
+      links.push({ id: link.id, source: link.source, target: link.target, style: this.getCanvasLinkStyle(link) });
+    });
+    this.canvasRenderer.setScene(nodes, links);
+  }
+
+  private getCanvasNodeStyle(node: Node): CanvasNodeStyle {
+    const meta = this.getMetadata(node.id);
+    const radius = this.getNodeRadius(node, meta);
+    const fill = this.getNodeColor(node.id, meta);
+    return {
+      radius,
+      scale: this.getFocusScale(meta),
+      opacity: this.getNodeOpacity(meta),
+      fill,
+      fillOpacity: this.showsThumbnail(meta) ? 0.3 : 1,
+      stroke: this.getNodeStroke(meta),
+      strokeWidth: this.getNodeStrokeWidth(meta),
+      strokeDash: meta.isDisambiguation ? DISAMBIGUATION_STROKE_DASH : undefined,
+      glow: meta.isFocusTarget ? '#22d3ee' : meta.isFocusNeighbor ? '#a855f7' : undefined,
+      aura: this.getNodeAura(meta, radius, fill),
+      ring: this.getNodeFocusRing(meta, radius),
+      thumbnail: this.showsThumbnail(meta) ? meta.thumbnail : undefined,
+      innerRingWidth: Math.max(0.9, 1.1 * this.nodeSizeScale),
+      innerRingOpacity: this.getInnerRingOpacity(meta),
+      sheenOpacity: this.getSheenOpacity(meta),
+      shape: getNodeKind(node.id) === 'category' ? 'square' : 'circle',
+      label: {
+        lines: this.getLabelLines(getCategoryName(node.title), radius),
+        fontSize: Math.max(7, 9 * this.nodeSizeScale),
+        lineHeight: Math.max(8, 10 * this.nodeSizeScale),
+        fontWeight: this.usesGuidedTreeLayout() ? 700 : 'bold',
+      },
+    };
+  }
+
+  private getCanvasLinkStyle(link: Link): CanvasLinkStyle {
+    const style = this.getLinkStyle(link);
+    return {
+      stroke: style.stroke,
+      strokeWidth: style.strokeWidth,
+      strokeOpacity: style.strokeOpacity,
+      dash: style.dasharray?.split(' ').map(Number),
+      gradient: style.useGradient ? PATH_GRADIENT_STOPS : undefined,
+    };
+  }
+
+  // --- Clusters ---
+
+  /** Re-runs community detection and stamps each node with its clusterId. */
+  private detectClusters() {
+    this.clusters = detectCommunities(this.nodes.map(node => node.id), this.getLinkEndpoints());
+    this.clusters.forEach((cluster) => {
+      cluster.memberIds.forEach((nodeId) => {
+        const meta = this.nodeMetadata.get(nodeId);
+        if (meta) meta.clusterId = cluster.id;
+      });
+    });
+    this.callbacks.onClustersChange?.(this.clusters);
+  }
+
+  private computeClusterHulls(): CanvasHullItem[] {
+    const hulls: CanvasHullItem[] = [];
+    const nodesById = new Map(this.nodes.map(node => [node.id, node]));
+    for (const cluster of this.clusters) {
+      if (cluster.memberIds.length < CLUSTER_HULL_MIN_MEMBERS) break; // Sorted largest first.
+      const members: Array<{ x: number; y: number; radius: number }> = [];
+      cluster.memberIds.forEach((nodeId) => {
+        const node = nodesById.get(nodeId);
+        if (!node || this.hiddenNodeIds.has(nodeId) || node.x === undefined || node.y === undefined) return;
+        members.push({ x: node.x, y: node.y, radius: this.getNodeRadius(node, this.getMetadata(nodeId)) });
+      });
+      if (members.length < CLUSTER_HULL_MIN_MEMBERS) continue;
+      const shape = getClusterHullShape(members);
+      if (!shape) continue;
+      hulls.push({
+        id: cluster.id,
+        ...shape,
+        color: this.getClusterColor(cluster.id),
+        label: this.clusterLabels.get(cluster.id),
+      });
+    }
+    return hulls;
+  }
+
+  /** Bubbles behind each community while coloring by cluster. */
+  private updateClusterHulls() {
+    const hulls = this.colorMode === 'cluster' ? this.computeClusterHulls() : [];
+    if (this.renderer === 'canvas') {
+      this.canvasRenderer?.setHulls(hulls);
+      this.hullsGroup.selectAll('*').remove();
+      return;
+    }
+
+    const groups = this.hullsGroup.selectAll<SVGGElement, CanvasHullItem>('g.cluster-hull')
+      .data(hulls, d => d.id)
+      .join((enter) => {
+        const group = enter.append('g').attr('class', 'cluster-hull').style('pointer-events', 'none');
+        group.append('path').attr('stroke-width', 1.5).attr('fill-opacity', 0.1).attr('stroke-opacity', 0.45);
+        group.append('text')
+          .attr('text-anchor', 'middle')
+          .attr('font-size', 14)
+          .attr('font-weight', 600)
+          .attr('opacity', 0.9);
+        return group;
+      });
+
+    groups.select('path')
+      .attr('d', d => d.path)
+      .attr('fill', d => d.color)
+      .attr('stroke', d => d.color);
+    groups.select('text')
+      .attr('x', d => d.labelX)
+      .attr('y', d => d.labelY)
+      .attr('fill', d => d.color)
+      .text(d => d.label ?? '');
+  }
+
+  // --- Level of detail ---
+
+  private scheduleLevelOfDetail() {
+    if (this.detailFrameId !== null) return;
+    this.detailFrameId = requestAnimationFrame(() => {
+      this.detailFrameId = null;
+      if (this.isDestroyed) return;
+      this.applyLevelOfDetail();
+    });
+  }
+
+  /**
+   * Semantic zoom: collapse thumbnails when zoomed out, keep only labels that
+   * matter and don't collide, and hide SVG elements that are off screen.
+   */
+  private applyLevelOfDetail() {
+    const showThumbnails = this.currentZoomTransform.k >= THUMBNAIL_ZOOM_THRESHOLD;
+    if (showThumbnails !== this.showThumbnails) {
+      this.showThumbnails = showThumbnails;
+      // Restyling re-applies level of detail once it is done.
+      this.updateStyleState();
+      return;
+    }
+
+    if (this.renderer === 'canvas') {
+      this.canvasRenderer?.setLabelIds(this.computeLabelIds());
+      return;
+    }
+
+    const transform = this.currentZoomTransform;
+    const viewport = getViewportBox(this.width, this.height);
+    const labelIds = this.computeLabelIds();
+    const isOnScreen = (node: Node) => this.isExporting || node.x === undefined || node.y === undefined
+      || isCircleInBox(transform.applyX(node.x), transform.applyY(node.y), this.getCollisionRadius(node) * transform.k, viewport);
+
+    const nodeGroups = this.nodesGroup.selectAll<SVGGElement, Node>('g.node');
+    nodeGroups.style('visibility', d => (isOnScreen(d) ? null : 'hidden'));
+    nodeGroups.select('text.node-label').style('visibility', (d: any) =>
+      (!labelIds || labelIds.has((d as Node).id) ? null : 'hidden'));
+
+    this.linksGroup.selectAll<SVGGElement, Link>('g.link').style('visibility', (d) => {
+      const source = d.source as Node;
+      const target = d.target as Node;
+      if (this.isExporting || source.x === undefined || source.y === undefined || target.x === undefined || target.y === undefined) {
+        return null;
+      }
+      const visible = isSegmentInBox(
+        transform.applyX(source.x), transform.applyY(source.y),
+        transform.applyX(target.x), transform.applyY(target.y),
+        viewport
+      );
+      return visible ? null : 'hidden';
+    });
+  }
+
+  /**
+   * Ids of nodes whose label should be drawn, or null for all of them.
+   * Zoomed out, only focus, path, root and hub labels qualify; at any zoom,
+   * on-screen labels that would overlap a higher-priority one are dropped.
+   */
+  private computeLabelIds(): Set<string> | null {
+    if (this.isExporting) return null;
+    const transform = this.currentZoomTransform;
+    const viewport = getViewportBox(this.width, this.height);
+    const zoomedOut = transform.k < LABEL_ZOOM_THRESHOLD;
+    const fontSize = Math.max(7, 9 * this.nodeSizeScale);
+    const lineHeight = Math.max(8, 10 * this.nodeSizeScale);
+    const candidates: LabelCandidate[] = [];
+
+    this.nodes.forEach((node) => {
+      if (this.hiddenNodeIds.has(node.id) || node.x === undefined || node.y === undefined) return;
+      const x = transform.applyX(node.x);
+      const y = transform.applyY(node.y);
+      if (!isCircleInBox(x, y, 0, viewport)) return;
+
+      const meta = this.getMetadata(node.id);
+      const degree = this.degreeById.get(node.id) || 0;
+      const priority = getLabelPriority({
+        isFocus: meta.isFocusTarget,
+        isInPath: meta.isInPath || meta.isPathEndpoint,
+        isRoot: meta.colorRole === 'root',
+        degree,
+      });
+      if (zoomedOut && priority === 0) return;
+
+      const lines = this.getLabelLines(node.title, this.getNodeRadius(node, meta));
+      const scale = this.getFocusScale(meta) * transform.k;
+      candidates.push({
+        id: node.id,
+        x,
+        y,
+        width: Math.max(0, ...lines.map(line => line.length)) * fontSize * 0.6 * scale,
+        height: lines.length * lineHeight * scale,
+        priority: priority * 1000 + Math.min(999, degree),
+      });
+    });
+
+    return placeLabels(candidates);
   }
 
   private updateImagePatterns() {
@@ -1357,6 +2038,9 @@ export class GraphManager {
     const isPathLink = Boolean(sourceMeta?.isInPath && targetMeta?.isInPath);
     const gradientId = isPathLink ? this.getGradientId(sourceId, targetId) : undefined;
     const isBacklink = typeof d.type === 'string' && d.type.includes('backlink');
+    const isLangLink = d.type === 'langlink';
+    const isMention = d.type === 'mention';
+    const isCategoryLink = d.type === 'category';
     const isCrossLink = d.layoutRole === 'cross';
     const isForestPrimary = this.layoutMode === 'forest' && !isCrossLink;
     const isStructuredPrimary = this.isStructuredMapMode() && !isCrossLink;
@@ -1376,6 +2060,12 @@ export class GraphManager {
     const baseStroke = (() => {
       if (isDimmed) return '#555';
       if (isPathLink) return '#00ff88';
+      if (isLangLink) return '#c084fc';
+      if (isMention) return '#94a3b8';
+      if (isCategoryLink) return '#5eead4';
+      if (this.colorMode === 'cluster' && sourceMeta?.clusterId && sourceMeta.clusterId === targetMeta?.clusterId) {
+        return this.getClusterColor(sourceMeta.clusterId);
+      }
       if (isStructuredPrimary && originSeed) {
         return this.hashColor(originSeed, 0.7, 0.64, Math.max(0, Math.min(12, originDepth)) * 7);
       }
@@ -1391,6 +2081,9 @@ export class GraphManager {
     const baseStrokeWidth = (() => {
       if (isDimmed) return 1;
       if (isPathLink) return 4;
+      if (isLangLink) return 2.4;
+      if (isMention) return 1.2;
+      if (isCategoryLink) return 1.8;
       if (isStructuredPrimary) return 3.1 + insight.strength * 1.1;
       if (isForestPrimary) return 3.6 + insight.strength * 1.1;
       if (isCrossLink) return 1.5 + insight.strength * 1.5;
@@ -1400,6 +2093,9 @@ export class GraphManager {
     const baseStrokeOpacity = (() => {
       if (isDimmed) return 0.12;
       if (isPathLink) return 0.85;
+      if (isLangLink) return 0.8;
+      if (isMention) return 0.35;
+      if (isCategoryLink) return 0.6;
       if (isStructuredPrimary) return Math.min(0.9, 0.62 + insight.strength * 0.2);
       if (isForestPrimary) return Math.min(0.95, 0.76 + insight.strength * 0.18);
       if (isCrossLink) return Math.min(0.54, 0.2 + insight.strength * 0.3);
@@ -1431,7 +2127,7 @@ export class GraphManager {
       strokeOpacity,
       useGradient: isPathLink,
       gradientId,
-      dasharray: isCrossLink ? '2 8' : isBacklink ? '6 10' : undefined,
+      dasharray: isLangLink ? '1 6' : isMention ? '1 4' : isCategoryLink ? '5 4' : isCrossLink ? '2 8' : isBacklink ? '6 10' : undefined,
     };
   }
 
@@ -1479,12 +2175,12 @@ export class GraphManager {
 
     enter.append('stop')
       .attr('offset', '0%')
-      .attr('stop-color', '#22d3ee')
+      .attr('stop-color', PATH_GRADIENT_STOPS[0])
       .attr('stop-opacity', 0.9);
 
     enter.append('stop')
       .attr('offset', '100%')
-      .attr('stop-color', '#a855f7')
+      .attr('stop-color', PATH_GRADIENT_STOPS[1])
       .attr('stop-opacity', 0.9);
 
     const merged = enter.merge(gradients as any);
@@ -1552,24 +2248,14 @@ export class GraphManager {
 
       group.attr('opacity', this.getNodeOpacity(meta));
 
-      const radius = this.getCollisionRadius(d) - (this.usesGuidedTreeLayout() && meta.colorRole === 'root' ? 6 : 0);
+      const radius = this.getNodeRadius(d, meta);
       const focusScale = this.getFocusScale(meta);
       const nodeColor = this.getNodeColor(d.id, meta);
+      const isCategory = getNodeKind(d.id) === 'category';
       inner.attr('transform', `scale(${focusScale})`);
 
-      const auraData: Array<{
-        radius: number;
-        fill: string;
-        opacity: number;
-      }> = meta.isFocusTarget
-        ? [{ radius: radius + 16, fill: '#22d3ee', opacity: 0.12 }]
-        : meta.isPathEndpoint
-          ? [{ radius: radius + 14, fill: '#f59e0b', opacity: 0.14 }]
-          : meta.isPinned
-            ? [{ radius: radius + 13, fill: '#e2e8f0', opacity: 0.1 }]
-            : meta.colorRole === 'root'
-              ? [{ radius: radius + 12, fill: nodeColor, opacity: 0.16 }]
-              : [];
+      const aura = this.getNodeAura(meta, radius, nodeColor);
+      const auraData = aura ? [aura] : [];
 
       inner
         .selectAll<SVGCircleElement, typeof auraData[number]>('circle.node-aura')
@@ -1583,17 +2269,8 @@ export class GraphManager {
         .attr('fill', (aura) => aura.fill)
         .attr('fill-opacity', (aura) => aura.opacity);
 
-      const outerRingData: Array<{
-        radius: number;
-        stroke: string;
-        opacity: number;
-        width: number;
-        dasharray?: string;
-      }> = meta.isFocusTarget
-        ? [{ radius: radius + 9, stroke: '#22d3ee', opacity: 0.55, width: 4, dasharray: '10 14' }]
-        : meta.isFocusNeighbor
-          ? [{ radius: radius + 7, stroke: '#a855f7', opacity: 0.22, width: 3 }]
-          : [];
+      const outerRing = this.getNodeFocusRing(meta, radius);
+      const outerRingData = outerRing ? [outerRing] : [];
 
       inner
         .selectAll<SVGCircleElement, typeof outerRingData[number]>('circle.focus-ring')
@@ -1608,11 +2285,11 @@ export class GraphManager {
         .attr('stroke', (ring) => ring.stroke)
         .attr('stroke-opacity', (ring) => ring.opacity)
         .attr('stroke-width', (ring) => ring.width)
-        .attr('stroke-dasharray', (ring) => ring.dasharray ?? null);
+        .attr('stroke-dasharray', (ring) => ring.dash?.join(' ') ?? null);
 
       inner
         .selectAll<SVGCircleElement, string>('circle.thumbnail-fill')
-        .data(meta.thumbnail ? [meta.thumbnail] : [])
+        .data(this.showsThumbnail(meta) ? [meta.thumbnail!] : [])
         .join(
           (enterSelection) => enterSelection.append('circle').attr('class', 'thumbnail-fill'),
           (updateSelection) => updateSelection,
@@ -1622,48 +2299,72 @@ export class GraphManager {
         .attr('fill', `url(#img-${this.sanitizeId(d.id)})`)
         .attr('fill-opacity', 0.4);
 
+      // Category nodes are rounded squares so the taxonomy reads apart from articles.
+      const categorySide = radius * CATEGORY_NODE_SIDE_RATIO;
+      inner
+        .selectAll<SVGRectElement, Node>('rect.node-fill')
+        .data(isCategory ? [d] : [])
+        .join(
+          (enterSelection) => enterSelection.append('rect').attr('class', 'node-fill'),
+          (updateSelection) => updateSelection,
+          (exitSelection) => exitSelection.remove()
+        )
+        .attr('x', -categorySide / 2)
+        .attr('y', -categorySide / 2)
+        .attr('width', categorySide)
+        .attr('height', categorySide)
+        .attr('rx', categorySide * 0.22)
+        .attr('fill', nodeColor)
+        .attr('stroke', this.getNodeStroke(meta))
+        .attr('stroke-width', this.getNodeStrokeWidth(meta))
+        .attr('filter', meta.isFocusTarget ? 'url(#focus-glow)' : meta.isFocusNeighbor ? 'url(#neighbor-glow)' : null);
+
       inner
         .selectAll<SVGCircleElement, Node>('circle.node-fill')
-        .data([d])
+        .data(isCategory ? [] : [d])
         .join(
           (enterSelection) => enterSelection.append('circle').attr('class', 'node-fill'),
-          (updateSelection) => updateSelection
+          (updateSelection) => updateSelection,
+          (exitSelection) => exitSelection.remove()
         )
         .attr('r', radius)
         .attr('fill', nodeColor)
-        .attr('fill-opacity', meta.thumbnail ? 0.3 : 1)
+        .attr('fill-opacity', this.showsThumbnail(meta) ? 0.3 : 1)
         .attr('stroke', this.getNodeStroke(meta))
         .attr('stroke-width', this.getNodeStrokeWidth(meta))
+        .attr('stroke-dasharray', meta.isDisambiguation ? DISAMBIGUATION_STROKE_DASH.join(' ') : null)
         .attr('filter', meta.isFocusTarget ? 'url(#focus-glow)' : meta.isFocusNeighbor ? 'url(#neighbor-glow)' : null);
 
       inner
         .selectAll<SVGCircleElement, Node>('circle.node-inner-ring')
-        .data([d])
+        .data(isCategory ? [] : [d])
         .join(
           (enterSelection) => enterSelection.append('circle').attr('class', 'node-inner-ring'),
-          (updateSelection) => updateSelection
+          (updateSelection) => updateSelection,
+          (exitSelection) => exitSelection.remove()
         )
         .attr('r', Math.max(8, radius * 0.74))
         .attr('fill', 'none')
         .attr('stroke', 'rgba(255,255,255,0.22)')
         .attr('stroke-width', Math.max(0.9, 1.1 * this.nodeSizeScale))
-        .attr('stroke-opacity', meta.thumbnail ? 0.12 : meta.isDimmed ? 0.1 : 0.24);
+        .attr('stroke-opacity', this.getInnerRingOpacity(meta));
 
       inner
         .selectAll<SVGEllipseElement, Node>('ellipse.node-sheen')
-        .data([d])
+        .data(isCategory ? [] : [d])
         .join(
           (enterSelection) => enterSelection.append('ellipse').attr('class', 'node-sheen'),
-          (updateSelection) => updateSelection
+          (updateSelection) => updateSelection,
+          (exitSelection) => exitSelection.remove()
         )
         .attr('rx', Math.max(6, radius * 0.38))
         .attr('ry', Math.max(4, radius * 0.22))
         .attr('cx', -radius * 0.16)
         .attr('cy', -radius * 0.22)
         .attr('fill', 'rgba(255,255,255,0.16)')
-        .attr('fill-opacity', meta.thumbnail ? 0.08 : meta.isDimmed ? 0.06 : 0.16);
+        .attr('fill-opacity', this.getSheenOpacity(meta));
 
-      this.addTextLabel(inner as any, d.title, radius);
+      this.addTextLabel(inner as any, getCategoryName(d.title), radius);
     });
 
     // Setup click handlers
@@ -1698,6 +2399,12 @@ export class GraphManager {
         }
       });
 
+    // An export snapshot has to show nodes at full size straight away.
+    if (this.isExporting) {
+      nodeGroups.exit().remove();
+      return;
+    }
+
     // Exit
     enter
       .attr('opacity', 0)
@@ -1726,11 +2433,48 @@ export class GraphManager {
       .remove();
   }
 
-  private getNodeColor(_nodeId: string, meta: Partial<NodeMetadata>): string {
+  private getNodeRadius(node: Node, meta: Partial<NodeMetadata>) {
+    return this.getCollisionRadius(node) - (this.usesGuidedTreeLayout() && meta.colorRole === 'root' ? 6 : 0);
+  }
+
+  private getNodeAura(meta: Partial<NodeMetadata>, radius: number, nodeColor: string) {
+    if (meta.isFocusTarget) return { radius: radius + 16, fill: '#22d3ee', opacity: 0.12 };
+    if (meta.isPathEndpoint) return { radius: radius + 14, fill: '#f59e0b', opacity: 0.14 };
+    if (meta.isPinned) return { radius: radius + 13, fill: '#e2e8f0', opacity: 0.1 };
+    if (meta.colorRole === 'root') return { radius: radius + 12, fill: nodeColor, opacity: 0.16 };
+    return undefined;
+  }
+
+  private getNodeFocusRing(meta: Partial<NodeMetadata>, radius: number) {
+    if (meta.isFocusTarget) return { radius: radius + 9, stroke: '#22d3ee', opacity: 0.55, width: 4, dash: [10, 14] };
+    if (meta.isFocusNeighbor) return { radius: radius + 7, stroke: '#a855f7', opacity: 0.22, width: 3 };
+    return undefined;
+  }
+
+  private showsThumbnail(meta: Partial<NodeMetadata>) {
+    return Boolean(meta.thumbnail) && (this.showThumbnails || this.isExporting);
+  }
+
+  private getInnerRingOpacity(meta: Partial<NodeMetadata>) {
+    return this.showsThumbnail(meta) ? 0.12 : meta.isDimmed ? 0.1 : 0.24;
+  }
+
+  private getSheenOpacity(meta: Partial<NodeMetadata>) {
+    return this.showsThumbnail(meta) ? 0.08 : meta.isDimmed ? 0.06 : 0.16;
+  }
+
+  private getNodeColor(nodeId: string, meta: Partial<NodeMetadata>): string {
     if (meta.isInPath) return '#00ff88'; // Green for path
     if (meta.isCurrentlyExploring) return '#ffdd00'; // Yellow for currently exploring
     if (meta.isPathEndpoint) return '#ff8800'; // Orange for selected path endpoints
     if (meta.isBulkSelected) return '#ff8800'; // Orange for bulk-selected
+    if (this.colorMode === 'cluster' && meta.clusterId) return this.getClusterColor(meta.clusterId);
+    if (this.colorMode === 'metric') {
+      const t = this.getNormalizedMetric(this.colorMetric, nodeId);
+      return t === null ? MISSING_METRIC_COLOR : getMetricColor(t);
+    }
+    if (getNodeKind(nodeId) === 'category') return CATEGORY_NODE_COLOR;
+    if (meta.isDisambiguation) return DISAMBIGUATION_NODE_COLOR;
     if (meta.originSeed) {
       const depth = Math.max(0, Math.min(12, meta.layoutDepth ?? meta.originDepth ?? 0));
       const hueOffset = depth * (this.usesGuidedTreeLayout() ? 11 : 14);
@@ -1748,6 +2492,10 @@ export class GraphManager {
     return '#0088ff'; // Default blue (fallback)
   }
 
+  private getClusterColor(clusterId: string) {
+    return this.hashColor(clusterId, 0.7, 0.56);
+  }
+
   private hashColor(seed: string, saturation: number = 0.65, lightness: number = 0.52, hueOffset: number = 0): string {
     let hash = 0;
     for (let i = 0; i < seed.length; i++) {
@@ -1809,21 +2557,8 @@ export class GraphManager {
     return 1;
   }
 
-  private addTextLabel(group: d3.Selection<SVGGElement, any, any, any>, title: string, radius: number) {
-    const textElement = group
-      .selectAll<SVGTextElement, string>('text.node-label')
-      .data([title])
-      .join(
-        (enterSelection) => enterSelection.append('text').attr('class', 'node-label'),
-        (updateSelection) => updateSelection
-      )
-      .attr('text-anchor', 'middle')
-      .attr('fill', '#ffffff')
-      .attr('font-size', `${Math.max(7, 9 * this.nodeSizeScale)}px`)
-      .attr('font-weight', this.usesGuidedTreeLayout() ? 700 : 'bold')
-      .attr('pointer-events', 'none');
-
-    // Simple text wrapping
+  /** Title wrapped to at most three lines that fit inside the node. */
+  private getLabelLines(title: string, radius: number) {
     const words = title.split(/\s+/);
     const maxCharsPerLine = Math.max(6, Math.round(10 * (radius / (45 * this.nodeSizeScale || 1))));
     const maxLines = 3;
@@ -1846,6 +2581,24 @@ export class GraphManager {
       lines[maxLines - 1] = lines[maxLines - 1].substring(0, maxCharsPerLine - 2) + '...';
     }
 
+    return lines;
+  }
+
+  private addTextLabel(group: d3.Selection<SVGGElement, any, any, any>, title: string, radius: number) {
+    const textElement = group
+      .selectAll<SVGTextElement, string>('text.node-label')
+      .data([title])
+      .join(
+        (enterSelection) => enterSelection.append('text').attr('class', 'node-label'),
+        (updateSelection) => updateSelection
+      )
+      .attr('text-anchor', 'middle')
+      .attr('fill', '#ffffff')
+      .attr('font-size', `${Math.max(7, 9 * this.nodeSizeScale)}px`)
+      .attr('font-weight', this.usesGuidedTreeLayout() ? 700 : 'bold')
+      .attr('pointer-events', 'none');
+
+    const lines = this.getLabelLines(title, radius);
     const lineHeight = Math.max(8, 10 * this.nodeSizeScale);
     const totalHeight = lines.length * lineHeight;
     const startY = -(totalHeight / 2) + (lineHeight / 2);
@@ -1864,8 +2617,11 @@ export class GraphManager {
   }
 
   private setupDrag() {
+    // Handlers read the node from event.subject: on SVG that is the group's
+    // datum, on the canvas hit surface it is the node found under the pointer.
     return d3.drag<SVGGElement, Node>()
-      .on('start', (event, d) => {
+      .on('start', (event) => {
+        const d = event.subject as Node;
         this.dragStartPos = { x: event.x, y: event.y };
 
         if (!event.active) this.simulation.alphaTarget(0.3).restart();
@@ -1876,7 +2632,8 @@ export class GraphManager {
           this.callbacks.onNodeDragStart(d);
         }
       })
-      .on('drag', (event, d) => {
+      .on('drag', (event) => {
+        const d = event.subject as Node;
         if (!this.dragStartPos) return;
 
         const dx = event.x - this.dragStartPos.x;
@@ -1892,7 +2649,8 @@ export class GraphManager {
           }
         }
       })
-      .on('end', (event, d) => {
+      .on('end', (event) => {
+        const d = event.subject as Node;
         if (!event.active) this.simulation.alphaTarget(0);
 
         const dx = event.x - (this.dragStartPos?.x || 0);
@@ -1916,6 +2674,19 @@ export class GraphManager {
   }
 
   private onTick() {
+    const now = performance.now();
+    if (now - this.lastTickDetailUpdate > DETAIL_TICK_INTERVAL_MS) {
+      this.lastTickDetailUpdate = now;
+      this.scheduleLevelOfDetail();
+    }
+
+    this.updateClusterHulls();
+
+    if (this.renderer === 'canvas') {
+      this.canvasRenderer?.positionsChanged();
+      return;
+    }
+
     // Update link positions
     this.linksGroup.selectAll('g.link line')
       .attr('x1', (d: any) => d.source.x)
@@ -1970,11 +2741,13 @@ export class GraphManager {
     const isBacklink = typeof link.type === 'string' && link.type.includes('backlink');
     const role: LinkInsightSummary['role'] = isPathLink
       ? 'path'
-      : isBacklink
-        ? 'backlink'
-        : link.layoutRole === 'cross'
-          ? 'cross'
-          : 'primary';
+      : link.type === 'langlink' || link.type === 'mention' || link.type === 'category'
+        ? link.type
+        : isBacklink
+          ? 'backlink'
+          : link.layoutRole === 'cross'
+            ? 'cross'
+            : 'primary';
     const tier: LinkInsightSummary['tier'] = insight.strength >= 0.72 || insight.sharedNeighbors >= 3
       ? 'strong'
       : insight.strength >= 0.46 || insight.sharedNeighbors >= 1
@@ -1991,15 +2764,14 @@ export class GraphManager {
     };
   }
 
-  getLensingNodes(): Array<{ x: number; y: number; mass: number }> {
-    const transform = d3.zoomTransform(this.svg.node()!);
+  getLensingNodes(transform: ViewTransform = d3.zoomTransform(this.svg.node()!)): Array<{ x: number; y: number; mass: number }> {
 
     const result: Array<{ x: number; y: number; mass: number }> = [];
     for (const n of this.nodes) {
       if (this.hiddenNodeIds.has(n.id)) continue;
       if (n.x === undefined || n.y === undefined) continue;
-      const screenX = transform.applyX(n.x);
-      const screenY = transform.applyY(n.y);
+      const screenX = transform.x + transform.k * n.x;
+      const screenY = transform.y + transform.k * n.y;
       const degree = this.degreeById.get(n.id) || 0;
       const modeScale = this.layoutMode === 'forest' ? 0.82 : this.isStructuredMapMode() ? 0.88 : 1;
       const mass = (0.8 + Math.min(10, degree) * 0.25) * this.nodeSizeScale * modeScale;
@@ -2008,6 +2780,37 @@ export class GraphManager {
     return result;
   }
 
+  getSvgElement(): SVGSVGElement | null {
+    return this.svg.node();
+  }
+
+  /**
+   * Size and transform for an image export: either what is on screen, or a
+   * frame that fits every visible node with room for labels.
+   */
+  getExportFrame(frame: 'viewport' | 'fit', padding = 80): ExportFrame {
+    if (frame === 'viewport') {
+      const { x, y, k } = this.currentZoomTransform;
+      return { width: this.width, height: this.height, transform: { x, y, k } };
+    }
+
+    const visible = this.nodes.filter(n =>
+      !this.hiddenNodeIds.has(n.id) && typeof n.x === 'number' && typeof n.y === 'number');
+    if (visible.length === 0) {
+      return { width: this.width, height: this.height, transform: { x: 0, y: 0, k: 1 } };
+    }
+
+    const xs = visible.map(n => n.x as number);
+    const ys = visible.map(n => n.y as number);
+    const minX = Math.min(...xs) - padding;
+    const minY = Math.min(...ys) - padding;
+    return {
+      width: Math.ceil(Math.max(...xs) + padding - minX),
+      height: Math.ceil(Math.max(...ys) + padding - minY),
+      transform: { x: -minX, y: -minY, k: 1 },
+    };
+  }
+
   centerOnNode(nodeId: string, options: { durationMs?: number } = {}) {
     const node = this.nodes.find(n => n.id === nodeId);
     if (!node || node.x === undefined || node.y === undefined) return;
@@ -2029,7 +2832,11 @@ export class GraphManager {
    * Cleanup
    */
   destroy() {
+    this.isDestroyed = true;
     this.simulation.stop();
+    if (this.detailFrameId !== null) cancelAnimationFrame(this.detailFrameId);
+    this.canvasRenderer?.destroy();
+    this.canvasRenderer = null;
     this.svg.selectAll('*').remove();
   }
 }
@@ -1,28 +1,49 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { WikiService } from './WikiService';
+import { createCustomWikiSource } from './config/wikiSources';
 
 const wikiServiceInternals = WikiService as unknown as {
   cache: Map<string, unknown>;
+  pageLinksCache: Map<string, unknown>;
   summaryCache: Map<string, unknown>;
   backlinksCache: Map<string, unknown>;
   categoriesCache: Map<string, unknown>;
   linkContextCache: Map<string, unknown>;
+  langLinksCache: Map<string, unknown>;
+  pageInfoCache: Map<string, unknown>;
+  redirectsCache: Map<string, unknown>;
+  categoryMembersCache: Map<string, unknown>;
+  aliasCache: Map<string, unknown>;
+  aliasesByTitle: Map<string, unknown>;
+  disambiguationCache: Map<string, unknown>;
+  sectionLinksCache: Map<string, unknown>;
   apiUserAgentHeader?: string;
   lastApiCallTime: number;
   rateLimitChain: Promise<void>;
   enforceRateLimit: () => Promise<void>;
   extractLinksAndBoldTitles: (html: string) => {
-    links: Array<{ title: string; context?: string }>;
+    links: Array<{ title: string; context?: string; section?: string }>;
     boldLinkTitles: string[];
+    lead: { text: string; linkedPhrases: string[] };
   };
+  extractDisambiguationOptions: (html: string) => Array<{ title: string; gloss: string }>;
 };
 
 function resetWikiServiceState() {
   wikiServiceInternals.cache = new Map();
+  wikiServiceInternals.pageLinksCache = new Map();
   wikiServiceInternals.summaryCache = new Map();
   wikiServiceInternals.backlinksCache = new Map();
   wikiServiceInternals.categoriesCache = new Map();
   wikiServiceInternals.linkContextCache = new Map();
+  wikiServiceInternals.langLinksCache = new Map();
+  wikiServiceInternals.pageInfoCache = new Map();
+  wikiServiceInternals.redirectsCache = new Map();
+  wikiServiceInternals.categoryMembersCache = new Map();
+  wikiServiceInternals.aliasCache = new Map();
+  wikiServiceInternals.aliasesByTitle = new Map();
+  wikiServiceInternals.disambiguationCache = new Map();
+  wikiServiceInternals.sectionLinksCache = new Map();
   wikiServiceInternals.apiUserAgentHeader = undefined;
   wikiServiceInternals.lastApiCallTime = 0;
   wikiServiceInternals.rateLimitChain = Promise.resolve();
@@ -57,6 +78,79 @@ describe('WikiService', () => {
     expect(result.links[0].context).toContain('Physics');
     expect(result.links[1].context).toContain('Mathematics');
     expect(result.boldLinkTitles).toEqual(['Physics']);
+    expect(result.lead.text).toContain('Astronomy is nearby.');
+    expect(result.lead.linkedPhrases).toEqual(['Physics', 'Mathematics', 'Help', 'Astronomy']);
+  });
+
+  it('labels links from a full article with their section and subsection, capping each section', () => {
+    const legacyLinks = Array.from({ length: 55 }, (_, i) => `<a title="Legacy ${i}">Legacy ${i}</a>`).join(' ');
+    const html = `
+      <p><b><a title="Ada">Ada</a></b> was a mathematician.</p>
+      <div class="mw-heading mw-heading2"><h2 id="History">History</h2><span class="mw-editsection">[edit]</span></div>
+      <p>She worked with <a title="Charles Babbage">Charles Babbage</a> on the
+        <a title="Ada">Ada</a> notes.</p>
+      <h3>Early work</h3>
+      <p>Her notes covered the <a title="Analytical Engine">Analytical Engine</a>.</p>
+      <h2><span class="mw-headline" id="Legacy">Legacy</span><span class="mw-editsection">[edit]</span></h2>
+      <p>${legacyLinks}.</p>
+    `;
+
+    const result = wikiServiceInternals.extractLinksAndBoldTitles(html);
+
+    expect(result.links.slice(0, 4)).toEqual([
+      { title: 'Ada', context: 'Ada was a mathematician.' },
+      { title: 'Charles Babbage', context: expect.stringContaining('Charles Babbage'), section: 'History' },
+      { title: 'Ada', context: expect.stringContaining('Ada notes'), section: 'History' },
+      { title: 'Analytical Engine', context: expect.stringContaining('Analytical Engine'), section: 'History › Early work' },
+    ]);
+    expect(result.links.filter(link => link.section === 'Legacy')).toHaveLength(50);
+    expect(result.boldLinkTitles).toEqual(['Ada']);
+    expect(result.lead.text).toBe('Ada was a mathematician.');
+  });
+
+  it('reads meanings and their glosses from a disambiguation page', () => {
+    const html = `
+      <div class="toc"><ul><li><a href="#Science" title="">Science</a></li></ul></div>
+      <p><b>Mercury</b> may refer to:</p>
+      <ul>
+        <li><a title="Mercury (planet)">Mercury (planet)</a>, the closest planet to the Sun
+          <ul><li><a title="Transit of Mercury">Transit of Mercury</a>, a passage across the Sun</li></ul>
+        </li>
+        <li><a title="Mercury (element)">Mercury (element)</a>, a chemical element</li>
+        <li><a class="new" title="Mercury (band) (page does not exist)">Mercury</a>, a band</li>
+        <li>See <a title="Wiktionary:mercury">mercury</a> in Wiktionary</li>
+      </ul>
+    `;
+
+    expect(wikiServiceInternals.extractDisambiguationOptions(html)).toEqual([
+      { title: 'Mercury (planet)', gloss: 'Mercury (planet), the closest planet to the Sun' },
+      { title: 'Transit of Mercury', gloss: 'Transit of Mercury, a passage across the Sun' },
+      { title: 'Mercury (element)', gloss: 'Mercury (element), a chemical element' },
+    ]);
+  });
+
+  it('flags disambiguation pages by page prop or category', async () => {
+    vi.spyOn(wikiServiceInternals, 'enforceRateLimit').mockResolvedValue(undefined);
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        query: {
+          pages: {
+            1: { title: 'Mercury', pageprops: { disambiguation: '' } },
+            2: { title: 'Jaguar', categories: [{ title: 'Category:Disambiguation pages' }] },
+            3: { title: 'Physics', categories: [{ title: 'Category:Physical sciences' }] },
+          },
+        },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const flags = await WikiService.fetchDisambiguationFlags(['Mercury', 'Jaguar', 'Physics']);
+
+    expect(Object.fromEntries(flags)).toEqual({ Mercury: true, Jaguar: true, Physics: false });
+    expect(String(fetchMock.mock.calls[0][0])).toContain('ppprop=disambiguation');
+    await WikiService.fetchDisambiguationFlags(['Physics']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
   });
 
   it('reuses cached links until the link cache expires', async () => {
@@ -83,11 +177,49 @@ describe('WikiService', () => {
     now += 61 * 60 * 1000;
     const third = await WikiService.fetchLinks('Physics');
 
-    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const parseCalls = fetchMock.mock.calls.filter(([url]) => String(url).includes('action=parse'));
+    expect(parseCalls).toHaveLength(2);
     expect(first).toEqual(second);
     expect(third).toEqual(first);
   });
 
+  it('folds link aliases into canonical titles and records them as aliases', async () => {
+    vi.spyOn(wikiServiceInternals, 'enforceRateLimit').mockResolvedValue(undefined);
+    const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      const body = url.includes('action=parse')
+        ? {
+          parse: {
+            title: 'United States',
+            text: {
+              '*': '<p>The <b><a title="USA">USA</a></b> borders <a title="Canada">Canada</a>. '
+                + 'The <a title="United States of America">United States of America</a> is large. '
+                + 'It trades with the <a title="Dominion of Canada">Dominion of Canada</a>.</p>',
+            },
+          },
+        }
+        : {
+          query: {
+            redirects: [
+              { from: 'USA', to: 'United States' },
+              { from: 'United States of America', to: 'United States' },
+              { from: 'Dominion of Canada', to: 'Canada' },
+            ],
+            pages: { 1: { title: 'United States' }, 2: { title: 'Canada' } },
+          },
+        };
+      return { ok: true, json: async () => body };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const links = await WikiService.fetchLinks('US');
+
+    expect(links.map(link => link.title)).toEqual(['Canada']);
+    expect(WikiService.getBoldLinkTitlesFromCache('US')).toEqual([]);
+    expect(WikiService.getCanonicalTitle('Dominion of Canada')).toBe('Canada');
+    expect(WikiService.getKnownAliases('United States')).toEqual(['US', 'USA', 'United States of America']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
   it('returns a friendly fallback summary when the API request fails', async () => {
     vi.spyOn(wikiServiceInternals, 'enforceRateLimit').mockResolvedValue(undefined);
     vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('network unavailable')));
@@ -102,4 +234,226 @@ describe('WikiService', () => {
       thumbnail: undefined,
     });
   });
+
+  it('routes requests to a custom MediaWiki source and keeps its cache separate', async () => {
+    vi.spyOn(wikiServiceInternals, 'enforceRateLimit').mockResolvedValue(undefined);
+    const localWiki = createCustomWikiSource({ apiUrl: 'http://localhost:8080/w/api.php', displayName: 'Local Wiki' });
+
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        query: {
+          pages: {
+            '12': { title: 'Physics', extract: 'Local physics notes.', description: 'Stand-in page' },
+          },
+        },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const summary = await WikiService.fetchSummary('Physics', localWiki);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][0])).toMatch(/^http:\/\/localhost:8080\/w\/api\.php\?action=query&prop=extracts/);
+    expect(summary.summary).toBe('Local physics notes.');
+    expect(wikiServiceInternals.summaryCache.has('localhost:8080/w|Physics')).toBe(true);
+    expect(wikiServiceInternals.summaryCache.has('Physics')).toBe(false);
+  });
+
+  it('parses interlanguage links and caches them per source', async () => {
+    vi.spyOn(wikiServiceInternals, 'enforceRateLimit').mockResolvedValue(undefined);
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        query: {
+          pages: {
+            '22939': {
+              title: 'Physics',
+              langlinks: [
+                { lang: 'de', '*': 'Physik', autonym: 'Deutsch', url: 'https://de.wikipedia.org/wiki/Physik' },
+                { lang: 'fr', '*': 'Physique', autonym: 'français' },
+              ],
+            },
+          },
+        },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const first = await WikiService.fetchLangLinks('Physics');
+    const second = await WikiService.fetchLangLinks('Physics');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(String(fetchMock.mock.calls[0][0])).toContain('prop=langlinks');
+    expect(first).toEqual([
+      { language: 'de', title: 'Physik', autonym: 'Deutsch', url: 'https://de.wikipedia.org/wiki/Physik' },
+      { language: 'fr', title: 'Physique', autonym: 'français', url: undefined },
+    ]);
+    expect(second).toBe(first);
+  });
+
+  it('refetches backlinks when a larger limit is requested than was cached', async () => {
+    vi.spyOn(wikiServiceInternals, 'enforceRateLimit').mockResolvedValue(undefined);
+    const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      const limit = Number(new URL(url).searchParams.get('bllimit'));
+      const titles = ['Alpha', 'Beta', 'Gamma', 'Delta'].slice(0, limit);
+      return { ok: true, json: async () => ({ query: { backlinks: titles.map(title => ({ title })) } }) };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await WikiService.fetchBacklinks('Physics', 2)).toEqual(['Alpha', 'Beta']);
+    expect(await WikiService.fetchBacklinks('Physics', 1)).toEqual(['Alpha']);
+    expect(await WikiService.fetchBacklinks('Physics', 10)).toEqual(['Alpha', 'Beta', 'Gamma', 'Delta']);
+    // Four results for a limit of ten is the complete list, so any limit is served from cache.
+    expect(await WikiService.fetchBacklinks('Physics', 50)).toHaveLength(4);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('follows blcontinue for limits above one page of backlinks', async () => {
+    vi.spyOn(wikiServiceInternals, 'enforceRateLimit').mockResolvedValue(undefined);
+    const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      const params = new URL(url).searchParams;
+      const offset = Number(params.get('blcontinue') || 0);
+      const limit = Number(params.get('bllimit'));
+      const titles = Array.from({ length: limit }, (_, index) => `Page ${offset + index}`);
+      return {
+        ok: true,
+        json: async () => ({
+          continue: { blcontinue: String(offset + limit), continue: '-||' },
+          query: { backlinks: titles.map(title => ({ title })) },
+        }),
+      };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const backlinks = await WikiService.fetchBacklinks('Physics', 700);
+
+    expect(backlinks).toHaveLength(700);
+    expect(backlinks[699]).toBe('Page 699');
+    expect(fetchMock.mock.calls.map(([url]) => new URL(url).searchParams.get('bllimit'))).toEqual(['500', '200']);
+  });
+
+  it('batches link lists, follows plcontinue and maps redirects back to requested titles', async () => {
+    vi.spyOn(wikiServiceInternals, 'enforceRateLimit').mockResolvedValue(undefined);
+    const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      const params = new URL(url).searchParams;
+      const body = params.get('plcontinue')
+        ? { query: { pages: { 1: { title: 'Physics', links: [{ title: 'Energy' }] } } } }
+        : {
+          continue: { plcontinue: '1|0|Energy', continue: '||' },
+          query: {
+            normalized: [{ from: 'physics', to: 'Physics' }],
+            redirects: [{ from: 'Maths', to: 'Mathematics' }],
+            pages: {
+              1: { title: 'Physics', links: [{ title: 'Atom' }] },
+              2: { title: 'Mathematics', links: [{ title: 'Logic' }] },
+            },
+          },
+        };
+      return { ok: true, json: async () => body };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const links = await WikiService.fetchLinksBatch(['physics', 'Maths']);
+
+    expect(links.get('physics')).toEqual(['Atom', 'Energy']);
+    expect(links.get('Maths')).toEqual(['Logic']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(new URL(fetchMock.mock.calls[0][0]).searchParams.get('titles')).toBe('physics|Maths');
+
+    expect((await WikiService.fetchLinksBatch(['Maths'])).get('Maths')).toEqual(['Logic']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('batches page info, sums page views across continuations and caches per title', async () => {
+    vi.spyOn(wikiServiceInternals, 'enforceRateLimit').mockResolvedValue(undefined);
+    const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      const params = new URL(url).searchParams;
+      const body = params.get('pvipcontinue')
+        ? { query: { pages: { 2: { title: 'Mathematics', pageviews: { '2026-10-01': 40, '2026-10-02': 2 } } } } }
+        : {
+          continue: { pvipcontinue: 'Mathematics', continue: '||' },
+          query: {
+            redirects: [{ from: 'Maths', to: 'Mathematics' }],
+            pages: {
+              1: {
+                title: 'Physics',
+                length: 120000,
+                revisions: [{ timestamp: '2026-10-10T12:00:00Z' }],
+                pageviews: { '2026-10-01': 900, '2026-10-02': null },
+              },
+              2: { title: 'Mathematics', length: 95000, revisions: [{ timestamp: '2026-09-01T00:00:00Z' }] },
+              '-1': { title: 'Nowhere', missing: '' },
+            },
+          },
+        };
+      return { ok: true, json: async () => body };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const info = await WikiService.fetchPageInfoBatch(['Physics', 'Maths', 'Nowhere']);
+
+    expect(info.get('Physics')).toEqual({ length: 120000, lastEdited: Date.parse('2026-10-10T12:00:00Z'), pageViews: 900 });
+    expect(info.get('Maths')).toEqual({ length: 95000, lastEdited: Date.parse('2026-09-01T00:00:00Z'), pageViews: 42 });
+    expect(info.has('Nowhere')).toBe(false);
+    expect(String(fetchMock.mock.calls[0][0])).toContain('prop=info|revisions|pageviews');
+
+    await WikiService.fetchPageInfoBatch(['Physics']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('batches redirects to each page, following rdcontinue', async () => {
+    vi.spyOn(wikiServiceInternals, 'enforceRateLimit').mockResolvedValue(undefined);
+    const fetchMock = vi.fn().mockImplementation(async (url: string) => {
+      const params = new URL(url).searchParams;
+      const body = params.get('rdcontinue')
+        ? { query: { pages: { 1: { title: 'Physics', redirects: [{ ns: 0, title: 'Physical science' }] } } } }
+        : {
+          continue: { rdcontinue: '1|2', continue: '||' },
+          query: {
+            normalized: [{ from: 'physics', to: 'Physics' }],
+            pages: {
+              1: { title: 'Physics', redirects: [{ ns: 0, title: 'Physic' }] },
+              2: { title: 'Astronomy' },
+            },
+          },
+        };
+      return { ok: true, json: async () => body };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const redirects = await WikiService.fetchRedirectsBatch(['physics', 'Astronomy']);
+
+    expect(redirects.get('physics')).toEqual(['Physic', 'Physical science']);
+    expect(redirects.get('Astronomy')).toEqual([]);
+    expect(String(fetchMock.mock.calls[0][0])).toContain('prop=redirects');
+
+    await WikiService.fetchRedirectsBatch(['Astronomy']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('splits category members into pages and canonically prefixed subcategories', async () => {
+    vi.spyOn(wikiServiceInternals, 'enforceRateLimit').mockResolvedValue(undefined);
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        query: {
+          categorymembers: [
+            { ns: 0, title: 'Optik' },
+            { ns: 14, title: 'Kategorie:Teilgebiet der Physik' },
+          ],
+        },
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const members = await WikiService.fetchCategoryMembers('Category:Physik', 50);
+
+    expect(members).toEqual({ pages: ['Optik'], subcategories: ['Category:Teilgebiet der Physik'] });
+    expect(String(fetchMock.mock.calls[0][0])).toContain('list=categorymembers');
+
+    // Two members under a limit of 50 is the whole category, so a larger request is served from cache.
+    await WikiService.fetchCategoryMembers('Category:Physik', 200);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
 });
@@ -2,27 +2,140 @@
 
 
 
+import { CACHE_TTL_MS, persistentCache, type PersistentCacheKind, type PersistentCacheStats } from './services/PersistentCache';
+import { DEFAULT_WIKI_SOURCE, toNodeId, type WikiSource } from './config/wikiSources';
+
 export interface LinkWithContext {
     title: string;
     context?: string;
+    /** Heading of the article section the link sits in; unset for the lead. */
+    section?: string;
+}
+
+/**
+ * Plain text of an article's lead, with the anchor texts of its links so
+ * callers can tell linked wording from plain wording.
+ */
+export interface LeadText {
+    text: string;
+    linkedPhrases: string[];
 }
 
 interface CacheItem {
     links: LinkWithContext[]; // Updated to store context
     boldLinkTitles?: string[];
+    lead?: LeadText;
+    timestamp: number;
+}
+
+interface SectionLinksCacheItem {
+    links: LinkWithContext[];
+    timestamp: number;
+}
+
+interface PageLinksCacheItem {
+    links: string[];
     timestamp: number;
 }
 
 interface BacklinkCacheItem {
     backlinks: string[];
+    /** bllimit the list was fetched with; a shorter list than this is complete. */
+    limit: number;
     timestamp: number;
 }
 
+type PersistedBacklinks = { backlinks: string[]; limit: number } | string[];
+
+const coversBacklinkLimit = (item: { backlinks: string[]; limit: number }, limit: number) =>
+    item.limit >= limit || item.backlinks.length < item.limit;
+
 interface CategoriesCacheItem {
     categories: string[];
     timestamp: number;
 }
 
+/**
+ * An interlanguage link: the same concept in another language edition.
+ */
+export interface LangLink {
+    language: string;
+    title: string;
+    autonym?: string;
+    url?: string;
+}
+
+interface LangLinksCacheItem {
+    langLinks: LangLink[];
+    timestamp: number;
+}
+
+/**
+ * Page statistics for visual encodings. Fields a wiki doesn't report (page
+ * views outside Wikimedia, for one) are left out.
+ */
+export interface PageInfo {
+    /** Wikitext size in bytes. */
+    length?: number;
+    /** Total views over the last PAGE_VIEW_DAYS days. */
+    pageViews?: number;
+    /** Time of the latest revision, in ms since the epoch. */
+    lastEdited?: number;
+}
+
+interface PageInfoCacheItem {
+    info: PageInfo;
+    timestamp: number;
+}
+
+const PAGE_VIEW_DAYS = 30;
+
+/**
+ * Direct members of a category. Subcategory titles use the canonical
+ * "Category:" prefix whatever the wiki's language.
+ */
+export interface CategoryMembers {
+    pages: string[];
+    subcategories: string[];
+}
+
+interface CategoryMembersCacheItem {
+    members: CategoryMembers;
+    /** cmlimit the list was fetched with; fewer members than this is the whole category. */
+    limit: number;
+    timestamp: number;
+}
+
+interface RedirectsCacheItem {
+    redirects: string[];
+    timestamp: number;
+}
+
+/**
+ * One meaning listed on a disambiguation page, with the page's own short
+ * gloss for it (the list item's text).
+ */
+export interface DisambiguationOption {
+    title: string;
+    gloss: string;
+}
+
+interface DisambiguationCacheItem {
+    isDisambiguation: boolean;
+    /** Meanings, once fetchDisambiguationOptions has read the page. */
+    options?: DisambiguationOption[];
+    timestamp: number;
+}
+
+// Namespaces whose links on a disambiguation page are never meanings.
+const NON_ARTICLE_LINK = /^(Help|File|Image|Wikipedia|Special|Category|Template|Portal|Wiktionary|Talk):/;
+
+interface AliasCacheItem {
+    /** Canonical title the alias resolves to; canonical titles map to themselves. */
+    title: string;
+    timestamp: number;
+}
+
 export interface SummaryData {
     title: string;
     extract: string;
@@ -31,33 +144,90 @@ export interface SummaryData {
     summary: string;
 }
 
+export type WikiCacheStats = {
+    memory: {
+        links: number;
+        pageLinks: number;
+        summary: number;
+        backlinks: number;
+        categories: number;
+        linkContext: number;
+        langLinks: number;
+        pageInfo: number;
+        redirects: number;
+        categoryMembers: number;
+        aliases: number;
+        disambiguation: number;
+        sectionLinks: number;
+    };
+    persistent: PersistentCacheStats;
+};
+
 export class WikiService {
     private static cache: Map<string, CacheItem> = new Map();
+    private static pageLinksCache: Map<string, PageLinksCacheItem> = new Map();
     private static summaryCache: Map<string, SummaryData> = new Map();
     private static backlinksCache: Map<string, BacklinkCacheItem> = new Map();
     private static categoriesCache: Map<string, CategoriesCacheItem> = new Map();
     private static linkContextCache: Map<string, { context?: string; timestamp: number }> = new Map();
+    private static langLinksCache: Map<string, LangLinksCacheItem> = new Map();
+    private static pageInfoCache: Map<string, PageInfoCacheItem> = new Map();
+    private static redirectsCache: Map<string, RedirectsCacheItem> = new Map();
+    private static categoryMembersCache: Map<string, CategoryMembersCacheItem> = new Map();
+    private static aliasCache: Map<string, AliasCacheItem> = new Map();
+    // Reverse of aliasCache: canonical node id → aliases seen this session.
+    private static aliasesByTitle: Map<string, Set<string>> = new Map();
+    private static disambiguationCache: Map<string, DisambiguationCacheItem> = new Map();
+    private static sectionLinksCache: Map<string, SectionLinksCacheItem> = new Map();
     private static apiUserAgentHeader: string | undefined;
+    private static activeSource: WikiSource = DEFAULT_WIKI_SOURCE;
 
     // Rate limiting: minimum delay between API calls (milliseconds)
     private static readonly API_CALL_DELAY = 150; // 150ms = ~6-7 requests/second max
+    /** Most titles the API accepts in one prop=links query. */
+    static readonly LINKS_BATCH_SIZE = 50;
+    // bllimit ceiling for clients without the apihighlimits right.
+    private static readonly BACKLINKS_PAGE_SIZE = 500;
+    // Links kept per section, the lead included, so long articles stay drawable.
+    private static readonly LINKS_PER_SECTION = 50;
     private static lastApiCallTime = 0;
     private static rateLimitChain: Promise<void> = Promise.resolve();
+    private static rateLimitProxy: (() => Promise<void>) | undefined;
 
     static setApiUserAgent(value: string | undefined) {
         const next = value?.trim();
         this.apiUserAgentHeader = next ? next : undefined;
     }
 
+    static getApiUserAgent(): string | undefined {
+        return this.apiUserAgentHeader;
+    }
+
     private static getRequestHeaders(): HeadersInit | undefined {
         return this.apiUserAgentHeader ? { 'Api-User-Agent': this.apiUserAgentHeader } : undefined;
     }
 
+    /**
+     * Source used when callers don't pass one explicitly (Settings → Wiki Source).
+     */
+    static setActiveSource(source: WikiSource) {
+        this.activeSource = source;
+    }
+
+    static getActiveSource(): WikiSource {
+        return this.activeSource;
+    }
+
+    private static buildApiUrl(source: WikiSource, query: string) {
+        return `${source.apiUrl}?${query}&format=json&origin=*`;
+    }
+
     /**
      * Rate limiting helper: Ensures minimum delay between API calls
      * This prevents aggressive bot-like behavior and respects Wikipedia's servers
      */
     private static async enforceRateLimit(): Promise<void> {
+        if (this.rateLimitProxy) return this.rateLimitProxy();
         const next = this.rateLimitChain
             .catch(() => { /* keep chain alive */ })
             .then(async () => {
@@ -75,11 +245,69 @@ export class WikiService {
         await next;
     }
 
-    static async resolveTitle(query: string): Promise<string> {
+    /**
+     * Waits for the next request slot under this context's rate limit. The
+     * compute worker's requests are routed here so both threads share one.
+     */
+    static waitForApiSlot(): Promise<void> {
+        return this.enforceRateLimit();
+    }
+
+    /**
+     * Takes request slots from `proxy` instead of the local limiter; the
+     * compute worker points this at the main thread.
+     */
+    static setRateLimitProxy(proxy: (() => Promise<void>) | undefined) {
+        this.rateLimitProxy = proxy;
+    }
+
+    static async getCacheStats(): Promise<WikiCacheStats> {
+        return {
+            memory: {
+                links: this.cache.size,
+                pageLinks: this.pageLinksCache.size,
+                summary: this.summaryCache.size,
+                backlinks: this.backlinksCache.size,
+                categories: this.categoriesCache.size,
+                linkContext: this.linkContextCache.size,
+                langLinks: this.langLinksCache.size,
+                pageInfo: this.pageInfoCache.size,
+                redirects: this.redirectsCache.size,
+                categoryMembers: this.categoryMembersCache.size,
+                aliases: this.aliasCache.size,
+                disambiguation: this.disambiguationCache.size,
+                sectionLinks: this.sectionLinksCache.size,
+            },
+            persistent: await persistentCache.getStats(),
+        };
+    }
+
+    /**
+     * Drop every cached response, both in memory and in the persistent tier.
+     */
+    static async clearCaches(): Promise<void> {
+        this.cache.clear();
+        this.pageLinksCache.clear();
+        this.summaryCache.clear();
+        this.backlinksCache.clear();
+        this.categoriesCache.clear();
+        this.linkContextCache.clear();
+        this.langLinksCache.clear();
+        this.pageInfoCache.clear();
+        this.redirectsCache.clear();
+        this.categoryMembersCache.clear();
+        this.aliasCache.clear();
+        this.aliasesByTitle.clear();
+        this.disambiguationCache.clear();
+        this.sectionLinksCache.clear();
+        await persistentCache.clear();
+    }
+
+    static async resolveTitle(query: string, source: WikiSource = this.activeSource): Promise<string> {
         try {
             await this.enforceRateLimit();
             const response = await fetch(
-                `https://en.wikipedia.org/w/api.php?action=query&titles=${encodeURIComponent(query)}&redirects=1&format=json&origin=*`,
+                this.buildApiUrl(source, `action=query&titles=${encodeURIComponent(query)}&redirects=1`),
                 { headers: this.getRequestHeaders() }
             );
             const data = await response.json();
@@ -87,7 +315,7 @@ export class WikiService {
             const pageId = Object.keys(pages)[0];
 
             if (pageId === '-1') {
-                throw new Error(`Page "${query}" not found on Wikipedia.`);
+                throw new Error(`Page "${query}" not found on ${source.displayName}.`);
             }
 
             return pages[pageId].title;
@@ -97,27 +325,116 @@ export class WikiService {
         }
     }
 
-    static async fetchLinks(title: string): Promise<LinkWithContext[]> {
+    /**
+     * Canonical titles for many titles at once, following normalization and
+     * redirects with batched redirects=1 queries. Every resolution goes into
+     * a persistent alias map; titles that can't be resolved map to themselves.
+     */
+    static async resolveTitlesBatch(titles: string[], source: WikiSource = this.activeSource): Promise<Map<string, string>> {
+        const result = await this.fetchCachedBatch<string>(
+            titles,
+            source,
+            'aliases',
+            {
+                get: (key) => {
+                    const item = this.aliasCache.get(key);
+                    return item && { value: item.title, timestamp: item.timestamp };
+                },
+                remember: (title, canonical, timestamp) => this.recordAlias(title, canonical, source, timestamp, false),
+            },
+            // No props; only the normalized and redirects lists matter.
+            (missing) => this.queryPagesBatched<string>(
+                missing,
+                '',
+                (page) => (page.invalid === undefined ? page.title : undefined),
+                source
+            )
+        );
+        titles.forEach((title) => {
+            if (title && !result.has(title)) result.set(title, title);
+        });
+        return result;
+    }
+
+    /** The canonical title from the alias map, without a request; unknown titles are returned unchanged. */
+    static getCanonicalTitle(title: string, source: WikiSource = this.activeSource): string {
+        return this.aliasCache.get(toNodeId(title, source))?.title ?? title;
+    }
+
+    /** Aliases seen so far for a canonical title, from resolved links and fetched redirects. */
+    static getKnownAliases(title: string, source: WikiSource = this.activeSource): string[] {
+        return Array.from(this.aliasesByTitle.get(toNodeId(title, source)) || []);
+    }
+
+    private static recordAlias(alias: string, title: string, source: WikiSource, timestamp = Date.now(), persist = true) {
+        const key = toNodeId(alias, source);
+        this.aliasCache.set(key, { title, timestamp });
+        // "physics" and "Physics" are the same title, not an alternative name.
+        const normalizedAlias = alias.replace(/_/g, ' ');
+        if (normalizedAlias.charAt(0).toUpperCase() + normalizedAlias.slice(1) !== title) {
+            const titleKey = toNodeId(title, source);
+            const aliases = this.aliasesByTitle.get(titleKey) || new Set<string>();
+            aliases.add(alias);
+            this.aliasesByTitle.set(titleKey, aliases);
+        }
+        if (persist) void persistentCache.set('aliases', key, title, timestamp);
+    }
+
+    /**
+     * Rewrites link titles to the pages they resolve to, so two aliases of a
+     * page can't become two nodes within a section. Links back to the page
+     * itself are dropped;
+     * bold lead links among them are the page's own alternative names, which
+     * the resolution has just recorded as its aliases.
+     */
+    private static async foldLinkAliases(
+        links: LinkWithContext[],
+        boldLinkTitles: string[],
+        pageTitle: string,
+        source: WikiSource
+    ): Promise<{ links: LinkWithContext[]; boldLinkTitles: string[] }> {
+        const canonical = await this.resolveTitlesBatch([...links.map(link => link.title), ...boldLinkTitles], source);
+        const seen = new Set<string>();
+        const folded: LinkWithContext[] = [];
+        links.forEach((link) => {
+            const title = canonical.get(link.title) ?? link.title;
+            const seenKey = `${link.section ?? ''}|${title}`;
+            if (title === pageTitle || seen.has(seenKey)) return;
+            seen.add(seenKey);
+            folded.push({ ...link, title });
+        });
+        return {
+            links: folded,
+            boldLinkTitles: Array.from(new Set(boldLinkTitles.map(title => canonical.get(title) ?? title)))
+                .filter(title => title !== pageTitle),
+        };
+    }
+
+    static async fetchLinks(title: string, source: WikiSource = this.activeSource): Promise<LinkWithContext[]> {
+        const key = toNodeId(title, source);
         // Check cache
-        if (this.cache.has(title)) {
-            const item = this.cache.get(title)!;
-            if (Date.now() - item.timestamp < 1000 * 60 * 60) { // 1 hour cache
+        if (this.cache.has(key)) {
+            const item = this.cache.get(key)!;
+            if (Date.now() - item.timestamp < CACHE_TTL_MS.links) {
                 return item.links;
             }
         }
 
+        const persisted = await persistentCache.get<Omit<CacheItem, 'timestamp'>>('links', key);
+        if (persisted) {
+            this.cache.set(key, { ...persisted.value, timestamp: persisted.timestamp });
+            return persisted.value.links;
+        }
+
         try {
             await this.enforceRateLimit();
             // Use parse action to get text content for context extraction
             const response = await fetch(
-                `https://en.wikipedia.org/w/api.php?action=parse&page=${encodeURIComponent(
-                    title
-                )}&prop=text&section=0&format=json&origin=*&redirects=1`
-                ,
+                this.buildApiUrl(source, `action=parse&page=${encodeURIComponent(title)}&prop=text&section=0&redirects=1`),
                 { headers: this.getRequestHeaders() }
             );
 
-            if (!response.ok) throw new Error('Failed to fetch from Wikipedia');
+            if (!response.ok) throw new Error(`Failed to fetch from ${source.displayName}`);
 
             const data = await response.json();
 
@@ -127,14 +444,21 @@ export class WikiService {
 
             if (!htmlContent) return []; // Should not happen if page exists
 
-            const { links, boldLinkTitles } = this.extractLinksAndBoldTitles(htmlContent);
+            const pageTitle: string = typeof data.parse?.title === 'string' ? data.parse.title : title;
+            if (pageTitle !== title) this.recordAlias(title, pageTitle, source);
+            const extracted = this.extractLinksAndBoldTitles(htmlContent);
+            const { links, boldLinkTitles } = await this.foldLinkAliases(extracted.links, extracted.boldLinkTitles, pageTitle, source);
+            const { lead } = extracted;
 
             // Update cache
-            this.cache.set(title, {
+            const timestamp = Date.now();
+            this.cache.set(key, {
                 links: links,
                 boldLinkTitles,
-                timestamp: Date.now()
+                lead,
+                timestamp
             });
+            void persistentCache.set('links', key, { links, boldLinkTitles, lead }, timestamp);
 
             return links;
 
@@ -145,20 +469,126 @@ export class WikiService {
         }
     }
 
+    /**
+     * Links from every section of an article, each labelled with the heading
+     * it sits under; a page linked from two sections is listed under both.
+     * This parses the whole page, so it is only fetched when a user asks to
+     * expand from sections; fetchLinks stays lead-only.
+     */
+    static async fetchSectionLinks(title: string, source: WikiSource = this.activeSource): Promise<LinkWithContext[]> {
+        const key = toNodeId(title, source);
+        const cached = this.sectionLinksCache.get(key);
+        if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS.sectionLinks) {
+            return cached.links;
+        }
+
+        const persisted = await persistentCache.get<{ links: LinkWithContext[] }>('sectionLinks', key);
+        if (persisted) {
+            this.sectionLinksCache.set(key, { links: persisted.value.links, timestamp: persisted.timestamp });
+            return persisted.value.links;
+        }
+
+        try {
+            await this.enforceRateLimit();
+            const response = await fetch(
+                this.buildApiUrl(source, `action=parse&page=${encodeURIComponent(title)}&prop=text&redirects=1`),
+                { headers: this.getRequestHeaders() }
+            );
+            if (!response.ok) throw new Error(`Failed to fetch from ${source.displayName}`);
+
+            const data = await response.json();
+            if (data.error) throw new Error(data.error.info);
+
+            const htmlContent = data.parse?.text?.['*'];
+            if (!htmlContent) return [];
+
+            const pageTitle: string = typeof data.parse?.title === 'string' ? data.parse.title : title;
+            if (pageTitle !== title) this.recordAlias(title, pageTitle, source);
+            const extracted = this.extractLinksAndBoldTitles(htmlContent);
+            const { links } = await this.foldLinkAliases(extracted.links, [], pageTitle, source);
+
+            const timestamp = Date.now();
+            this.sectionLinksCache.set(key, { links, timestamp });
+            void persistentCache.set('sectionLinks', key, { links }, timestamp);
+            return links;
+        } catch (error) {
+            console.error('Section links API Error:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Outgoing article links for many pages at once via prop=links, up to
+     * LINKS_BATCH_SIZE titles per request. This covers the whole page and
+     * carries no context, so it suits path search; pages that end up on the
+     * map still go through fetchLinks. Results are keyed by requested title,
+     * with redirects followed; pages that fail to load map to an empty list.
+     */
+    static async fetchLinksBatch(titles: string[], source: WikiSource = this.activeSource): Promise<Map<string, string[]>> {
+        const result = await this.fetchCachedBatch<string[]>(
+            titles,
+            source,
+            'pageLinks',
+            {
+                get: (key) => {
+                    const item = this.pageLinksCache.get(key);
+                    return item && { value: item.links, timestamp: item.timestamp };
+                },
+                remember: (title, links, timestamp) => this.pageLinksCache.set(toNodeId(title, source), { links, timestamp }),
+            },
+            (missing) => this.queryPagesBatched<string[]>(
+                missing,
+                'prop=links&plnamespace=0&pllimit=max',
+                (page, links = []) => {
+                    (page.links || []).forEach((link: any) => {
+                        if (typeof link?.title === 'string') links.push(link.title);
+                    });
+                    return links;
+                },
+                source
+            )
+        );
+        titles.forEach((title) => {
+            if (!result.has(title)) result.set(title, []);
+        });
+        return result;
+    }
+
     /**
      * Parse HTML to find links and extract their surrounding sentence/context.
+     * Paragraphs are walked in document order under their nearest h2 or h3,
+     * so a full-article parse labels each link with its section ("History ›
+     * Early life" for subsections). Links are deduplicated per section; lead
+     * text and bold titles only ever come from the paragraphs before the
+     * first heading.
      */
-    private static extractLinksAndBoldTitles(html: string): { links: LinkWithContext[]; boldLinkTitles: string[] } {
+    private static extractLinksAndBoldTitles(html: string): { links: LinkWithContext[]; boldLinkTitles: string[]; lead: LeadText } {
         const parser = new DOMParser();
         const doc = parser.parseFromString(html, 'text/html');
 
         // We want to avoid links in infoboxes, navboxes, references, etc. if possible
         // But standard 'parse' output is messy. Let's trust standard paragraphs <p> mostly.
-        const paragraphs = doc.querySelectorAll('p');
         const results: LinkWithContext[] = [];
         const seen = new Set<string>();
+        const leadParagraphs: HTMLParagraphElement[] = [];
+        let topSection: string | undefined;
+        let section: string | undefined;
+        let sectionLinkCount = 0;
+
+        doc.querySelectorAll('h2, h3, p').forEach(element => {
+            if (element.tagName === 'H2' || element.tagName === 'H3') {
+                // Older parser output wraps the heading in .mw-headline next to the [edit] link.
+                const heading = element.querySelector('.mw-headline') ?? element;
+                const label = heading.textContent?.trim() || undefined;
+                if (element.tagName === 'H2') topSection = label;
+                section = element.tagName === 'H3' && topSection && label ? `${topSection} › ${label}` : label;
+                seen.clear();
+                sectionLinkCount = 0;
+                return;
+            }
+            const p = element as HTMLParagraphElement;
+            if (section === undefined) leadParagraphs.push(p);
 
-        paragraphs.forEach(p => {
             // Get all links in this paragraph
             const anchors = p.querySelectorAll('a');
             anchors.forEach(a => {
@@ -172,10 +602,8 @@ export class WikiService {
                 const cleanTitle = linkTitle;
 
                 if (seen.has(cleanTitle)) return;
-                // Limit check? No, fetchLinks can handle limits or we slice later. 
-                // But for graph performance let's keep it reasonable per page? 
-                // Let's cap at 50 per page here to avoid massive processing.
-                if (seen.size >= 50) return;
+                // Cap each section to avoid massive processing on long articles.
+                if (sectionLinkCount >= this.LINKS_PER_SECTION) return;
 
                 // Extract Context: The sentence containing this link.
                 // Simple regex split on sentences?
@@ -188,54 +616,307 @@ export class WikiService {
                 const sentences = textContent.match(/[^.!?]+[.!?]+/g) || [textContent];
                 const contextSentence = sentences.find(s => s.includes(linkText))?.trim() || p.textContent?.substring(0, 150) + '...';
 
-                results.push({
-                    title: cleanTitle,
-                    context: contextSentence
-                });
+                results.push(section === undefined
+                    ? { title: cleanTitle, context: contextSentence }
+                    : { title: cleanTitle, context: contextSentence, section });
                 seen.add(cleanTitle);
+                sectionLinkCount++;
             });
         });
 
         const boldSet = new Set<string>();
-        doc.querySelectorAll('p b a[title], p strong a[title]').forEach(a => {
-            const linkTitle = a.getAttribute('title');
-            if (!linkTitle) return;
-            if (linkTitle.startsWith('Help:') || linkTitle.startsWith('File:') || linkTitle.startsWith('Wikipedia:') || linkTitle.startsWith('Edit section')) return;
-            boldSet.add(linkTitle);
+        leadParagraphs.forEach(p => {
+            p.querySelectorAll('b a[title], strong a[title]').forEach(a => {
+                const linkTitle = a.getAttribute('title');
+                if (!linkTitle) return;
+                if (linkTitle.startsWith('Help:') || linkTitle.startsWith('File:') || linkTitle.startsWith('Wikipedia:') || linkTitle.startsWith('Edit section')) return;
+                boldSet.add(linkTitle);
+            });
         });
 
-        return { links: results, boldLinkTitles: Array.from(boldSet) };
+        const leadText = leadParagraphs.filter(p => p.textContent?.trim());
+        const lead: LeadText = {
+            text: leadText.map(p => p.textContent!.trim()).join('\n'),
+            linkedPhrases: Array.from(new Set(
+                leadText.flatMap(p => Array.from(p.querySelectorAll('a')).map(a => a.textContent?.trim() || ''))
+            )).filter(Boolean),
+        };
+
+        return { links: results, boldLinkTitles: Array.from(boldSet), lead };
+    }
+
+    /**
+     * Cache lookups are keyed by node id (see `toNodeId`), so links cached for
+     * another wiki source never leak into the current one.
+     */
+    static getLinksFromCache(nodeId: string): LinkWithContext[] | undefined {
+        return this.cache.get(nodeId)?.links;
     }
 
-    static getLinksFromCache(title: string): LinkWithContext[] | undefined {
-        return this.cache.get(title)?.links;
+    static getBoldLinkTitlesFromCache(nodeId: string): string[] | undefined {
+        return this.cache.get(nodeId)?.boldLinkTitles;
     }
 
-    static getBoldLinkTitlesFromCache(title: string): string[] | undefined {
-        return this.cache.get(title)?.boldLinkTitles;
+    /**
+     * Lead text of a page whose links or summary were already fetched. Pages
+     * cached before lead text was kept fall back to the summary extract,
+     * which carries no link information.
+     */
+    static getLeadTextFromCache(nodeId: string): LeadText | undefined {
+        const lead = this.cache.get(nodeId)?.lead;
+        if (lead) return lead;
+        const extract = this.summaryCache.get(nodeId)?.extract;
+        return extract ? { text: extract, linkedPhrases: [] } : undefined;
     }
 
     static getCachedNodes(): string[] {
         return Array.from(this.cache.keys());
     }
 
-    static async fetchBacklinks(title: string, limit: number = 20): Promise<string[]> {
-        const cached = this.backlinksCache.get(title);
-        if (cached && Date.now() - cached.timestamp < 1000 * 60 * 60) {
-            return cached.backlinks;
+    /**
+     * Length, recent page views and last-edit time for many pages at once,
+     * keyed by the titles asked for. Pages that fail to load are left out.
+     * Wikis without the PageViewInfo extension ignore the pageviews prop.
+     */
+    static async fetchPageInfoBatch(titles: string[], source: WikiSource = this.activeSource): Promise<Map<string, PageInfo>> {
+        return this.fetchCachedBatch<PageInfo>(
+            titles,
+            source,
+            'pageInfo',
+            {
+                get: (key) => {
+                    const item = this.pageInfoCache.get(key);
+                    return item && { value: item.info, timestamp: item.timestamp };
+                },
+                remember: (title, info, timestamp) => this.pageInfoCache.set(toNodeId(title, source), { info, timestamp }),
+            },
+            (missing) => this.queryPagesBatched<PageInfo>(
+                missing,
+                `prop=info|revisions|pageviews&rvprop=timestamp&pvipdays=${PAGE_VIEW_DAYS}`,
+                (page, info = {}) => {
+                    if (page.missing !== undefined) return undefined;
+                    if (typeof page.length === 'number') info.length = page.length;
+                    const editedAt = Date.parse(page.revisions?.[0]?.timestamp ?? '');
+                    if (Number.isFinite(editedAt)) info.lastEdited = editedAt;
+                    if (page.pageviews && typeof page.pageviews === 'object') {
+                        // Days without data come back as null.
+                        info.pageViews = Object.values(page.pageviews).reduce<number>(
+                            (sum, views) => sum + (typeof views === 'number' ? views : 0),
+                            0
+                        );
+                    }
+                    return info;
+                },
+                source
+            )
+        );
+    }
+
+    /**
+     * Other titles that redirect to each page, keyed by the titles asked for.
+     * Pages that fail to load are left out; pages without redirects map to [].
+     */
+    static async fetchRedirectsBatch(titles: string[], source: WikiSource = this.activeSource): Promise<Map<string, string[]>> {
+        return this.fetchCachedBatch<string[]>(
+            titles,
+            source,
+            'redirects',
+            {
+                get: (key) => {
+                    const item = this.redirectsCache.get(key);
+                    return item && { value: item.redirects, timestamp: item.timestamp };
+                },
+                remember: (title, redirects, timestamp, fetched) => {
+                    this.redirectsCache.set(toNodeId(title, source), { redirects, timestamp });
+                    redirects.forEach(redirect => this.recordAlias(redirect, title, source, timestamp, fetched));
+                },
+            },
+            (missing) => this.queryPagesBatched<string[]>(
+                missing,
+                'prop=redirects&rdprop=title&rdnamespace=0&rdlimit=max',
+                (page, redirects = []) => {
+                    if (page.missing !== undefined) return undefined;
+                    (page.redirects || []).forEach((redirect: any) => {
+                        if (typeof redirect?.title === 'string') redirects.push(redirect.title);
+                    });
+                    return redirects;
+                },
+                source
+            )
+        );
+    }
+
+    /**
+     * Read-through cache shared by the batched fetchers: fresh memory entries,
+     * then the persistent cache, then `fetchMissing` for whatever is left.
+     * `remember` fills the memory cache; `fetched` is false for values loaded
+     * back from the persistent cache. Titles nothing answered for are left out.
+     */
+    private static async fetchCachedBatch<T>(
+        titles: string[],
+        source: WikiSource,
+        kind: PersistentCacheKind,
+        memory: {
+            get: (key: string) => { value: T; timestamp: number } | undefined;
+            remember: (title: string, value: T, timestamp: number, fetched: boolean) => void;
+        },
+        fetchMissing: (titles: string[]) => Promise<Map<string, T>>
+    ): Promise<Map<string, T>> {
+        const result = new Map<string, T>();
+        const uniqueTitles = Array.from(new Set(titles.filter(Boolean)));
+
+        const cached = await Promise.all(uniqueTitles.map((title) => {
+            const key = toNodeId(title, source);
+            const item = memory.get(key);
+            if (item && Date.now() - item.timestamp < CACHE_TTL_MS[kind]) return item;
+            return persistentCache.get<T>(kind, key).then(entry => {
+                if (entry) memory.remember(title, entry.value, entry.timestamp, false);
+                return entry;
+            });
+        }));
+
+        const missing: string[] = [];
+        uniqueTitles.forEach((title, index) => {
+            const item = cached[index];
+            if (item) result.set(title, item.value);
+            else missing.push(title);
+        });
+
+        const fetched = await fetchMissing(missing);
+        const timestamp = Date.now();
+        fetched.forEach((value, title) => {
+            result.set(title, value);
+            memory.remember(title, value, timestamp, true);
+            void persistentCache.set(kind, toNodeId(title, source), value, timestamp);
+        });
+
+        return result;
+    }
+
+    /**
+     * action=query over LINKS_BATCH_SIZE titles per request with redirects=1,
+     * followed through `continue` until each chunk is complete. Every page
+     * that comes back is folded into its value so far by `collectPage`, which
+     * returns undefined to leave the page out. Results are keyed by requested
+     * title, and each answered title goes into the alias map, so callers can
+     * canonicalize it without another request. A chunk whose request fails is
+     * logged and left out.
+     */
+    private static async queryPagesBatched<T>(
+        titles: string[],
+        params: string,
+        collectPage: (page: any, previous: T | undefined) => T | undefined,
+        source: WikiSource
+    ): Promise<Map<string, T>> {
+        const result = new Map<string, T>();
+
+        for (let i = 0; i < titles.length; i += this.LINKS_BATCH_SIZE) {
+            const chunk = titles.slice(i, i + this.LINKS_BATCH_SIZE);
+            const byPage = new Map<string, T>();
+            const renamed = new Map<string, string>();
+            let continueParams: Record<string, string> | undefined = {};
+
+            try {
+                while (continueParams) {
+                    await this.enforceRateLimit();
+                    const continueQuery = Object.entries(continueParams)
+                        .map(([param, value]) => `&${param}=${encodeURIComponent(value)}`)
+                        .join('');
+                    const response = await fetch(
+                        this.buildApiUrl(
+                            source,
+                            `action=query${params && `&${params}`}&titles=${encodeURIComponent(chunk.join('|'))}&redirects=1${continueQuery}`
+                        ),
+                        { headers: this.getRequestHeaders() }
+                    );
+                    if (!response.ok) throw new Error('Failed to query pages');
+                    const data = await response.json();
+                    if (data.error) throw new Error(data.error.info);
+
+                    [...(data.query?.normalized || []), ...(data.query?.redirects || [])].forEach((entry: any) => {
+                        if (entry?.from && entry?.to) renamed.set(entry.from, entry.to);
+                    });
+                    Object.values(data.query?.pages || {}).forEach((page: any) => {
+                        if (typeof page?.title !== 'string') return;
+                        const value = collectPage(page, byPage.get(page.title));
+                        if (value !== undefined) byPage.set(page.title, value);
+                    });
+
+                    continueParams = data.continue;
+                }
+            } catch (error) {
+                console.error(`Batch query API Error (${params || 'titles'}):`, error);
+                continue;
+            }
+
+            const timestamp = Date.now();
+            chunk.forEach((title) => {
+                const pageTitle = this.followRenames(title, renamed);
+                const value = byPage.get(pageTitle);
+                if (value === undefined) return;
+                result.set(title, value);
+                // Canonical titles map to themselves in memory; only real renames are worth persisting.
+                this.recordAlias(title, pageTitle, source, timestamp, pageTitle !== title);
+            });
+        }
+
+        return result;
+    }
+
+    /** Follows normalization and redirect hops from a requested title to the page the API answered for. */
+    private static followRenames(title: string, renamed: Map<string, string>): string {
+        let pageTitle = title;
+        for (let hops = 0; hops < 3 && renamed.has(pageTitle); hops++) pageTitle = renamed.get(pageTitle)!;
+        return pageTitle;
+    }
+
+    /**
+     * Pages linking to `title`, in API order (by page id). Limits above one
+     * page of results are followed through blcontinue.
+     */
+    static async fetchBacklinks(title: string, limit: number = 20, source: WikiSource = this.activeSource): Promise<string[]> {
+        const key = toNodeId(title, source);
+        const cached = this.backlinksCache.get(key);
+        if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS.backlinks && coversBacklinkLimit(cached, limit)) {
+            return cached.backlinks.slice(0, limit);
+        }
+
+        const persisted = await persistentCache.get<PersistedBacklinks>('backlinks', key);
+        if (persisted) {
+            // Entries written before limits were recorded only cover their own length.
+            const value = Array.isArray(persisted.value)
+                ? { backlinks: persisted.value, limit: persisted.value.length }
+                : persisted.value;
+            if (coversBacklinkLimit(value, limit)) {
+                this.backlinksCache.set(key, { ...value, timestamp: persisted.timestamp });
+                return value.backlinks.slice(0, limit);
+            }
         }
 
         try {
-            await this.enforceRateLimit();
-            const response = await fetch(
-                `https://en.wikipedia.org/w/api.php?action=query&list=backlinks` +
-                `&bltitle=${encodeURIComponent(title)}&bllimit=${limit}&blnamespace=0&format=json&origin=*&redirects=1`,
-                { headers: this.getRequestHeaders() }
-            );
-            if (!response.ok) throw new Error('Failed to fetch backlinks');
-            const data = await response.json();
-            const backlinks = (data?.query?.backlinks || []).map((bl: any) => bl.title).filter(Boolean);
-            this.backlinksCache.set(title, { backlinks, timestamp: Date.now() });
+            const backlinks: string[] = [];
+            let continueParams: Record<string, string> | undefined = {};
+            while (continueParams && backlinks.length < limit) {
+                await this.enforceRateLimit();
+                const continueQuery = Object.entries(continueParams)
+                    .map(([param, value]) => `&${param}=${encodeURIComponent(value)}`)
+                    .join('');
+                const pageSize = Math.min(limit - backlinks.length, this.BACKLINKS_PAGE_SIZE);
+                const response = await fetch(
+                    this.buildApiUrl(
+                        source,
+                        `action=query&list=backlinks&bltitle=${encodeURIComponent(title)}&bllimit=${pageSize}&blnamespace=0&blfilterredir=nonredirects&redirects=1${continueQuery}`
+                    ),
+                    { headers: this.getRequestHeaders() }
+                );
+                if (!response.ok) throw new Error('Failed to fetch backlinks');
+                const data = await response.json();
+                backlinks.push(...(data?.query?.backlinks || []).map((bl: any) => bl.title).filter(Boolean));
+                continueParams = data.continue;
+            }
+            const timestamp = Date.now();
+            this.backlinksCache.set(key, { backlinks, limit, timestamp });
+            void persistentCache.set<PersistedBacklinks>('backlinks', key, { backlinks, limit }, timestamp);
             return backlinks;
         } catch (error) {
             console.error('Backlinks API Error:', error);
@@ -243,17 +924,26 @@ export class WikiService {
         }
     }
 
-    static async fetchCategories(title: string, limit: number = 50): Promise<string[]> {
-        const cached = this.categoriesCache.get(title);
-        if (cached && Date.now() - cached.timestamp < 1000 * 60 * 60 * 24) {
+    static async fetchCategories(title: string, limit: number = 50, source: WikiSource = this.activeSource): Promise<string[]> {
+        const key = toNodeId(title, source);
+        const cached = this.categoriesCache.get(key);
+        if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS.categories) {
             return cached.categories;
         }
 
+        const persisted = await persistentCache.get<string[]>('categories', key);
+        if (persisted) {
+            this.categoriesCache.set(key, { categories: persisted.value, timestamp: persisted.timestamp });
+            return persisted.value;
+        }
+
         try {
             await this.enforceRateLimit();
             const response = await fetch(
-                `https://en.wikipedia.org/w/api.php?action=query&prop=categories` +
-                `&titles=${encodeURIComponent(title)}&cllimit=${limit}&clshow=!hidden&format=json&origin=*&redirects=1`,
+                this.buildApiUrl(
+                    source,
+                    `action=query&prop=categories&titles=${encodeURIComponent(title)}&cllimit=${limit}&clshow=!hidden&redirects=1`
+                ),
                 { headers: this.getRequestHeaders() }
             );
             if (!response.ok) throw new Error('Failed to fetch categories');
@@ -264,9 +954,11 @@ export class WikiService {
             const categories = (page?.categories || [])
                 .map((c: any) => (typeof c?.title === 'string' ? c.title : ''))
                 .filter(Boolean)
-                .map((t: string) => t.replace(/^Category:/, ''));
+                .map((t: string) => t.replace(/^[^:]+:/, ''));
 
-            this.categoriesCache.set(title, { categories, timestamp: Date.now() });
+            const timestamp = Date.now();
+            this.categoriesCache.set(key, { categories, timestamp });
+            void persistentCache.set('categories', key, categories, timestamp);
             return categories;
         } catch (error) {
             console.error('Categories API Error:', error);
@@ -274,19 +966,279 @@ export class WikiService {
         }
     }
 
-    static async fetchLinkContext(sourceTitle: string, targetTitle: string): Promise<string | undefined> {
-        const cacheKey = `${sourceTitle}|||${targetTitle}`;
+    /**
+     * Visible categories for many pages at once, sharing fetchCategories'
+     * cache. Results are keyed by requested title; pages that fail to load
+     * are left out.
+     */
+    static async fetchCategoriesBatch(titles: string[], source: WikiSource = this.activeSource): Promise<Map<string, string[]>> {
+        return this.fetchCachedBatch<string[]>(
+            titles,
+            source,
+            'categories',
+            {
+                get: (key) => {
+                    const item = this.categoriesCache.get(key);
+                    return item && { value: item.categories, timestamp: item.timestamp };
+                },
+                remember: (title, categories, timestamp) => this.categoriesCache.set(toNodeId(title, source), { categories, timestamp }),
+            },
+            (missing) => this.queryPagesBatched<string[]>(
+                missing,
+                'prop=categories&cllimit=max&clshow=!hidden',
+                (page, categories = []) => {
+                    if (page.missing !== undefined) return undefined;
+                    (page.categories || []).forEach((category: any) => {
+                        if (typeof category?.title === 'string') categories.push(category.title.replace(/^[^:]+:/, ''));
+                    });
+                    return categories;
+                },
+                source
+            )
+        );
+    }
+
+    /**
+     * Which of `targets` each of `titles` links to, via prop=links with
+     * pltitles. Only the first LINKS_BATCH_SIZE targets are checked. Not
+     * cached, since the answer depends on the target set.
+     */
+    static async fetchLinksAmong(titles: string[], targets: string[], source: WikiSource = this.activeSource): Promise<Map<string, string[]>> {
+        const targetQuery = encodeURIComponent(targets.slice(0, this.LINKS_BATCH_SIZE).join('|'));
+        if (!targetQuery) return new Map();
+
+        return this.queryPagesBatched<string[]>(
+            Array.from(new Set(titles)),
+            `prop=links&pltitles=${targetQuery}&pllimit=max`,
+            (page, links = []) => {
+                if (page.missing !== undefined) return undefined;
+                (page.links || []).forEach((link: any) => {
+                    if (typeof link?.title === 'string') links.push(link.title);
+                });
+                return links;
+            },
+            source
+        );
+    }
+
+    /**
+     * Which titles are disambiguation pages, from the Disambiguator
+     * extension's page prop or, on wikis without it, a category whose name
+     * says so. Pages that fail to load count as ordinary pages.
+     */
+    static async fetchDisambiguationFlags(titles: string[], source: WikiSource = this.activeSource): Promise<Map<string, boolean>> {
+        const flags = await this.fetchCachedBatch<Omit<DisambiguationCacheItem, 'timestamp'>>(
+            titles,
+            source,
+            'disambiguation',
+            {
+                get: (key) => {
+                    const item = this.disambiguationCache.get(key);
+                    return item && { value: item, timestamp: item.timestamp };
+                },
+                remember: (title, value, timestamp) => this.disambiguationCache.set(toNodeId(title, source), { ...value, timestamp }),
+            },
+            // Categories are continued too, so a page's flag is true once any response says so.
+            (missing) => this.queryPagesBatched<Omit<DisambiguationCacheItem, 'timestamp'>>(
+                missing,
+                'prop=pageprops|categories&ppprop=disambiguation&cllimit=max',
+                (page, previous) => {
+                    if (page.missing !== undefined) return undefined;
+                    const isDisambiguation = page.pageprops?.disambiguation !== undefined
+                        || (page.categories || []).some((category: any) => /disambiguation/i.test(category?.title || ''));
+                    return { isDisambiguation: Boolean(previous?.isDisambiguation) || isDisambiguation };
+                },
+                source
+            )
+        );
+
+        const result = new Map<string, boolean>();
+        titles.forEach((title) => {
+            if (title) result.set(title, flags.get(title)?.isDisambiguation ?? false);
+        });
+        return result;
+    }
+
+    /**
+     * The meanings a disambiguation page lists, read from the whole page
+     * rather than the lead fetchLinks parses.
+     */
+    static async fetchDisambiguationOptions(title: string, source: WikiSource = this.activeSource): Promise<DisambiguationOption[]> {
+        const key = toNodeId(title, source);
+        const cached = this.disambiguationCache.get(key);
+        if (cached?.options && Date.now() - cached.timestamp < CACHE_TTL_MS.disambiguation) return cached.options;
+
+        const persisted = await persistentCache.get<Omit<DisambiguationCacheItem, 'timestamp'>>('disambiguation', key);
+        if (persisted?.value.options) {
+            this.disambiguationCache.set(key, { ...persisted.value, timestamp: persisted.timestamp });
+            return persisted.value.options;
+        }
+
+        try {
+            await this.enforceRateLimit();
+            const response = await fetch(
+                this.buildApiUrl(source, `action=parse&page=${encodeURIComponent(title)}&prop=text&redirects=1`),
+                { headers: this.getRequestHeaders() }
+            );
+            if (!response.ok) throw new Error('Failed to fetch disambiguation page');
+            const data = await response.json();
+            if (data.error) throw new Error(data.error.info);
+
+            const options = this.extractDisambiguationOptions(data.parse?.text?.['*'] || '');
+            const timestamp = Date.now();
+            this.disambiguationCache.set(key, { isDisambiguation: true, options, timestamp });
+            void persistentCache.set('disambiguation', key, { isDisambiguation: true, options }, timestamp);
+            return options;
+        } catch (error) {
+            console.error('Disambiguation options API Error:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Each list item's first article link is a meaning; the item's text is
+     * its gloss. Red links and links into other namespaces are skipped.
+     */
+    private static extractDisambiguationOptions(html: string): DisambiguationOption[] {
+        const doc = new DOMParser().parseFromString(html, 'text/html');
+        const options: DisambiguationOption[] = [];
+        const seen = new Set<string>();
+
+        doc.querySelectorAll('li').forEach((item) => {
+            if (item.closest('#toc, .toc, .navbox, .mw-references-wrap')) return;
+            // Nested lists are meanings of their own, not part of this one's gloss.
+            const own = item.cloneNode(true) as HTMLElement;
+            own.querySelectorAll('ul, ol').forEach(list => list.remove());
+            const anchor = Array.from(own.querySelectorAll('a[title]')).find((a) => {
+                const linkTitle = a.getAttribute('title') || '';
+                return !a.classList.contains('new') && !NON_ARTICLE_LINK.test(linkTitle);
+            });
+            const title = anchor?.getAttribute('title');
+            if (!title || seen.has(title)) return;
+            seen.add(title);
+            options.push({ title, gloss: (own.textContent || '').replace(/\s+/g, ' ').trim() });
+        });
+
+        return options;
+    }
+
+    /**
+     * Pages and subcategories directly in a category, via list=categorymembers.
+     * `categoryTitle` includes the namespace prefix.
+     */
+    static async fetchCategoryMembers(categoryTitle: string, limit: number = 50, source: WikiSource = this.activeSource): Promise<CategoryMembers> {
+        const key = toNodeId(categoryTitle, source);
+        const coversLimit = (item: Omit<CategoryMembersCacheItem, 'timestamp'>) =>
+            item.limit >= limit || item.members.pages.length + item.members.subcategories.length < item.limit;
+        const cached = this.categoryMembersCache.get(key);
+        if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS.categoryMembers && coversLimit(cached)) {
+            return cached.members;
+        }
+
+        const persisted = await persistentCache.get<Omit<CategoryMembersCacheItem, 'timestamp'>>('categoryMembers', key);
+        if (persisted && coversLimit(persisted.value)) {
+            this.categoryMembersCache.set(key, { ...persisted.value, timestamp: persisted.timestamp });
+            return persisted.value.members;
+        }
+
+        try {
+            await this.enforceRateLimit();
+            const response = await fetch(
+                this.buildApiUrl(
+                    source,
+                    `action=query&list=categorymembers&cmtitle=${encodeURIComponent(categoryTitle)}&cmtype=page|subcat&cmnamespace=0|14&cmlimit=${limit}`
+                ),
+                { headers: this.getRequestHeaders() }
+            );
+            if (!response.ok) throw new Error('Failed to fetch category members');
+            const data = await response.json();
+            if (data.error) throw new Error(data.error.info);
+
+            const members: CategoryMembers = { pages: [], subcategories: [] };
+            (data.query?.categorymembers || []).forEach((member: any) => {
+                if (typeof member?.title !== 'string') return;
+                if (member.ns === 14) members.subcategories.push(`Category:${member.title.replace(/^[^:]+:/, '')}`);
+                else members.pages.push(member.title);
+            });
+
+            const timestamp = Date.now();
+            this.categoryMembersCache.set(key, { members, limit, timestamp });
+            void persistentCache.set('categoryMembers', key, { members, limit }, timestamp);
+            return members;
+        } catch (error) {
+            console.error('Category members API Error:', error);
+            return { pages: [], subcategories: [] };
+        }
+    }
+
+    static async fetchLangLinks(title: string, source: WikiSource = this.activeSource): Promise<LangLink[]> {
+        const key = toNodeId(title, source);
+        const cached = this.langLinksCache.get(key);
+        if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS.langLinks) {
+            return cached.langLinks;
+        }
+
+        const persisted = await persistentCache.get<LangLink[]>('langLinks', key);
+        if (persisted) {
+            this.langLinksCache.set(key, { langLinks: persisted.value, timestamp: persisted.timestamp });
+            return persisted.value;
+        }
+
+        try {
+            await this.enforceRateLimit();
+            const response = await fetch(
+                this.buildApiUrl(
+                    source,
+                    `action=query&prop=langlinks&titles=${encodeURIComponent(title)}&lllimit=max&llprop=autonym|url&redirects=1`
+                ),
+                { headers: this.getRequestHeaders() }
+            );
+            if (!response.ok) throw new Error('Failed to fetch language links');
+            const data = await response.json();
+            const pages = data?.query?.pages || {};
+            const pageId = Object.keys(pages)[0];
+            const page = pageId ? pages[pageId] : undefined;
+            const langLinks: LangLink[] = (page?.langlinks || [])
+                .map((ll: any) => ({
+                    language: ll.lang,
+                    title: ll['*'] ?? ll.title,
+                    autonym: ll.autonym,
+                    url: ll.url,
+                }))
+                .filter((ll: LangLink) => typeof ll.language === 'string' && typeof ll.title === 'string' && ll.title);
+
+            const timestamp = Date.now();
+            this.langLinksCache.set(key, { langLinks, timestamp });
+            void persistentCache.set('langLinks', key, langLinks, timestamp);
+            return langLinks;
+        } catch (error) {
+            console.error('Language links API Error:', error);
+            return [];
+        }
+    }
+
+    static async fetchLinkContext(
+        sourceTitle: string,
+        targetTitle: string,
+        source: WikiSource = this.activeSource
+    ): Promise<string | undefined> {
+        const cacheKey = `${toNodeId(sourceTitle, source)}|||${targetTitle}`;
         const cached = this.linkContextCache.get(cacheKey);
-        if (cached && Date.now() - cached.timestamp < 1000 * 60 * 60) {
+        if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS.linkContext) {
             return cached.context;
         }
 
+        const persisted = await persistentCache.get<{ context?: string }>('linkContext', cacheKey);
+        if (persisted) {
+            this.linkContextCache.set(cacheKey, { context: persisted.value.context, timestamp: persisted.timestamp });
+            return persisted.value.context;
+        }
+
         const tryFetch = async (section?: number) => {
             await this.enforceRateLimit();
             const sectionParam = typeof section === 'number' ? `&section=${section}` : '';
             const response = await fetch(
-                `https://en.wikipedia.org/w/api.php?action=parse&page=${encodeURIComponent(sourceTitle)}` +
-                `&prop=text${sectionParam}&format=json&origin=*&redirects=1`,
+                this.buildApiUrl(source, `action=parse&page=${encodeURIComponent(sourceTitle)}&prop=text${sectionParam}&redirects=1`),
                 { headers: this.getRequestHeaders() }
             );
             if (!response.ok) throw new Error('Failed to fetch article HTML');
@@ -300,13 +1252,13 @@ export class WikiService {
             // Try lead section first (fast + usually best explanation).
             const lead = await tryFetch(0);
             if (lead) {
-                this.linkContextCache.set(cacheKey, { context: lead, timestamp: Date.now() });
+                this.storeLinkContext(cacheKey, lead);
                 return lead;
             }
 
             // Fallback: scan full page (can be large, but this is only on-demand from a click).
             const full = await tryFetch(undefined);
-            this.linkContextCache.set(cacheKey, { context: full, timestamp: Date.now() });
+            this.storeLinkContext(cacheKey, full);
             return full;
         } catch (error) {
             console.error('Link context fetch error:', error);
@@ -315,6 +1267,12 @@ export class WikiService {
         }
     }
 
+    private static storeLinkContext(cacheKey: string, context: string | undefined) {
+        const timestamp = Date.now();
+        this.linkContextCache.set(cacheKey, { context, timestamp });
+        void persistentCache.set('linkContext', cacheKey, { context }, timestamp);
+    }
+
     private static extractContextForSpecificLink(html: string, targetTitle: string): string | undefined {
         const parser = new DOMParser();
         const doc = parser.parseFromString(html, 'text/html');
@@ -336,14 +1294,11 @@ export class WikiService {
         return undefined;
     }
 
-    static async search(term: string): Promise<string[]> {
+    static async search(term: string, source: WikiSource = this.activeSource): Promise<string[]> {
         try {
             await this.enforceRateLimit();
             const response = await fetch(
-                `https://en.wikipedia.org/w/api.php?action=opensearch&search=${encodeURIComponent(
-                    term
-                )}&limit=5&namespace=0&format=json&origin=*`
-                ,
+                this.buildApiUrl(source, `action=opensearch&search=${encodeURIComponent(term)}&limit=5&namespace=0`),
                 { headers: this.getRequestHeaders() }
             );
             const data = await response.json();
@@ -354,34 +1309,78 @@ export class WikiService {
         }
     }
 
-    static async fetchSummary(title: string): Promise<SummaryData> {
+    static async fetchSummary(title: string, source: WikiSource = this.activeSource): Promise<SummaryData> {
+        const key = toNodeId(title, source);
         // Check cache
-        if (this.summaryCache.has(title)) {
-            return this.summaryCache.get(title)!;
+        if (this.summaryCache.has(key)) {
+            return this.summaryCache.get(key)!;
+        }
+
+        const persisted = await persistentCache.get<SummaryData>('summary', key);
+        if (persisted) {
+            this.summaryCache.set(key, persisted.value);
+            return persisted.value;
         }
 
         try {
             await this.enforceRateLimit();
-            const response = await fetch(
-                `https://en.wikipedia.org/api/rest_v1/page/summary/${encodeURIComponent(title)}`,
-                { headers: this.getRequestHeaders() }
-            );
-            if (!response.ok) throw new Error('Failed to fetch summary');
-            const data = await response.json();
-
-            const result = {
-                title: data.title,
-                extract: data.extract,
-                description: data.description,
-                summary: data.extract,
-                thumbnail: data.thumbnail?.source
-            };
+            const result = source.restUrl
+                ? await this.fetchRestSummary(title, source)
+                : await this.fetchActionApiSummary(title, source);
 
-            this.summaryCache.set(title, result);
+            this.summaryCache.set(key, result);
+            void persistentCache.set('summary', key, result);
             return result;
         } catch (err) {
             console.error(err);
             return { title, extract: '', description: undefined, summary: 'No summary available.', thumbnail: undefined };
         }
     }
+
+    private static async fetchRestSummary(title: string, source: WikiSource): Promise<SummaryData> {
+        const response = await fetch(
+            `${source.restUrl}/page/summary/${encodeURIComponent(title)}`,
+            { headers: this.getRequestHeaders() }
+        );
+        if (!response.ok) throw new Error('Failed to fetch summary');
+        const data = await response.json();
+
+        return {
+            title: data.title,
+            extract: data.extract,
+            description: data.description,
+            summary: data.extract,
+            thumbnail: data.thumbnail?.source
+        };
+    }
+
+    /**
+     * Summary fallback for MediaWiki installs without the REST API
+     * (internal wikis, Fandom, local stand-in servers).
+     */
+    private static async fetchActionApiSummary(title: string, source: WikiSource): Promise<SummaryData> {
+        const response = await fetch(
+            this.buildApiUrl(
+                source,
+                `action=query&prop=extracts|pageimages|description&exintro=1&explaintext=1` +
+                `&piprop=thumbnail&pithumbsize=320&titles=${encodeURIComponent(title)}&redirects=1`
+            ),
+            { headers: this.getRequestHeaders() }
+        );
+        if (!response.ok) throw new Error('Failed to fetch summary');
+        const data = await response.json();
+        const pages = data?.query?.pages || {};
+        const pageId = Object.keys(pages)[0];
+        const page = pageId ? pages[pageId] : undefined;
+        if (!page || pageId === '-1') throw new Error('Page not found');
+
+        const extract = typeof page.extract === 'string' ? page.extract : '';
+        return {
+            title: page.title || title,
+            extract,
+            description: page.description,
+            summary: extract || 'No summary available.',
+            thumbnail: page.thumbnail?.source
+        };
+    }
 }
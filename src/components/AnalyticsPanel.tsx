@@ -0,0 +1,265 @@
+import React, { useMemo, useState } from 'react';
+import { parseNodeId } from '../config/wikiSources';
+import type { GraphAnalytics, NodeMetrics } from '../features/analytics/graphMetrics';
+
+type SortKey = 'degree' | 'inDegree' | 'pageRank' | 'betweenness';
+
+const SORT_COLUMNS: Array<{ key: SortKey; label: string; title: string; format: (value: number) => string }> = [
+    { key: 'degree', label: 'Links', title: 'Distinct pages linked to or from', format: value => String(value) },
+    { key: 'inDegree', label: 'In', title: 'Pages on the map linking here', format: value => String(value) },
+    { key: 'pageRank', label: 'PageRank', title: 'Share of a random walk spent on this page', format: value => value.toFixed(3) },
+    { key: 'betweenness', label: 'Between', title: 'Share of shortest routes between other pages passing through', format: value => value.toFixed(3) },
+];
+
+const VISIBLE_ROWS = 40;
+
+interface AnalyticsPanelProps {
+    isOpen: boolean;
+    analytics: GraphAnalytics | null;
+    selectedCount: number;
+    onSelectNodes: (nodeIds: string[]) => void;
+    onFocusNode: (nodeId: string) => void;
+    onClose: () => void;
+}
+
+export const AnalyticsPanel: React.FC<AnalyticsPanelProps> = ({
+    isOpen,
+    analytics,
+    selectedCount,
+    onSelectNodes,
+    onFocusNode,
+    onClose,
+}) => {
+    const [sortKey, setSortKey] = useState<SortKey>('betweenness');
+    const [topCount, setTopCount] = useState(10);
+
+    const ranked = useMemo(
+        () => [...(analytics?.nodes ?? [])].sort((a, b) => b[sortKey] - a[sortKey] || b.degree - a.degree),
+        [analytics, sortKey]
+    );
+
+    if (!isOpen) return null;
+
+    const titleOf = (id: string) => parseNodeId(id).title;
+    const cutPages = ranked.filter(node => node.isArticulationPoint);
+    const degreeById = new Map(ranked.map(node => [node.id, node.degree]));
+    const componentAnchor = (members: string[]) =>
+        members.reduce((best, id) => ((degreeById.get(id) ?? 0) > (degreeById.get(best) ?? 0) ? id : best), members[0]);
+    const maxDegreeCount = Math.max(1, ...(analytics?.degreeDistribution ?? []).map(bucket => bucket.count));
+    const sortColumn = SORT_COLUMNS.find(column => column.key === sortKey)!;
+
+    const renderPageButton = (node: NodeMetrics) => (
+        <button
+            type="button"
+            onClick={() => onFocusNode(node.id)}
+            className="block max-w-full truncate text-left text-gray-200 hover:text-white"
+            title={titleOf(node.id)}
+        >
+            {titleOf(node.id)}
+        </button>
+    );
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center sm:justify-center">
+            <button
+                type="button"
+                onClick={onClose}
+                aria-label="Close map analytics"
+                className="absolute inset-0 bg-slate-950/45 backdrop-blur-[2px]"
+            />
+
+            <div className="relative z-10 mx-3 mb-3 w-[calc(100vw-1.5rem)] sm:mb-0 sm:max-w-4xl rounded-[1.75rem] sm:rounded-lg border border-gray-700 bg-gray-900/95 shadow-2xl backdrop-blur-md max-h-[80vh] flex flex-col overflow-hidden">
+                <div className="flex items-start justify-between gap-3 px-4 py-3 border-b border-gray-700 bg-gray-800/90">
+                    <div>
+                        <div className="text-[10px] font-semibold uppercase tracking-[0.24em] text-cyan-200/80">
+                            Map Analytics
+                        </div>
+                        <h3 className="mt-1 font-bold text-gray-200">
+                            {analytics
+                                ? `${analytics.nodes.length} pages · ${analytics.components.length} ${analytics.components.length === 1 ? 'component' : 'components'} · ${analytics.bridges.length} ${analytics.bridges.length === 1 ? 'bridge' : 'bridges'}`
+                                : 'No map yet'}
+                        </h3>
+                        <div className="mt-0.5 text-[11px] text-gray-500">
+                            Pages and the hyperlinks between them; category, language and mention links are left out.
+                        </div>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-lg leading-none">
+                        ×
+                    </button>
+                </div>
+
+                {!analytics || analytics.nodes.length === 0 ? (
+                    <div className="px-4 py-6 text-center text-xs text-gray-500">
+                        Add a few topics to see which pages hold the map together.
+                    </div>
+                ) : (
+                    <div className="flex-1 overflow-y-auto p-4 grid gap-4 sm:grid-cols-[minmax(0,3fr)_minmax(0,2fr)]">
+                        <div className="min-w-0">
+                            <div className="mb-2 flex flex-wrap items-center gap-2 text-[11px] text-gray-400">
+                                <span>Select top</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    max={analytics.nodes.length}
+                                    value={topCount}
+                                    onChange={(e) => setTopCount(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                                    className="w-14 bg-black/30 border border-gray-700/70 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-cyan-400/40"
+                                />
+                                <button
+                                    type="button"
+                                    onClick={() => onSelectNodes(ranked.slice(0, topCount).map(node => node.id))}
+                                    className="rounded-xl border border-cyan-400/25 bg-cyan-400/10 px-3 py-1 text-[11px] text-cyan-100 transition hover:bg-cyan-400/15"
+                                >
+                                    by {sortColumn.label}
+                                </button>
+                                {selectedCount > 0 && (
+                                    <span className="text-gray-500">{selectedCount} selected</span>
+                                )}
+                            </div>
+                            <table className="w-full text-xs">
+                                <thead>
+                                    <tr className="text-left text-[10px] uppercase tracking-[0.14em] text-gray-500">
+                                        <th className="py-1 pr-2 font-semibold">Page</th>
+                                        {SORT_COLUMNS.map(column => (
+                                            <th key={column.key} className="py-1 pl-2 text-right font-semibold">
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setSortKey(column.key)}
+                                                    title={column.title}
+                                                    className={sortKey === column.key ? 'text-cyan-200' : 'hover:text-gray-300'}
+                                                >
+                                                    {column.label}{sortKey === column.key ? ' ↓' : ''}
+                                                </button>
+                                            </th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-800">
+                                    {ranked.slice(0, VISIBLE_ROWS).map(node => (
+                                        <tr key={node.id}>
+                                            <td className="max-w-0 w-full py-1 pr-2">
+                                                <div className="flex items-center gap-1">
+                                                    {renderPageButton(node)}
+                                                    {node.isArticulationPoint && (
+                                                        <span className="shrink-0 text-amber-300" title="Removing this page splits the map">◆</span>
+                                                    )}
+                                                </div>
+                                            </td>
+                                            {SORT_COLUMNS.map(column => (
+                                                <td
+                                                    key={column.key}
+                                                    className={`py-1 pl-2 text-right tabular-nums ${sortKey === column.key ? 'text-gray-100' : 'text-gray-400'}`}
+                                                >
+                                                    {column.format(node[column.key])}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {ranked.length > VISIBLE_ROWS && (
+                                <div className="mt-2 text-[10px] text-gray-500">
+                                    Showing the top {VISIBLE_ROWS} of {ranked.length} pages.
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="min-w-0 space-y-4">
+                            <section>
+                                <div className="flex items-center justify-between text-xs text-gray-400 mb-1">
+                                    <span>Cut pages ({cutPages.length})</span>
+                                    {cutPages.length > 0 && (
+                                        <button
+                                            type="button"
+                                            onClick={() => onSelectNodes(cutPages.map(node => node.id))}
+                                            className="text-[11px] text-cyan-200 hover:text-cyan-100"
+                                        >
+                                            Select all
+                                        </button>
+                                    )}
+                                </div>
+                                {cutPages.length === 0 ? (
+                                    <div className="text-[11px] text-gray-500">No single page holds parts of the map together.</div>
+                                ) : (
+                                    <div className="flex flex-wrap gap-1.5">
+                                        {cutPages.slice(0, 20).map(node => (
+                                            <button
+                                                key={node.id}
+                                                type="button"
+                                                onClick={() => onFocusNode(node.id)}
+                                                className="max-w-full truncate rounded-lg bg-amber-400/10 px-2 py-0.5 text-[11px] text-amber-100 hover:bg-amber-400/20"
+                                            >
+                                                {titleOf(node.id)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </section>
+
+                            <section>
+                                <div className="text-xs text-gray-400 mb-1">Bridges ({analytics.bridges.length})</div>
+                                {analytics.bridges.length === 0 ? (
+                                    <div className="text-[11px] text-gray-500">Every link has a detour.</div>
+                                ) : (
+                                    <ul className="space-y-0.5 text-[11px] text-gray-300">
+                                        {analytics.bridges.slice(0, 12).map(([a, b]) => (
+                                            <li key={`${a}\n${b}`} className="truncate">
+                                                {titleOf(a)} <span className="text-gray-500">—</span> {titleOf(b)}
+                                            </li>
+                                        ))}
+                                        {analytics.bridges.length > 12 && (
+                                            <li className="text-gray-500">and {analytics.bridges.length - 12} more</li>
+                                        )}
+                                    </ul>
+                                )}
+                            </section>
+
+                            <section>
+                                <div className="text-xs text-gray-400 mb-1">Components</div>
+                                <ul className="space-y-1 text-[11px] text-gray-300">
+                                    {analytics.components.slice(0, 6).map((members, index) => (
+                                        <li key={members[0]} className="flex items-center justify-between gap-2">
+                                            <span className="truncate">
+                                                {index === 0 ? 'Main' : `#${index + 1}`} · {members.length} {members.length === 1 ? 'page' : 'pages'}
+                                                <span className="text-gray-500"> around {titleOf(componentAnchor(members))}</span>
+                                            </span>
+                                            <button
+                                                type="button"
+                                                onClick={() => onSelectNodes(members)}
+                                                className="shrink-0 text-cyan-200 hover:text-cyan-100"
+                                            >
+                                                Select
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            </section>
+
+                            <section>
+                                <div className="text-xs text-gray-400 mb-1">Degree distribution</div>
+                                <div className="flex h-20 items-end gap-px">
+                                    {analytics.degreeDistribution.map(bucket => (
+                                        <div
+                                            key={bucket.degree}
+                                            className="flex-1 min-w-[3px] rounded-t bg-cyan-400/50"
+                                            style={{ height: `${Math.max(4, (bucket.count / maxDegreeCount) * 100)}%` }}
+                                            title={`${bucket.count} ${bucket.count === 1 ? 'page' : 'pages'} with ${bucket.degree} ${bucket.degree === 1 ? 'link' : 'links'}`}
+                                        />
+                                    ))}
+                                </div>
+                                <div className="mt-1 flex justify-between text-[10px] text-gray-500">
+                                    <span>{analytics.degreeDistribution[0]?.degree ?? 0} links</span>
+                                    <span>{analytics.degreeDistribution[analytics.degreeDistribution.length - 1]?.degree ?? 0} links</span>
+                                </div>
+                            </section>
+                        </div>
+                    </div>
+                )}
+
+                <div className="border-t border-gray-700 px-4 py-2 text-[10px] text-gray-500">
+                    Selections replace the current bulk selection, so they can be pruned or inspected like a box selection. ◆ marks pages whose removal splits the map.
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import type { Link, LinkInsightSummary } from '../GraphManager';
+import { formatSectionSource } from '../features/sections/sectionLinks';
 
 export function ConnectionStatusBar(props: {
   link: Link | null;
@@ -46,6 +47,7 @@ export function ConnectionStatusBar(props: {
   const typeLabel = (() => {
     if (linkType.includes('backlink')) return 'Incoming link';
     if (linkType === 'path') return 'Path result';
+    if (linkType === 'langlink') return 'Translation';
     if (linkType === 'manual') return 'Manual add';
     if (linkType === 'expand') return 'Expanded outlink';
     if (linkType === 'auto') return 'Auto connection';
@@ -54,6 +56,7 @@ export function ConnectionStatusBar(props: {
 
   const isPinned = Boolean(link && props.pinnedLinks.some(l => l.id === link.id));
   const hasLongContext = Boolean(link?.context && link.context.length > 180);
+  const sectionSource = formatSectionSource(link?.section);
   const linkInsight = props.linkInsight;
   const wrapperClassName = props.isTouchDevice
     ? 'fixed inset-x-3 bottom-[6.8rem] z-30 pointer-events-none'
@@ -65,6 +68,9 @@ export function ConnectionStatusBar(props: {
   const relationshipLabel = (() => {
     if (!linkInsight) return null;
     if (linkInsight.role === 'path') return 'Path bridge';
+    if (linkInsight.role === 'langlink') return 'Same topic, another language';
+    if (linkInsight.role === 'mention') return 'Unlinked mention';
+    if (linkInsight.role === 'category') return 'Category membership';
     if (linkInsight.role === 'backlink') return linkInsight.isReciprocal ? 'Mutual backlink' : 'Incoming reference';
     if (linkInsight.role === 'cross') {
       return linkInsight.tier === 'strong' ? 'Strong bridge' : 'Bridge link';
@@ -81,6 +87,15 @@ export function ConnectionStatusBar(props: {
     if (linkInsight.role === 'path') {
       return 'This highlighted edge is part of the active bridge the pathfinder reconstructed.';
     }
+    if (linkInsight.role === 'langlink') {
+      return 'Both nodes describe the same concept in different language editions; compare how each one frames it.';
+    }
+    if (linkInsight.role === 'mention') {
+      return 'The article names this topic in its lead without linking it, so treat the connection as a suggestion.';
+    }
+    if (linkInsight.role === 'category') {
+      return 'The wiki files one under the other in its category tree, rather than one article linking the other.';
+    }
     if (linkInsight.role === 'cross') {
       return linkInsight.sharedNeighbors > 0
         ? `This bridge jumps between branches and still shares ${linkInsight.sharedNeighbors} nearby topic${linkInsight.sharedNeighbors === 1 ? '' : 's'}.`
@@ -258,6 +273,11 @@ export function ConnectionStatusBar(props: {
               <div className={`text-[12px] text-gray-200 leading-relaxed italic ${showFullContext ? '' : 'line-clamp-3'}`}>
                 “{link?.context}”
               </div>
+              {sectionSource && (
+                <div className="text-[10px] uppercase tracking-wider text-slate-500">
+                  {sectionSource}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -0,0 +1,91 @@
+import React from 'react';
+
+export type DisambiguationMeaning = {
+    title: string;
+    /** Short description from the page summary, once loaded. */
+    description?: string;
+    /** The disambiguation page's own line for this meaning. */
+    gloss: string;
+};
+
+interface DisambiguationChooserProps {
+    /** The disambiguation page, or null when the chooser is closed. */
+    title: string | null;
+    /** Null while the page's meanings are loading. */
+    meanings: DisambiguationMeaning[] | null;
+    /** Set when the page is already a node on the map, so a pick links from it. */
+    isOnMap: boolean;
+    onChoose: (title: string) => void;
+    onAddAnyway: () => void;
+    onClose: () => void;
+}
+
+export const DisambiguationChooser: React.FC<DisambiguationChooserProps> = ({
+    title,
+    meanings,
+    isOnMap,
+    onChoose,
+    onAddAnyway,
+    onClose,
+}) => {
+    if (!title) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center sm:justify-center">
+            <button
+                type="button"
+                onClick={onClose}
+                aria-label="Close meaning chooser"
+                className="absolute inset-0 bg-slate-950/45 backdrop-blur-[2px]"
+            />
+
+            <div className="relative z-10 mx-3 mb-3 w-[calc(100vw-1.5rem)] sm:mb-0 sm:max-w-lg rounded-[1.75rem] sm:rounded-lg border border-gray-700 bg-gray-900/95 shadow-2xl backdrop-blur-md max-h-[80vh] flex flex-col overflow-hidden">
+                <div className="flex items-start justify-between gap-3 px-4 py-3 border-b border-gray-700 bg-gray-800/90">
+                    <div>
+                        <div className="text-[10px] font-semibold uppercase tracking-[0.24em] text-stone-300/80">
+                            Which {title}?
+                        </div>
+                        <h3 className="mt-1 text-sm font-bold text-gray-200">
+                            “{title}” is a disambiguation page. Pick the meaning to explore.
+                        </h3>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-lg leading-none">
+                        ×
+                    </button>
+                </div>
+
+                <div className="overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-transparent p-3 space-y-1.5">
+                    {!meanings ? (
+                        <div className="px-2 py-6 text-center text-xs text-gray-500">Loading meanings...</div>
+                    ) : meanings.length === 0 ? (
+                        <div className="px-2 py-6 text-center text-xs text-gray-500">No meanings could be read from this page.</div>
+                    ) : meanings.map(meaning => (
+                        <button
+                            key={meaning.title}
+                            type="button"
+                            onClick={() => onChoose(meaning.title)}
+                            className="w-full rounded-2xl border border-slate-700/70 bg-black/20 px-3 py-2.5 text-left transition hover:border-cyan-400/35 hover:bg-cyan-400/8"
+                        >
+                            <div className="text-sm font-semibold text-slate-100">{meaning.title}</div>
+                            <div className="mt-0.5 text-xs leading-relaxed text-slate-400">
+                                {meaning.description || meaning.gloss}
+                            </div>
+                        </button>
+                    ))}
+                </div>
+
+                {!isOnMap && (
+                    <div className="flex justify-end border-t border-gray-700 px-4 py-2.5">
+                        <button
+                            type="button"
+                            onClick={onAddAnyway}
+                            className="text-[11px] text-slate-400 transition hover:text-slate-200"
+                        >
+                            Add the disambiguation page itself
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
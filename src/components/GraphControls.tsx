@@ -1,9 +1,25 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { type LayoutMode } from '../features/layout/layoutConfig';
+import type { EncodingLegend, NodeColorMode } from '../GraphManager';
+import type { WikiCacheStats } from '../WikiService';
+import { createCustomWikiSource, type WikiSource } from '../config/wikiSources';
+import { MAP_DOCUMENT_EXTENSION } from '../features/persistence/mapDocument';
+import { GRAPH_EXPORT_FORMATS, type GraphExportFormat } from '../features/export/graphExport';
+import { DEFAULT_IMAGE_EXPORT_OPTIONS, type ImageExportOptions } from '../features/export/imageExport';
+import { PATHFINDER_STRATEGIES, type PathfinderStrategy } from '../features/pathfinding/runPathfinder';
+import { NODE_METRICS, type MetricLegend, type NodeMetric } from '../features/encoding/nodeEncoding';
+import type { PathConstraints } from '../features/pathfinding/pathConstraints';
+import { PathConstraintsEditor } from './PathConstraintsEditor';
 
 const PROJECT_GITHUB_URL = 'https://github.com/StoneHub/WikiWebMap';
 const PERSONAL_SITE_URL = 'https://monroes.tech';
 
+const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 interface GraphControlsProps {
     showSettings: boolean;
     setShowSettings: (show: boolean) => void;
@@ -17,14 +33,34 @@ interface GraphControlsProps {
     setBranchSpread: (spread: number) => void;
     showCrossLinks: boolean;
     setShowCrossLinks: (value: boolean) => void;
+    showMentionLinks: boolean;
+    setShowMentionLinks: (value: boolean) => void;
+    nodeColorMode: NodeColorMode;
+    setNodeColorMode: (mode: NodeColorMode) => void;
+    nodeSizeMetric: NodeMetric;
+    setNodeSizeMetric: (metric: NodeMetric) => void;
+    nodeColorMetric: NodeMetric;
+    setNodeColorMetric: (metric: NodeMetric) => void;
+    encodingLegend: EncodingLegend;
     recursionDepth: number;
     setRecursionDepth: (depth: number) => void;
+    pathfinderStrategy: PathfinderStrategy;
+    setPathfinderStrategy: (strategy: PathfinderStrategy) => void;
+    pathConstraints: PathConstraints;
+    setPathConstraints: (constraints: PathConstraints) => void;
     nodeSizeScale: number;
     setNodeSizeScale: (scale: number) => void;
     includeBacklinks: boolean;
     setIncludeBacklinks: (value: boolean) => void;
     apiContactEmail: string;
     setApiContactEmail: (email: string) => void;
+    wikiSources: WikiSource[];
+    wikiSourceId: string;
+    setWikiSourceId: (id: string) => void;
+    onAddCustomWikiSource: (source: WikiSource) => void;
+    cacheStats: WikiCacheStats | null;
+    onRefreshCacheStats: () => void;
+    onClearCache: () => void;
     nodeCount: number;
     linkCount: number;
     canPruneLeaves: boolean;
@@ -34,6 +70,13 @@ interface GraphControlsProps {
     onPruneLeaves: () => void;
     onDeleteSelection: () => void;
     onOpenLogs?: () => void;
+    onExportMap: () => void;
+    onCopyShareLink: () => void;
+    onExportGraph: (format: GraphExportFormat) => void;
+    onExportImage: (format: 'svg' | 'png', options: ImageExportOptions) => void;
+    onImportMap: (file: File) => void;
+    onOpenMapLibrary: () => void;
+    onOpenAnalytics: () => void;
 }
 
 export const GraphControls: React.FC<GraphControlsProps> = ({
@@ -49,7 +92,20 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
     setBranchSpread,
     showCrossLinks,
     setShowCrossLinks,
+    showMentionLinks,
+    setShowMentionLinks,
+    nodeColorMode,
+    setNodeColorMode,
+    nodeSizeMetric,
+    setNodeSizeMetric,
+    nodeColorMetric,
+    setNodeColorMetric,
+    encodingLegend,
     recursionDepth,
+    pathfinderStrategy,
+    setPathfinderStrategy,
+    pathConstraints,
+    setPathConstraints,
     setRecursionDepth,
     nodeSizeScale,
     setNodeSizeScale,
@@ -57,6 +113,13 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
     setIncludeBacklinks,
     apiContactEmail,
     setApiContactEmail,
+    wikiSources,
+    wikiSourceId,
+    setWikiSourceId,
+    onAddCustomWikiSource,
+    cacheStats,
+    onRefreshCacheStats,
+    onClearCache,
     nodeCount,
     linkCount,
     canPruneLeaves,
@@ -66,9 +129,20 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
     onPruneLeaves,
     onDeleteSelection,
     onOpenLogs,
+    onExportMap,
+    onCopyShareLink,
+    onExportGraph,
+    onExportImage,
+    onImportMap,
+    onOpenMapLibrary,
+    onOpenAnalytics,
 }) => {
     const [showLegend, setShowLegend] = useState(false);
     const [desktopPanelSidecarLeft, setDesktopPanelSidecarLeft] = useState<number | null>(null);
+    const [customApiUrl, setCustomApiUrl] = useState('');
+    const [customSourceError, setCustomSourceError] = useState('');
+    const [imageExportOptions, setImageExportOptions] = useState<ImageExportOptions>(DEFAULT_IMAGE_EXPORT_OPTIONS);
+    const mapFileInputRef = useRef<HTMLInputElement>(null);
     const isGuidedMap = layoutMode === 'structured';
     const mobileSheetClassName =
         'fixed inset-x-3 bottom-20 pointer-events-auto rounded-[1.75rem] border border-slate-700/70 bg-slate-900/94 p-4 shadow-[0_22px_60px_rgba(2,6,23,0.6)] backdrop-blur-xl max-h-[60vh] overflow-y-auto';
@@ -81,6 +155,37 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
         maxHeight: 'calc(100vh - 3rem)',
     } as const;
 
+    const cacheCounts = cacheStats
+        ? cacheStats.persistent.available
+            ? {
+                links: cacheStats.persistent.byKind.links.entries,
+                pageLinks: cacheStats.persistent.byKind.pageLinks.entries,
+                summary: cacheStats.persistent.byKind.summary.entries,
+                backlinks: cacheStats.persistent.byKind.backlinks.entries,
+                categories: cacheStats.persistent.byKind.categories.entries,
+                linkContext: cacheStats.persistent.byKind.linkContext.entries,
+                langLinks: cacheStats.persistent.byKind.langLinks.entries,
+                pageInfo: cacheStats.persistent.byKind.pageInfo.entries,
+                redirects: cacheStats.persistent.byKind.redirects.entries,
+                categoryMembers: cacheStats.persistent.byKind.categoryMembers.entries,
+                aliases: cacheStats.persistent.byKind.aliases.entries,
+                disambiguation: cacheStats.persistent.byKind.disambiguation.entries,
+                sectionLinks: cacheStats.persistent.byKind.sectionLinks.entries,
+            }
+            : cacheStats.memory
+        : null;
+
+    const addCustomSource = () => {
+        if (!customApiUrl.trim()) return;
+        try {
+            onAddCustomWikiSource(createCustomWikiSource({ apiUrl: customApiUrl }));
+            setCustomApiUrl('');
+            setCustomSourceError('');
+        } catch {
+            setCustomSourceError('Enter a full api.php URL, e.g. http://localhost:8080/w/api.php');
+        }
+    };
+
     const toggleSettings = () => {
         const next = !showSettings;
         setShowSettings(next);
@@ -119,8 +224,57 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
         return () => window.removeEventListener('resize', updateDesktopPanelPosition);
     }, [isTouchDevice, showLegend, showSettings]);
 
+    const renderMetricSelect = (value: NodeMetric, onChange: (metric: NodeMetric) => void, label: string) => (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value as NodeMetric)}
+            aria-label={label}
+            className="w-full bg-black/30 border border-gray-700/70 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500/60"
+        >
+            {(Object.keys(NODE_METRICS) as NodeMetric[]).map(metric => (
+                <option key={metric} value={metric}>
+                    {NODE_METRICS[metric].label}
+                </option>
+            ))}
+        </select>
+    );
+
+    const renderMetricLegend = (title: string, legend: MetricLegend) => (
+        <div>
+            <div className="flex justify-between text-gray-300">
+                <span>{title}</span>
+                <span className="text-gray-400">{legend.label}</span>
+            </div>
+            <div className="mt-1 flex items-center gap-2 text-[10px] text-gray-400">
+                <span className="shrink-0">{legend.minLabel}</span>
+                {legend.stops ? (
+                    <div
+                        className="h-2 flex-1 rounded-full"
+                        style={{ background: `linear-gradient(to right, ${legend.stops.join(', ')})` }}
+                    />
+                ) : (
+                    <svg height="16" className="flex-1" viewBox="0 0 84 16" preserveAspectRatio="xMidYMid meet">
+                        <circle cx="6" cy="8" r="4" fill="#94a3b8" opacity="0.8" />
+                        <circle cx="42" cy="8" r="6" fill="#94a3b8" opacity="0.8" />
+                        <circle cx="76" cy="8" r="8" fill="#94a3b8" opacity="0.8" />
+                    </svg>
+                )}
+                <span className="shrink-0">{legend.maxLabel}</span>
+            </div>
+        </div>
+    );
+
     const renderLegendContent = () => (
         <>
+            {(encodingLegend.size || encodingLegend.color) && (
+                <div className="mb-3 pb-3 border-b border-gray-700/50 space-y-2 text-xs">
+                    {encodingLegend.size && renderMetricLegend('Node size', encodingLegend.size)}
+                    {encodingLegend.color && renderMetricLegend('Node color', encodingLegend.color)}
+                    {encodingLegend.color && (
+                        <div className="text-[10px] text-gray-500">Gray nodes have no value yet.</div>
+                    )}
+                </div>
+            )}
             <div className="space-y-2 text-xs text-gray-200">
                 <div className="flex items-center justify-between">
                     <span className="text-gray-300">Primary branches</span>
@@ -146,6 +300,31 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
                         <line x1="2" y1="6" x2="82" y2="6" stroke="#ffb020" strokeWidth="3" strokeDasharray="6 10" />
                     </svg>
                 </div>
+                <div className="flex items-center justify-between">
+                    <span className="text-gray-300">Translations</span>
+                    <svg width="84" height="12" className="opacity-90">
+                        <line x1="2" y1="6" x2="82" y2="6" stroke="#c084fc" strokeWidth="2.4" strokeDasharray="1 6" strokeLinecap="round" />
+                    </svg>
+                </div>
+                <div className="flex items-center justify-between">
+                    <span className="text-gray-300">Unlinked mentions</span>
+                    <svg width="84" height="12" className="opacity-90">
+                        <line x1="2" y1="6" x2="82" y2="6" stroke="#94a3b8" strokeOpacity="0.6" strokeWidth="1.2" strokeDasharray="1 4" strokeLinecap="round" />
+                    </svg>
+                </div>
+                <div className="flex items-center justify-between">
+                    <span className="text-gray-300">Category membership</span>
+                    <svg width="84" height="12" className="opacity-90">
+                        <line x1="2" y1="6" x2="64" y2="6" stroke="#5eead4" strokeWidth="1.8" strokeDasharray="5 4" />
+                        <rect x="68" y="1" width="10" height="10" rx="2.2" fill="#14b8a6" />
+                    </svg>
+                </div>
+                <div className="flex items-center justify-between">
+                    <span className="text-gray-300">Disambiguation page</span>
+                    <svg width="84" height="12" className="opacity-90">
+                        <circle cx="77" cy="6" r="4.5" fill="#78716c" stroke="#fff" strokeWidth="1" strokeDasharray="3 2" />
+                    </svg>
+                </div>
                 <div className="flex items-center justify-between">
                     <span className="text-gray-300">Path result</span>
                     <svg width="84" height="12" className="opacity-90">
@@ -160,7 +339,7 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
                 </div>
             </div>
             <div className="mt-3 pt-3 border-t border-gray-700/50 text-[11px] text-gray-300 leading-relaxed">
-                Wider, brighter links mark tighter overlap between topics, often because they share nearby pages or point at each other. Dashed bridge links show branch-to-branch jumps, while amber links mark incoming references.
+                Wider, brighter links mark tighter overlap between topics, often because they share nearby pages or point at each other. Dashed bridge links show branch-to-branch jumps, while amber links mark incoming references and dotted violet links join language editions of the same topic.
             </div>
         </>
     );
@@ -174,6 +353,14 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
                 <span>
                     Connections: <span className="text-white font-semibold">{linkCount}</span>
                 </span>
+                <button
+                    type="button"
+                    onClick={onOpenAnalytics}
+                    disabled={nodeCount === 0}
+                    className="ml-auto text-cyan-200 hover:text-cyan-100 disabled:cursor-not-allowed disabled:opacity-40"
+                >
+                    Analytics
+                </button>
             </div>
             <div className="space-y-4">
                 <div>
@@ -284,11 +471,34 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
                         Effective max depth: {recursionDepth * 2} (capped at 6).
                     </div>
                 </div>
+                <div>
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                        <span>Path Search</span>
+                    </div>
+                    <select
+                        value={pathfinderStrategy}
+                        onChange={(e) => setPathfinderStrategy(e.target.value as PathfinderStrategy)}
+                        className="w-full bg-black/30 border border-gray-700/70 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500/60"
+                    >
+                        {(Object.keys(PATHFINDER_STRATEGIES) as PathfinderStrategy[]).map(strategy => (
+                            <option key={strategy} value={strategy}>
+                                {PATHFINDER_STRATEGIES[strategy].label}
+                            </option>
+                        ))}
+                    </select>
+                    <div className="mt-1 text-[10px] text-gray-500">
+                        {PATHFINDER_STRATEGIES[pathfinderStrategy].description}
+                    </div>
+                </div>
+                <PathConstraintsEditor constraints={pathConstraints} onChange={setPathConstraints} />
                 <div>
                     <div className="flex justify-between text-xs text-gray-400 mb-1">
                         <span>Node Size</span>
                         <span>{Math.round(nodeSizeScale * 100)}%</span>
                     </div>
+                    <div className="mb-2">
+                        {renderMetricSelect(nodeSizeMetric, setNodeSizeMetric, 'Size nodes by')}
+                    </div>
                     <input
                         type="range"
                         min="0.6"
@@ -316,12 +526,214 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
                             ? 'Controls whether dashed bridge links between branches stay visible in Guided mode.'
                             : 'Keeps secondary links between trees visible while forest branches stay readable.'}
                     </div>
+                    <label className="mt-2 flex items-center gap-2 text-xs text-gray-300 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={showMentionLinks}
+                            onChange={(e) => setShowMentionLinks(e.target.checked)}
+                        />
+                        Show unlinked mentions
+                    </label>
+                    <div className="mt-1 text-[10px] text-gray-500">
+                        Adds faint dotted links where an article's lead names another page on the map, or one of its redirects, without linking it.
+                    </div>
+                </div>
+                <div>
+                    <div className="flex justify-between text-xs text-gray-400 mb-2">
+                        <span>Node Color</span>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        {([['origin', 'By Tree'], ['cluster', 'By Cluster'], ['metric', 'By Metric']] as const).map(([mode, label]) => (
+                            <button
+                                key={mode}
+                                type="button"
+                                onClick={() => setNodeColorMode(mode)}
+                                className={`rounded-xl border px-3 py-2 text-xs font-semibold transition ${nodeColorMode === mode
+                                    ? 'border-cyan-400/40 bg-cyan-400/12 text-cyan-100'
+                                    : 'border-slate-700/70 bg-slate-900/50 text-slate-300 hover:border-cyan-400/20'
+                                    }`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    {nodeColorMode === 'metric' && (
+                        <div className="mt-2">
+                            {renderMetricSelect(nodeColorMetric, setNodeColorMetric, 'Color nodes by')}
+                        </div>
+                    )}
+                    <div className="mt-1 text-[10px] text-gray-500">
+                        {nodeColorMode === 'cluster'
+                            ? 'Groups densely linked pages into communities, draws a bubble around each and names it after the category its members share.'
+                            : nodeColorMode === 'metric'
+                                ? 'Shades pages from dark to bright by the chosen metric. Backlinks and page stats load from the wiki while selected.'
+                                : 'Each topic you add seeds a color that its branches inherit.'}
+                    </div>
                 </div>
                 {isGuidedMap && (
                     <div className="rounded-2xl border border-cyan-400/20 bg-cyan-400/6 px-3 py-2 text-[11px] leading-relaxed text-cyan-50">
                         Guided mode is the hybrid follow-up to the map experiment: softer lane structure, no diagram arrows, and full drag-to-arrange still intact.
                     </div>
                 )}
+                <div>
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                        <span>Map File</span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            type="button"
+                            onClick={onOpenMapLibrary}
+                            className="rounded-xl border border-cyan-400/25 bg-cyan-400/10 px-3 py-1.5 text-[11px] text-cyan-100 transition hover:bg-cyan-400/15"
+                        >
+                            My Maps
+                        </button>
+                        <button
+                            type="button"
+                            onClick={onExportMap}
+                            disabled={nodeCount === 0}
+                            className="rounded-xl border border-slate-700/70 bg-slate-900/50 px-3 py-1.5 text-[11px] text-slate-300 transition hover:border-cyan-400/20 disabled:cursor-not-allowed disabled:opacity-40"
+                        >
+                            Export File
+                        </button>
+                        <button
+                            type="button"
+                            onClick={onCopyShareLink}
+                            disabled={nodeCount === 0}
+                            className="rounded-xl border border-slate-700/70 bg-slate-900/50 px-3 py-1.5 text-[11px] text-slate-300 transition hover:border-cyan-400/20 disabled:cursor-not-allowed disabled:opacity-40"
+                        >
+                            Copy Share Link
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => mapFileInputRef.current?.click()}
+                            className="rounded-xl border border-slate-700/70 bg-slate-900/50 px-3 py-1.5 text-[11px] text-slate-300 transition hover:border-cyan-400/20"
+                        >
+                            Import File…
+                        </button>
+                        <input
+                            ref={mapFileInputRef}
+                            type="file"
+                            accept={`${MAP_DOCUMENT_EXTENSION},application/json`}
+                            className="hidden"
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) onImportMap(file);
+                                e.target.value = '';
+                            }}
+                        />
+                    </div>
+                    <div className="mt-1 text-[10px] text-gray-500">
+                        Maps autosave to this browser. Export downloads topics, positions, found paths, pinned links, and these settings as a {MAP_DOCUMENT_EXTENSION} file. Share links rebuild the map from its seeds, expansions, and paths.
+                    </div>
+                </div>
+                <div>
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                        <span>Analysis Export</span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {(Object.keys(GRAPH_EXPORT_FORMATS) as GraphExportFormat[]).map(format => (
+                            <button
+                                key={format}
+                                type="button"
+                                onClick={() => onExportGraph(format)}
+                                disabled={nodeCount === 0}
+                                className="rounded-xl border border-slate-700/70 bg-slate-900/50 px-3 py-1.5 text-[11px] text-slate-300 transition hover:border-cyan-400/20 disabled:cursor-not-allowed disabled:opacity-40"
+                            >
+                                {GRAPH_EXPORT_FORMATS[format].label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="mt-1 text-[10px] text-gray-500">
+                        Graph files for Gephi (GEXF), NetworkX (GraphML), or Graphviz (DOT) with categories, descriptions, path flags, and link strength.
+                    </div>
+                </div>
+                <div>
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                        <span>Image Export</span>
+                    </div>
+                    <div className="flex gap-2">
+                        <select
+                            value={imageExportOptions.frame}
+                            onChange={(e) => setImageExportOptions(prev => ({ ...prev, frame: e.target.value as ImageExportOptions['frame'] }))}
+                            className="flex-1 bg-black/30 border border-gray-700/70 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500/60"
+                        >
+                            <option value="fit">Whole graph</option>
+                            <option value="viewport">Visible view</option>
+                        </select>
+                        <select
+                            value={imageExportOptions.scale}
+                            onChange={(e) => setImageExportOptions(prev => ({ ...prev, scale: Number(e.target.value) }))}
+                            className="bg-black/30 border border-gray-700/70 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500/60"
+                            aria-label="PNG scale"
+                        >
+                            {[1, 2, 3, 4].map(scale => (
+                                <option key={scale} value={scale}>{scale}× PNG</option>
+                            ))}
+                        </select>
+                    </div>
+                    <label className="mt-2 flex items-center gap-2 text-xs text-gray-300 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={imageExportOptions.includeBackground}
+                            onChange={(e) => setImageExportOptions(prev => ({ ...prev, includeBackground: e.target.checked }))}
+                        />
+                        Include background grid
+                    </label>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                        {(['svg', 'png'] as const).map(format => (
+                            <button
+                                key={format}
+                                type="button"
+                                onClick={() => onExportImage(format, imageExportOptions)}
+                                disabled={nodeCount === 0}
+                                className="rounded-xl border border-slate-700/70 bg-slate-900/50 px-3 py-1.5 text-[11px] text-slate-300 transition hover:border-cyan-400/20 disabled:cursor-not-allowed disabled:opacity-40"
+                            >
+                                {format.toUpperCase()}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="mt-1 text-[10px] text-gray-500">
+                        Standalone images for slides and reports. Thumbnails are embedded; ones the wiki won't share are left blank.
+                    </div>
+                </div>
+                <div>
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                        <span>Wiki Source</span>
+                    </div>
+                    <select
+                        value={wikiSourceId}
+                        onChange={(e) => setWikiSourceId(e.target.value)}
+                        className="w-full bg-black/30 border border-gray-700/70 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500/60"
+                    >
+                        {wikiSources.map(source => (
+                            <option key={source.id} value={source.id}>
+                                {source.displayName}
+                            </option>
+                        ))}
+                    </select>
+                    <div className="mt-2 flex gap-2">
+                        <input
+                            type="url"
+                            value={customApiUrl}
+                            onChange={(e) => setCustomApiUrl(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') addCustomSource();
+                            }}
+                            placeholder="https://wiki.example.org/w/api.php"
+                            className="min-w-0 flex-1 bg-black/30 border border-gray-700/70 rounded px-2 py-1 text-xs text-gray-200 placeholder:text-gray-500 focus:outline-none focus:border-green-500/60"
+                        />
+                        <button
+                            type="button"
+                            onClick={addCustomSource}
+                            className="rounded-xl border border-slate-700/70 bg-slate-900/50 px-3 py-1.5 text-[11px] text-slate-300 transition hover:border-cyan-400/20"
+                        >
+                            Add
+                        </button>
+                    </div>
+                    <div className="mt-1 text-[10px] text-gray-500">
+                        {customSourceError || 'New topics come from this wiki. Existing nodes keep the wiki they were added from.'}
+                    </div>
+                </div>
                 <div>
                     <div className="flex justify-between text-xs text-gray-400 mb-1">
                         <span>Discovery</span>
@@ -353,6 +765,56 @@ export const GraphControls: React.FC<GraphControlsProps> = ({
                         Used for Wikipedia API identification.
                     </div>
                 </div>
+                <div>
+                    <div className="flex justify-between text-xs text-gray-400 mb-1">
+                        <span>Offline Cache</span>
+                        {cacheStats && (
+                            <span>
+                                {cacheStats.persistent.available
+                                    ? `${formatBytes(cacheStats.persistent.totalBytes)} / ${formatBytes(cacheStats.persistent.maxBytes)}`
+                                    : 'Memory only'}
+                            </span>
+                        )}
+                    </div>
+                    {cacheCounts ? (
+                        <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[11px] text-gray-300">
+                            <span>Pages: <span className="text-white">{cacheCounts.links}</span></span>
+                            <span>Link lists: <span className="text-white">{cacheCounts.pageLinks}</span></span>
+                            <span>Summaries: <span className="text-white">{cacheCounts.summary}</span></span>
+                            <span>Backlinks: <span className="text-white">{cacheCounts.backlinks}</span></span>
+                            <span>Categories: <span className="text-white">{cacheCounts.categories}</span></span>
+                            <span>Snippets: <span className="text-white">{cacheCounts.linkContext}</span></span>
+                            <span>Translations: <span className="text-white">{cacheCounts.langLinks}</span></span>
+                            <span>Page stats: <span className="text-white">{cacheCounts.pageInfo}</span></span>
+                            <span>Redirects: <span className="text-white">{cacheCounts.redirects}</span></span>
+                            <span>Category lists: <span className="text-white">{cacheCounts.categoryMembers}</span></span>
+                            <span>Aliases: <span className="text-white">{cacheCounts.aliases}</span></span>
+                            <span>Disambiguation: <span className="text-white">{cacheCounts.disambiguation}</span></span>
+                            <span>Section links: <span className="text-white">{cacheCounts.sectionLinks}</span></span>
+                        </div>
+                    ) : (
+                        <div className="text-[11px] text-gray-500">Reading cache…</div>
+                    )}
+                    <div className="mt-2 flex gap-2">
+                        <button
+                            type="button"
+                            onClick={onRefreshCacheStats}
+                            className="rounded-xl border border-slate-700/70 bg-slate-900/50 px-3 py-1.5 text-[11px] text-slate-300 transition hover:border-cyan-400/20"
+                        >
+                            Refresh
+                        </button>
+                        <button
+                            type="button"
+                            onClick={onClearCache}
+                            className="rounded-xl border border-red-500/20 bg-red-500/10 px-3 py-1.5 text-[11px] text-red-200 transition hover:bg-red-500/15"
+                        >
+                            Clear Cache
+                        </button>
+                    </div>
+                    <div className="mt-1 text-[10px] text-gray-500">
+                        Explored pages are kept in this browser (links 1h, categories 24h) so reopening a map skips repeat requests.
+                    </div>
+                </div>
             </div>
             {isTouchDevice && (
                 <div className="mt-4 rounded-2xl border border-blue-500/20 bg-blue-500/5 px-3 py-2 text-[11px] text-blue-100/90 leading-relaxed">
@@ -43,6 +43,91 @@ function displacePoint(x: number, y: number, masses: LensingNode[]) {
   return { x: x + dxTotal, y: y + dyTotal };
 }
 
+/**
+ * Draw one frame of the grid. Masses are in canvas coordinates; image export
+ * reuses this to paint the background at the exported frame's size.
+ */
+export function drawLensingGrid(
+  ctx: CanvasRenderingContext2D,
+  w: number,
+  h: number,
+  rawMasses: LensingNode[],
+  layoutMode: LayoutMode
+) {
+  const isForest = layoutMode === 'forest';
+  const isGuided = layoutMode === 'structured';
+  const denseGraph = rawMasses.length > 120;
+
+  ctx.clearRect(0, 0, w, h);
+
+  const intensity = Math.min(
+    1.5,
+    Math.max(0, EFFECT_INTENSITY * (isForest ? 0.55 : isGuided ? 0.68 : 1) * (denseGraph ? 0.6 : 1))
+  );
+  const masses = rawMasses
+    .sort((a, b) => b.mass - a.mass)
+    .slice(0, Math.max(8, Math.round(16 + 28 * intensity)));
+
+  const gridSpacing = Math.max(40, Math.round(64 - 14 * intensity));
+  const sampleStep = Math.max(10, Math.round(18 - 6 * intensity));
+
+  ctx.lineWidth = 1;
+  const minorAlpha = 0.03 + 0.07 * intensity;
+  const majorAlpha = 0.06 + 0.14 * intensity;
+  const minorStroke = `rgba(120, 160, 255, ${minorAlpha})`;
+  const majorStroke = `rgba(120, 160, 255, ${majorAlpha})`;
+
+  // Vertical lines
+  for (let gx = 0; gx <= w; gx += gridSpacing) {
+    const isMajor = (gx / gridSpacing) % 4 === 0;
+    ctx.strokeStyle = isMajor ? majorStroke : minorStroke;
+    ctx.beginPath();
+    for (let gy = 0; gy <= h; gy += sampleStep) {
+      const p = displacePoint(gx, gy, masses);
+      if (gy === 0) ctx.moveTo(p.x, p.y);
+      else ctx.lineTo(p.x, p.y);
+    }
+    ctx.stroke();
+  }
+
+  // Horizontal lines
+  for (let gy = 0; gy <= h; gy += gridSpacing) {
+    const isMajor = (gy / gridSpacing) % 4 === 0;
+    ctx.strokeStyle = isMajor ? majorStroke : minorStroke;
+    ctx.beginPath();
+    for (let gx = 0; gx <= w; gx += sampleStep) {
+      const p = displacePoint(gx, gy, masses);
+      if (gx === 0) ctx.moveTo(p.x, p.y);
+      else ctx.lineTo(p.x, p.y);
+    }
+    ctx.stroke();
+  }
+
+  // Subtle bloom around strongest masses (kept very light to avoid "gas cloud")
+  ctx.globalCompositeOperation = 'lighter';
+  const bloomCount = Math.max(0, Math.round(4 + 8 * intensity));
+  for (const m of masses.slice(0, bloomCount)) {
+    const r = (50 + m.mass * 14) * (0.6 + intensity * 0.6);
+    const grd = ctx.createRadialGradient(m.x, m.y, 0, m.x, m.y, r);
+    const bloomAlpha = 0.01 + 0.06 * intensity;
+    grd.addColorStop(0, `rgba(120, 170, 255, ${bloomAlpha})`);
+    grd.addColorStop(1, 'rgba(0, 0, 0, 0)');
+    ctx.fillStyle = grd;
+    ctx.beginPath();
+    ctx.arc(m.x, m.y, r, 0, Math.PI * 2);
+    ctx.fill();
+  }
+  ctx.globalCompositeOperation = 'source-over';
+}
+
+export function getLensingGridOpacity(layoutMode: LayoutMode) {
+  const modeOpacity =
+    layoutMode === 'forest' ? 0.26 : layoutMode === 'structured' ? 0.22 : 0.35;
+  const modeBoost =
+    layoutMode === 'forest' ? 0.26 : layoutMode === 'structured' ? 0.18 : 0.55;
+  return Math.min(0.9, Math.max(0.16, modeOpacity + EFFECT_INTENSITY * modeBoost));
+}
+
 export function LensingGridBackground(props: {
   graphManagerRef: MutableRefObject<GraphManager | null>;
   layoutMode: LayoutMode;
@@ -83,66 +168,7 @@ export function LensingGridBackground(props: {
         return;
       }
 
-      ctx.clearRect(0, 0, w, h);
-
-      const intensity = Math.min(
-        1.5,
-        Math.max(0, EFFECT_INTENSITY * (isForest ? 0.55 : isGuided ? 0.68 : 1) * (denseGraph ? 0.6 : 1))
-      );
-      const masses = rawMasses
-        .sort((a, b) => b.mass - a.mass)
-        .slice(0, Math.max(8, Math.round(16 + 28 * intensity)));
-
-      const gridSpacing = Math.max(40, Math.round(64 - 14 * intensity));
-      const sampleStep = Math.max(10, Math.round(18 - 6 * intensity));
-
-      ctx.lineWidth = 1;
-      const minorAlpha = 0.03 + 0.07 * intensity;
-      const majorAlpha = 0.06 + 0.14 * intensity;
-      const minorStroke = `rgba(120, 160, 255, ${minorAlpha})`;
-      const majorStroke = `rgba(120, 160, 255, ${majorAlpha})`;
-
-      // Vertical lines
-      for (let gx = 0; gx <= w; gx += gridSpacing) {
-        const isMajor = (gx / gridSpacing) % 4 === 0;
-        ctx.strokeStyle = isMajor ? majorStroke : minorStroke;
-        ctx.beginPath();
-        for (let gy = 0; gy <= h; gy += sampleStep) {
-          const p = displacePoint(gx, gy, masses);
-          if (gy === 0) ctx.moveTo(p.x, p.y);
-          else ctx.lineTo(p.x, p.y);
-        }
-        ctx.stroke();
-      }
-
-      // Horizontal lines
-      for (let gy = 0; gy <= h; gy += gridSpacing) {
-        const isMajor = (gy / gridSpacing) % 4 === 0;
-        ctx.strokeStyle = isMajor ? majorStroke : minorStroke;
-        ctx.beginPath();
-        for (let gx = 0; gx <= w; gx += sampleStep) {
-          const p = displacePoint(gx, gy, masses);
-          if (gx === 0) ctx.moveTo(p.x, p.y);
-          else ctx.lineTo(p.x, p.y);
-        }
-        ctx.stroke();
-      }
-
-      // Subtle bloom around strongest masses (kept very light to avoid "gas cloud")
-      ctx.globalCompositeOperation = 'lighter';
-      const bloomCount = Math.max(0, Math.round(4 + 8 * intensity));
-      for (const m of masses.slice(0, bloomCount)) {
-        const r = (50 + m.mass * 14) * (0.6 + intensity * 0.6);
-        const grd = ctx.createRadialGradient(m.x, m.y, 0, m.x, m.y, r);
-        const bloomAlpha = 0.01 + 0.06 * intensity;
-        grd.addColorStop(0, `rgba(120, 170, 255, ${bloomAlpha})`);
-        grd.addColorStop(1, 'rgba(0, 0, 0, 0)');
-        ctx.fillStyle = grd;
-        ctx.beginPath();
-        ctx.arc(m.x, m.y, r, 0, Math.PI * 2);
-        ctx.fill();
-      }
-      ctx.globalCompositeOperation = 'source-over';
+      drawLensingGrid(ctx, w, h, rawMasses, props.layoutMode);
 
       rafRef.current = requestAnimationFrame(draw);
     };
@@ -155,11 +181,7 @@ export function LensingGridBackground(props: {
     };
   }, [props.graphManagerRef, props.layoutMode]);
 
-  const modeOpacity =
-    props.layoutMode === 'forest' ? 0.26 : props.layoutMode === 'structured' ? 0.22 : 0.35;
-  const modeBoost =
-    props.layoutMode === 'forest' ? 0.26 : props.layoutMode === 'structured' ? 0.18 : 0.55;
-  const opacity = Math.min(0.9, Math.max(0.16, modeOpacity + EFFECT_INTENSITY * modeBoost));
+  const opacity = getLensingGridOpacity(props.layoutMode);
   return (
     <canvas
       ref={canvasRef}
@@ -2,6 +2,7 @@ import React from 'react';
 // import { Link } from '../GraphManager'; // Can't import interface easily if it's not exported well or circular. Type loosely for now or export properly.
 // Best to just redeclare minimal type or import if clean.
 import { Link } from '../GraphManager';
+import { formatSectionSource } from '../features/sections/sectionLinks';
 
 interface LinkContextPopupProps {
     link: Link;
@@ -23,6 +24,7 @@ export const LinkContextPopup: React.FC<LinkContextPopupProps> = ({
     const typeLabel = (() => {
         if (linkType.includes('backlink')) return 'Incoming link';
         if (linkType === 'path') return 'Path result';
+        if (linkType === 'langlink') return 'Translation';
         if (linkType === 'manual') return 'Manual add';
         if (linkType === 'expand') return 'Expanded outlink';
         if (linkType === 'auto') return 'Auto connection';
@@ -31,6 +33,7 @@ export const LinkContextPopup: React.FC<LinkContextPopupProps> = ({
 
     const isLoadingContext = !link.context;
     const contextText = link.context || '';
+    const sectionSource = formatSectionSource(link.section);
     return (
         <div
             style={{
@@ -93,9 +96,16 @@ export const LinkContextPopup: React.FC<LinkContextPopupProps> = ({
                             </div>
                         </div>
                     ) : (
-                        <p className="text-[10px] text-gray-300 italic leading-relaxed line-clamp-3">
-                            "{contextText}"
-                        </p>
+                        <>
+                            <p className="text-[10px] text-gray-300 italic leading-relaxed line-clamp-3">
+                                "{contextText}"
+                            </p>
+                            {sectionSource && (
+                                <div className="mt-1 text-[9px] uppercase tracking-wider text-green-400/70">
+                                    {sectionSource}
+                                </div>
+                            )}
+                        </>
                     )}
                 </div>
             </div>
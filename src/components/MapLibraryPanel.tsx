@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import type { SavedMapEntry } from '../services/MapLibrary';
+
+interface MapLibraryPanelProps {
+    isOpen: boolean;
+    maps: SavedMapEntry[];
+    currentMapId: string | null;
+    isAvailable: boolean;
+    onClose: () => void;
+    onOpen: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+    onNewMap: () => void;
+}
+
+const formatUpdatedAt = (timestamp: number) => {
+    const date = new Date(timestamp);
+    const sameDay = date.toDateString() === new Date().toDateString();
+    return sameDay ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : date.toLocaleDateString();
+};
+
+export const MapLibraryPanel: React.FC<MapLibraryPanelProps> = ({
+    isOpen,
+    maps,
+    currentMapId,
+    isAvailable,
+    onClose,
+    onOpen,
+    onRename,
+    onDuplicate,
+    onDelete,
+    onNewMap,
+}) => {
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+    if (!isOpen) return null;
+
+    const startRename = (entry: SavedMapEntry) => {
+        setRenamingId(entry.id);
+        setRenameValue(entry.name);
+        setConfirmDeleteId(null);
+    };
+
+    const commitRename = () => {
+        if (renamingId && renameValue.trim()) onRename(renamingId, renameValue);
+        setRenamingId(null);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:block">
+            <button
+                type="button"
+                onClick={onClose}
+                aria-label="Close map library"
+                className="absolute inset-0 bg-slate-950/45 backdrop-blur-[2px] sm:hidden"
+            />
+
+            <div className="relative z-10 mx-3 mb-3 w-[calc(100vw-1.5rem)] rounded-[1.75rem] border border-gray-700 bg-gray-900/95 shadow-[0_-20px_70px_rgba(2,6,23,0.72)] backdrop-blur-md sm:fixed sm:bottom-24 sm:right-6 sm:mx-0 sm:mb-0 sm:w-96 sm:rounded-lg sm:shadow-2xl max-h-[78vh] sm:max-h-[520px] flex flex-col overflow-hidden">
+                <div className="flex justify-center py-2 sm:hidden">
+                    <div className="h-1.5 w-12 rounded-full bg-gray-500/50" />
+                </div>
+
+                <div className="flex items-start justify-between gap-3 px-4 py-3 border-b border-gray-700 bg-gray-800/90">
+                    <div>
+                        <div className="text-[10px] font-semibold uppercase tracking-[0.24em] text-cyan-200/80">
+                            My Maps
+                        </div>
+                        <h3 className="mt-1 font-bold text-gray-200">
+                            {maps.length} saved {maps.length === 1 ? 'map' : 'maps'}
+                        </h3>
+                    </div>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={onNewMap}
+                            className="text-xs px-3 py-1.5 bg-blue-600 text-white hover:bg-blue-700 rounded-xl"
+                        >
+                            New Map
+                        </button>
+                        <button
+                            onClick={onClose}
+                            className="text-gray-400 hover:text-white"
+                            aria-label="Close map library"
+                        >
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                                <path fillRule="evenodd" d="M14.707 5.293a1 1 0 010 1.414L10.414 10l4.293 4.293a1 1 0 01-1.414 1.414L9 11.414l-4.293 4.293a1 1 0 01-1.414-1.414L7.586 10 3.293 5.707a1 1 0 011.414-1.414L9 8.586l4.293-4.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                            </svg>
+                        </button>
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-auto divide-y divide-gray-800">
+                    {!isAvailable ? (
+                        <div className="p-4 text-center text-xs text-gray-500">
+                            This browser doesn't allow local storage for maps. Use Export File in Settings to keep your work.
+                        </div>
+                    ) : maps.length === 0 ? (
+                        <div className="p-4 text-center text-xs text-gray-500">
+                            No saved maps yet. Maps autosave here as you explore.
+                        </div>
+                    ) : (
+                        maps.map(entry => (
+                            <div
+                                key={entry.id}
+                                className={`flex gap-3 px-3 py-3 ${entry.id === currentMapId ? 'bg-cyan-400/5' : ''}`}
+                            >
+                                <button
+                                    type="button"
+                                    onClick={() => onOpen(entry.id)}
+                                    className="h-12 w-12 shrink-0 overflow-hidden rounded-xl border border-gray-700 bg-slate-950"
+                                    aria-label={`Open ${entry.name}`}
+                                >
+                                    {entry.thumbnail ? (
+                                        <img src={entry.thumbnail} alt="" className="h-full w-full object-cover" />
+                                    ) : (
+                                        <span className="flex h-full w-full items-center justify-center text-lg text-cyan-300/40">◎</span>
+                                    )}
+                                </button>
+                                <div className="min-w-0 flex-1">
+                                    {renamingId === entry.id ? (
+                                        <input
+                                            autoFocus
+                                            value={renameValue}
+                                            onChange={(e) => setRenameValue(e.target.value)}
+                                            onBlur={commitRename}
+                                            onKeyDown={(e) => {
+                                                if (e.key === 'Enter') commitRename();
+                                                if (e.key === 'Escape') setRenamingId(null);
+                                            }}
+                                            className="w-full bg-black/30 border border-gray-700/70 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500/60"
+                                        />
+                                    ) : (
+                                        <button
+                                            type="button"
+                                            onClick={() => onOpen(entry.id)}
+                                            className="block max-w-full truncate text-left text-sm font-semibold text-gray-200 hover:text-white"
+                                            title={entry.name}
+                                        >
+                                            {entry.name}
+                                        </button>
+                                    )}
+                                    <div className="mt-0.5 text-[11px] text-gray-500">
+                                        {entry.nodeCount} topics · {entry.linkCount} links · {formatUpdatedAt(entry.updatedAt)}
+                                        {entry.id === currentMapId && <span className="ml-1 text-cyan-300">· open</span>}
+                                    </div>
+                                    {confirmDeleteId === entry.id ? (
+                                        <div className="mt-2 flex items-center gap-2 text-[11px] text-gray-300">
+                                            <span>Delete this map?</span>
+                                            <button
+                                                onClick={() => setConfirmDeleteId(null)}
+                                                className="rounded-xl border border-gray-700 px-2 py-0.5 text-gray-300 hover:bg-gray-800"
+                                            >
+                                                Cancel
+                                            </button>
+                                            <button
+                                                onClick={() => {
+                                                    onDelete(entry.id);
+                                                    setConfirmDeleteId(null);
+                                                }}
+                                                className="rounded-xl border border-red-700 bg-red-900/40 px-2 py-0.5 text-red-200 hover:bg-red-900/60"
+                                            >
+                                                Delete
+                                            </button>
+                                        </div>
+                                    ) : (
+                                        <div className="mt-2 flex gap-3 text-[11px] text-gray-400">
+                                            <button onClick={() => startRename(entry)} className="hover:text-white">Rename</button>
+                                            <button onClick={() => onDuplicate(entry.id)} className="hover:text-white">Duplicate</button>
+                                            <button onClick={() => setConfirmDeleteId(entry.id)} className="hover:text-red-300">Delete</button>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -1,14 +1,30 @@
 import React from 'react';
 import { Node as GraphNode } from '../GraphManager';
+import type { LangLink } from '../WikiService';
 import { type LayoutMode } from '../features/layout/layoutConfig';
+import { getCategoryName, getNodeKind, isCategoryTitle, type CategoryRelation } from '../features/categories/categoryNodes';
+import type { SectionSummary } from '../features/sections/sectionLinks';
+import { NODE_METRICS } from '../features/encoding/nodeEncoding';
+import { SectionPicker } from './SectionPicker';
 
 interface NodeDetailsPanelProps {
     clickedNode: GraphNode | null;
     clickedSummary: string;
     clickedDescription?: string;
     clickedCategories?: string[];
+    /** Redirects and other known alternative names for the page. */
+    clickedAliases?: string[];
+    /** Expanding a disambiguation page picks one of its meanings instead. */
+    clickedIsDisambiguation?: boolean;
     clickedBacklinkCount?: number;
+    clickedLangLinks?: Array<LangLink & { isOnMap: boolean }>;
+    /** Subcategories then pages, for category nodes. */
+    clickedCategoryMembers?: Array<{ title: string; isOnMap: boolean }>;
+    /** Undefined until requested, null while the full article is loading. */
+    clickedSections?: SectionSummary[] | null;
     nodeThumbnails: Record<string, string>;
+    articleUrl: string;
+    sourceName?: string;
     layoutMode: LayoutMode;
     isPinned: boolean;
     isBranchCollapsed: boolean;
@@ -22,6 +38,12 @@ interface NodeDetailsPanelProps {
     onPruneBranch: () => void;
     onRelayoutTree: () => void;
     onDelete: (id: string) => void;
+    onAddLangLink: (langLink: LangLink) => void;
+    onAddCategory: (categoryName: string) => void;
+    onExpandCategory: (relation: CategoryRelation) => void;
+    onAddCategoryMember: (title: string) => void;
+    onLoadSections: () => void;
+    onExpandSections: (sectionKeys: string[]) => void;
 }
 
 export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
@@ -29,8 +51,15 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
     clickedSummary,
     clickedDescription,
     clickedCategories,
+    clickedAliases,
+    clickedIsDisambiguation,
     clickedBacklinkCount,
+    clickedLangLinks,
+    clickedCategoryMembers,
+    clickedSections,
     nodeThumbnails,
+    articleUrl,
+    sourceName,
     layoutMode,
     isPinned,
     isBranchCollapsed,
@@ -44,10 +73,17 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
     onPruneBranch,
     onRelayoutTree,
     onDelete,
+    onAddLangLink,
+    onAddCategory,
+    onExpandCategory,
+    onAddCategoryMember,
+    onLoadSections,
+    onExpandSections,
 }) => {
     if (!clickedNode) return null;
 
-    const thumbnail = nodeThumbnails[clickedNode.title];
+    const thumbnail = nodeThumbnails[clickedNode.id];
+    const isCategory = getNodeKind(clickedNode.id) === 'category';
 
     return (
         <div className="fixed inset-0 z-40 flex items-end sm:block sm:top-6 sm:right-6 sm:left-auto sm:bottom-auto">
@@ -118,10 +154,10 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
                     <div className="flex-1 overflow-y-auto px-5 pb-4">
                         <div className="-mt-7 rounded-[1.5rem] border border-white/10 bg-slate-900/96 px-4 py-4 shadow-lg">
                             <div className="text-[10px] font-semibold uppercase tracking-[0.24em] text-cyan-200/80">
-                                Topic Details
+                                {isCategory ? 'Category' : clickedIsDisambiguation ? 'Disambiguation' : 'Topic Details'}{sourceName ? ` · ${sourceName}` : ''}
                             </div>
                             <h2 className="mt-2 text-xl font-bold text-white leading-tight">
-                                {clickedNode.title}
+                                {getCategoryName(clickedNode.title)}
                             </h2>
                             {(clickedDescription || typeof clickedBacklinkCount === 'number') && (
                                 <div className="mt-3 flex flex-wrap gap-2 text-[11px] text-slate-300">
@@ -143,7 +179,7 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
                                     )}
                                     {typeof clickedBacklinkCount === 'number' && (
                                         <span className="px-2.5 py-1 rounded-full bg-orange-900/30 border border-orange-700/40 text-orange-200">
-                                            Backlinks: {clickedBacklinkCount}
+                                            Backlinks: {NODE_METRICS.backlinks.format(clickedBacklinkCount)}
                                         </span>
                                     )}
                                 </div>
@@ -158,18 +194,121 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
                                 </p>
                             </div>
 
+                            {clickedAliases && clickedAliases.length > 0 && (
+                                <div>
+                                    <div className="text-[10px] uppercase tracking-widest text-slate-500 mb-1.5">
+                                        Also Known As ({clickedAliases.length})
+                                    </div>
+                                    <p className="text-[11px] text-slate-300 leading-relaxed max-h-20 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-transparent pr-1">
+                                        {clickedAliases.join(' · ')}
+                                    </p>
+                                </div>
+                            )}
+
                             {clickedCategories && clickedCategories.length > 0 && (
                                 <div>
-                                    <div className="text-[10px] uppercase tracking-widest text-slate-500 mb-1.5">Categories</div>
+                                    <div className="text-[10px] uppercase tracking-widest text-slate-500 mb-1.5">
+                                        {isCategory ? 'Parent Categories' : 'Categories'}
+                                    </div>
                                     <div className="flex flex-wrap gap-1.5 max-h-28 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-transparent pr-1">
                                         {clickedCategories.slice(0, 18).map(cat => (
-                                            <span
+                                            <button
                                                 key={cat}
-                                                className="text-[11px] px-2 py-1 rounded-full bg-black/20 border border-slate-700/60 text-slate-200"
-                                                title={cat}
+                                                type="button"
+                                                onClick={() => onAddCategory(cat)}
+                                                className="text-[11px] px-2 py-1 rounded-full bg-black/20 border border-slate-700/60 text-slate-200 transition hover:border-teal-400/40 hover:text-teal-100"
+                                                title={`Add ${cat} to the map and link its members`}
                                             >
                                                 {cat}
-                                            </span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+
+                            {isCategory && (
+                                <div>
+                                    <div className="flex items-center justify-between mb-1.5">
+                                        <span className="text-[10px] uppercase tracking-widest text-slate-500">
+                                            Members{clickedCategoryMembers ? ` (${clickedCategoryMembers.length})` : ''}
+                                        </span>
+                                        <span className="flex gap-2 text-[10px]">
+                                            <button onClick={() => onExpandCategory('parents')} className="text-teal-200 hover:text-teal-100">
+                                                Parents
+                                            </button>
+                                            <button onClick={() => onExpandCategory('subcategories')} className="text-teal-200 hover:text-teal-100">
+                                                Subcategories
+                                            </button>
+                                        </span>
+                                    </div>
+                                    {!clickedCategoryMembers ? (
+                                        <div className="text-[11px] text-slate-500">Loading members...</div>
+                                    ) : clickedCategoryMembers.length === 0 ? (
+                                        <div className="text-[11px] text-slate-500">This category is empty.</div>
+                                    ) : (
+                                        <div className="max-h-40 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-transparent pr-1 space-y-1">
+                                            {clickedCategoryMembers.map(member => (
+                                                <div
+                                                    key={member.title}
+                                                    className="flex items-center justify-between gap-2 text-[11px] text-slate-200"
+                                                >
+                                                    <span className="min-w-0 truncate" title={member.title}>
+                                                        {isCategoryTitle(member.title) && <span className="mr-1.5 text-teal-300">▪</span>}
+                                                        {getCategoryName(member.title)}
+                                                    </span>
+                                                    {member.isOnMap ? (
+                                                        <span className="shrink-0 text-[10px] text-slate-500">On map</span>
+                                                    ) : (
+                                                        <button
+                                                            onClick={() => onAddCategoryMember(member.title)}
+                                                            className="shrink-0 rounded-full border border-teal-400/30 bg-teal-500/10 px-2 py-0.5 text-[10px] text-teal-100 transition hover:bg-teal-500/20"
+                                                        >
+                                                            + Add
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+
+                            {!isCategory && !clickedIsDisambiguation && (
+                                <SectionPicker
+                                    key={clickedNode.id}
+                                    sections={clickedSections}
+                                    onLoad={onLoadSections}
+                                    onExpand={onExpandSections}
+                                />
+                            )}
+
+                            {clickedLangLinks && clickedLangLinks.length > 0 && (
+                                <div>
+                                    <div className="text-[10px] uppercase tracking-widest text-slate-500 mb-1.5">
+                                        Other Languages ({clickedLangLinks.length})
+                                    </div>
+                                    <div className="max-h-36 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-transparent pr-1 space-y-1">
+                                        {clickedLangLinks.map(langLink => (
+                                            <div
+                                                key={langLink.language}
+                                                className="flex items-center justify-between gap-2 text-[11px] text-slate-200"
+                                            >
+                                                <span className="min-w-0 truncate" title={langLink.title}>
+                                                    <span className="mr-1.5 uppercase text-violet-300">{langLink.language}</span>
+                                                    {langLink.title}
+                                                </span>
+                                                {langLink.isOnMap ? (
+                                                    <span className="shrink-0 text-[10px] text-slate-500">On map</span>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => onAddLangLink(langLink)}
+                                                        className="shrink-0 rounded-full border border-violet-400/30 bg-violet-500/10 px-2 py-0.5 text-[10px] text-violet-100 transition hover:bg-violet-500/20"
+                                                        title={`Add the ${langLink.autonym || langLink.language} version`}
+                                                    >
+                                                        + Add
+                                                    </button>
+                                                )}
+                                            </div>
                                         ))}
                                     </div>
                                 </div>
@@ -181,20 +320,18 @@ export const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({
                         <div className="grid grid-cols-2 gap-2">
                             <button
                                 onClick={() =>
-                                    window.open(
-                                        `https://en.wikipedia.org/wiki/${encodeURIComponent(clickedNode.title)}`,
-                                        '_blank'
-                                    )
+                                    window.open(articleUrl, '_blank')
                                 }
                                 className="px-4 py-2.5 bg-slate-800 hover:bg-slate-700 rounded-2xl text-xs font-medium transition text-white"
                             >
-                                Read Article ↗
+                                {isCategory ? 'Open Category ↗' : 'Read Article ↗'}
                             </button>
                             <button
                                 onClick={() => onExpand(clickedNode.id)}
                                 className="px-4 py-2.5 bg-indigo-600 hover:bg-indigo-500 rounded-2xl text-xs font-medium transition shadow-lg shadow-indigo-500/20 text-white"
+                                title={isCategory ? 'Add member articles to the map' : clickedIsDisambiguation ? 'Pick one of the meanings this page lists' : undefined}
                             >
-                                Expand
+                                {isCategory ? 'Add Members' : clickedIsDisambiguation ? 'Choose Meaning' : 'Expand'}
                             </button>
                             {layoutMode !== 'web' && (
                                 <>
@@ -0,0 +1,127 @@
+import React from 'react';
+import { parseNodeId } from '../config/wikiSources';
+import { sharedIntermediates } from '../features/pathfinding/kShortestPaths';
+
+interface PathComparisonPanelProps {
+    isOpen: boolean;
+    /** Node ids of each found path, start to target. */
+    paths: string[][];
+    highlightedPath: string[] | null;
+    getHopContext: (fromId: string, toId: string) => string | undefined;
+    onShowPath: (path: string[]) => void;
+    onClose: () => void;
+}
+
+export const PathComparisonPanel: React.FC<PathComparisonPanelProps> = ({
+    isOpen,
+    paths,
+    highlightedPath,
+    getHopContext,
+    onShowPath,
+    onClose,
+}) => {
+    if (!isOpen) return null;
+
+    // How many other paths pass through each intermediate page.
+    const reuseCount = new Map<string, number>();
+    paths.forEach(path => {
+        path.slice(1, -1).forEach(id => reuseCount.set(id, (reuseCount.get(id) ?? 0) + 1));
+    });
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center sm:justify-center">
+            <button
+                type="button"
+                onClick={onClose}
+                aria-label="Close path comparison"
+                className="absolute inset-0 bg-slate-950/45 backdrop-blur-[2px]"
+            />
+
+            <div className="relative z-10 mx-3 mb-3 w-[calc(100vw-1.5rem)] sm:mb-0 sm:max-w-5xl rounded-[1.75rem] sm:rounded-lg border border-gray-700 bg-gray-900/95 shadow-2xl backdrop-blur-md max-h-[80vh] flex flex-col overflow-hidden">
+                <div className="flex items-start justify-between gap-3 px-4 py-3 border-b border-gray-700 bg-gray-800/90">
+                    <div>
+                        <div className="text-[10px] font-semibold uppercase tracking-[0.24em] text-cyan-200/80">
+                            Compare Paths
+                        </div>
+                        <h3 className="mt-1 font-bold text-gray-200">
+                            {paths.length} {paths.length === 1 ? 'route' : 'routes'} found
+                        </h3>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white text-lg leading-none">
+                        ×
+                    </button>
+                </div>
+
+                {paths.length === 0 ? (
+                    <div className="px-4 py-6 text-center text-xs text-gray-500">
+                        No paths yet. Turn on Find Alternate Bridges to collect several routes.
+                    </div>
+                ) : (
+                    <div className="flex gap-3 overflow-x-auto p-4">
+                        {paths.map((path, index) => {
+                            const shared = new Set(paths.flatMap((other, otherIndex) =>
+                                otherIndex === index ? [] : sharedIntermediates(path, other)));
+                            const isHighlighted = highlightedPath?.join('\n') === path.join('\n');
+                            return (
+                                <div
+                                    key={path.join('\n')}
+                                    className={`w-64 shrink-0 rounded-2xl border px-3 py-3 ${
+                                        isHighlighted ? 'border-cyan-400/40 bg-cyan-400/5' : 'border-slate-700/70 bg-black/20'
+                                    }`}
+                                >
+                                    <div className="flex items-center justify-between gap-2">
+                                        <div className="text-xs font-semibold text-gray-100">
+                                            Path {index + 1}
+                                            <span className="ml-2 font-normal text-gray-500">
+                                                {path.length - 1} {path.length === 2 ? 'hop' : 'hops'}
+                                            </span>
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => onShowPath(path)}
+                                            className="rounded-xl border border-slate-700/70 bg-slate-900/50 px-2 py-1 text-[10px] text-slate-300 transition hover:border-cyan-400/20"
+                                        >
+                                            Show
+                                        </button>
+                                    </div>
+                                    <div className="mt-1 text-[10px] text-gray-500">
+                                        {shared.size === 0
+                                            ? 'No pages shared with other routes'
+                                            : `${shared.size} ${shared.size === 1 ? 'page' : 'pages'} shared with other routes`}
+                                    </div>
+                                    <ol className="mt-3 space-y-2">
+                                        {path.map((id, hop) => {
+                                            const context = hop > 0 ? getHopContext(path[hop - 1], id) : undefined;
+                                            const isShared = shared.has(id);
+                                            return (
+                                                <li key={id}>
+                                                    {hop > 0 && context && (
+                                                        <div className="mb-1 border-l border-cyan-400/20 pl-2 text-[10px] italic leading-snug text-gray-400">
+                                                            “{context}”
+                                                        </div>
+                                                    )}
+                                                    <div
+                                                        className={`rounded-lg px-2 py-1 text-xs ${
+                                                            isShared ? 'bg-amber-400/10 text-amber-100' : 'bg-slate-800/60 text-gray-200'
+                                                        }`}
+                                                        title={isShared ? `Also on ${(reuseCount.get(id) ?? 1) - 1} other route(s)` : undefined}
+                                                    >
+                                                        {parseNodeId(id).title}
+                                                    </div>
+                                                </li>
+                                            );
+                                        })}
+                                    </ol>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
+                <div className="border-t border-gray-700 px-4 py-2 text-[10px] text-gray-500">
+                    Pages highlighted in amber appear on more than one route.
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import {
+    DEFAULT_PATH_CONSTRAINTS,
+    MAX_HUB_DEGREE_LIMIT,
+    hasPathConstraints,
+    normalizePathConstraints,
+    type PathConstraints,
+} from '../features/pathfinding/pathConstraints';
+
+interface PathConstraintsEditorProps {
+    constraints: PathConstraints;
+    onChange: (constraints: PathConstraints) => void;
+}
+
+type ListField = 'mustPass' | 'avoidTitles' | 'avoidCategories';
+
+const LIST_FIELDS: Array<{ key: ListField; label: string; placeholder: string }> = [
+    { key: 'mustPass', label: 'Must pass through', placeholder: 'Roman Empire; Aqueduct' },
+    { key: 'avoidTitles', label: 'Avoid pages', placeholder: 'United States; Latin' },
+    { key: 'avoidCategories', label: 'Avoid categories', placeholder: 'Living people' },
+];
+
+const TOGGLES: Array<{ key: 'skipLists' | 'skipYears' | 'skipCountries' | 'skipDisambiguation'; label: string }> = [
+    { key: 'skipLists', label: 'Skip "List of…" pages' },
+    { key: 'skipYears', label: 'Skip years and centuries' },
+    { key: 'skipCountries', label: 'Skip countries' },
+    { key: 'skipDisambiguation', label: 'Skip disambiguation pages' },
+];
+
+const DEFAULT_HUB_DEGREE = 200;
+
+// Titles can contain commas ("Washington, D.C."), so lists are separated by semicolons.
+const formatList = (items: string[]) => items.join('; ');
+const parseList = (text: string) => text.split(';').map(item => item.trim()).filter(Boolean);
+
+export const PathConstraintsEditor: React.FC<PathConstraintsEditorProps> = ({ constraints, onChange }) => {
+    const [drafts, setDrafts] = useState<Record<ListField, string>>(() => ({
+        mustPass: formatList(constraints.mustPass),
+        avoidTitles: formatList(constraints.avoidTitles),
+        avoidCategories: formatList(constraints.avoidCategories),
+    }));
+
+    // Keep drafts in step when constraints change elsewhere (e.g. Clear).
+    useEffect(() => {
+        setDrafts({
+            mustPass: formatList(constraints.mustPass),
+            avoidTitles: formatList(constraints.avoidTitles),
+            avoidCategories: formatList(constraints.avoidCategories),
+        });
+    }, [constraints.mustPass, constraints.avoidTitles, constraints.avoidCategories]);
+
+    const update = (patch: Partial<PathConstraints>) => onChange(normalizePathConstraints({ ...constraints, ...patch }));
+
+    const commitList = (key: ListField) => {
+        const next = parseList(drafts[key]);
+        if (formatList(next) !== formatList(constraints[key])) update({ [key]: next });
+    };
+
+    return (
+        <div>
+            <div className="flex justify-between text-xs text-gray-400 mb-1">
+                <span>Path Constraints</span>
+                {hasPathConstraints(constraints) && (
+                    <button
+                        type="button"
+                        onClick={() => onChange(DEFAULT_PATH_CONSTRAINTS)}
+                        className="text-[10px] text-gray-500 hover:text-gray-300"
+                    >
+                        Clear
+                    </button>
+                )}
+            </div>
+            <div className="space-y-2">
+                {LIST_FIELDS.map(field => (
+                    <label key={field.key} className="block">
+                        <span className="text-[10px] text-gray-500">{field.label}</span>
+                        <input
+                            type="text"
+                            value={drafts[field.key]}
+                            placeholder={field.placeholder}
+                            onChange={(e) => setDrafts(prev => ({ ...prev, [field.key]: e.target.value }))}
+                            onBlur={() => commitList(field.key)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') commitList(field.key);
+                            }}
+                            className="w-full bg-black/30 border border-gray-700/70 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500/60"
+                        />
+                    </label>
+                ))}
+                <div className="grid grid-cols-1 gap-1">
+                    {TOGGLES.map(toggle => (
+                        <label key={toggle.key} className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer select-none">
+                            <input
+                                type="checkbox"
+                                checked={constraints[toggle.key]}
+                                onChange={(e) => update({ [toggle.key]: e.target.checked })}
+                            />
+                            {toggle.label}
+                        </label>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2">
+                    <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={constraints.maxHubDegree !== null}
+                            onChange={(e) => update({ maxHubDegree: e.target.checked ? DEFAULT_HUB_DEGREE : null })}
+                        />
+                        Avoid hubs above
+                    </label>
+                    <input
+                        type="number"
+                        min={1}
+                        max={MAX_HUB_DEGREE_LIMIT - 1}
+                        value={constraints.maxHubDegree ?? DEFAULT_HUB_DEGREE}
+                        disabled={constraints.maxHubDegree === null}
+                        onChange={(e) => update({ maxHubDegree: Number(e.target.value) })}
+                        className="w-20 bg-black/30 border border-gray-700/70 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-green-500/60 disabled:opacity-40"
+                    />
+                    <span className="text-[10px] text-gray-500">incoming links</span>
+                </div>
+            </div>
+            <div className="mt-1 text-[10px] text-gray-500">
+                Separate titles with semicolons. Category and hub rules are checked on found paths; a page that breaks one is excluded and the search runs again.
+            </div>
+        </div>
+    );
+};
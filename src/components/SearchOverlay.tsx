@@ -1,5 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import type { SuggestedPath } from '../data/suggestedPaths';
+import type { AliasSearchMatch } from '../features/aliases/aliasSearch';
 
 const QUICK_START_TOPICS = ['Physics', 'Jazz', 'Mount Everest'];
 const PROJECT_GITHUB_URL = 'https://github.com/StoneHub/WikiWebMap';
@@ -53,10 +54,13 @@ interface SearchOverlayProps {
     loading: boolean;
     error: string;
     suggestions: string[];
+    /** Nodes already on the map that match by title or alias. */
+    mapMatches: AliasSearchMatch[];
     showSuggestions: boolean;
     setShowSuggestions: (show: boolean) => void;
     onSearchChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
     onAddTopic: (topic: string) => void;
+    onFocusMapNode: (nodeId: string) => void;
     featuredPaths: SuggestedPath[];
     onShuffleFeaturedPaths: () => void;
     onRunSuggestedPath: (from: string, to: string) => void;
@@ -73,10 +77,12 @@ export const SearchOverlay: React.FC<SearchOverlayProps> = ({
     loading,
     error,
     suggestions,
+    mapMatches,
     showSuggestions,
     setShowSuggestions,
     onSearchChange,
     onAddTopic,
+    onFocusMapNode,
     featuredPaths,
     onShuffleFeaturedPaths,
     onRunSuggestedPath,
@@ -289,8 +295,26 @@ export const SearchOverlay: React.FC<SearchOverlayProps> = ({
                         </div>
                     )}
 
-                    {showSuggestions && suggestions.length > 0 && (
+                    {showSuggestions && (mapMatches.length > 0 || suggestions.length > 0) && (
                         <div className="absolute top-full left-0 right-0 mt-2 max-h-60 overflow-hidden overflow-y-auto rounded-2xl border border-slate-700 bg-slate-900/96 shadow-2xl backdrop-blur-xl">
+                            {mapMatches.map(match => (
+                                <button
+                                    key={match.nodeId}
+                                    className="flex w-full items-center justify-between gap-3 border-b border-slate-700/60 px-4 py-3 text-left text-sm text-slate-200 transition hover:bg-slate-800/80 last:border-0"
+                                    onClick={() => onFocusMapNode(match.nodeId)}
+                                >
+                                    <span className="min-w-0 truncate">
+                                        {match.alias ? (
+                                            <>
+                                                {match.alias}
+                                                <span className="mx-2 text-slate-500">→</span>
+                                                {match.title}
+                                            </>
+                                        ) : match.title}
+                                    </span>
+                                    <span className="shrink-0 text-[10px] uppercase tracking-widest text-cyan-300/80">On map</span>
+                                </button>
+                            ))}
                             {suggestions.map((suggestion, index) => (
                                 <button
                                     key={index}
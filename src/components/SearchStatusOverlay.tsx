@@ -1,4 +1,6 @@
 import { useEffect, useState } from 'react';
+import { describePathConstraints, type PathConstraints } from '../features/pathfinding/pathConstraints';
+import { PATHFINDER_STRATEGIES } from '../features/pathfinding/runPathfinder';
 import type { SearchProgress } from '../types/SearchProgress';
 
 type SearchJob = {
@@ -6,6 +8,7 @@ type SearchJob = {
   from: string;
   to: string;
   source: string;
+  constraints?: PathConstraints;
 };
 
 type SearchStatusOverlayProps = {
@@ -29,6 +32,7 @@ type SearchStatusOverlayProps = {
   persistentVisible: boolean;
   isTouchDevice: boolean;
   onOpenLogs?: () => void;
+  onComparePaths?: () => void;
 };
 
 const mobileShellClassName = 'fixed inset-x-0 bottom-0 z-20 pointer-events-none';
@@ -118,6 +122,9 @@ function renderQueue(props: SearchStatusOverlayProps) {
               </div>
               <div className="mt-1 text-slate-400">
                 {index === 0 ? 'Next up' : `Queued #${index + 1}`} · {sourceLabel(item.source)}
+                {item.constraints && describePathConstraints(item.constraints).length > 0 && (
+                  <> · {describePathConstraints(item.constraints).join(', ')}</>
+                )}
               </div>
             </div>
             <button
@@ -182,6 +189,35 @@ export function SearchStatusOverlay(props: SearchStatusOverlayProps) {
     </div>
   );
 
+  const renderPathScores = () => {
+    const pathScores = props.searchProgress.pathScores;
+    if (!pathScores || pathScores.length === 0) return null;
+
+    return (
+      <div className="mt-3 rounded-2xl border border-slate-700/70 bg-slate-950/45 px-3 py-3">
+        <div className="mb-2 flex items-center justify-between gap-3">
+          <div className="text-[10px] font-semibold uppercase tracking-[0.22em] text-slate-400">
+            Heuristic Path
+          </div>
+          <div className="text-[11px] text-slate-500">
+            Relatedness to target
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-1.5 text-[11px]">
+          {pathScores.map((entry, index) => (
+            <span key={`${entry.title}-${index}`} className="flex items-center gap-1.5">
+              {index > 0 && <span className="text-slate-600">→</span>}
+              <span className="rounded-full border border-slate-700/60 bg-black/20 px-2 py-0.5 text-slate-200" title={entry.title}>
+                <span className="inline-block max-w-[7rem] truncate align-bottom">{entry.title}</span>{' '}
+                <span className="font-mono text-cyan-200/80">{entry.score.toFixed(2)}</span>
+              </span>
+            </span>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
   const renderDetails = () => {
     if (!showDetails) return null;
 
@@ -291,6 +327,11 @@ export function SearchStatusOverlay(props: SearchStatusOverlayProps) {
                     {sourceLabel(props.activeSearch.source)}
                   </span>
                 )}
+                {props.searchProgress.strategy && (
+                  <span className="rounded-full border border-slate-700/70 bg-black/20 px-2.5 py-1 text-[10px] uppercase tracking-[0.18em] text-slate-300">
+                    {PATHFINDER_STRATEGIES[props.searchProgress.strategy].label}
+                  </span>
+                )}
               </div>
               <div className="mt-2 text-[10px] font-semibold uppercase tracking-[0.22em] text-slate-500">
                 Search Activity
@@ -316,6 +357,8 @@ export function SearchStatusOverlay(props: SearchStatusOverlayProps) {
             {renderStats()}
           </div>
 
+          {renderPathScores()}
+
           <button
             onClick={props.onToggleKeepSearching}
             className={`mt-3 w-full rounded-2xl border px-3 py-2 text-center text-[11px] font-medium transition ${
@@ -349,6 +392,14 @@ export function SearchStatusOverlay(props: SearchStatusOverlayProps) {
                 Diagnostics
               </button>
             )}
+            {props.onComparePaths && props.foundCount > 1 && (
+              <button
+                onClick={props.onComparePaths}
+                className="flex-1 rounded-2xl border border-slate-700/70 bg-slate-950/40 px-3 py-2 text-xs font-medium text-slate-200 transition hover:border-cyan-400/20 hover:bg-cyan-400/8"
+              >
+                Compare {props.foundCount} Paths
+              </button>
+            )}
           </div>
 
           {renderDetails()}
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import type { SectionSummary } from '../features/sections/sectionLinks';
+
+interface SectionPickerProps {
+    /** Undefined until requested, null while the full article is loading. */
+    sections: SectionSummary[] | null | undefined;
+    onLoad: () => void;
+    onExpand: (sectionKeys: string[]) => void;
+}
+
+export const SectionPicker: React.FC<SectionPickerProps> = ({ sections, onLoad, onExpand }) => {
+    const [selected, setSelected] = useState<Set<string>>(() => new Set());
+
+    const toggle = (key: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    return (
+        <div>
+            <div className="flex items-center justify-between mb-1.5">
+                <span className="text-[10px] uppercase tracking-widest text-slate-500">
+                    Expand From Sections
+                </span>
+                {sections && sections.length > 0 && (
+                    <button
+                        onClick={() => onExpand(Array.from(selected))}
+                        disabled={selected.size === 0}
+                        className="text-[10px] text-indigo-200 hover:text-indigo-100 disabled:text-slate-600"
+                    >
+                        Expand {selected.size > 0 ? `(${selected.size})` : ''}
+                    </button>
+                )}
+            </div>
+            {sections === undefined ? (
+                <button
+                    onClick={onLoad}
+                    className="text-[11px] text-slate-400 transition hover:text-slate-200"
+                    title="Read the whole article to pick which sections to pull links from"
+                >
+                    Load sections...
+                </button>
+            ) : sections === null ? (
+                <div className="text-[11px] text-slate-500">Loading sections...</div>
+            ) : sections.length === 0 ? (
+                <div className="text-[11px] text-slate-500">No linked sections found.</div>
+            ) : (
+                <div className="flex flex-wrap gap-1.5 max-h-28 overflow-y-auto scrollbar-thin scrollbar-thumb-slate-600 scrollbar-track-transparent pr-1">
+                    {sections.map(section => (
+                        <button
+                            key={section.key}
+                            type="button"
+                            onClick={() => toggle(section.key)}
+                            aria-pressed={selected.has(section.key)}
+                            className={`text-[11px] px-2 py-1 rounded-full border transition ${selected.has(section.key)
+                                ? 'bg-indigo-500/15 border-indigo-400/40 text-indigo-100'
+                                : 'bg-black/20 border-slate-700/60 text-slate-200 hover:border-indigo-400/30'
+                                }`}
+                        >
+                            {section.label} <span className="text-slate-500">{section.linkCount}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
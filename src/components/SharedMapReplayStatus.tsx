@@ -0,0 +1,43 @@
+import React from 'react';
+import type { ReplayProgress } from '../features/sharing/replaySharedMap';
+
+interface SharedMapReplayStatusProps {
+    progress: ReplayProgress | null;
+    onCancel: () => void;
+}
+
+export const SharedMapReplayStatus: React.FC<SharedMapReplayStatusProps> = ({ progress, onCancel }) => {
+    if (!progress) return null;
+
+    const percent = progress.total > 0 ? Math.round((progress.step / progress.total) * 100) : 0;
+
+    return (
+        <div className="fixed left-3 right-3 top-3 sm:left-1/2 sm:right-auto sm:w-96 sm:-translate-x-1/2 z-40">
+            <div className="rounded-2xl border border-cyan-400/25 bg-gray-900/90 px-4 py-3 shadow-2xl backdrop-blur-md">
+                <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                        <div className="text-[10px] font-semibold uppercase tracking-[0.24em] text-cyan-200/80">
+                            Opening shared map
+                        </div>
+                        <div className="mt-1 truncate text-xs text-gray-300" title={progress.label}>
+                            {progress.label}
+                        </div>
+                    </div>
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="rounded-xl border border-slate-700/70 bg-slate-900/50 px-3 py-1.5 text-[11px] text-slate-300 transition hover:border-cyan-400/20"
+                    >
+                        Stop
+                    </button>
+                </div>
+                <div className="mt-2 h-1 overflow-hidden rounded-full bg-slate-800">
+                    <div className="h-full bg-cyan-400/70 transition-all" style={{ width: `${percent}%` }} />
+                </div>
+                <div className="mt-1 text-[10px] text-gray-500">
+                    Step {progress.step} of {progress.total}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -14,8 +14,17 @@ import {
   type Edge,
 } from '@xyflow/react';
 import type { CSSProperties, MouseEvent as ReactMouseEvent } from 'react';
-import { useEffect } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import type { GraphStateSnapshot, Node as GraphNode } from '../GraphManager';
+import {
+  computeStructuredLayoutOffThread,
+  isComputeWorkerAvailable,
+} from '../features/compute-worker/computeClient';
+import { OFF_THREAD_LAYOUT_MIN_NODES } from '../features/layout/layoutConfig';
+import {
+  computeStructuredLayout,
+  type StructuredLayoutResult,
+} from '../features/structured-view/structuredLayout';
 import {
   toStructuredFlowElements,
   type StructuredFlowNode,
@@ -120,6 +129,13 @@ const nodeTypes: NodeTypes = {
   structuredTopic: StructuredTopicNode,
 };
 
+const EMPTY_LAYOUT: StructuredLayoutResult = {
+  positions: new Map(),
+  hiddenNodeIds: new Set(),
+  rootIds: [],
+  childrenByParent: new Map(),
+};
+
 function StructuredFlowCanvas(props: {
   snapshot: GraphStateSnapshot;
   nodeDescriptions: Record<string, string>;
@@ -131,13 +147,41 @@ function StructuredFlowCanvas(props: {
   onPaneClick: () => void;
 }) {
   const { fitView } = useReactFlow<StructuredFlowNode, Edge>();
+  const { snapshot, preferredRootOrder } = props;
+  const runsOffThread = snapshot.nodes.length >= OFF_THREAD_LAYOUT_MIN_NODES && isComputeWorkerAvailable();
+  const inlineLayout = useMemo(
+    () => (runsOffThread ? null : computeStructuredLayout({ snapshot, preferredRootOrder })),
+    [runsOffThread, snapshot, preferredRootOrder]
+  );
+  const [workerLayout, setWorkerLayout] = useState<StructuredLayoutResult | null>(null);
+
+  useEffect(() => {
+    if (!runsOffThread) return;
+    let cancelled = false;
+    // Until the worker answers, the previous layout stays in place.
+    void computeStructuredLayoutOffThread({
+      snapshot: {
+        nodes: snapshot.nodes.map(({ id, title, x, y }) => ({ id, title, x, y })),
+        links: [],
+        nodeMetadata: snapshot.nodeMetadata,
+      },
+      preferredRootOrder,
+    }).then((layout) => {
+      if (!cancelled) setWorkerLayout(layout);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [runsOffThread, snapshot, preferredRootOrder]);
+
+  const layout = inlineLayout ?? workerLayout ?? EMPTY_LAYOUT;
   const { nodes, edges, sourceNodesById } = toStructuredFlowElements({
-    snapshot: props.snapshot,
+    snapshot,
     nodeDescriptions: props.nodeDescriptions,
     clickedNodeId: props.clickedNodeId,
     pathSelectedNodeIds: props.pathSelectedNodeIds,
     showCrossLinks: props.showCrossLinks,
-    preferredRootOrder: props.preferredRootOrder,
+    layout,
   });
 
   useEffect(() => {
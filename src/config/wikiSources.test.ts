@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_WIKI_SOURCE,
+  checkImportedWikiSource,
+  createCustomWikiSource,
+  createWikipediaSource,
+  getLanguageEditionSource,
+  getNodeSource,
+  parseNodeId,
+  registerWikiSource,
+  toNodeId,
+} from './wikiSources';
+
+describe('wikiSources', () => {
+  it('derives api and article URLs for a custom MediaWiki install', () => {
+    const source = createCustomWikiSource({ apiUrl: 'http://localhost:8080/w/' });
+
+    expect(source.id).toBe('localhost:8080/w');
+    expect(source.apiUrl).toBe('http://localhost:8080/w/api.php');
+    expect(source.articleUrl).toBe('http://localhost:8080/wiki/');
+    expect(source.restUrl).toBeUndefined();
+  });
+
+  it('keeps bare titles for the default source and prefixes other sources', () => {
+    const german = createWikipediaSource('de');
+
+    expect(toNodeId('Physik')).toBe('Physik');
+    expect(toNodeId('Physik', german)).toBe('de.wikipedia|Physik');
+    expect(parseNodeId('de.wikipedia|Physik')).toEqual({ sourceId: 'de.wikipedia', title: 'Physik' });
+    expect(parseNodeId('Physics')).toEqual({ sourceId: DEFAULT_WIKI_SOURCE.id, title: 'Physics' });
+  });
+
+  it('resolves node sources through the registry', () => {
+    const local = registerWikiSource(createCustomWikiSource({ apiUrl: 'http://127.0.0.1:9000/api.php' }));
+
+    expect(getNodeSource(toNodeId('Sandbox', local))).toBe(local);
+    expect(getNodeSource('unknown.wiki|Sandbox')).toBe(DEFAULT_WIKI_SOURCE);
+  });
+
+  it('maps a source to its sibling language edition', () => {
+    const french = getLanguageEditionSource(DEFAULT_WIKI_SOURCE, 'fr');
+    const custom = createCustomWikiSource({ apiUrl: 'https://wiki.example.org/w/api.php' });
+
+    expect(french?.apiUrl).toBe('https://fr.wikipedia.org/w/api.php');
+    expect(getLanguageEditionSource(DEFAULT_WIKI_SOURCE, 'en')).toBe(DEFAULT_WIKI_SOURCE);
+    expect(getLanguageEditionSource(custom, 'fr')).toBeUndefined();
+  });
+
+  it('keeps presets and only trusts https Wikimedia hosts from imports', () => {
+    const hijack = { ...DEFAULT_WIKI_SOURCE, apiUrl: 'https://evil.example/w/api.php' };
+
+    expect(registerWikiSource(hijack)).toBe(getNodeSource('Physics'));
+    expect(getNodeSource('Physics').apiUrl).toBe('https://en.wikipedia.org/w/api.php');
+    expect(checkImportedWikiSource(hijack)).toEqual({ status: 'rejected', reason: expect.stringContaining('English Wikipedia') });
+    expect(checkImportedWikiSource(DEFAULT_WIKI_SOURCE)).toEqual({ status: 'accepted' });
+    expect(checkImportedWikiSource(createWikipediaSource('it'))).toEqual({ status: 'accepted' });
+    expect(checkImportedWikiSource(createCustomWikiSource({ apiUrl: 'https://wiki.example.org/w/api.php' })))
+      .toEqual({ status: 'confirm', host: 'wiki.example.org' });
+    expect(checkImportedWikiSource(createCustomWikiSource({ apiUrl: 'http://wiki.example.org/w/api.php' })).status)
+      .toBe('rejected');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Wiki backends the explorer can talk to. Any MediaWiki install works as long
+ * as its action API is reachable; the REST summary endpoint is optional.
+ */
+export type WikiSource = {
+  id: string;
+  displayName: string;
+  language: string;
+  apiUrl: string;
+  restUrl?: string;
+  articleUrl: string;
+};
+
+export const createWikipediaSource = (language: string, displayName?: string): WikiSource => ({
+  id: `${language}.wikipedia`,
+  displayName: displayName ?? `Wikipedia (${language})`,
+  language,
+  apiUrl: `https://${language}.wikipedia.org/w/api.php`,
+  restUrl: `https://${language}.wikipedia.org/api/rest_v1`,
+  articleUrl: `https://${language}.wikipedia.org/wiki/`,
+});
+
+export const DEFAULT_WIKI_SOURCE = createWikipediaSource('en', 'English Wikipedia');
+
+export const PRESET_WIKI_SOURCES: WikiSource[] = [
+  DEFAULT_WIKI_SOURCE,
+  createWikipediaSource('de', 'Deutsche Wikipedia'),
+  createWikipediaSource('fr', 'Wikipédia en français'),
+  createWikipediaSource('es', 'Wikipedia en español'),
+  createWikipediaSource('ja', 'ウィキペディア'),
+  {
+    id: 'en.wiktionary',
+    displayName: 'English Wiktionary',
+    language: 'en',
+    apiUrl: 'https://en.wiktionary.org/w/api.php',
+    restUrl: 'https://en.wiktionary.org/api/rest_v1',
+    articleUrl: 'https://en.wiktionary.org/wiki/',
+  },
+];
+
+/**
+ * Build a source for an arbitrary MediaWiki install from its api.php URL,
+ * e.g. an internal wiki, a Fandom wiki, or a local stand-in server.
+ */
+export const createCustomWikiSource = (args: {
+  apiUrl: string;
+  displayName?: string;
+  language?: string;
+  restUrl?: string;
+}): WikiSource => {
+  const url = new URL(args.apiUrl.trim());
+  if (!url.pathname.endsWith('api.php')) {
+    url.pathname = `${url.pathname.replace(/\/$/, '')}/api.php`;
+  }
+  url.search = '';
+  url.hash = '';
+
+  const basePath = url.pathname.replace(/\/api\.php$/, '');
+  const siteRoot = basePath.replace(/\/w$/, '');
+  const id = `${url.host}${basePath}`.replace(/\|/g, '_');
+
+  return {
+    id,
+    displayName: args.displayName?.trim() || url.host,
+    language: args.language?.trim() || 'en',
+    apiUrl: url.toString(),
+    restUrl: args.restUrl?.trim() || undefined,
+    articleUrl: `${url.origin}${siteRoot}/wiki/`,
+  };
+};
+
+const registry = new Map<string, WikiSource>(PRESET_WIKI_SOURCES.map(source => [source.id, source]));
+
+export const isPresetWikiSourceId = (id: string) => PRESET_WIKI_SOURCES.some(source => source.id === id);
+
+/** Built-in sources are never replaced; registering one of their ids returns the preset. */
+export const registerWikiSource = (source: WikiSource) => {
+  if (isPresetWikiSourceId(source.id)) return registry.get(source.id)!;
+  registry.set(source.id, source);
+  return source;
+};
+
+// Wikimedia projects, which map files and share links may point at without asking.
+const TRUSTED_WIKI_HOST = /^([a-z0-9-]+\.)*(wikipedia|wiktionary|wikivoyage|wikiquote|wikibooks|wikisource|wikiversity|wikinews|wikidata|wikimedia|mediawiki)\.org$/;
+
+export type ImportedWikiSourceCheck =
+  | { status: 'accepted' }
+  /** An https wiki outside Wikimedia; the user has to allow it first. */
+  | { status: 'confirm'; host: string }
+  | { status: 'rejected'; reason: string };
+
+/**
+ * Vet a source that arrived with a map file or share link. Every request for
+ * its nodes, Api-User-Agent contact included, goes to its apiUrl, so it may
+ * not take over an id that is already registered to other URLs, and only
+ * https Wikimedia hosts are accepted without asking.
+ */
+export const checkImportedWikiSource = (source: WikiSource): ImportedWikiSourceCheck => {
+  if (!source.id || source.id.includes('|')) return { status: 'rejected', reason: `"${source.id}" is not a valid source id` };
+
+  const registered = registry.get(source.id);
+  if (registered) {
+    const sameUrls = registered.apiUrl === source.apiUrl
+      && registered.articleUrl === source.articleUrl
+      && (registered.restUrl ?? '') === (source.restUrl ?? '');
+    return sameUrls
+      ? { status: 'accepted' }
+      : { status: 'rejected', reason: `it would replace ${registered.displayName} with other URLs` };
+  }
+
+  const urls: URL[] = [];
+  for (const value of [source.apiUrl, source.articleUrl, source.restUrl]) {
+    if (value === undefined) continue;
+    try {
+      urls.push(new URL(value));
+    } catch {
+      return { status: 'rejected', reason: `${source.displayName} has an invalid URL` };
+    }
+  }
+  if (urls.some(url => url.protocol !== 'https:')) {
+    return { status: 'rejected', reason: `${source.displayName} is not served over https` };
+  }
+
+  const untrusted = urls.find(url => !TRUSTED_WIKI_HOST.test(url.hostname));
+  return untrusted ? { status: 'confirm', host: untrusted.host } : { status: 'accepted' };
+};
+
+export const getWikiSourceById = (id: string | undefined): WikiSource | undefined =>
+  id ? registry.get(id) : undefined;
+
+export const listWikiSources = () => Array.from(registry.values());
+
+/**
+ * The same wiki family in another language, e.g. de.wikipedia → fr.wikipedia.
+ * Returns undefined for sources that aren't organised by language subdomain.
+ */
+export const getLanguageEditionSource = (source: WikiSource, language: string): WikiSource | undefined => {
+  if (language === source.language) return source;
+  const family = source.id.match(/^[a-z-]+\.(wikipedia|wiktionary|wikivoyage|wikiquote)$/)?.[1];
+  if (!family) return undefined;
+
+  const id = `${language}.${family}`;
+  const existing = registry.get(id);
+  if (existing) return existing;
+  if (family === 'wikipedia') return registerWikiSource(createWikipediaSource(language));
+
+  const host = `https://${language}.${family}.org`;
+  return registerWikiSource({
+    id,
+    displayName: `${family[0].toUpperCase()}${family.slice(1)} (${language})`,
+    language,
+    apiUrl: `${host}/w/api.php`,
+    restUrl: `${host}/api/rest_v1`,
+    articleUrl: `${host}/wiki/`,
+  });
+};
+
+export const getArticleUrl = (source: WikiSource, title: string) =>
+  `${source.articleUrl}${encodeURIComponent(title.replace(/ /g, '_'))}`;
+
+// MediaWiki titles can never contain "|", so it safely separates the source id
+// from the title. Nodes from the default source keep bare titles as ids so
+// existing maps and snapshots stay valid.
+const NODE_ID_SEPARATOR = '|';
+
+export const toNodeId = (title: string, source: WikiSource = DEFAULT_WIKI_SOURCE) =>
+  source.id === DEFAULT_WIKI_SOURCE.id ? title : `${source.id}${NODE_ID_SEPARATOR}${title}`;
+
+export const parseNodeId = (nodeId: string): { sourceId: string; title: string } => {
+  const index = nodeId.indexOf(NODE_ID_SEPARATOR);
+  if (index === -1) return { sourceId: DEFAULT_WIKI_SOURCE.id, title: nodeId };
+  return { sourceId: nodeId.slice(0, index), title: nodeId.slice(index + 1) };
+};
+
+export const getNodeSource = (nodeId: string): WikiSource =>
+  getWikiSourceById(parseNodeId(nodeId).sourceId) ?? DEFAULT_WIKI_SOURCE;
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { findAliasMatches } from './aliasSearch';
+
+describe('aliasSearch', () => {
+  const entries = [
+    { nodeId: 'United States', title: 'United States', aliases: ['USA', 'United States of America', 'US'] },
+    { nodeId: 'USA Today', title: 'USA Today', aliases: [] },
+    { nodeId: 'Physics', title: 'Physics', aliases: ['Physical science'] },
+  ];
+
+  it('finds nodes by alias, ranking exact matches before prefixes', () => {
+    expect(findAliasMatches('usa', entries)).toEqual([
+      { nodeId: 'United States', title: 'United States', alias: 'USA' },
+      { nodeId: 'USA Today', title: 'USA Today' },
+    ]);
+  });
+
+  it('prefers the title when it matches as well as an alias', () => {
+    expect(findAliasMatches('United', entries)).toEqual([{ nodeId: 'United States', title: 'United States' }]);
+    expect(findAliasMatches('science', entries)).toEqual([{ nodeId: 'Physics', title: 'Physics', alias: 'Physical science' }]);
+    expect(findAliasMatches('  ', entries)).toEqual([]);
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Finds map nodes by title or by any alias (redirect) known for them, so
+ * typing "USA" finds the "United States" node already on the map.
+ */
+
+export type AliasSearchEntry = {
+  nodeId: string;
+  title: string;
+  aliases: string[];
+};
+
+export type AliasSearchMatch = {
+  nodeId: string;
+  title: string;
+  /** The alias that matched, when the title itself didn't. */
+  alias?: string;
+};
+
+const MAP_MATCH_LIMIT = 5;
+
+// 0 exact, 1 prefix, 2 word prefix; undefined when the name doesn't match.
+const rankName = (name: string, term: string) => {
+  const lower = name.toLowerCase();
+  if (lower === term) return 0;
+  if (lower.startsWith(term)) return 1;
+  if (lower.includes(` ${term}`) || lower.includes(`(${term}`)) return 2;
+  return undefined;
+};
+
+/** Best match per node, exact matches first, then prefixes, then word prefixes; titles beat aliases on ties. */
+export function findAliasMatches(term: string, entries: AliasSearchEntry[], limit = MAP_MATCH_LIMIT): AliasSearchMatch[] {
+  const query = term.trim().toLowerCase();
+  if (!query) return [];
+
+  const ranked: Array<{ match: AliasSearchMatch; rank: number; order: number }> = [];
+  entries.forEach((entry, order) => {
+    const titleRank = rankName(entry.title, query);
+    let best: { match: AliasSearchMatch; rank: number } | undefined = titleRank === undefined
+      ? undefined
+      : { match: { nodeId: entry.nodeId, title: entry.title }, rank: titleRank * 2 };
+    entry.aliases.forEach((alias) => {
+      const aliasRank = rankName(alias, query);
+      if (aliasRank === undefined || (best && best.rank <= aliasRank * 2 + 1)) return;
+      best = { match: { nodeId: entry.nodeId, title: entry.title, alias }, rank: aliasRank * 2 + 1 };
+    });
+    if (best) ranked.push({ ...best, order });
+  });
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.order - b.order)
+    .slice(0, limit)
+    .map(({ match }) => match);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeGraph } from './graphMetrics';
+
+describe('graphMetrics', () => {
+  // Two triangles joined through Hub, plus a separate pair.
+  const nodeIds = ['A', 'B', 'Hub', 'C', 'D', 'E', 'Island', 'Shore'];
+  const links = [
+    { source: 'A', target: 'B' },
+    { source: 'B', target: 'Hub' },
+    { source: 'Hub', target: 'A' },
+    { source: 'Hub', target: 'C' },
+    { source: 'C', target: 'D' },
+    { source: 'D', target: 'C' },
+    { source: 'D', target: 'Hub' },
+    { source: 'Hub', target: 'E' },
+    { source: 'Island', target: 'Shore' },
+  ];
+  const analytics = analyzeGraph(nodeIds, links);
+  const metricsOf = (id: string) => analytics.nodes.find(node => node.id === id)!;
+
+  it('finds cut vertices, bridges and components', () => {
+    expect(analytics.nodes.filter(node => node.isArticulationPoint).map(node => node.id)).toEqual(['Hub']);
+    expect(analytics.bridges.map(pair => [...pair].sort())).toEqual(
+      expect.arrayContaining([['E', 'Hub'], ['Island', 'Shore']])
+    );
+    expect(analytics.bridges).toHaveLength(2);
+    expect(analytics.components.map(component => component.length)).toEqual([6, 2]);
+    expect(metricsOf('Island').componentIndex).toBe(1);
+  });
+
+  it('ranks the connecting page highest for betweenness and PageRank', () => {
+    const byBetweenness = [...analytics.nodes].sort((a, b) => b.betweenness - a.betweenness);
+    const byPageRank = [...analytics.nodes].sort((a, b) => b.pageRank - a.pageRank);
+    expect(byBetweenness[0].id).toBe('Hub');
+    expect(byPageRank[0].id).toBe('Hub');
+    expect(metricsOf('A').betweenness).toBe(0);
+    expect(analytics.nodes.reduce((sum, node) => sum + node.pageRank, 0)).toBeCloseTo(1, 6);
+  });
+
+  it('counts reciprocal links once for degree but keeps direction for in/out degree', () => {
+    expect(metricsOf('C')).toMatchObject({ degree: 2, inDegree: 2, outDegree: 1 });
+    expect(analytics.degreeDistribution).toEqual([
+      { degree: 1, count: 3 },
+      { degree: 2, count: 4 },
+      { degree: 5, count: 1 },
+    ]);
+  });
+});
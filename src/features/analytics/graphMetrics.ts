@@ -0,0 +1,244 @@
+/**
+ * Structural metrics over the live map, for finding the pages a research
+ * area actually hangs on. PageRank follows link direction; everything else
+ * treats the map as an undirected simple graph, so a reciprocal pair of links
+ * is one connection.
+ */
+
+export type MetricsLink = { source: string; target: string };
+
+export type NodeMetrics = {
+  id: string;
+  degree: number;
+  inDegree: number;
+  outDegree: number;
+  pageRank: number;
+  /** Normalised to 0–1: the share of shortest paths between other pages that pass through this one. */
+  betweenness: number;
+  /** Removing this page splits its component. */
+  isArticulationPoint: boolean;
+  /** Index into `components`. */
+  componentIndex: number;
+};
+
+export type GraphAnalytics = {
+  nodes: NodeMetrics[];
+  /** Links whose removal disconnects the map, as node id pairs. */
+  bridges: Array<[string, string]>;
+  /** Node ids per connected component, largest first. */
+  components: string[][];
+  /** How many pages have each degree, ascending by degree. */
+  degreeDistribution: Array<{ degree: number; count: number }>;
+};
+
+const PAGE_RANK_DAMPING = 0.85;
+const PAGE_RANK_MAX_ITERATIONS = 100;
+const PAGE_RANK_TOLERANCE = 1e-8;
+
+type IndexedGraph = {
+  ids: string[];
+  /** Undirected, deduplicated neighbour lists. */
+  neighbors: number[][];
+  /** Directed, deduplicated outgoing lists. */
+  outgoing: number[][];
+};
+
+const indexGraph = (nodeIds: string[], links: MetricsLink[]): IndexedGraph => {
+  const indexById = new Map(nodeIds.map((id, index) => [id, index]));
+  const neighborSets = nodeIds.map(() => new Set<number>());
+  const outgoingSets = nodeIds.map(() => new Set<number>());
+  links.forEach(({ source, target }) => {
+    const from = indexById.get(source);
+    const to = indexById.get(target);
+    if (from === undefined || to === undefined || from === to) return;
+    outgoingSets[from].add(to);
+    neighborSets[from].add(to);
+    neighborSets[to].add(from);
+  });
+  return {
+    ids: nodeIds,
+    neighbors: neighborSets.map(set => Array.from(set)),
+    outgoing: outgoingSets.map(set => Array.from(set)),
+  };
+};
+
+/** Power iteration; pages without outgoing links spread their rank evenly. */
+const computePageRank = ({ ids, outgoing }: IndexedGraph): number[] => {
+  const count = ids.length;
+  if (count === 0) return [];
+  let rank = new Array<number>(count).fill(1 / count);
+
+  for (let iteration = 0; iteration < PAGE_RANK_MAX_ITERATIONS; iteration++) {
+    const dangling = outgoing.reduce((sum, targets, index) => (targets.length === 0 ? sum + rank[index] : sum), 0);
+    const base = (1 - PAGE_RANK_DAMPING) / count + (PAGE_RANK_DAMPING * dangling) / count;
+    const next = new Array<number>(count).fill(base);
+    outgoing.forEach((targets, index) => {
+      const share = (PAGE_RANK_DAMPING * rank[index]) / targets.length;
+      targets.forEach((target) => {
+        next[target] += share;
+      });
+    });
+    const change = next.reduce((sum, value, index) => sum + Math.abs(value - rank[index]), 0);
+    rank = next;
+    if (change < PAGE_RANK_TOLERANCE) break;
+  }
+  return rank;
+};
+
+/** Brandes' algorithm for unweighted, undirected graphs. */
+const computeBetweenness = ({ ids, neighbors }: IndexedGraph): number[] => {
+  const count = ids.length;
+  const centrality = new Array<number>(count).fill(0);
+
+  for (let source = 0; source < count; source++) {
+    const stack: number[] = [];
+    const predecessors: number[][] = Array.from({ length: count }, () => []);
+    const pathCount = new Array<number>(count).fill(0);
+    const distance = new Array<number>(count).fill(-1);
+    pathCount[source] = 1;
+    distance[source] = 0;
+
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      stack.push(current);
+      for (const next of neighbors[current]) {
+        if (distance[next] < 0) {
+          distance[next] = distance[current] + 1;
+          queue.push(next);
+        }
+        if (distance[next] === distance[current] + 1) {
+          pathCount[next] += pathCount[current];
+          predecessors[next].push(current);
+        }
+      }
+    }
+
+    const dependency = new Array<number>(count).fill(0);
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      for (const previous of predecessors[current]) {
+        dependency[previous] += (pathCount[previous] / pathCount[current]) * (1 + dependency[current]);
+      }
+      if (current !== source) centrality[current] += dependency[current];
+    }
+  }
+
+  // Every pair was counted from both ends.
+  const pairs = ((count - 1) * (count - 2)) / 2;
+  return centrality.map(value => (pairs > 0 ? value / 2 / pairs : 0));
+};
+
+/**
+ * Tarjan's low-link search, iterative so long chains of pages can't
+ * overflow the call stack.
+ */
+const findCutStructure = ({ ids, neighbors }: IndexedGraph) => {
+  const count = ids.length;
+  const discovery = new Array<number>(count).fill(-1);
+  const low = new Array<number>(count).fill(0);
+  const parent = new Array<number>(count).fill(-1);
+  const articulation = new Array<boolean>(count).fill(false);
+  const bridges: Array<[number, number]> = [];
+  let time = 0;
+
+  for (let root = 0; root < count; root++) {
+    if (discovery[root] >= 0) continue;
+    let rootChildren = 0;
+    const stack: Array<{ vertex: number; next: number }> = [{ vertex: root, next: 0 }];
+    discovery[root] = low[root] = time++;
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const { vertex } = frame;
+      if (frame.next < neighbors[vertex].length) {
+        const neighbor = neighbors[vertex][frame.next++];
+        if (discovery[neighbor] < 0) {
+          parent[neighbor] = vertex;
+          if (vertex === root) rootChildren += 1;
+          discovery[neighbor] = low[neighbor] = time++;
+          stack.push({ vertex: neighbor, next: 0 });
+        } else if (neighbor !== parent[vertex]) {
+          low[vertex] = Math.min(low[vertex], discovery[neighbor]);
+        }
+        continue;
+      }
+
+      stack.pop();
+      const above = parent[vertex];
+      if (above < 0) continue;
+      low[above] = Math.min(low[above], low[vertex]);
+      if (low[vertex] > discovery[above]) bridges.push([above, vertex]);
+      if (above !== root && low[vertex] >= discovery[above]) articulation[above] = true;
+    }
+
+    if (rootChildren > 1) articulation[root] = true;
+  }
+
+  return { articulation, bridges };
+};
+
+const findComponents = ({ ids, neighbors }: IndexedGraph): number[][] => {
+  const seen = new Array<boolean>(ids.length).fill(false);
+  const components: number[][] = [];
+  for (let start = 0; start < ids.length; start++) {
+    if (seen[start]) continue;
+    seen[start] = true;
+    const component = [start];
+    for (let head = 0; head < component.length; head++) {
+      for (const next of neighbors[component[head]]) {
+        if (seen[next]) continue;
+        seen[next] = true;
+        component.push(next);
+      }
+    }
+    components.push(component);
+  }
+  return components.sort((a, b) => b.length - a.length);
+};
+
+/** PageRank alone, for callers that don't need the costlier betweenness pass. */
+export function computePageRankById(nodeIds: string[], links: MetricsLink[]): Map<string, number> {
+  const rank = computePageRank(indexGraph(nodeIds, links));
+  return new Map(nodeIds.map((id, index) => [id, rank[index]]));
+}
+
+export function analyzeGraph(nodeIds: string[], links: MetricsLink[]): GraphAnalytics {
+  const graph = indexGraph(nodeIds, links);
+  const pageRank = computePageRank(graph);
+  const betweenness = computeBetweenness(graph);
+  const { articulation, bridges } = findCutStructure(graph);
+  const components = findComponents(graph);
+
+  const componentOf = new Array<number>(nodeIds.length).fill(0);
+  components.forEach((members, index) => members.forEach((member) => {
+    componentOf[member] = index;
+  }));
+  const inDegree = new Array<number>(nodeIds.length).fill(0);
+  graph.outgoing.forEach(targets => targets.forEach((target) => {
+    inDegree[target] += 1;
+  }));
+
+  const degreeCounts = new Map<number, number>();
+  graph.neighbors.forEach((list) => {
+    degreeCounts.set(list.length, (degreeCounts.get(list.length) || 0) + 1);
+  });
+
+  return {
+    nodes: nodeIds.map((id, index) => ({
+      id,
+      degree: graph.neighbors[index].length,
+      inDegree: inDegree[index],
+      outDegree: graph.outgoing[index].length,
+      pageRank: pageRank[index],
+      betweenness: betweenness[index],
+      isArticulationPoint: articulation[index],
+      componentIndex: componentOf[index],
+    })),
+    bridges: bridges.map(([a, b]) => [nodeIds[a], nodeIds[b]]),
+    components: components.map(members => members.map(index => nodeIds[index])),
+    degreeDistribution: Array.from(degreeCounts.entries())
+      .map(([degree, count]) => ({ degree, count }))
+      .sort((a, b) => a.degree - b.degree),
+  };
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WikiService } from '../../WikiService';
+import { DEFAULT_WIKI_SOURCE } from '../../config/wikiSources';
+import { BACKLINK_RANKING_POOL, rankBacklinkSample, rankBacklinks, sampleEvenly } from './backlinkRanking';
+
+describe('backlinkRanking', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('samples evenly across the list', () => {
+    expect(sampleEvenly(['a', 'b', 'c', 'd', 'e', 'f'], 3)).toEqual(['a', 'c', 'e']);
+    expect(sampleEvenly(['a', 'b'], 5)).toEqual(['a', 'b']);
+  });
+
+  it('ranks by reciprocity, shared categories and map overlap, keeping sample order on ties', () => {
+    const ranked = rankBacklinks(['Old list', 'Optics', 'Telescope', 'Lens', 'Trivia'], {
+      outgoingTitles: new Set(['Optics']),
+      categories: ['Optics', 'Light'],
+      categoriesByTitle: new Map([
+        ['Telescope', ['Optics', 'Astronomy']],
+        ['Lens', ['Optics', 'Light']],
+        ['Trivia', ['Quizzes']],
+      ]),
+      mapLinksByTitle: new Map([['Telescope', ['Mirror', 'Galileo Galilei']]]),
+    });
+
+    expect(ranked.map(entry => entry.title)).toEqual(['Optics', 'Telescope', 'Lens', 'Old list', 'Trivia']);
+    expect(ranked[1]).toEqual({
+      title: 'Telescope',
+      isReciprocal: false,
+      sharedCategories: ['Optics'],
+      mapOverlap: 2,
+      score: 3,
+    });
+  });
+
+  it('always scores reciprocal backlinks and fills the pool from the whole sample', async () => {
+    const sample = Array.from({ length: 1000 }, (_, index) => `Page ${index}`);
+    const fetchCategoriesBatch = vi.spyOn(WikiService, 'fetchCategoriesBatch').mockResolvedValue(new Map());
+    const fetchLinksAmong = vi.spyOn(WikiService, 'fetchLinksAmong')
+      .mockResolvedValue(new Map([['Page 988', ['Energy']]]));
+
+    const ranked = await rankBacklinkSample(sample, {
+      outgoingTitles: new Set(['Page 999']),
+      categories: [],
+      mapTitles: ['Energy'],
+      source: DEFAULT_WIKI_SOURCE,
+    });
+
+    const pool = fetchCategoriesBatch.mock.calls[0][0];
+    expect(pool).toHaveLength(BACKLINK_RANKING_POOL);
+    expect(pool[0]).toBe('Page 999');
+    expect(pool).toContain('Page 988');
+    expect(fetchLinksAmong).toHaveBeenCalledWith(pool, ['Energy'], DEFAULT_WIKI_SOURCE);
+    expect(ranked.slice(0, 2).map(entry => entry.title)).toEqual(['Page 999', 'Page 988']);
+  });
+});
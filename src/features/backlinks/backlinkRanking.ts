@@ -0,0 +1,111 @@
+import { WikiService } from '../../WikiService';
+import type { WikiSource } from '../../config/wikiSources';
+
+/**
+ * Ranks "What links here" for a page. The API lists backlinks by page id,
+ * which favours old pages over relevant ones, so a broad sample is scored on
+ * how closely each linking page ties into the page and the current map.
+ */
+
+export type RankedBacklink = {
+  title: string;
+  /** The page also links to this backlink. */
+  isReciprocal: boolean;
+  /** Visible categories the backlink shares with the page. */
+  sharedCategories: string[];
+  /** Map pages, other than the page itself, that the backlink links to. */
+  mapOverlap: number;
+  score: number;
+};
+
+export type BacklinkSignals = {
+  /** Titles the page links to. */
+  outgoingTitles: Set<string>;
+  categories: string[];
+  categoriesByTitle: Map<string, string[]>;
+  mapLinksByTitle: Map<string, string[]>;
+};
+
+export type BacklinkRankingContext = {
+  outgoingTitles: Set<string>;
+  categories: string[];
+  /** Titles on the map from the same wiki, most connected first; only the first 50 are checked. */
+  mapTitles: string[];
+  source: WikiSource;
+};
+
+/** Backlinks fetched per page before sampling; two pages of blcontinue at most. */
+export const BACKLINK_SAMPLE_SIZE = 1000;
+
+/**
+ * Cap on every stored backlink count, wherever the count came from, so the
+ * backlinks metric and node details agree. A count at the cap means "at least".
+ */
+export const BACKLINK_COUNT_LIMIT = BACKLINK_SAMPLE_SIZE;
+
+/** Backlinks scored per page, which keeps the category and overlap queries to two requests each. */
+export const BACKLINK_RANKING_POOL = 100;
+
+const RECIPROCAL_WEIGHT = 3;
+const SHARED_CATEGORY_WEIGHT = 1;
+const MAP_OVERLAP_WEIGHT = 1;
+
+/** Evenly spaced picks across the whole list, keeping its order. */
+export function sampleEvenly<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items.slice();
+  if (count <= 0) return [];
+  const step = items.length / count;
+  return Array.from({ length: count }, (_, index) => items[Math.floor(index * step)]);
+}
+
+/** Highest score first; ties keep the sample's order. */
+export function rankBacklinks(backlinks: string[], signals: BacklinkSignals): RankedBacklink[] {
+  const categories = new Set(signals.categories);
+  return backlinks
+    .map((title) => {
+      const isReciprocal = signals.outgoingTitles.has(title);
+      const sharedCategories = (signals.categoriesByTitle.get(title) || []).filter(category => categories.has(category));
+      const mapOverlap = new Set(signals.mapLinksByTitle.get(title) || []).size;
+      return {
+        title,
+        isReciprocal,
+        sharedCategories,
+        mapOverlap,
+        score: (isReciprocal ? RECIPROCAL_WEIGHT : 0)
+          + sharedCategories.length * SHARED_CATEGORY_WEIGHT
+          + mapOverlap * MAP_OVERLAP_WEIGHT,
+      };
+    })
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) => b.entry.score - a.entry.score || a.index - b.index)
+    .map(({ entry }) => entry);
+}
+
+/**
+ * Scores a backlink sample from fetchBacklinks. Reciprocal backlinks are
+ * always scored; the rest of the pool is spread evenly over the sample.
+ */
+export async function rankBacklinkSample(
+  backlinks: string[],
+  context: BacklinkRankingContext
+): Promise<RankedBacklink[]> {
+  const reciprocal = backlinks.filter(title => context.outgoingTitles.has(title));
+  const others = backlinks.filter(title => !context.outgoingTitles.has(title));
+  const pool = [
+    ...reciprocal.slice(0, BACKLINK_RANKING_POOL),
+    ...sampleEvenly(others, Math.max(0, BACKLINK_RANKING_POOL - reciprocal.length)),
+  ];
+  if (pool.length === 0) return [];
+
+  const [categoriesByTitle, mapLinksByTitle] = await Promise.all([
+    WikiService.fetchCategoriesBatch(pool, context.source),
+    WikiService.fetchLinksAmong(pool, context.mapTitles, context.source),
+  ]);
+
+  return rankBacklinks(pool, {
+    outgoingTitles: context.outgoingTitles,
+    categories: context.categories,
+    categoriesByTitle,
+    mapLinksByTitle,
+  });
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findCategoryMembersOnMap,
+  getCategoryName,
+  getNodeKind,
+  toCategoryTitle,
+} from './categoryNodes';
+
+describe('categoryNodes', () => {
+  it('reads the node kind from the canonical prefix', () => {
+    expect(toCategoryTitle('Physics')).toBe('Category:Physics');
+    expect(toCategoryTitle('Category:Physics')).toBe('Category:Physics');
+    expect(getCategoryName('Category:Branches of physics')).toBe('Branches of physics');
+    expect(getNodeKind('Category:Physics')).toBe('category');
+    expect(getNodeKind('Physics')).toBe('page');
+  });
+
+  it('finds map nodes whose known categories include the category', () => {
+    expect(findCategoryMembersOnMap('Physics', ['Optics', 'Energy', 'Poetry'], {
+      Optics: ['Physics', 'Light'],
+      Energy: ['Physical quantities', 'Physics'],
+      Poetry: ['Literature'],
+    })).toEqual(['Optics', 'Energy']);
+  });
+});
@@ -0,0 +1,39 @@
+import { parseNodeId } from '../../config/wikiSources';
+
+/**
+ * Category pages as map nodes. Category nodes keep the canonical "Category:"
+ * prefix in their title, which every MediaWiki accepts whatever its content
+ * language, so the kind of a node can always be read off its id.
+ */
+
+export type NodeKind = 'page' | 'category';
+
+/** Subcategories, parents or members to add per category action. */
+export type CategoryRelation = 'members' | 'parents' | 'subcategories';
+
+/** Members fetched per category; enough to find most map pages in a typical category. */
+export const CATEGORY_MEMBER_LIMIT = 200;
+
+const CATEGORY_PREFIX = 'Category:';
+
+export const toCategoryTitle = (name: string) =>
+  name.startsWith(CATEGORY_PREFIX) ? name : `${CATEGORY_PREFIX}${name}`;
+
+export const isCategoryTitle = (title: string) => title.startsWith(CATEGORY_PREFIX);
+
+export const getNodeKind = (nodeId: string): NodeKind =>
+  isCategoryTitle(parseNodeId(nodeId).title) ? 'category' : 'page';
+
+/** "Category:Physics" → "Physics"; other titles are returned unchanged. */
+export const getCategoryName = (title: string) =>
+  isCategoryTitle(title) ? title.slice(CATEGORY_PREFIX.length) : title;
+
+/**
+ * Map nodes known to sit in the category, from the categories fetched for
+ * each node so far. Categories are stored without their namespace prefix.
+ */
+export const findCategoryMembersOnMap = (
+  categoryName: string,
+  nodeIds: string[],
+  nodeCategories: Record<string, string[]>
+) => nodeIds.filter(id => nodeCategories[id]?.includes(categoryName));
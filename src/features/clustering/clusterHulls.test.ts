@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { getClusterHullShape } from './clusterHulls';
+
+describe('clusterHulls', () => {
+  it('wraps the members with padding and puts the label above the bubble', () => {
+    const shape = getClusterHullShape([
+      { x: 0, y: 0, radius: 20 },
+      { x: 200, y: 0, radius: 20 },
+      { x: 100, y: 150, radius: 20 },
+    ], 10);
+
+    expect(shape?.path.startsWith('M')).toBe(true);
+    expect(shape?.labelX).toBeCloseTo(100, 0);
+    expect(shape?.labelY).toBeCloseTo(-38, 0);
+  });
+
+  it('still draws a bubble around a single member', () => {
+    expect(getClusterHullShape([{ x: 5, y: 5, radius: 10 }])).not.toBeNull();
+    expect(getClusterHullShape([])).toBeNull();
+  });
+});
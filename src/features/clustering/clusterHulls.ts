@@ -0,0 +1,39 @@
+import * as d3 from 'd3';
+
+/**
+ * Bubble outlines drawn behind each community. The hull wraps a ring of
+ * points around every member circle, so it clears the nodes by `padding`
+ * and rounds off at the corners.
+ */
+
+export type HullMember = { x: number; y: number; radius: number };
+
+export type ClusterHullShape = {
+  /** SVG path data; the canvas renderer reads it through Path2D. */
+  path: string;
+  /** Where the community label goes: centred just above the bubble. */
+  labelX: number;
+  labelY: number;
+};
+
+// Points sampled around each member circle.
+const RING_SAMPLES = 8;
+
+const smoothClosed = d3.line().curve(d3.curveCatmullRomClosed.alpha(0.5));
+
+export function getClusterHullShape(members: HullMember[], padding = 18): ClusterHullShape | null {
+  const points: Array<[number, number]> = [];
+  members.forEach(({ x, y, radius }) => {
+    const reach = radius + padding;
+    for (let i = 0; i < RING_SAMPLES; i++) {
+      const angle = (i / RING_SAMPLES) * Math.PI * 2;
+      points.push([x + Math.cos(angle) * reach, y + Math.sin(angle) * reach]);
+    }
+  });
+
+  const hull = d3.polygonHull(points);
+  if (!hull) return null;
+  const [labelX] = d3.polygonCentroid(hull);
+  const top = Math.min(...hull.map(([, y]) => y));
+  return { path: smoothClosed(hull) ?? '', labelX, labelY: top - 8 };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { detectCommunities, labelCommunity } from './communities';
+
+const clique = (ids: string[]) =>
+  ids.flatMap((source, i) => ids.slice(i + 1).map(target => ({ source, target })));
+
+describe('communities', () => {
+  it('separates two dense groups joined by a single bridge', () => {
+    const planets = ['Mars', 'Venus', 'Jupiter', 'Saturn'];
+    const composers = ['Bach', 'Mozart', 'Haydn', 'Handel'];
+    const links = [...clique(planets), ...clique(composers), { source: 'Jupiter', target: 'Mozart' }];
+
+    const communities = detectCommunities([...planets, ...composers, 'Orphan'], links);
+    const groupOf = (id: string) => communities.find(community => community.memberIds.includes(id));
+
+    expect(communities).toHaveLength(3);
+    expect(groupOf('Mars')?.memberIds.sort()).toEqual([...planets].sort());
+    expect(groupOf('Bach')?.memberIds.sort()).toEqual([...composers].sort());
+    expect(groupOf('Orphan')).toEqual({ id: 'cluster:Orphan', memberIds: ['Orphan'] });
+    // Named after the bridge node, the best-connected member.
+    expect(groupOf('Mars')?.id).toBe('cluster:Jupiter');
+  });
+
+  it('labels a community with the category most members share', () => {
+    const categories = {
+      Mars: ['Planets of the Solar System', 'Terrestrial planets'],
+      Venus: ['Planets of the Solar System', 'Terrestrial planets'],
+      Jupiter: ['Planets of the Solar System', 'Gas giants'],
+      Saturn: ['Gas giants'],
+    };
+
+    expect(labelCommunity(['Mars', 'Venus', 'Jupiter', 'Saturn'], categories)).toBe('Planets of the Solar System');
+    expect(labelCommunity(['Mars', 'Saturn'], categories)).toBeUndefined();
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Community detection over the map's link graph (Louvain modularity
+ * optimisation), plus labels for the communities taken from the categories
+ * their members share. Links are treated as undirected; a reciprocal pair
+ * counts twice, so mutual links pull pages together harder.
+ */
+
+export type Community = {
+  /** Stable while the community keeps its best-connected member. */
+  id: string;
+  memberIds: string[];
+};
+
+// Guards against oscillating moves on degenerate graphs; real maps settle in a few passes.
+const MAX_LEVELS = 12;
+const MAX_PASSES_PER_LEVEL = 24;
+
+type WeightedGraph = {
+  /** Weights to other vertices; self-loops are folded into `degree` only. */
+  adjacency: Array<Map<number, number>>;
+  degree: number[];
+};
+
+/**
+ * One Louvain local-moving phase: each vertex joins the neighbouring
+ * community with the best modularity gain until nothing moves. Returns the
+ * community of every vertex, or null when no vertex moved at all.
+ */
+const moveVertices = (graph: WeightedGraph, totalWeight: number, resolution: number): number[] | null => {
+  const count = graph.degree.length;
+  const community = Array.from({ length: count }, (_, i) => i);
+  const communityDegree = [...graph.degree];
+  let movedAny = false;
+
+  for (let pass = 0; pass < MAX_PASSES_PER_LEVEL; pass++) {
+    let moved = false;
+    for (let vertex = 0; vertex < count; vertex++) {
+      const current = community[vertex];
+      const degree = graph.degree[vertex];
+      const weightTo = new Map<number, number>();
+      graph.adjacency[vertex].forEach((weight, neighbor) => {
+        const target = community[neighbor];
+        weightTo.set(target, (weightTo.get(target) || 0) + weight);
+      });
+
+      communityDegree[current] -= degree;
+      const gain = (target: number) =>
+        (weightTo.get(target) || 0) - (resolution * communityDegree[target] * degree) / totalWeight;
+
+      let best = current;
+      let bestGain = gain(current);
+      weightTo.forEach((_, target) => {
+        const candidate = gain(target);
+        if (candidate > bestGain + 1e-12) {
+          best = target;
+          bestGain = candidate;
+        }
+      });
+
+      communityDegree[best] += degree;
+      if (best !== current) {
+        community[vertex] = best;
+        moved = true;
+        movedAny = true;
+      }
+    }
+    if (!moved) break;
+  }
+
+  return movedAny ? community : null;
+};
+
+/** Collapses each community into one vertex; links inside it become part of its degree. */
+const aggregate = (graph: WeightedGraph, community: number[]) => {
+  const renumbered = new Map<number, number>();
+  community.forEach((c) => {
+    if (!renumbered.has(c)) renumbered.set(c, renumbered.size);
+  });
+
+  const adjacency = Array.from({ length: renumbered.size }, () => new Map<number, number>());
+  const degree = new Array<number>(renumbered.size).fill(0);
+  graph.adjacency.forEach((neighbors, vertex) => {
+    const from = renumbered.get(community[vertex])!;
+    degree[from] += graph.degree[vertex];
+    neighbors.forEach((weight, neighbor) => {
+      const to = renumbered.get(community[neighbor])!;
+      if (to !== from) adjacency[from].set(to, (adjacency[from].get(to) || 0) + weight);
+    });
+  });
+
+  return { graph: { adjacency, degree }, mapping: community.map(c => renumbered.get(c)!) };
+};
+
+/**
+ * Splits the nodes into communities. Nodes without links end up alone.
+ * Communities come back largest first.
+ */
+export function detectCommunities(
+  nodeIds: string[],
+  links: Array<{ source: string; target: string }>,
+  resolution = 1
+): Community[] {
+  const indexById = new Map(nodeIds.map((id, index) => [id, index]));
+  const adjacency = nodeIds.map(() => new Map<number, number>());
+  const degree = new Array<number>(nodeIds.length).fill(0);
+
+  for (const link of links) {
+    const source = indexById.get(link.source);
+    const target = indexById.get(link.target);
+    if (source === undefined || target === undefined || source === target) continue;
+    adjacency[source].set(target, (adjacency[source].get(target) || 0) + 1);
+    adjacency[target].set(source, (adjacency[target].get(source) || 0) + 1);
+    degree[source] += 1;
+    degree[target] += 1;
+  }
+
+  const totalWeight = degree.reduce((sum, value) => sum + value, 0);
+  // Vertex of the current level that each original node belongs to.
+  let assignment = nodeIds.map((_, index) => index);
+
+  if (totalWeight > 0) {
+    let graph: WeightedGraph = { adjacency, degree };
+    for (let level = 0; level < MAX_LEVELS; level++) {
+      const community = moveVertices(graph, totalWeight, resolution);
+      if (!community) break;
+      const next = aggregate(graph, community);
+      assignment = assignment.map(vertex => next.mapping[vertex]);
+      graph = next.graph;
+    }
+  }
+
+  const membersByVertex = new Map<number, number[]>();
+  assignment.forEach((vertex, index) => {
+    const members = membersByVertex.get(vertex);
+    if (members) members.push(index);
+    else membersByVertex.set(vertex, [index]);
+  });
+
+  return Array.from(membersByVertex.values())
+    .map((members) => {
+      // The best-connected member names the community, so ids (and colors)
+      // survive the community gaining or losing peripheral pages.
+      const anchor = members.reduce((best, index) => (degree[index] > degree[best] ? index : best), members[0]);
+      return { id: `cluster:${nodeIds[anchor]}`, memberIds: members.map(index => nodeIds[index]) };
+    })
+    .sort((a, b) => b.memberIds.length - a.memberIds.length);
+}
+
+/**
+ * The category most members share, for naming a community. Only categories
+ * held by at least two members count; ties go to the category seen first.
+ */
+export function labelCommunity(memberIds: string[], categoriesById: Record<string, string[] | undefined>): string | undefined {
+  const counts = new Map<string, number>();
+  memberIds.forEach((id) => {
+    new Set(categoriesById[id] || []).forEach((category) => {
+      counts.set(category, (counts.get(category) || 0) + 1);
+    });
+  });
+
+  let label: string | undefined;
+  let best = 1;
+  counts.forEach((count, category) => {
+    if (count > best) {
+      label = category;
+      best = count;
+    }
+  });
+  return label;
+}
@@ -0,0 +1,122 @@
+import type { Dispatch, SetStateAction } from 'react';
+import { WikiService, type LinkWithContext } from '../../WikiService';
+import type { WikiSource } from '../../config/wikiSources';
+import type { SearchProgress } from '../../types/SearchProgress';
+import { computeForestLayout } from '../layout/forestLayout';
+import { searchPaths } from '../pathfinding/searchPaths';
+import { computeStructuredLayout } from '../structured-view/structuredLayout';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+/**
+ * Compute worker: runs path searches and forest and structured layouts off
+ * the main thread.
+ * It has its own WikiService memory caches but shares the IndexedDB cache
+ * with the page, and every API request waits for a slot from the page's
+ * rate limit.
+ */
+
+const scope = self as unknown as {
+  postMessage: (message: WorkerResponse) => void;
+  addEventListener: (type: 'message', listener: (event: MessageEvent<WorkerRequest>) => void) => void;
+};
+
+type SearchRefs = {
+  keepSearchingRef: { current: boolean };
+  searchAbortRef: { current: boolean };
+  searchPauseRef: { current: boolean };
+};
+
+const searches = new Map<number, SearchRefs>();
+const pendingLinks = new Map<number, (links: LinkWithContext[]) => void>();
+const pendingApiSlots = new Map<number, () => void>();
+let nextRequestId = 0;
+
+const post = (message: WorkerResponse) => scope.postMessage(message);
+
+// Searches only ever append to the log, so running an updater against an
+// empty log yields exactly the new lines.
+const logSetter = (jobId: number): Dispatch<SetStateAction<string[]>> => (update) => {
+  const lines = typeof update === 'function' ? update([]) : update;
+  post({ type: 'searchLog', jobId, lines });
+};
+
+// Progress updaters read earlier fields (counts, scores), so they run against
+// everything this search has reported so far, which is what gets merged.
+const progressSetter = (jobId: number): Dispatch<SetStateAction<SearchProgress>> => {
+  let progress = {} as SearchProgress;
+  return (update) => {
+    progress = typeof update === 'function' ? update(progress) : update;
+    post({ type: 'searchProgress', jobId, patch: progress });
+  };
+};
+
+const fetchLinksOnMainThread = (title: string, source: WikiSource) =>
+  new Promise<LinkWithContext[]>((resolve) => {
+    const requestId = ++nextRequestId;
+    pendingLinks.set(requestId, resolve);
+    post({ type: 'fetchLinks', requestId, title, source });
+  });
+
+WikiService.setRateLimitProxy(() =>
+  new Promise<void>((resolve) => {
+    const requestId = ++nextRequestId;
+    pendingApiSlots.set(requestId, resolve);
+    post({ type: 'apiSlot', requestId });
+  }));
+
+async function runSearch(request: Extract<WorkerRequest, { type: 'searchPaths' }>) {
+  const { jobId, control } = request;
+  const refs: SearchRefs = {
+    keepSearchingRef: { current: control.keepSearching },
+    searchAbortRef: { current: control.abort },
+    searchPauseRef: { current: control.pause },
+  };
+  searches.set(jobId, refs);
+  WikiService.setApiUserAgent(request.apiUserAgent);
+
+  try {
+    const result = await searchPaths({
+      ...request.input,
+      ...refs,
+      setSearchLog: logSetter(jobId),
+      setSearchProgress: progressSetter(jobId),
+      fetchLinks: fetchLinksOnMainThread,
+    });
+    post({ type: 'searchResult', jobId, result });
+  } catch (err) {
+    post({ type: 'searchError', jobId, message: err instanceof Error ? err.message : String(err) });
+  } finally {
+    searches.delete(jobId);
+  }
+}
+
+scope.addEventListener('message', (event) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'searchPaths':
+      void runSearch(request);
+      break;
+    case 'searchControl': {
+      const refs = searches.get(request.jobId);
+      if (!refs) break;
+      refs.searchAbortRef.current = request.control.abort;
+      refs.searchPauseRef.current = request.control.pause;
+      refs.keepSearchingRef.current = request.control.keepSearching;
+      break;
+    }
+    case 'linksResult':
+      pendingLinks.get(request.requestId)?.(request.links);
+      pendingLinks.delete(request.requestId);
+      break;
+    case 'apiSlotGranted':
+      pendingApiSlots.get(request.requestId)?.();
+      pendingApiSlots.delete(request.requestId);
+      break;
+    case 'forestLayout':
+      post({ type: 'forestLayout', jobId: request.jobId, result: computeForestLayout(request.input) });
+      break;
+    case 'structuredLayout':
+      post({ type: 'structuredLayout', jobId: request.jobId, result: computeStructuredLayout(request.input) });
+      break;
+  }
+});
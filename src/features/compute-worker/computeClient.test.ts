@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WikiService } from '../../WikiService';
+import { DEFAULT_WIKI_SOURCE } from '../../config/wikiSources';
+import type { NodeMetadata } from '../../GraphManager';
+import type { SearchProgress } from '../../types/SearchProgress';
+import { DEFAULT_PATH_CONSTRAINTS } from '../pathfinding/pathConstraints';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+class FakeWorker extends EventTarget {
+  static instance: FakeWorker | null = null;
+  posted: WorkerRequest[] = [];
+
+  constructor() {
+    super();
+    FakeWorker.instance = this;
+  }
+
+  postMessage(message: WorkerRequest) {
+    this.posted.push(message);
+  }
+
+  terminate() {}
+
+  reply(message: WorkerResponse) {
+    this.dispatchEvent(new MessageEvent('message', { data: message }));
+  }
+}
+
+const createSearchArgs = () => {
+  let log: string[] = ['Initializing PathFinder protocol...'];
+  let progress = { exploredCount: 0, isSearching: true } as SearchProgress;
+  return {
+    args: {
+      startTitle: 'Apollo 11',
+      endTitle: 'Moon',
+      maxDepth: 3,
+      source: DEFAULT_WIKI_SOURCE,
+      strategy: 'bfs' as const,
+      constraints: DEFAULT_PATH_CONSTRAINTS,
+      keepSearchingRef: { current: false },
+      searchAbortRef: { current: false },
+      searchPauseRef: { current: false },
+      setSearchLog: vi.fn((update: string[] | ((prev: string[]) => string[])) => {
+        log = typeof update === 'function' ? update(log) : update;
+      }),
+      setSearchProgress: vi.fn((update: SearchProgress | ((prev: SearchProgress) => SearchProgress)) => {
+        progress = typeof update === 'function' ? update(progress) : update;
+      }),
+    },
+    getLog: () => log,
+    getProgress: () => progress,
+  };
+};
+
+describe('computeClient', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.resetModules();
+    FakeWorker.instance = null;
+  });
+
+  it('replays worker log and progress, forwards control changes and answers link requests', async () => {
+    vi.useFakeTimers();
+    vi.stubGlobal('Worker', FakeWorker);
+    const fetchLinks = vi.spyOn(WikiService, 'fetchLinks').mockResolvedValue([{ title: 'Moon', context: 'landed on the Moon' }]);
+    const { runSearchPaths } = await import('./computeClient');
+    const { args, getLog, getProgress } = createSearchArgs();
+
+    const pending = runSearchPaths(args);
+    const worker = FakeWorker.instance!;
+    expect(worker.posted[0]).toMatchObject({
+      type: 'searchPaths',
+      input: { startTitle: 'Apollo 11', endTitle: 'Moon', strategy: 'bfs' },
+      control: { abort: false, pause: false, keepSearching: false },
+    });
+    const jobId = (worker.posted[0] as Extract<WorkerRequest, { type: 'searchPaths' }>).jobId;
+
+    worker.reply({ type: 'searchLog', jobId, lines: ['Scanning: Apollo 11... (D0)'] });
+    worker.reply({ type: 'searchProgress', jobId, patch: { exploredCount: 4, currentPage: 'Moon' } });
+    expect(getLog()).toEqual(['Initializing PathFinder protocol...', 'Scanning: Apollo 11... (D0)']);
+    expect(getProgress()).toMatchObject({ isSearching: true, exploredCount: 4, currentPage: 'Moon' });
+
+    args.searchPauseRef.current = true;
+    await vi.advanceTimersByTimeAsync(150);
+    expect(worker.posted[1]).toEqual({
+      type: 'searchControl',
+      jobId,
+      control: { abort: false, pause: true, keepSearching: false },
+    });
+
+    worker.reply({ type: 'fetchLinks', requestId: 7, title: 'Apollo 11', source: DEFAULT_WIKI_SOURCE });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchLinks).toHaveBeenCalledWith('Apollo 11', DEFAULT_WIKI_SOURCE);
+    expect(worker.posted[2]).toEqual({
+      type: 'linksResult',
+      requestId: 7,
+      links: [{ title: 'Moon', context: 'landed on the Moon' }],
+    });
+
+    const waitForApiSlot = vi.spyOn(WikiService, 'waitForApiSlot').mockResolvedValue(undefined);
+    worker.reply({ type: 'apiSlot', requestId: 8 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(waitForApiSlot).toHaveBeenCalledTimes(1);
+    expect(worker.posted[3]).toEqual({ type: 'apiSlotGranted', requestId: 8 });
+
+    worker.reply({ type: 'searchResult', jobId, result: { status: 'searched', foundDepth: 1, paths: [['Apollo 11', 'Moon']] } });
+    await expect(pending).resolves.toEqual({ status: 'searched', foundDepth: 1, paths: [['Apollo 11', 'Moon']] });
+
+    args.searchAbortRef.current = true;
+    await vi.advanceTimersByTimeAsync(150);
+    expect(worker.posted).toHaveLength(4);
+  });
+
+  it('rejects with the worker error message', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const { runSearchPaths } = await import('./computeClient');
+    const { args } = createSearchArgs();
+
+    const pending = runSearchPaths(args);
+    const worker = FakeWorker.instance!;
+    const jobId = (worker.posted[0] as Extract<WorkerRequest, { type: 'searchPaths' }>).jobId;
+    worker.reply({ type: 'searchError', jobId, message: 'Exceeded exploration limit (500 nodes).' });
+
+    await expect(pending).rejects.toThrow('Exceeded exploration limit (500 nodes).');
+  });
+
+  it('lays out the forest inline when workers are unavailable', async () => {
+    const { computeForestLayoutOffThread, isComputeWorkerAvailable } = await import('./computeClient');
+    expect(isComputeWorkerAvailable()).toBe(false);
+
+    const layout = await computeForestLayoutOffThread({
+      nodes: [{ id: 'root' }, { id: 'child' }],
+      metadataById: new Map([['child', { primaryParentId: 'root' }]]),
+      width: 800,
+      height: 600,
+      treeSpacing: 190,
+      branchSpread: 160,
+      layoutMode: 'forest',
+    });
+    expect(layout.childrenByParent.get('root')).toEqual(['child']);
+    expect(layout.targets.has('child')).toBe(true);
+  });
+
+  it('runs structured layouts in the worker and falls back inline if it fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('Worker', FakeWorker);
+    const { computeStructuredLayoutOffThread } = await import('./computeClient');
+    const input = {
+      snapshot: {
+        nodes: [{ id: 'Root', title: 'Root' }, { id: 'Leaf', title: 'Leaf' }],
+        links: [],
+        nodeMetadata: { Leaf: { primaryParentId: 'Root' } as NodeMetadata },
+      },
+    };
+
+    const answered = computeStructuredLayoutOffThread(input);
+    const worker = FakeWorker.instance!;
+    expect(worker.posted[0]).toMatchObject({ type: 'structuredLayout', input });
+    const result = {
+      positions: new Map([['Root', { x: 0, y: 0 }]]),
+      hiddenNodeIds: new Set<string>(),
+      rootIds: ['Root'],
+      childrenByParent: new Map(),
+    };
+    const jobId = (worker.posted[0] as Extract<WorkerRequest, { type: 'structuredLayout' }>).jobId;
+    worker.reply({ type: 'structuredLayout', jobId, result });
+    expect(await answered).toBe(result);
+
+    const pending = computeStructuredLayoutOffThread(input);
+    worker.dispatchEvent(new Event('error'));
+    const layout = await pending;
+    expect(layout.rootIds).toEqual(['Root']);
+    expect(layout.childrenByParent.get('Root')).toEqual(['Leaf']);
+  });
+});
@@ -0,0 +1,176 @@
+import { WikiService } from '../../WikiService';
+import { computeForestLayout, type ForestLayoutInput, type ForestLayoutResult } from '../layout/forestLayout';
+import { searchPaths, type SearchPathsResult } from '../pathfinding/searchPaths';
+import {
+  computeStructuredLayout,
+  type StructuredLayoutInput,
+  type StructuredLayoutResult,
+} from '../structured-view/structuredLayout';
+import type { SearchControlState, WorkerRequest, WorkerResponse } from './protocol';
+
+/**
+ * Main-thread side of the compute worker. The worker is started on first use;
+ * where workers are unavailable (tests, old browsers) or it fails to load,
+ * the same work runs on the main thread instead.
+ */
+
+type SearchPathsArgs = Parameters<typeof searchPaths>[0];
+
+type PendingJob<T> = {
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+  /** Re-runs the job on the main thread if the worker dies. */
+  fallback: () => void;
+};
+
+// How often the search refs are mirrored into the worker.
+const CONTROL_POLL_MS = 100;
+
+let worker: Worker | null | undefined;
+let nextJobId = 0;
+const searchJobs = new Map<number, PendingJob<SearchPathsResult> & { args: SearchPathsArgs }>();
+const layoutJobs = new Map<number, PendingJob<ForestLayoutResult>>();
+const structuredLayoutJobs = new Map<number, PendingJob<StructuredLayoutResult>>();
+
+const post = (target: Worker, request: WorkerRequest) => target.postMessage(request);
+
+const handleMessage = async (event: MessageEvent<WorkerResponse>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'searchLog':
+      searchJobs.get(message.jobId)?.args.setSearchLog(prev => [...prev, ...message.lines].slice(-8));
+      break;
+    case 'searchProgress':
+      searchJobs.get(message.jobId)?.args.setSearchProgress(prev => ({ ...prev, ...message.patch }));
+      break;
+    case 'fetchLinks': {
+      const links = await WikiService.fetchLinks(message.title, message.source);
+      if (worker) post(worker, { type: 'linksResult', requestId: message.requestId, links });
+      break;
+    }
+    case 'apiSlot':
+      await WikiService.waitForApiSlot();
+      if (worker) post(worker, { type: 'apiSlotGranted', requestId: message.requestId });
+      break;
+    case 'searchResult':
+      searchJobs.get(message.jobId)?.resolve(message.result);
+      break;
+    case 'searchError':
+      searchJobs.get(message.jobId)?.reject(new Error(message.message));
+      break;
+    case 'forestLayout':
+      layoutJobs.get(message.jobId)?.resolve(message.result);
+      break;
+    case 'structuredLayout':
+      structuredLayoutJobs.get(message.jobId)?.resolve(message.result);
+      break;
+  }
+};
+
+const handleFailure = (event: Event) => {
+  console.warn('[ComputeWorker] Worker failed; running on the main thread instead.', event);
+  worker?.terminate();
+  worker = null;
+  [...searchJobs.values(), ...layoutJobs.values(), ...structuredLayoutJobs.values()].forEach(job => job.fallback());
+};
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined') {
+    worker = null;
+    return worker;
+  }
+  try {
+    worker = new Worker(new URL('./compute.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<WorkerResponse>) => void handleMessage(event));
+    worker.addEventListener('error', handleFailure);
+  } catch (err) {
+    console.warn('[ComputeWorker] Could not start worker.', err);
+    worker = null;
+  }
+  return worker;
+};
+
+export const isComputeWorkerAvailable = () => getWorker() !== null;
+
+/**
+ * searchPaths in the worker. Log lines and progress fields are replayed onto
+ * the caller's setters, and abort/pause/keep-searching refs are polled and
+ * forwarded while the search runs.
+ */
+export function runSearchPaths(args: SearchPathsArgs): Promise<SearchPathsResult> {
+  const target = getWorker();
+  if (!target) return searchPaths(args);
+
+  const jobId = ++nextJobId;
+  const readControl = (): SearchControlState => ({
+    abort: args.searchAbortRef.current,
+    pause: args.searchPauseRef.current,
+    keepSearching: args.keepSearchingRef.current,
+  });
+  let control = readControl();
+
+  return new Promise<SearchPathsResult>((resolve, reject) => {
+    // Refs have no change events, so mirror them on a short poll.
+    const poll = setInterval(() => {
+      const next = readControl();
+      if (next.abort === control.abort && next.pause === control.pause && next.keepSearching === control.keepSearching) return;
+      control = next;
+      if (worker) post(worker, { type: 'searchControl', jobId, control });
+    }, CONTROL_POLL_MS);
+    const settle = () => {
+      clearInterval(poll);
+      searchJobs.delete(jobId);
+    };
+
+    searchJobs.set(jobId, {
+      args,
+      resolve: (result) => { settle(); resolve(result); },
+      reject: (error) => { settle(); reject(error); },
+      fallback: () => { settle(); searchPaths(args).then(resolve, reject); },
+    });
+
+    const { startTitle, endTitle, maxDepth, source, strategy, constraints } = args;
+    post(target, {
+      type: 'searchPaths',
+      jobId,
+      input: { startTitle, endTitle, maxDepth, source, strategy, constraints },
+      control,
+      apiUserAgent: WikiService.getApiUserAgent(),
+    });
+  });
+}
+
+/** computeForestLayout in the worker, or inline when no worker is available. */
+export function computeForestLayoutOffThread(input: ForestLayoutInput): Promise<ForestLayoutResult> {
+  const target = getWorker();
+  if (!target) return Promise.resolve(computeForestLayout(input));
+
+  const jobId = ++nextJobId;
+  return new Promise<ForestLayoutResult>((resolve, reject) => {
+    const settle = () => layoutJobs.delete(jobId);
+    layoutJobs.set(jobId, {
+      resolve: (result) => { settle(); resolve(result); },
+      reject: (error) => { settle(); reject(error); },
+      fallback: () => { settle(); resolve(computeForestLayout(input)); },
+    });
+    post(target, { type: 'forestLayout', jobId, input });
+  });
+}
+
+/** computeStructuredLayout in the worker, or inline when no worker is available. */
+export function computeStructuredLayoutOffThread(input: StructuredLayoutInput): Promise<StructuredLayoutResult> {
+  const target = getWorker();
+  if (!target) return Promise.resolve(computeStructuredLayout(input));
+
+  const jobId = ++nextJobId;
+  return new Promise<StructuredLayoutResult>((resolve, reject) => {
+    const settle = () => structuredLayoutJobs.delete(jobId);
+    structuredLayoutJobs.set(jobId, {
+      resolve: (result) => { settle(); resolve(result); },
+      reject: (error) => { settle(); reject(error); },
+      fallback: () => { settle(); resolve(computeStructuredLayout(input)); },
+    });
+    post(target, { type: 'structuredLayout', jobId, input });
+  });
+}
@@ -0,0 +1,59 @@
+import type { LinkWithContext } from '../../WikiService';
+import type { WikiSource } from '../../config/wikiSources';
+import type { SearchProgress } from '../../types/SearchProgress';
+import type { ForestLayoutInput, ForestLayoutResult } from '../layout/forestLayout';
+import type { PathConstraints } from '../pathfinding/pathConstraints';
+import type { PathfinderStrategy } from '../pathfinding/runPathfinder';
+import type { SearchPathsResult } from '../pathfinding/searchPaths';
+import type { StructuredLayoutInput, StructuredLayoutResult } from '../structured-view/structuredLayout';
+
+/**
+ * Messages between the main thread and the compute worker. Everything here
+ * must survive structured cloning: plain objects, arrays, Maps and Sets.
+ */
+
+export type SearchPathsInput = {
+  startTitle: string;
+  endTitle: string;
+  maxDepth: number;
+  source: WikiSource;
+  strategy: PathfinderStrategy;
+  constraints: PathConstraints;
+};
+
+/** Mirrors the refs a search polls between fetches. */
+export type SearchControlState = {
+  abort: boolean;
+  pause: boolean;
+  keepSearching: boolean;
+};
+
+export type WorkerRequest =
+  | {
+    type: 'searchPaths';
+    jobId: number;
+    input: SearchPathsInput;
+    control: SearchControlState;
+    apiUserAgent?: string;
+  }
+  | { type: 'searchControl'; jobId: number; control: SearchControlState }
+  /** Reply to a `fetchLinks` request from the worker. */
+  | { type: 'linksResult'; requestId: number; links: LinkWithContext[] }
+  /** Reply to an `apiSlot` request: the worker may send its next API request. */
+  | { type: 'apiSlotGranted'; requestId: number }
+  | { type: 'forestLayout'; jobId: number; input: ForestLayoutInput }
+  | { type: 'structuredLayout'; jobId: number; input: StructuredLayoutInput };
+
+export type WorkerResponse =
+  /** Lines to append to the search log. */
+  | { type: 'searchLog'; jobId: number; lines: string[] }
+  /** Fields to merge into the search progress. */
+  | { type: 'searchProgress'; jobId: number; patch: Partial<SearchProgress> }
+  /** Parsed links need DOMParser, which workers lack, so the main thread fetches them. */
+  | { type: 'fetchLinks'; requestId: number; title: string; source: WikiSource }
+  /** The worker's API requests wait on the main thread's rate limit. */
+  | { type: 'apiSlot'; requestId: number }
+  | { type: 'searchResult'; jobId: number; result: SearchPathsResult }
+  | { type: 'searchError'; jobId: number; message: string }
+  | { type: 'forestLayout'; jobId: number; result: ForestLayoutResult }
+  | { type: 'structuredLayout'; jobId: number; result: StructuredLayoutResult };
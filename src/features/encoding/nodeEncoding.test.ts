@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { BACKLINK_COUNT_LIMIT } from '../backlinks/backlinkRanking';
+import { getMetricDomain, getMetricLegend, normalizeMetric } from './nodeEncoding';
+
+describe('nodeEncoding', () => {
+  it('ignores non-finite values when finding the domain', () => {
+    expect(getMetricDomain([4, Number.NaN, 1, 9])).toEqual({ min: 1, max: 9 });
+    expect(getMetricDomain([])).toBeNull();
+  });
+
+  it('normalizes linearly or on a log scale depending on the metric', () => {
+    const domain = { min: 0, max: 1000 };
+    expect(normalizeMetric('degree', 500, domain)).toBe(0.5);
+    // Log scale lifts mid-sized values well above their linear share.
+    expect(normalizeMetric('pageViews', 30, domain)).toBeGreaterThan(0.45);
+    expect(normalizeMetric('pageViews', 2000, domain)).toBe(1);
+    expect(normalizeMetric('degree', 3, { min: 3, max: 3 })).toBe(0.5);
+  });
+
+  it('labels legend ends with the metric formatter and adds color stops on request', () => {
+    const legend = getMetricLegend('pageLength', { min: 1200, max: 250000 }, true);
+    expect(legend).toMatchObject({ label: 'Page length', minLabel: '1.2K bytes', maxLabel: '250K bytes' });
+    expect(legend.stops).toHaveLength(5);
+    expect(getMetricLegend('degree', { min: 1, max: 12 }).stops).toBeUndefined();
+  });
+
+  it('marks backlink counts at the fetch limit as capped', () => {
+    const legend = getMetricLegend('backlinks', { min: 4, max: BACKLINK_COUNT_LIMIT });
+    expect(legend).toMatchObject({ label: 'Backlinks (up to 1K)', minLabel: '4', maxLabel: '1K+' });
+  });
+});
@@ -0,0 +1,97 @@
+import * as d3 from 'd3';
+import { BACKLINK_COUNT_LIMIT } from '../backlinks/backlinkRanking';
+
+/**
+ * Metrics that node size and color can be mapped to, and the scales and
+ * legends for them. GraphManager tracks degree, PageRank and depth itself;
+ * the app fetches the rest and hands the values over.
+ */
+
+export type NodeMetric = 'degree' | 'backlinks' | 'pageRank' | 'originDepth' | 'pageLength' | 'pageViews' | 'lastEdited';
+
+/** Metrics whose values come from the wiki rather than the map itself. */
+export type ExternalNodeMetric = Extract<NodeMetric, 'backlinks' | 'pageLength' | 'pageViews' | 'lastEdited'>;
+
+export type ExternalMetricValues = Partial<Record<ExternalNodeMetric, Record<string, number>>>;
+
+type MetricDefinition = {
+  label: string;
+  /** Log and sqrt scales keep one very popular or very long page from flattening the rest. */
+  scale: 'linear' | 'sqrt' | 'log';
+  format: (value: number) => string;
+};
+
+const compactNumber = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 });
+
+export const NODE_METRICS: Record<NodeMetric, MetricDefinition> = {
+  degree: { label: 'Links on map', scale: 'linear', format: value => String(Math.round(value)) },
+  // Counts stop at the backlink fetch limit, so the top end reads as "at least".
+  backlinks: {
+    label: `Backlinks (up to ${compactNumber.format(BACKLINK_COUNT_LIMIT)})`,
+    scale: 'log',
+    format: value => (value >= BACKLINK_COUNT_LIMIT ? `${compactNumber.format(BACKLINK_COUNT_LIMIT)}+` : String(Math.round(value))),
+  },
+  pageRank: { label: 'PageRank', scale: 'sqrt', format: value => value.toFixed(3) },
+  originDepth: { label: 'Depth from root', scale: 'linear', format: value => String(Math.round(value)) },
+  pageLength: { label: 'Page length', scale: 'log', format: value => `${compactNumber.format(value)} bytes` },
+  pageViews: { label: 'Page views (30 days)', scale: 'log', format: value => compactNumber.format(value) },
+  lastEdited: { label: 'Last edited', scale: 'linear', format: value => new Date(value).toLocaleDateString() },
+};
+
+export const isNodeMetric = (value: unknown): value is NodeMetric =>
+  typeof value === 'string' && value in NODE_METRICS;
+
+export type MetricDomain = { min: number; max: number };
+
+export type MetricLegend = {
+  metric: NodeMetric;
+  label: string;
+  minLabel: string;
+  maxLabel: string;
+  /** Colors from low to high; only set for the color legend. */
+  stops?: string[];
+};
+
+/** Color for nodes without a value for the active metric. */
+export const MISSING_METRIC_COLOR = '#64748b';
+
+const LEGEND_STOPS = 5;
+
+export const getMetricDomain = (values: Iterable<number>): MetricDomain | null => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const value of values) {
+    if (!Number.isFinite(value)) continue;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return min <= max ? { min, max } : null;
+};
+
+/** Position of `value` within the domain, 0 to 1. A single-valued domain maps to the middle. */
+export const normalizeMetric = (metric: NodeMetric, value: number, domain: MetricDomain) => {
+  const { scale } = NODE_METRICS[metric];
+  const project = (v: number) => {
+    const offset = Math.max(0, v - domain.min);
+    return scale === 'log' ? Math.log1p(offset) : scale === 'sqrt' ? Math.sqrt(offset) : offset;
+  };
+  const span = project(domain.max);
+  if (span <= 0) return 0.5;
+  return Math.max(0, Math.min(1, project(value) / span));
+};
+
+// Viridis stays readable on the dark canvas; its darkest end is skipped.
+export const getMetricColor = (t: number) => d3.interpolateViridis(0.15 + t * 0.85);
+
+export const getMetricLegend = (metric: NodeMetric, domain: MetricDomain, withColors = false): MetricLegend => {
+  const { label, format } = NODE_METRICS[metric];
+  return {
+    metric,
+    label,
+    minLabel: format(domain.min),
+    maxLabel: format(domain.max),
+    stops: withColors
+      ? Array.from({ length: LEGEND_STOPS }, (_, i) => getMetricColor(i / (LEGEND_STOPS - 1)))
+      : undefined,
+  };
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { GraphStateSnapshot, NodeMetadata } from '../../GraphManager';
+import { toDOT, toGEXF, toGraphML, type GraphExportInput } from './graphExport';
+
+function createInput(): GraphExportInput {
+  const snapshot: GraphStateSnapshot = {
+    nodes: [
+      { id: 'Physics', title: 'Physics', x: 10, y: 20 },
+      { id: 'AT&T "Labs"', title: 'AT&T "Labs"', x: 40.123456, y: 60 },
+    ],
+    links: [{
+      id: 'Physics-AT&T "Labs"',
+      source: 'Physics',
+      target: 'AT&T "Labs"',
+      type: 'manual',
+      layoutRole: 'primary',
+      context: 'Line one\nline <two>',
+    }],
+    nodeMetadata: {
+      Physics: { isUserTyped: true, isInPath: true, originSeed: 'Physics', originDepth: 0, treeId: 'Physics' } as NodeMetadata,
+      'AT&T "Labs"': { isInPath: false, originSeed: 'Physics', originDepth: 1, treeId: 'Physics' } as NodeMetadata,
+    },
+  };
+
+  return {
+    snapshot,
+    nodeCategories: { Physics: ['Physical sciences', 'Natural sciences'] },
+    nodeDescriptions: { Physics: 'Natural science' },
+    linkInsights: {
+      'Physics-AT&T "Labs"': {
+        role: 'primary', tier: 'moderate', sharedNeighbors: 1, sharedNeighborRatio: 0.5, isReciprocal: false, strength: 0.5,
+      },
+    },
+    title: 'Physics',
+  };
+}
+
+describe('graphExport', () => {
+  it('writes GraphML with typed node and edge attributes', () => {
+    const doc = new DOMParser().parseFromString(toGraphML(createInput()), 'application/xml');
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    expect(doc.querySelector('key[attr\\.name="originDepth"]')?.getAttribute('attr.type')).toBe('int');
+    const physics = doc.querySelector('node[id="Physics"]');
+    expect(physics?.querySelector('data[key="n_categories"]')?.textContent).toBe('Physical sciences|Natural sciences');
+    expect(physics?.querySelector('data[key="n_isInPath"]')?.textContent).toBe('true');
+    const edge = doc.querySelector('edge');
+    expect(edge?.getAttribute('target')).toBe('AT&T "Labs"');
+    expect(edge?.querySelector('data[key="e_tier"]')?.textContent).toBe('moderate');
+    expect(edge?.querySelector('data[key="e_context"]')?.textContent).toBe('Line one\nline <two>');
+  });
+
+  it('writes GEXF with labels, positions and edge weights', () => {
+    const doc = new DOMParser().parseFromString(toGEXF(createInput()), 'application/xml');
+
+    expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+    const node = Array.from(doc.getElementsByTagName('node')).find(item => item.getAttribute('id') === 'AT&T "Labs"');
+    expect(node?.getAttribute('label')).toBe('AT&T "Labs"');
+    expect(node?.getElementsByTagName('viz:position')[0]?.getAttribute('x')).toBe('40.1235');
+    expect(doc.querySelector('node[id="Physics"] attvalue[for="description"]')?.getAttribute('value')).toBe('Natural science');
+    expect(doc.querySelector('edge')?.getAttribute('weight')).toBe('0.5');
+  });
+
+  it('writes DOT with escaped identifiers', () => {
+    const dot = toDOT(createInput());
+
+    expect(dot.startsWith('digraph "Physics" {')).toBe(true);
+    expect(dot).toContain('"Physics" -> "AT&T \\"Labs\\"" [type="manual"');
+    expect(dot).toContain('context="Line one\\nline <two>"');
+    expect(dot).toContain('strength="0.5"');
+  });
+});
@@ -0,0 +1,205 @@
+import type { GraphStateSnapshot, LinkInsightSummary } from '../../GraphManager';
+
+/**
+ * Graph exporters for follow-up analysis outside the app.
+ * GraphML (NetworkX, yEd), GEXF (Gephi) and Graphviz DOT are all produced from
+ * one attribute table below, so the three formats always carry the same
+ * columns. Missing values are omitted rather than written as empty strings.
+ */
+
+export type GraphExportFormat = 'graphml' | 'gexf' | 'dot';
+
+export const GRAPH_EXPORT_FORMATS: Record<GraphExportFormat, { label: string; extension: string; mimeType: string }> = {
+  graphml: { label: 'GraphML', extension: '.graphml', mimeType: 'application/graphml+xml' },
+  gexf: { label: 'GEXF', extension: '.gexf', mimeType: 'application/gexf+xml' },
+  dot: { label: 'DOT', extension: '.dot', mimeType: 'text/vnd.graphviz' },
+};
+
+export type GraphExportInput = {
+  snapshot: GraphStateSnapshot;
+  nodeCategories?: Record<string, string[]>;
+  nodeDescriptions?: Record<string, string>;
+  linkInsights?: Record<string, LinkInsightSummary | undefined>;
+  title?: string;
+};
+
+type AttributeType = 'string' | 'int' | 'double' | 'boolean';
+type AttributeValue = string | number | boolean | undefined;
+
+type Attribute<T> = {
+  key: string;
+  type: AttributeType;
+  get: (item: T) => AttributeValue;
+};
+
+type ExportNode = GraphStateSnapshot['nodes'][number];
+type ExportLink = GraphStateSnapshot['links'][number];
+
+const nodeAttributes = (input: GraphExportInput): Attribute<ExportNode>[] => {
+  const meta = (node: ExportNode) => input.snapshot.nodeMetadata[node.id] ?? node.metadata;
+  return [
+    { key: 'label', type: 'string', get: node => node.title },
+    { key: 'originSeed', type: 'string', get: node => meta(node)?.originSeed },
+    { key: 'originDepth', type: 'int', get: node => meta(node)?.originDepth },
+    { key: 'treeId', type: 'string', get: node => meta(node)?.treeId },
+    { key: 'clusterId', type: 'string', get: node => meta(node)?.clusterId },
+    { key: 'wikiSourceId', type: 'string', get: node => meta(node)?.wikiSourceId },
+    { key: 'categories', type: 'string', get: node => input.nodeCategories?.[node.id]?.join('|') || undefined },
+    { key: 'description', type: 'string', get: node => input.nodeDescriptions?.[node.id] },
+    { key: 'isUserTyped', type: 'boolean', get: node => Boolean(meta(node)?.isUserTyped) },
+    { key: 'isInPath', type: 'boolean', get: node => Boolean(meta(node)?.isInPath) },
+    { key: 'x', type: 'double', get: node => node.x },
+    { key: 'y', type: 'double', get: node => node.y },
+  ];
+};
+
+const edgeAttributes = (input: GraphExportInput): Attribute<ExportLink>[] => {
+  const insight = (link: ExportLink) => input.linkInsights?.[link.id];
+  return [
+    { key: 'type', type: 'string', get: link => link.type },
+    { key: 'layoutRole', type: 'string', get: link => link.layoutRole },
+    { key: 'context', type: 'string', get: link => link.context },
+    { key: 'role', type: 'string', get: link => insight(link)?.role },
+    { key: 'tier', type: 'string', get: link => insight(link)?.tier },
+    { key: 'strength', type: 'double', get: link => insight(link)?.strength },
+    { key: 'sharedNeighbors', type: 'int', get: link => insight(link)?.sharedNeighbors },
+    { key: 'isReciprocal', type: 'boolean', get: link => insight(link)?.isReciprocal },
+  ];
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const formatValue = (value: AttributeValue) =>
+  typeof value === 'number' ? String(Number.isInteger(value) ? value : Number(value.toFixed(4))) : String(value);
+
+export const toGraphML = (input: GraphExportInput): string => {
+  const nodeAttrs = nodeAttributes(input);
+  const edgeAttrs = edgeAttributes(input);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...nodeAttrs.map(attr => `  <key id="n_${attr.key}" for="node" attr.name="${attr.key}" attr.type="${attr.type}"/>`),
+    ...edgeAttrs.map(attr => `  <key id="e_${attr.key}" for="edge" attr.name="${attr.key}" attr.type="${attr.type}"/>`),
+    `  <graph id="${escapeXml(input.title || 'wikiweb')}" edgedefault="directed">`,
+  ];
+
+  const dataLines = <T>(item: T, attrs: Attribute<T>[], prefix: string) =>
+    attrs.flatMap((attr) => {
+      const value = attr.get(item);
+      return value === undefined ? [] : [`      <data key="${prefix}_${attr.key}">${escapeXml(formatValue(value))}</data>`];
+    });
+
+  input.snapshot.nodes.forEach((node) => {
+    lines.push(`    <node id="${escapeXml(node.id)}">`, ...dataLines(node, nodeAttrs, 'n'), '    </node>');
+  });
+  input.snapshot.links.forEach((link) => {
+    lines.push(
+      `    <edge id="${escapeXml(link.id)}" source="${escapeXml(link.source)}" target="${escapeXml(link.target)}">`,
+      ...dataLines(link, edgeAttrs, 'e'),
+      '    </edge>'
+    );
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+};
+
+const GEXF_TYPES: Record<AttributeType, string> = {
+  string: 'string',
+  int: 'integer',
+  double: 'double',
+  boolean: 'boolean',
+};
+
+export const toGEXF = (input: GraphExportInput): string => {
+  // label and x/y have dedicated GEXF slots, so they are not declared as attributes.
+  const nodeAttrs = nodeAttributes(input).filter(attr => !['label', 'x', 'y'].includes(attr.key));
+  const edgeAttrs = edgeAttributes(input);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta><description>${escapeXml(input.title || 'WikiWeb map')}</description></meta>`,
+    '  <graph defaultedgetype="directed" mode="static">',
+    '    <attributes class="node">',
+    ...nodeAttrs.map(attr => `      <attribute id="${attr.key}" title="${attr.key}" type="${GEXF_TYPES[attr.type]}"/>`),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    ...edgeAttrs.map(attr => `      <attribute id="${attr.key}" title="${attr.key}" type="${GEXF_TYPES[attr.type]}"/>`),
+    '    </attributes>',
+  ];
+
+  const attvalues = <T>(item: T, attrs: Attribute<T>[]) => {
+    const values = attrs.flatMap((attr) => {
+      const value = attr.get(item);
+      return value === undefined ? [] : [`          <attvalue for="${attr.key}" value="${escapeXml(formatValue(value))}"/>`];
+    });
+    return values.length > 0 ? ['        <attvalues>', ...values, '        </attvalues>'] : [];
+  };
+
+  lines.push('    <nodes>');
+  input.snapshot.nodes.forEach((node) => {
+    const position = typeof node.x === 'number' && typeof node.y === 'number'
+      ? [`        <viz:position x="${formatValue(node.x)}" y="${formatValue(node.y)}" z="0"/>`]
+      : [];
+    lines.push(
+      `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.title)}">`,
+      ...attvalues(node, nodeAttrs),
+      ...position,
+      '      </node>'
+    );
+  });
+  lines.push('    </nodes>', '    <edges>');
+  input.snapshot.links.forEach((link) => {
+    const strength = input.linkInsights?.[link.id]?.strength;
+    const weight = typeof strength === 'number' ? ` weight="${formatValue(strength)}"` : '';
+    lines.push(
+      `      <edge id="${escapeXml(link.id)}" source="${escapeXml(link.source)}" target="${escapeXml(link.target)}"${weight}>`,
+      ...attvalues(link, edgeAttrs),
+      '      </edge>'
+    );
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n');
+};
+
+const quoteDot = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+
+export const toDOT = (input: GraphExportInput): string => {
+  const nodeAttrs = nodeAttributes(input);
+  const edgeAttrs = edgeAttributes(input);
+  const attrList = <T>(item: T, attrs: Attribute<T>[]) =>
+    attrs
+      .flatMap((attr) => {
+        const value = attr.get(item);
+        return value === undefined ? [] : [`${attr.key}=${quoteDot(formatValue(value))}`];
+      })
+      .join(', ');
+
+  const lines = [`digraph ${quoteDot(input.title || 'wikiweb')} {`];
+  input.snapshot.nodes.forEach((node) => {
+    lines.push(`  ${quoteDot(node.id)} [${attrList(node, nodeAttrs)}];`);
+  });
+  input.snapshot.links.forEach((link) => {
+    const attrs = attrList(link, edgeAttrs);
+    lines.push(`  ${quoteDot(link.source)} -> ${quoteDot(link.target)}${attrs ? ` [${attrs}]` : ''};`);
+  });
+  lines.push('}');
+  return lines.join('\n');
+};
+
+export const exportGraph = (format: GraphExportFormat, input: GraphExportInput): string => {
+  switch (format) {
+    case 'graphml':
+      return toGraphML(input);
+    case 'gexf':
+      return toGEXF(input);
+    case 'dot':
+      return toDOT(input);
+  }
+};
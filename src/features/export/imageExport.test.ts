@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildGraphSvg } from './imageExport';
+
+function createGraphSvg() {
+  document.body.innerHTML = `
+    <svg class="w-full h-full">
+      <g class="graph-viewport" transform="translate(5,5) scale(2)">
+        <g class="links"><g class="link"><line class="hit"/><line class="visible" stroke="url(#link-grad-A-B)"/></g></g>
+        <g class="nodes"><g class="node"><circle class="thumbnail-fill" fill="url(#img-A)"/></g></g>
+      </g>
+      <g class="brush-layer"><rect/></g>
+      <defs>
+        <linearGradient id="link-grad-A-B" class="link-gradient"><stop offset="0%"/></linearGradient>
+        <pattern id="img-A"><image href="https://upload.example.org/a.png"/></pattern>
+        <pattern id="img-B"><image href="https://upload.example.org/missing.png"/></pattern>
+      </defs>
+    </svg>`;
+  return document.querySelector('svg') as SVGSVGElement;
+}
+
+describe('imageExport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  it('builds a standalone SVG framed to the export bounds', async () => {
+    const fetchMock = vi.fn(async (url: string) => url.endsWith('a.png')
+      ? { ok: true, blob: async () => new Blob(['png-bytes'], { type: 'image/png' }) }
+      : { ok: false });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const svgText = await buildGraphSvg({
+      svg: createGraphSvg(),
+      frame: { width: 400, height: 300, transform: { x: -20, y: 40, k: 1 } },
+    });
+    const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+    const root = doc.documentElement;
+
+    expect(root.getAttribute('viewBox')).toBe('0 0 400 300');
+    expect(root.getAttribute('class')).toBeNull();
+    expect(root.querySelector('g.graph-viewport')?.getAttribute('transform')).toBe('translate(-20,40) scale(1)');
+    expect(root.querySelector('.brush-layer')).toBeNull();
+    expect(root.querySelector('line.hit')).toBeNull();
+    expect(root.querySelector('linearGradient#link-grad-A-B')).not.toBeNull();
+    expect(root.querySelector('.export-background rect')?.getAttribute('fill')).toBe('#111827');
+    expect(root.querySelector('#img-A image')?.getAttribute('href')).toMatch(/^data:image\/png;base64,/);
+    expect(root.querySelector('#img-B image')).toBeNull();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
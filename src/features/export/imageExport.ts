@@ -0,0 +1,202 @@
+import type { ExportFrame } from '../../GraphManager';
+
+/**
+ * Image export of the graph canvas.
+ * The live SVG depends on page CSS, remote thumbnail URLs and the zoom
+ * transform, none of which survive being opened elsewhere. buildGraphSvg
+ * clones it into a standalone document: computed styles are inlined,
+ * thumbnails become data URIs and the view is re-framed. rasterizeSvg then
+ * draws that document onto a canvas for PNG output.
+ */
+
+export type ImageExportFrame = 'viewport' | 'fit';
+
+export type ImageExportOptions = {
+  frame: ImageExportFrame;
+  scale: number;
+  includeBackground: boolean;
+};
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  frame: 'fit',
+  scale: 2,
+  includeBackground: true,
+};
+
+// Browsers refuse canvases beyond roughly this many pixels per side.
+export const MAX_PNG_DIMENSION = 16384;
+
+// Matches the app's bg-gray-900 canvas backdrop.
+const BACKGROUND_COLOR = '#111827';
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+const INLINE_STYLE_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'stroke-linecap',
+  'opacity',
+  'display',
+  'visibility',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'letter-spacing',
+  'text-anchor',
+  'dominant-baseline',
+  'paint-order',
+  'vector-effect',
+];
+
+// Interaction-only layers that would show up as artifacts in an image.
+const EXCLUDED_SELECTORS = ['.brush-layer', '.canvas-hit-surface', 'line.hit'];
+
+const inlineComputedStyles = (source: Element, target: Element) => {
+  const sourceElements = [source, ...Array.from(source.querySelectorAll('*'))];
+  const targetElements = [target, ...Array.from(target.querySelectorAll('*'))];
+
+  sourceElements.forEach((element, index) => {
+    const clone = targetElements[index];
+    if (!clone) return;
+    const computed = window.getComputedStyle(element);
+    const declarations = INLINE_STYLE_PROPERTIES.flatMap((property) => {
+      const value = computed.getPropertyValue(property);
+      return value && value !== element.getAttribute(property) ? [`${property}:${value}`] : [];
+    });
+    const existing = clone.getAttribute('style');
+    if (declarations.length > 0) {
+      clone.setAttribute('style', [existing, ...declarations].filter(Boolean).join(';'));
+    }
+  });
+};
+
+const readAsDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const fetchAsDataUrl = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(url, { mode: 'cors' });
+    if (!response.ok) return null;
+    return await readAsDataUrl(await response.blob());
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Swap thumbnail pattern images for data URIs. Images that can't be fetched
+ * are dropped so the node falls back to its fill instead of a broken link.
+ */
+const embedPatternImages = async (root: SVGSVGElement) => {
+  const images = Array.from(root.querySelectorAll('pattern image'));
+  const byUrl = new Map<string, Promise<string | null>>();
+
+  await Promise.all(images.map(async (image) => {
+    const href = image.getAttribute('href') || image.getAttribute('xlink:href') || '';
+    if (href.startsWith('data:')) return;
+    if (!byUrl.has(href)) byUrl.set(href, href ? fetchAsDataUrl(href) : Promise.resolve(null));
+    const dataUrl = await byUrl.get(href)!;
+    if (dataUrl) image.setAttribute('href', dataUrl);
+    else image.remove();
+  }));
+};
+
+const renderBackground = (
+  frame: ExportFrame,
+  background: { draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => void; opacity: number }
+) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  background.draw(ctx, frame.width, frame.height);
+  return canvas.toDataURL('image/png');
+};
+
+export async function buildGraphSvg(args: {
+  svg: SVGSVGElement;
+  frame: ExportFrame;
+  /** Paints the lensing grid for the frame; omitted to export on a plain backdrop. */
+  background?: { draw: (ctx: CanvasRenderingContext2D, width: number, height: number) => void; opacity: number };
+}): Promise<string> {
+  const { frame } = args;
+  const clone = args.svg.cloneNode(true) as SVGSVGElement;
+  inlineComputedStyles(args.svg, clone);
+
+  EXCLUDED_SELECTORS.forEach((selector) => {
+    clone.querySelectorAll(selector).forEach(element => element.remove());
+  });
+
+  const { x, y, k } = frame.transform;
+  clone.querySelector('g.graph-viewport')?.setAttribute('transform', `translate(${x},${y}) scale(${k})`);
+
+  clone.removeAttribute('class');
+  clone.setAttribute('width', String(frame.width));
+  clone.setAttribute('height', String(frame.height));
+  clone.setAttribute('viewBox', `0 0 ${frame.width} ${frame.height}`);
+
+  const backdrop = document.createElementNS(SVG_NS, 'g');
+  backdrop.setAttribute('class', 'export-background');
+  const fill = document.createElementNS(SVG_NS, 'rect');
+  fill.setAttribute('width', String(frame.width));
+  fill.setAttribute('height', String(frame.height));
+  fill.setAttribute('fill', BACKGROUND_COLOR);
+  backdrop.appendChild(fill);
+
+  const grid = args.background ? renderBackground(frame, args.background) : null;
+  if (grid && args.background) {
+    const image = document.createElementNS(SVG_NS, 'image');
+    image.setAttribute('href', grid);
+    image.setAttribute('width', String(frame.width));
+    image.setAttribute('height', String(frame.height));
+    image.setAttribute('opacity', String(args.background.opacity));
+    backdrop.appendChild(image);
+  }
+  clone.insertBefore(backdrop, clone.firstChild);
+
+  await embedPatternImages(clone);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+}
+
+const loadImage = (url: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The exported SVG could not be rendered'));
+    image.src = url;
+  });
+
+/**
+ * Draw a standalone SVG onto a canvas at `scale` and encode it as PNG. The
+ * scale is reduced if the result would exceed MAX_PNG_DIMENSION.
+ */
+export async function rasterizeSvg(svgText: string, width: number, height: number, scale: number): Promise<Blob> {
+  const effectiveScale = Math.max(0.1, Math.min(scale, MAX_PNG_DIMENSION / width, MAX_PNG_DIMENSION / height));
+  const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }));
+
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * effectiveScale);
+    canvas.height = Math.round(height * effectiveScale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available in this browser');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
@@ -20,7 +20,7 @@ export type ForestLayoutMetadata = {
   isCollapsed?: boolean;
 };
 
-type ForestLayoutInput = {
+export type ForestLayoutInput = {
   nodes: ForestLayoutNode[];
   metadataById: Map<string, ForestLayoutMetadata>;
   width: number;
@@ -30,7 +30,7 @@ type ForestLayoutInput = {
   layoutMode?: LayoutMode;
 };
 
-type ForestLayoutResult = {
+export type ForestLayoutResult = {
   targets: Map<string, { x: number; y: number }>;
   childrenByParent: Map<string, string[]>;
   hiddenNodeIds: Set<string>;
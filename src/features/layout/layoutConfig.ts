@@ -4,5 +4,8 @@ export const DEFAULT_TREE_SPACING = 180;
 export const DEFAULT_BRANCH_SPREAD = 160;
 export const DEFAULT_SHOW_CROSS_LINKS = true;
 
+/** Maps at least this large run their forest or structured layout in the compute worker. */
+export const OFF_THREAD_LAYOUT_MIN_NODES = 200;
+
 export const getDefaultLayoutMode = (isDevelopment: boolean): LayoutMode =>
   isDevelopment ? 'forest' : 'web';
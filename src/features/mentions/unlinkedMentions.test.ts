@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { findUnlinkedMentions, getMentionName } from './unlinkedMentions';
+
+describe('unlinkedMentions', () => {
+  const text = 'The telescope was built in New York City. Its mirror was ground by Corning Glass Works. '
+    + 'Observations of mercury transits followed. Newton had described the design earlier.';
+
+  it('finds whole-word mentions with their sentence, preferring longer names', () => {
+    const mentions = findUnlinkedMentions(text, [
+      { id: 'nyc', names: ['New York City'] },
+      { id: 'ny', names: ['New York'] },
+      { id: 'mercury', names: ['Mercury (planet)'] },
+      { id: 'newt', names: ['Newt'] },
+    ]);
+
+    expect(mentions).toEqual([
+      { targetId: 'nyc', name: 'New York City', context: 'The telescope was built in New York City.' },
+      { targetId: 'mercury', name: 'mercury', context: 'Observations of mercury transits followed.' },
+    ]);
+  });
+
+  it('skips linked text, listed pages and names too short to trust', () => {
+    const mentions = findUnlinkedMentions(text, [
+      { id: 'corning', names: ['Corning Glass Works', 'Corning'] },
+      { id: 'newton', names: ['Isaac Newton', 'Newton'] },
+      { id: 'its', names: ['Its'] },
+    ], {
+      skipIds: new Set(['newton']),
+      linkedPhrases: ['Corning Glass Works'],
+    });
+
+    expect(mentions).toEqual([]);
+    expect(getMentionName('Mercury (planet)')).toBe('Mercury');
+  });
+});
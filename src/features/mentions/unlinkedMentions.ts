@@ -0,0 +1,92 @@
+/**
+ * Finds pages on the map that an article's lead names in plain text without
+ * linking them. Matching is on whole words and case-sensitive except for the
+ * first letter, which the wiki treats as case-insensitive in titles.
+ */
+
+export type MentionCandidate = {
+  id: string;
+  /** The page title and any redirects to it. */
+  names: string[];
+};
+
+export type UnlinkedMention = {
+  targetId: string;
+  /** The name as it matched, before case folding of the first letter. */
+  name: string;
+  /** The sentence the mention sits in. */
+  context: string;
+};
+
+export type MentionSearchOptions = {
+  /** Pages not to report, such as the article itself and pages it already links. */
+  skipIds?: Set<string>;
+  /** Anchor texts of the article's links; mentions inside them are already links. */
+  linkedPhrases?: string[];
+};
+
+// Shorter names ("Art", "Go") turn up in too much ordinary prose.
+const MIN_NAME_LENGTH = 4;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** "Mercury (planet)" is written "Mercury" in running text. */
+export const getMentionName = (title: string) => title.replace(/\s*\([^)]*\)\s*$/, '').trim();
+
+const buildNamePattern = (name: string) => {
+  const first = name[0];
+  const variants = Array.from(new Set([first.toUpperCase(), first.toLowerCase()])).map(escapeRegExp);
+  return new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${variants.join('|')})${escapeRegExp(name.slice(1))}(?![\\p{L}\\p{N}])`,
+    'gu'
+  );
+};
+
+const findRanges = (text: string, phrase: string): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  if (!phrase) return ranges;
+  for (let index = text.indexOf(phrase); index >= 0; index = text.indexOf(phrase, index + phrase.length)) {
+    ranges.push([index, index + phrase.length]);
+  }
+  return ranges;
+};
+
+const sentenceAround = (text: string, start: number, end: number) => {
+  const before = text.slice(0, start);
+  const boundary = Math.max(before.lastIndexOf('. '), before.lastIndexOf('! '), before.lastIndexOf('? '), before.lastIndexOf('\n'));
+  const sentenceEnd = text.slice(end).search(/[.!?](?:\s|$)|\n/);
+  return text.slice(boundary < 0 ? 0 : boundary + 1, sentenceEnd < 0 ? text.length : end + sentenceEnd + 1).trim();
+};
+
+/**
+ * At most one mention per page, the first in the text. Longer names are
+ * matched first, so "New York City" wins over "New York" for the same words.
+ */
+export function findUnlinkedMentions(
+  text: string,
+  candidates: MentionCandidate[],
+  options: MentionSearchOptions = {}
+): UnlinkedMention[] {
+  const skipIds = options.skipIds ?? new Set<string>();
+  const claimed = (options.linkedPhrases ?? []).flatMap(phrase => findRanges(text, phrase));
+  const names = candidates
+    .filter(candidate => !skipIds.has(candidate.id))
+    .flatMap(candidate => Array.from(new Set(candidate.names.map(getMentionName)))
+      .filter(name => name.length >= MIN_NAME_LENGTH)
+      .map(name => ({ id: candidate.id, name })))
+    .sort((a, b) => b.name.length - a.name.length);
+
+  const found = new Map<string, UnlinkedMention>();
+  for (const { id, name } of names) {
+    if (found.has(id)) continue;
+    for (const match of text.matchAll(buildNamePattern(name))) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (claimed.some(([from, to]) => start < to && end > from)) continue;
+      claimed.push([start, end]);
+      found.set(id, { targetId: id, name: match[0], context: sentenceAround(text, start, end) });
+      break;
+    }
+  }
+  return Array.from(found.values());
+}
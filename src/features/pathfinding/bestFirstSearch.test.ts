@@ -0,0 +1,100 @@
+import type { SetStateAction } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WikiService, type LinkWithContext } from '../../WikiService';
+import { DEFAULT_WIKI_SOURCE } from '../../config/wikiSources';
+import type { SearchProgress } from '../../types/SearchProgress';
+import { bestFirstSearch, scoreCandidate, tokenize } from './bestFirstSearch';
+
+const LINKS: Record<string, LinkWithContext[]> = {
+  Physics: [
+    { title: 'Football', context: 'Physics of a kicked football.' },
+    { title: 'Thermodynamics', context: 'Thermodynamics explains how a steam engine works.' },
+  ],
+  Football: [{ title: 'Stadium' }, { title: 'Referee' }],
+  Thermodynamics: [{ title: 'Steam engine', context: 'The steam engine drove thermodynamics.' }],
+  'Steam engine': [{ title: 'Locomotive' }],
+};
+
+const CATEGORIES: Record<string, string[]> = {
+  Locomotive: ['Steam power', 'Rail transport'],
+  Thermodynamics: ['Energy'],
+  'Steam engine': ['Steam power'],
+};
+
+function createArgs(overrides: Partial<Parameters<typeof bestFirstSearch>[0]> = {}) {
+  let log: string[] = [];
+  let progress = {} as SearchProgress;
+  return {
+    startTitle: 'Physics',
+    endTitle: 'Locomotive',
+    maxDepth: 6,
+    maxPaths: 1,
+    source: DEFAULT_WIKI_SOURCE,
+    keepSearchingRef: { current: false },
+    searchAbortRef: { current: false },
+    searchPauseRef: { current: false },
+    setSearchLog: (next: SetStateAction<string[]>) => {
+      log = typeof next === 'function' ? next(log) : next;
+    },
+    setSearchProgress: (next: SetStateAction<SearchProgress>) => {
+      progress = typeof next === 'function' ? next(progress) : next;
+    },
+    ...overrides,
+  };
+}
+
+describe('bestFirstSearch', () => {
+  beforeEach(() => {
+    vi.spyOn(WikiService, 'fetchSummary').mockResolvedValue({
+      title: 'Locomotive',
+      extract: 'A locomotive is a rail vehicle, historically driven by a steam engine.',
+      summary: 'A locomotive is a rail vehicle, historically driven by a steam engine.',
+    });
+    vi.spyOn(WikiService, 'fetchCategories').mockImplementation(async title => CATEGORIES[title] ?? []);
+    vi.spyOn(WikiService, 'fetchBacklinks').mockResolvedValue(['A', 'B']);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('scores wording, shared categories and backlinks', () => {
+    const targetTokens = tokenize('Locomotive rail vehicle steam engine');
+    const wordingOnly = scoreCandidate({ title: 'Steam engine', targetTokens });
+    const refined = scoreCandidate({
+      title: 'Steam engine',
+      targetTokens,
+      categories: ['Steam power'],
+      targetCategories: new Set(['Steam power']),
+      backlinkCount: 100,
+    });
+
+    expect(scoreCandidate({ title: 'Referee', targetTokens })).toBe(0);
+    expect(wordingOnly).toBeGreaterThan(0);
+    expect(refined).toBeCloseTo(1);
+  });
+
+  it('expands the most related pages first and reports their scores', async () => {
+    const fetchLinks = vi.spyOn(WikiService, 'fetchLinks').mockImplementation(async title => LINKS[title] ?? []);
+
+    const result = await bestFirstSearch(createArgs());
+
+    expect(result.status).toBe('searched');
+    if (result.status !== 'searched') return;
+    expect(result.paths).toEqual([['Physics', 'Thermodynamics', 'Steam engine', 'Locomotive']]);
+    expect(result.foundDepth).toBe(3);
+    // The unrelated branch is never opened.
+    expect(fetchLinks.mock.calls.map(([title]) => title)).not.toContain('Football');
+    expect(result.scoreByTitle.get('Steam engine')).toBeGreaterThan(result.scoreByTitle.get('Football') ?? 0);
+  });
+
+  it('returns aborted when the search is cancelled', async () => {
+    const abortRef = { current: false };
+    vi.spyOn(WikiService, 'fetchLinks').mockImplementation(async () => {
+      abortRef.current = true;
+      return LINKS.Physics;
+    });
+
+    expect(await bestFirstSearch(createArgs({ searchAbortRef: abortRef }))).toEqual({ status: 'aborted' });
+  });
+});
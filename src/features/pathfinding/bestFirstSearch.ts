@@ -0,0 +1,240 @@
+import type { Dispatch, MutableRefObject, SetStateAction } from 'react';
+import { WikiService, type LinkWithContext } from '../../WikiService';
+import type { WikiSource } from '../../config/wikiSources';
+import type { SearchProgress } from '../../types/SearchProgress';
+import type { LinkGraph } from './kShortestPaths';
+
+/**
+ * Best-first search.
+ * Every discovered page is scored by how related it looks to the target and
+ * the most promising one is expanded next, with a small penalty per hop so
+ * long detours don't win on relatedness alone. Scoring runs in two stages:
+ * all links get a cheap wording score from their context sentence and title,
+ * then only the best few per page pay for category and backlink lookups.
+ *
+ * The first path found is not guaranteed to be the shortest.
+ */
+
+export const MAX_BEST_FIRST_EXPANSIONS = 300;
+// Links per expanded page that get the category/backlink lookups.
+const REFINED_CANDIDATES_PER_PAGE = 5;
+const BACKLINK_SAMPLE_LIMIT = 100;
+const DEPTH_PENALTY = 0.08;
+
+export const HEURISTIC_WEIGHTS = {
+  wording: 0.5,
+  categories: 0.3,
+  backlinks: 0.2,
+};
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'with', 'that', 'this', 'from', 'which', 'its', 'has', 'have',
+  'had', 'been', 'also', 'into', 'their', 'they', 'such', 'other', 'than', 'these', 'those', 'after', 'before',
+  'between', 'during', 'over', 'under', 'about', 'most', 'more', 'many', 'some', 'used', 'known', 'first', 'one',
+  'two', 'who', 'whom', 'where', 'when', 'while', 'can', 'may', 'not', 'but', 'all', 'any', 'each', 'both',
+]);
+
+export const tokenize = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(token => token.length >= 3 && !STOP_WORDS.has(token))
+  );
+
+const overlapRatio = (tokens: Set<string>, reference: Set<string>) => {
+  if (tokens.size === 0 || reference.size === 0) return 0;
+  let shared = 0;
+  tokens.forEach((token) => {
+    if (reference.has(token)) shared++;
+  });
+  return shared / Math.min(tokens.size, reference.size);
+};
+
+/**
+ * Relatedness of a linked page to the target, in [0, 1]. Category and
+ * backlink inputs are optional so unrefined candidates can be scored on
+ * wording alone.
+ */
+export const scoreCandidate = (args: {
+  title: string;
+  context?: string;
+  targetTokens: Set<string>;
+  categories?: string[];
+  targetCategories?: Set<string>;
+  backlinkCount?: number;
+}): number => {
+  const titleOverlap = overlapRatio(tokenize(args.title), args.targetTokens);
+  const contextOverlap = args.context ? overlapRatio(tokenize(args.context), args.targetTokens) : 0;
+  const wording = Math.max(titleOverlap, contextOverlap * 0.8);
+
+  const categories = args.categories && args.targetCategories && args.targetCategories.size > 0
+    ? args.categories.filter(category => args.targetCategories!.has(category)).length
+      / Math.min(args.categories.length || 1, args.targetCategories.size)
+    : 0;
+
+  // Well-linked pages are better connectors; log-scaled against the sample cap.
+  const backlinks = args.backlinkCount
+    ? Math.log1p(args.backlinkCount) / Math.log1p(BACKLINK_SAMPLE_LIMIT)
+    : 0;
+
+  return HEURISTIC_WEIGHTS.wording * wording
+    + HEURISTIC_WEIGHTS.categories * Math.min(1, categories)
+    + HEURISTIC_WEIGHTS.backlinks * Math.min(1, backlinks);
+};
+
+export type BestFirstSearchResult =
+  | { status: 'aborted' }
+  | {
+    status: 'searched';
+    foundDepth: number | null;
+    paths: string[][];
+    fetchCount: number;
+    /** Heuristic score each page had when it was discovered. */
+    scoreByTitle: Map<string, number>;
+    graph: LinkGraph;
+  };
+
+type Candidate = { title: string; depth: number; priority: number };
+
+export async function bestFirstSearch(args: {
+  startTitle: string;
+  endTitle: string;
+  maxDepth: number;
+  maxPaths: number;
+  source: WikiSource;
+  keepSearchingRef: MutableRefObject<boolean>;
+  searchAbortRef: MutableRefObject<boolean>;
+  searchPauseRef: MutableRefObject<boolean>;
+  setSearchLog: Dispatch<SetStateAction<string[]>>;
+  setSearchProgress: Dispatch<SetStateAction<SearchProgress>>;
+  /** Pages failing this are never entered; the start and target always are. */
+  isAllowed?: (title: string) => boolean;
+  /** Parsed links with context; defaults to WikiService.fetchLinks. */
+  fetchLinks?: (title: string, source: WikiSource) => Promise<LinkWithContext[]>;
+}): Promise<BestFirstSearchResult> {
+  const { startTitle, endTitle, source } = args;
+  const fetchLinks = args.fetchLinks ?? ((title: string, linkSource: WikiSource) => WikiService.fetchLinks(title, linkSource));
+  const scoreByTitle = new Map<string, number>([[startTitle, 0], [endTitle, 1]]);
+  if (startTitle === endTitle) {
+    return { status: 'searched', foundDepth: 0, paths: [[startTitle]], fetchCount: 0, scoreByTitle, graph: new Map() };
+  }
+
+  const [targetSummary, targetCategoryList] = await Promise.all([
+    WikiService.fetchSummary(endTitle, source),
+    WikiService.fetchCategories(endTitle, 50, source),
+  ]);
+  const targetTokens = tokenize(`${endTitle} ${targetSummary.extract || targetSummary.summary || ''}`);
+  const targetCategories = new Set(targetCategoryList);
+  args.setSearchLog(prev =>
+    [...prev, `Target profile: ${targetTokens.size} terms, ${targetCategories.size} categories.`].slice(-8)
+  );
+
+  const parentByTitle = new Map<string, string>();
+  const graph: LinkGraph = new Map();
+  const depthByTitle = new Map<string, number>([[startTitle, 0]]);
+  const open: Candidate[] = [{ title: startTitle, depth: 0, priority: 0 }];
+  const paths: string[][] = [];
+  let foundDepth: number | null = null;
+  let fetchCount = 0;
+
+  const pathTo = (title: string) => {
+    const path = [title];
+    let current = title;
+    while (parentByTitle.has(current)) {
+      current = parentByTitle.get(current)!;
+      path.unshift(current);
+    }
+    return path;
+  };
+
+  const popBest = () => {
+    let bestIndex = 0;
+    for (let i = 1; i < open.length; i++) {
+      if (open[i].priority > open[bestIndex].priority) bestIndex = i;
+    }
+    return open.splice(bestIndex, 1)[0];
+  };
+
+  const wantsMorePaths = () => paths.length < args.maxPaths;
+
+  while (open.length > 0 && wantsMorePaths()) {
+    if (args.searchAbortRef.current) return { status: 'aborted' };
+    while (args.searchPauseRef.current && !args.searchAbortRef.current) {
+      await new Promise(r => setTimeout(r, 120));
+    }
+    if (args.searchAbortRef.current) return { status: 'aborted' };
+    if (fetchCount >= MAX_BEST_FIRST_EXPANSIONS) {
+      throw new Error(`Exceeded exploration limit (${MAX_BEST_FIRST_EXPANSIONS} page expansions).`);
+    }
+
+    const { title, depth } = popBest();
+    if (depth >= args.maxDepth) continue;
+
+    fetchCount++;
+    args.setSearchLog(prev =>
+      [...prev, `Expanding: ${title.substring(0, 20)}... (D${depth}, score ${(scoreByTitle.get(title) ?? 0).toFixed(2)})`].slice(-8)
+    );
+    args.setSearchProgress(prev => ({
+      ...prev,
+      exploredCount: fetchCount,
+      currentDepth: depth,
+      currentPage: title,
+      queueSize: open.length,
+      keepSearching: args.keepSearchingRef.current,
+    }));
+    await new Promise(r => setTimeout(r, 0));
+
+    const links = await fetchLinks(title, source);
+    if (args.searchAbortRef.current) return { status: 'aborted' };
+
+    graph.set(title, new Set(links
+      .map(link => link.title)
+      .filter(link => link === endTitle || !args.isAllowed || args.isAllowed(link))));
+
+    const nextDepth = depth + 1;
+    if (links.some(link => link.title === endTitle)) {
+      // The target is never queued, so a later page can reach it again for an alternate path.
+      foundDepth = foundDepth === null ? nextDepth : Math.min(foundDepth, nextDepth);
+      paths.push([...pathTo(title), endTitle]);
+      args.setSearchLog(prev => [...prev, `>> TARGET ACQUIRED @ depth ${nextDepth} (${fetchCount} expansions) <<`].slice(-8));
+      if (!wantsMorePaths()) break;
+    }
+    if (nextDepth >= args.maxDepth) continue;
+
+    const fresh = links.filter(link =>
+      link.title !== endTitle && !depthByTitle.has(link.title) && (!args.isAllowed || args.isAllowed(link.title)));
+    fresh.forEach(link => {
+      depthByTitle.set(link.title, nextDepth);
+      parentByTitle.set(link.title, title);
+    });
+
+    const scored = fresh.map(link => ({
+      link,
+      score: scoreCandidate({ title: link.title, context: link.context, targetTokens }),
+    }));
+    scored.sort((a, b) => b.score - a.score);
+
+    for (const [index, entry] of scored.entries()) {
+      if (index < REFINED_CANDIDATES_PER_PAGE) {
+        if (args.searchAbortRef.current) return { status: 'aborted' };
+        const [categories, backlinks] = await Promise.all([
+          WikiService.fetchCategories(entry.link.title, 50, source),
+          WikiService.fetchBacklinks(entry.link.title, BACKLINK_SAMPLE_LIMIT, source),
+        ]);
+        entry.score = scoreCandidate({
+          title: entry.link.title,
+          context: entry.link.context,
+          targetTokens,
+          categories,
+          targetCategories,
+          backlinkCount: backlinks.length,
+        });
+      }
+      scoreByTitle.set(entry.link.title, entry.score);
+      open.push({ title: entry.link.title, depth: nextDepth, priority: entry.score - DEPTH_PENALTY * nextDepth });
+    }
+  }
+
+  return { status: 'searched', foundDepth, paths, fetchCount, scoreByTitle, graph };
+}
@@ -0,0 +1,106 @@
+import type { SetStateAction } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WikiService } from '../../WikiService';
+import { DEFAULT_WIKI_SOURCE } from '../../config/wikiSources';
+import type { SearchProgress } from '../../types/SearchProgress';
+import { bidirectionalSearch } from './bidirectionalSearch';
+
+const OUTGOING: Record<string, string[]> = {
+  Physics: ['Mathematics', 'Chemistry', 'Energy'],
+  Mathematics: ['Logic'],
+  Chemistry: ['Logic'],
+  Energy: ['Heat'],
+  Logic: ['Science'],
+};
+
+const INCOMING: Record<string, string[]> = {
+  Science: ['Logic', 'Art'],
+  Logic: ['Mathematics', 'Chemistry'],
+  Art: ['Painting'],
+};
+
+const mockLinksBatch = async (titles: string[]) =>
+  new Map(titles.map(title => [title, OUTGOING[title] ?? []]));
+
+function createArgs(overrides: Partial<Parameters<typeof bidirectionalSearch>[0]> = {}) {
+  let log: string[] = [];
+  let progress = {} as SearchProgress;
+  return {
+    startTitle: 'Physics',
+    endTitle: 'Science',
+    maxDepth: 6,
+    maxPaths: 5,
+    source: DEFAULT_WIKI_SOURCE,
+    keepSearchingRef: { current: false },
+    searchAbortRef: { current: false },
+    searchPauseRef: { current: false },
+    setSearchLog: (next: SetStateAction<string[]>) => {
+      log = typeof next === 'function' ? next(log) : next;
+    },
+    setSearchProgress: (next: SetStateAction<SearchProgress>) => {
+      progress = typeof next === 'function' ? next(progress) : next;
+    },
+    ...overrides,
+  };
+}
+
+describe('bidirectionalSearch', () => {
+  beforeEach(() => {
+    vi.spyOn(WikiService, 'resolveTitlesBatch').mockImplementation(async titles => new Map(titles.map(title => [title, title])));
+    vi.spyOn(WikiService, 'fetchRedirectsBatch').mockResolvedValue(new Map());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('meets in the middle and returns every shortest path', async () => {
+    const fetchLinksBatch = vi.spyOn(WikiService, 'fetchLinksBatch').mockImplementation(mockLinksBatch);
+    const fetchBacklinks = vi.spyOn(WikiService, 'fetchBacklinks').mockImplementation(async title =>
+      INCOMING[title] ?? []);
+
+    const result = await bidirectionalSearch(createArgs());
+
+    expect(result.status).toBe('searched');
+    if (result.status !== 'searched') return;
+    expect(result.foundDepth).toBe(3);
+    expect(result.paths).toEqual([
+      ['Physics', 'Mathematics', 'Logic', 'Science'],
+      ['Physics', 'Chemistry', 'Logic', 'Science'],
+    ]);
+    expect(fetchBacklinks).toHaveBeenCalledWith('Science', expect.any(Number), DEFAULT_WIKI_SOURCE);
+    // A one-sided BFS would also have fetched Mathematics, Chemistry and Energy.
+    expect(fetchLinksBatch.mock.calls.length + fetchBacklinks.mock.calls.length).toBeLessThan(5);
+  });
+
+  it('renames a forward alias onto its page when it is expanded', async () => {
+    const outgoing: Record<string, string[]> = { Physics: ['Maths'], Maths: ['Logic'] };
+    vi.spyOn(WikiService, 'fetchLinksBatch').mockImplementation(async titles =>
+      new Map(titles.map(title => [title, outgoing[title] ?? []])));
+    vi.spyOn(WikiService, 'resolveTitlesBatch').mockImplementation(async titles =>
+      new Map(titles.map(title => [title, title === 'Maths' ? 'Mathematics' : title])));
+    vi.spyOn(WikiService, 'fetchBacklinks').mockImplementation(async title => INCOMING[title] ?? []);
+
+    const result = await bidirectionalSearch(createArgs());
+
+    expect(result).toMatchObject({ status: 'searched', foundDepth: 3, paths: [['Physics', 'Mathematics', 'Logic', 'Science']] });
+    if (result.status !== 'searched') return;
+    expect(Array.from(result.graph.get('Physics') ?? [])).toEqual(['Mathematics']);
+  });
+
+  it('stops when the depth budget is spent or the search is cancelled', async () => {
+    vi.spyOn(WikiService, 'fetchLinksBatch').mockImplementation(mockLinksBatch);
+    vi.spyOn(WikiService, 'fetchBacklinks').mockImplementation(async title => INCOMING[title] ?? []);
+
+    const shallow = await bidirectionalSearch(createArgs({ maxDepth: 2 }));
+    expect(shallow).toMatchObject({ status: 'searched', foundDepth: null, paths: [] });
+
+    const abortRef = { current: false };
+    vi.spyOn(WikiService, 'fetchBacklinks').mockImplementation(async () => {
+      abortRef.current = true;
+      return ['Logic'];
+    });
+    const aborted = await bidirectionalSearch(createArgs({ searchAbortRef: abortRef }));
+    expect(aborted).toEqual({ status: 'aborted' });
+  });
+});
@@ -0,0 +1,263 @@
+import type { Dispatch, MutableRefObject, SetStateAction } from 'react';
+import { WikiService } from '../../WikiService';
+import type { WikiSource } from '../../config/wikiSources';
+import type { SearchProgress } from '../../types/SearchProgress';
+import { fetchCanonicalLinksBatch, fetchSearchTarget, type SearchTarget } from './canonicalLinks';
+import type { LinkGraph } from './kShortestPaths';
+
+/**
+ * Bidirectional breadth-first search.
+ * Grows one frontier forward from the start with outgoing links and one
+ * backward from the target with backlinks, always expanding a whole level of
+ * whichever frontier is smaller. The first level that makes them touch fixes
+ * the shortest distance, so both halves only ever reach about half the depth
+ * a one-sided search would need.
+ *
+ * Backlink lists are capped at BACKWARD_BACKLINK_LIMIT per page, so a target
+ * with a huge number of incoming links is only partly expanded backward.
+ * Forward titles queued under an alias are renamed to their page when they
+ * come up for expansion, which can also be where the frontiers meet.
+ */
+
+export const MAX_BIDIRECTIONAL_FETCHES = 1500;
+const BACKWARD_BACKLINK_LIMIT = 500;
+
+export type BidirectionalSearchResult =
+  | { status: 'aborted' }
+  | { status: 'searched'; foundDepth: number | null; paths: string[][]; fetchCount: number; graph: LinkGraph };
+
+type Frontier = {
+  label: 'forward' | 'backward';
+  depthByTitle: Map<string, number>;
+  /** Forward: parents toward the start. Backward: next hops toward the target. */
+  linksByTitle: Map<string, Set<string>>;
+  titles: string[];
+  level: number;
+};
+
+const createFrontier = (label: Frontier['label'], root: string): Frontier => ({
+  label,
+  depthByTitle: new Map([[root, 0]]),
+  linksByTitle: new Map(),
+  titles: [root],
+  level: 0,
+});
+
+/**
+ * Every chain from `title` to the frontier's root, following linksByTitle.
+ */
+const collectChains = (frontier: Frontier, title: string, maxChains: number) => {
+  const chains: string[][] = [];
+  const stack = [title];
+
+  const walk = (current: string) => {
+    if (chains.length >= maxChains) return;
+    const next = frontier.linksByTitle.get(current);
+    if (!next || next.size === 0) {
+      if (frontier.depthByTitle.get(current) === 0) chains.push([...stack]);
+      return;
+    }
+    for (const hop of next) {
+      stack.push(hop);
+      walk(hop);
+      stack.pop();
+      if (chains.length >= maxChains) return;
+    }
+  };
+
+  walk(title);
+  return chains;
+};
+
+export async function bidirectionalSearch(args: {
+  startTitle: string;
+  endTitle: string;
+  maxDepth: number;
+  maxPaths: number;
+  source: WikiSource;
+  keepSearchingRef: MutableRefObject<boolean>;
+  searchAbortRef: MutableRefObject<boolean>;
+  searchPauseRef: MutableRefObject<boolean>;
+  setSearchLog: Dispatch<SetStateAction<string[]>>;
+  setSearchProgress: Dispatch<SetStateAction<SearchProgress>>;
+  /** Pages failing this are never entered; the start and target always are. */
+  isAllowed?: (title: string) => boolean;
+}): Promise<BidirectionalSearchResult> {
+  const { startTitle, endTitle, source } = args;
+  if (startTitle === endTitle) {
+    return { status: 'searched', foundDepth: 0, paths: [[startTitle]], fetchCount: 0, graph: new Map() };
+  }
+
+  const forward = createFrontier('forward', startTitle);
+  const backward = createFrontier('backward', endTitle);
+  // Every link either side has seen, always stored in its forward direction.
+  const graph: LinkGraph = new Map();
+  const addEdge = (from: string, to: string) => {
+    const outgoing = graph.get(from) || new Set<string>();
+    outgoing.add(to);
+    graph.set(from, outgoing);
+  };
+  let fetchCount = 0;
+  let target: SearchTarget | undefined;
+
+  // Forward pages are fetched a batch at a time; backlinks only exist per title.
+  const fetchNeighbors = async (frontier: Frontier, titles: string[]) => {
+    if (frontier.label === 'forward') {
+      target ??= await fetchSearchTarget(endTitle, source);
+      return fetchCanonicalLinksBatch(titles, source, target);
+    }
+    const linksByTitle = new Map<string, string[]>();
+    for (const title of titles) {
+      linksByTitle.set(title, await WikiService.fetchBacklinks(title, BACKWARD_BACKLINK_LIMIT, source));
+    }
+    return { linksByTitle, pageByTitle: new Map<string, string>() };
+  };
+
+  // Moves a forward title queued under an alias onto its page. Returns the
+  // page to expand, or null when the page was already reached at this level
+  // or sooner.
+  const renameToPage = (frontier: Frontier, title: string, page: string): string | null => {
+    const parents = frontier.linksByTitle.get(title) ?? new Set<string>();
+    frontier.depthByTitle.delete(title);
+    frontier.linksByTitle.delete(title);
+    parents.forEach((parent) => {
+      const outgoing = graph.get(parent);
+      if (outgoing?.delete(title)) outgoing.add(page);
+    });
+    const pageDepth = frontier.depthByTitle.get(page);
+    if (pageDepth !== undefined && pageDepth <= frontier.level) {
+      if (pageDepth === frontier.level) parents.forEach(parent => frontier.linksByTitle.get(page)?.add(parent));
+      return null;
+    }
+    frontier.depthByTitle.set(page, frontier.level);
+    frontier.linksByTitle.set(page, parents);
+    return page;
+  };
+
+  // Returns the titles renamed onto their pages, or null when the search was
+  // cancelled part-way through the level.
+  const expandLevel = async (frontier: Frontier): Promise<string[] | null> => {
+    const nextLevel = frontier.level + 1;
+    const nextTitles: string[] = [];
+    const renamedTitles: string[] = [];
+    const batchSize = frontier.label === 'forward' ? WikiService.LINKS_BATCH_SIZE : 1;
+
+    for (let i = 0; i < frontier.titles.length; i += batchSize) {
+      if (args.searchAbortRef.current) return null;
+      while (args.searchPauseRef.current && !args.searchAbortRef.current) {
+        await new Promise(r => setTimeout(r, 120));
+      }
+      if (args.searchAbortRef.current) return null;
+      if (fetchCount >= MAX_BIDIRECTIONAL_FETCHES) {
+        throw new Error(`Exceeded exploration limit (${MAX_BIDIRECTIONAL_FETCHES} page fetches).`);
+      }
+
+      const batch = frontier.titles.slice(i, i + batchSize);
+      const previousCount = fetchCount;
+      fetchCount += batch.length;
+      const crossed = (every: number) => Math.floor(fetchCount / every) > Math.floor(previousCount / every);
+      const title = batch[batch.length - 1];
+      if (crossed(3)) {
+        const arrow = frontier.label === 'forward' ? '→' : '←';
+        args.setSearchLog(prev => [...prev, `Scanning ${arrow} ${title.substring(0, 20)}... (D${nextLevel})`].slice(-8));
+      }
+      if (crossed(5)) {
+        args.setSearchProgress(prev => ({
+          ...prev,
+          exploredCount: fetchCount,
+          currentDepth: forward.level + backward.level + 1,
+          currentPage: title,
+          queueSize: forward.titles.length + backward.titles.length,
+          keepSearching: args.keepSearchingRef.current,
+        }));
+        await new Promise(r => setTimeout(r, 0));
+      }
+
+      const { linksByTitle: neighborsByTitle, pageByTitle } = await fetchNeighbors(frontier, batch);
+      if (args.searchAbortRef.current) return null;
+
+      for (const title of batch) {
+        const page = pageByTitle.get(title) ?? title;
+        const from = page === title ? title : renameToPage(frontier, title, page);
+        if (!from) continue;
+        if (from !== title) renamedTitles.push(from);
+        for (const neighbor of neighborsByTitle.get(title) ?? []) {
+          if (neighbor !== startTitle && neighbor !== endTitle && args.isAllowed && !args.isAllowed(neighbor)) continue;
+          if (frontier.label === 'forward') addEdge(from, neighbor);
+          else addEdge(neighbor, from);
+          const knownDepth = frontier.depthByTitle.get(neighbor);
+          if (knownDepth === undefined) {
+            frontier.depthByTitle.set(neighbor, nextLevel);
+            frontier.linksByTitle.set(neighbor, new Set([from]));
+            nextTitles.push(neighbor);
+          } else if (knownDepth === nextLevel) {
+            frontier.linksByTitle.get(neighbor)?.add(from);
+          }
+        }
+      }
+    }
+
+    // A renamed page may have been queued for the next level as well.
+    frontier.titles = nextTitles.filter(title => frontier.depthByTitle.get(title) === nextLevel);
+    frontier.level = nextLevel;
+    return renamedTitles;
+  };
+
+  // Only titles added or renamed by the last expansion can be new meeting points.
+  const findMeetingTitles = (expanded: Frontier, other: Frontier, candidates: string[]) => {
+    let bestDepth = Infinity;
+    let meeting: string[] = [];
+    for (const title of candidates) {
+      const otherDepth = other.depthByTitle.get(title);
+      if (otherDepth === undefined) continue;
+      const depth = expanded.depthByTitle.get(title)! + otherDepth;
+      if (depth < bestDepth) {
+        bestDepth = depth;
+        meeting = [title];
+      } else if (depth === bestDepth) {
+        meeting.push(title);
+      }
+    }
+    return { depth: bestDepth, meeting };
+  };
+
+  while (
+    forward.level + backward.level < args.maxDepth
+    && forward.titles.length > 0
+    && backward.titles.length > 0
+  ) {
+    // Smaller frontier first; on a tie, the shallower side so both halves stay balanced.
+    const frontier = forward.titles.length !== backward.titles.length
+      ? (forward.titles.length < backward.titles.length ? forward : backward)
+      : (forward.level <= backward.level ? forward : backward);
+    const other = frontier === forward ? backward : forward;
+
+    const renamedTitles = await expandLevel(frontier);
+    if (!renamedTitles) return { status: 'aborted' };
+
+    const { depth, meeting } = findMeetingTitles(frontier, other, [...frontier.titles, ...renamedTitles]);
+    if (meeting.length === 0) continue;
+
+    args.setSearchLog(prev => [...prev, `>> FRONTIERS MET @ depth ${depth} (${fetchCount} fetches) <<`].slice(-8));
+    const paths: string[][] = [];
+    const seen = new Set<string>();
+    for (const title of meeting) {
+      for (const head of collectChains(forward, title, args.maxPaths)) {
+        const startToMeeting = [...head].reverse();
+        for (const tail of collectChains(backward, title, args.maxPaths)) {
+          const path = [...startToMeeting, ...tail.slice(1)];
+          const key = path.join('\n');
+          if (seen.has(key)) continue;
+          seen.add(key);
+          paths.push(path);
+          if (paths.length >= args.maxPaths) break;
+        }
+        if (paths.length >= args.maxPaths) break;
+      }
+      if (paths.length >= args.maxPaths) break;
+    }
+    return { status: 'searched', foundDepth: depth, paths, fetchCount, graph };
+  }
+
+  return { status: 'searched', foundDepth: null, paths: [], fetchCount, graph };
+}
@@ -0,0 +1,185 @@
+import type { Dispatch, MutableRefObject, SetStateAction } from 'react';
+import { WikiService } from '../../WikiService';
+import type { WikiSource } from '../../config/wikiSources';
+import type { SearchProgress } from '../../types/SearchProgress';
+import { fetchCanonicalLinksBatch, fetchSearchTarget } from './canonicalLinks';
+import type { LinkGraph } from './kShortestPaths';
+
+/**
+ * One-sided breadth-first search from the start over outgoing links. Each
+ * step takes up to a batch of same-depth titles and fetches their links in
+ * one request. Every parent at the shortest depth is kept, so all shortest
+ * paths can be rebuilt once the target is reached; the explored link graph
+ * is returned too so longer alternates can be ranked afterwards. A title
+ * queued under an alias is renamed to its page when it comes up for
+ * expansion, or dropped if that page was already reached.
+ */
+
+export const MAX_BFS_EXPLORED = 500;
+
+export type BreadthFirstSearchResult =
+  | { status: 'aborted' }
+  | { status: 'searched'; foundDepth: number | null; paths: string[][]; exploredCount: number; graph: LinkGraph };
+
+export async function breadthFirstSearch(args: {
+  startTitle: string;
+  endTitle: string;
+  maxDepth: number;
+  maxPaths: number;
+  source: WikiSource;
+  keepSearchingRef: MutableRefObject<boolean>;
+  searchAbortRef: MutableRefObject<boolean>;
+  searchPauseRef: MutableRefObject<boolean>;
+  setSearchLog: Dispatch<SetStateAction<string[]>>;
+  setSearchProgress: Dispatch<SetStateAction<SearchProgress>>;
+  /** Pages failing this are never entered; the target always is. */
+  isAllowed?: (title: string) => boolean;
+}): Promise<BreadthFirstSearchResult> {
+  const { startTitle, endTitle, source } = args;
+  const queue: { title: string; depth: number }[] = [{ title: startTitle, depth: 0 }];
+  const depthByNode = new Map<string, number>([[startTitle, 0]]);
+  const parentsByNode = new Map<string, Set<string>>();
+  const graph: LinkGraph = new Map();
+  let foundDepth: number | null = null;
+  let nodesExplored = 0;
+  const target = await fetchSearchTarget(endTitle, source);
+
+  const buildPaths = (maxPaths: number) => {
+    const results: string[][] = [];
+    const stack: string[] = [endTitle];
+
+    const dfs = (current: string) => {
+      if (results.length >= maxPaths) return;
+      if (current === startTitle) {
+        results.push([...stack].reverse());
+        return;
+      }
+      const parents = parentsByNode.get(current);
+      if (!parents || parents.size === 0) return;
+      for (const parent of parents) {
+        stack.push(parent);
+        dfs(parent);
+        stack.pop();
+        if (results.length >= maxPaths) return;
+      }
+    };
+
+    dfs(endTitle);
+    return results;
+  };
+
+  while (queue.length > 0) {
+    if (args.searchAbortRef.current) {
+      args.setSearchLog(prev => [...prev, '[USER] Search cancelled before next node scan.'].slice(-8));
+      return { status: 'aborted' };
+    }
+    while (args.searchPauseRef.current && !args.searchAbortRef.current) {
+      await new Promise(r => setTimeout(r, 120));
+    }
+    if (args.searchAbortRef.current) {
+      args.setSearchLog(prev => [...prev, '[USER] Search cancelled while paused.'].slice(-8));
+      return { status: 'aborted' };
+    }
+    const depth = queue[0].depth;
+
+    if (foundDepth !== null && depth >= foundDepth && !args.keepSearchingRef.current) {
+      // We've already found the shortest path length; no need to explore deeper unless keepSearching is on.
+      break;
+    }
+
+    const batch: string[] = [];
+    while (queue.length > 0 && queue[0].depth === depth && batch.length < WikiService.LINKS_BATCH_SIZE) {
+      const next = queue.shift()!;
+      // Renamed aliases leave stale entries behind, and a page can be queued twice.
+      if (!graph.has(next.title) && depthByNode.get(next.title) === depth) batch.push(next.title);
+    }
+    if (batch.length === 0) continue;
+
+    nodesExplored += batch.length;
+    args.setSearchLog(prev => {
+      const more = batch.length > 1 ? ` +${batch.length - 1}` : '';
+      const newLogs = [...prev, `Scanning: ${batch[0].substring(0, 20)}...${more} (D${depth})`];
+      return newLogs.slice(-8);
+    });
+
+    args.setSearchProgress(prev => ({
+      ...prev,
+      exploredCount: nodesExplored,
+      currentDepth: depth,
+      currentPage: batch[batch.length - 1],
+      queueSize: queue.length,
+      keepSearching: args.keepSearchingRef.current,
+    }));
+    await new Promise(r => setTimeout(r, 0));
+
+    if (depth >= args.maxDepth) continue;
+    if (nodesExplored > MAX_BFS_EXPLORED) throw new Error(`Exceeded exploration limit (${MAX_BFS_EXPLORED} nodes).`);
+
+    const { linksByTitle, pageByTitle } = await fetchCanonicalLinksBatch(batch, source, target);
+    if (args.searchAbortRef.current) {
+      args.setSearchLog(prev => [...prev, '[USER] Search cancelled after current fetch completed.'].slice(-8));
+      return { status: 'aborted' };
+    }
+
+    const nextDepth = depth + 1;
+    for (const title of batch) {
+      const from = pageByTitle.get(title) ?? title;
+      if (from !== title) {
+        // The alias's parents and edges move to its page.
+        const parents = parentsByNode.get(title) ?? new Set<string>();
+        depthByNode.delete(title);
+        parentsByNode.delete(title);
+        parents.forEach((parent) => {
+          const outgoing = graph.get(parent);
+          if (outgoing?.delete(title)) outgoing.add(from);
+        });
+        const pageDepth = depthByNode.get(from);
+        if (pageDepth !== undefined && pageDepth <= depth) {
+          if (pageDepth === depth) parents.forEach(parent => parentsByNode.get(from)?.add(parent));
+          continue;
+        }
+        depthByNode.set(from, depth);
+        parentsByNode.set(from, parents);
+        if (from === endTitle && (foundDepth === null || depth < foundDepth)) {
+          foundDepth = depth;
+          args.setSearchLog(prev => [...prev, `>> TARGET ACQUIRED @ depth ${depth} <<`].slice(-8));
+        }
+      }
+
+      const outgoing = new Set<string>();
+      graph.set(from, outgoing);
+      for (const link of linksByTitle.get(title) ?? []) {
+        if (link !== endTitle && args.isAllowed && !args.isAllowed(link)) continue;
+        outgoing.add(link);
+
+        const knownDepth = depthByNode.get(link);
+        if (knownDepth === undefined) {
+          depthByNode.set(link, nextDepth);
+          parentsByNode.set(link, new Set([from]));
+          queue.push({ title: link, depth: nextDepth });
+        } else if (knownDepth === nextDepth) {
+          const set = parentsByNode.get(link) || new Set<string>();
+          set.add(from);
+          parentsByNode.set(link, set);
+        } else {
+          continue;
+        }
+
+        if (link === endTitle) {
+          if (foundDepth === null) {
+            foundDepth = nextDepth;
+            args.setSearchLog(prev => [...prev, `>> TARGET ACQUIRED @ depth ${foundDepth} <<`].slice(-8));
+          }
+        }
+      }
+    }
+  }
+
+  return {
+    status: 'searched',
+    foundDepth,
+    paths: foundDepth === null ? [] : buildPaths(args.maxPaths),
+    exploredCount: nodesExplored,
+    graph,
+  };
+}
@@ -0,0 +1,47 @@
+import { WikiService } from '../../WikiService';
+import type { WikiSource } from '../../config/wikiSources';
+
+/**
+ * Batched link lists name pages as they are linked, often through a redirect
+ * ("USA" for "United States"). Resolving every link title would cost more
+ * requests than the search itself, so searches fold titles in two cheaper
+ * places: links to one of the target's redirects count as links to the
+ * target, and a title is canonicalized only when it comes up for expansion,
+ * so an alias and its page are never expanded as two nodes.
+ */
+
+export type SearchTarget = {
+  title: string;
+  /** Titles that redirect to the target. */
+  aliases: Set<string>;
+};
+
+/** The target and its redirects, fetched once per search. */
+export async function fetchSearchTarget(title: string, source: WikiSource): Promise<SearchTarget> {
+  const redirects = await WikiService.fetchRedirectsBatch([title], source);
+  return { title, aliases: new Set(redirects.get(title) ?? []) };
+}
+
+/**
+ * Outgoing links for a batch of titles about to be expanded, with the page
+ * each title resolves to. The link query has just followed those titles'
+ * redirects, so resolving them is mostly alias-map hits. Links through a
+ * target redirect become the target; links back to the page are dropped.
+ */
+export async function fetchCanonicalLinksBatch(
+  titles: string[],
+  source: WikiSource,
+  target: SearchTarget
+): Promise<{ linksByTitle: Map<string, string[]>; pageByTitle: Map<string, string> }> {
+  const links = await WikiService.fetchLinksBatch(titles, source);
+  const pageByTitle = await WikiService.resolveTitlesBatch(titles, source);
+
+  const linksByTitle = new Map<string, string[]>();
+  links.forEach((pageLinks, title) => {
+    const folded = new Set(pageLinks.map(link => (target.aliases.has(link) ? target.title : link)));
+    folded.delete(title);
+    folded.delete(pageByTitle.get(title) ?? title);
+    linksByTitle.set(title, Array.from(folded));
+  });
+  return { linksByTitle, pageByTitle };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { rankByDiversity, sharedIntermediates, yenKShortestPaths, type LinkGraph } from './kShortestPaths';
+
+const graphOf = (edges: Record<string, string[]>): LinkGraph =>
+  new Map(Object.entries(edges).map(([from, to]) => [from, new Set(to)]));
+
+describe('kShortestPaths', () => {
+  it('finds loopless paths in order of length, including longer alternates', () => {
+    const graph = graphOf({
+      A: ['B', 'C', 'D'],
+      B: ['E'],
+      C: ['E'],
+      D: ['F'],
+      E: ['Z'],
+      F: ['G'],
+      G: ['Z', 'A'],
+    });
+
+    expect(yenKShortestPaths(graph, 'A', 'Z', 5, 6)).toEqual([
+      ['A', 'B', 'E', 'Z'],
+      ['A', 'C', 'E', 'Z'],
+      ['A', 'D', 'F', 'G', 'Z'],
+    ]);
+    expect(yenKShortestPaths(graph, 'A', 'Z', 5, 3)).toHaveLength(2);
+    expect(yenKShortestPaths(graph, 'Z', 'A', 3, 6)).toEqual([]);
+  });
+
+  it('prefers alternates that share the fewest intermediate pages', () => {
+    const paths = [
+      ['A', 'B', 'E', 'Z'],
+      ['A', 'C', 'E', 'Z'],
+      ['A', 'B', 'F', 'Z'],
+      ['A', 'D', 'F', 'G', 'Z'],
+      ['A', 'H', 'I', 'Z'],
+    ];
+
+    expect(rankByDiversity(paths, 3)).toEqual([
+      ['A', 'B', 'E', 'Z'],
+      ['A', 'H', 'I', 'Z'],
+      ['A', 'D', 'F', 'G', 'Z'],
+    ]);
+    expect(sharedIntermediates(paths[0], paths[1])).toEqual(['E']);
+  });
+});
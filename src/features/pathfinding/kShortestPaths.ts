@@ -0,0 +1,131 @@
+/**
+ * K shortest loopless paths (Yen's algorithm) over the link graph a search
+ * has already explored, plus a diversity ranking. Plain reconstructions from
+ * the shortest-path parents tend to differ by a single hop; ranking Yen's
+ * candidates by shared intermediate pages surfaces genuinely different routes,
+ * including longer ones.
+ */
+
+/** Outgoing links per page, limited to pages a search actually fetched. */
+export type LinkGraph = Map<string, Set<string>>;
+
+const edgeKey = (from: string, to: string) => `${from}\n${to}`;
+const pathKey = (path: string[]) => path.join('\n');
+
+/**
+ * Breadth-first shortest path that skips blocked nodes and edges. Returns
+ * null when `end` is unreachable within `maxLength` hops.
+ */
+const shortestPath = (
+  graph: LinkGraph,
+  start: string,
+  end: string,
+  maxLength: number,
+  blockedNodes: Set<string> = new Set(),
+  blockedEdges: Set<string> = new Set()
+): string[] | null => {
+  if (start === end) return [start];
+  const parent = new Map<string, string>();
+  const depth = new Map<string, number>([[start, 0]]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const currentDepth = depth.get(current)!;
+    if (currentDepth >= maxLength) continue;
+    for (const next of graph.get(current) ?? []) {
+      if (depth.has(next) || blockedNodes.has(next) || blockedEdges.has(edgeKey(current, next))) continue;
+      depth.set(next, currentDepth + 1);
+      parent.set(next, current);
+      if (next === end) {
+        const path = [end];
+        while (path[0] !== start) path.unshift(parent.get(path[0])!);
+        return path;
+      }
+      queue.push(next);
+    }
+  }
+  return null;
+};
+
+/**
+ * Up to `k` loopless paths from `start` to `end` in order of length, each at
+ * most `maxLength` hops.
+ */
+export function yenKShortestPaths(graph: LinkGraph, start: string, end: string, k: number, maxLength: number): string[][] {
+  const first = shortestPath(graph, start, end, maxLength);
+  if (!first || k <= 0) return [];
+
+  const accepted: string[][] = [first];
+  const seen = new Set([pathKey(first)]);
+  const candidates: string[][] = [];
+
+  while (accepted.length < k) {
+    const previous = accepted[accepted.length - 1];
+
+    for (let i = 0; i < previous.length - 1; i++) {
+      const spurNode = previous[i];
+      const rootPath = previous.slice(0, i + 1);
+      const blockedEdges = new Set<string>();
+      accepted.forEach((path) => {
+        if (path.length > i + 1 && pathKey(path.slice(0, i + 1)) === pathKey(rootPath)) {
+          blockedEdges.add(edgeKey(path[i], path[i + 1]));
+        }
+      });
+      const blockedNodes = new Set(rootPath.slice(0, -1));
+
+      const spurPath = shortestPath(graph, spurNode, end, maxLength - i, blockedNodes, blockedEdges);
+      if (!spurPath) continue;
+      const candidate = [...rootPath.slice(0, -1), ...spurPath];
+      const key = pathKey(candidate);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      candidates.push(candidate);
+    }
+
+    if (candidates.length === 0) break;
+    // Stable sort keeps discovery order among equal lengths.
+    candidates.sort((a, b) => a.length - b.length);
+    accepted.push(candidates.shift()!);
+  }
+
+  return accepted;
+}
+
+/** Pages other than the endpoints that both paths visit. */
+export const sharedIntermediates = (a: string[], b: string[]) => {
+  const inner = new Set(b.slice(1, -1));
+  return a.slice(1, -1).filter(node => inner.has(node));
+};
+
+const overlapRatio = (a: string[], b: string[]) => {
+  const size = Math.min(a.length, b.length) - 2;
+  return size > 0 ? sharedIntermediates(a, b).length / size : 0;
+};
+
+/**
+ * Pick `count` paths, starting from the first (shortest) and then always the
+ * candidate that overlaps least with those already picked. Ties go to the
+ * shorter, then earlier, candidate.
+ */
+export function rankByDiversity(paths: string[][], count: number): string[][] {
+  if (paths.length === 0) return [];
+  const selected = [paths[0]];
+  const remaining = paths.slice(1);
+
+  while (selected.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestOverlap = Infinity;
+    remaining.forEach((path, index) => {
+      const overlap = Math.max(...selected.map(picked => overlapRatio(path, picked)));
+      const best = remaining[bestIndex];
+      if (overlap < bestOverlap || (overlap === bestOverlap && path.length < best.length)) {
+        bestIndex = index;
+        bestOverlap = overlap;
+      }
+    });
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected;
+}
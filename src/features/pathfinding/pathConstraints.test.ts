@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WikiService } from '../../WikiService';
+import { DEFAULT_WIKI_SOURCE } from '../../config/wikiSources';
+import {
+  DEFAULT_PATH_CONSTRAINTS,
+  createTitleFilter,
+  describePathConstraints,
+  findConstraintViolation,
+  normalizePathConstraints,
+} from './pathConstraints';
+
+describe('pathConstraints', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('filters titles by the avoid list and the list/year/disambiguation rules', () => {
+    const allowed = createTitleFilter({
+      ...DEFAULT_PATH_CONSTRAINTS,
+      avoidTitles: ['united_states'],
+      skipLists: true,
+      skipYears: true,
+      skipDisambiguation: true,
+    });
+
+    expect(allowed('United States')).toBe(false);
+    expect(allowed('List of Roman emperors')).toBe(false);
+    expect(allowed('1066')).toBe(false);
+    expect(allowed('1990s')).toBe(false);
+    expect(allowed('5th century BC')).toBe(false);
+    expect(allowed('1969 in spaceflight')).toBe(false);
+    expect(allowed('Mercury (disambiguation)')).toBe(false);
+    expect(allowed('Apollo 11')).toBe(true);
+    expect(createTitleFilter(DEFAULT_PATH_CONSTRAINTS)('List of Roman emperors')).toBe(true);
+  });
+
+  it('normalizes stored values and describes active constraints', () => {
+    const constraints = normalizePathConstraints({
+      mustPass: ['Rome', '', 3],
+      avoidCategories: ['Category:Living people'],
+      skipYears: 'yes',
+      maxHubDegree: 9000,
+    });
+
+    expect(constraints).toEqual({
+      ...DEFAULT_PATH_CONSTRAINTS,
+      mustPass: ['Rome'],
+      avoidCategories: ['Living people'],
+      maxHubDegree: 499,
+    });
+    expect(describePathConstraints(constraints)).toEqual(['via Rome', 'not in Living people', 'hubs ≤ 499 links']);
+    expect(normalizePathConstraints(null)).toEqual(DEFAULT_PATH_CONSTRAINTS);
+  });
+
+  it('reports category, country and hub violations', async () => {
+    vi.spyOn(WikiService, 'fetchCategories').mockImplementation(async title =>
+      title === 'France' ? ['Countries in Europe'] : ['Living people']);
+    const fetchBacklinks = vi.spyOn(WikiService, 'fetchBacklinks').mockImplementation(async (_title, limit = 20) =>
+      Array.from({ length: limit }, (_, i) => `Page ${i}`));
+
+    const countries = { ...DEFAULT_PATH_CONSTRAINTS, skipCountries: true };
+    expect(await findConstraintViolation('France', countries, DEFAULT_WIKI_SOURCE)).toBe('a country');
+    expect(await findConstraintViolation('Marie Curie', countries, DEFAULT_WIKI_SOURCE)).toBeNull();
+
+    const categories = { ...DEFAULT_PATH_CONSTRAINTS, avoidCategories: ['living people'] };
+    expect(await findConstraintViolation('Marie Curie', categories, DEFAULT_WIKI_SOURCE)).toContain('Living people');
+
+    const hubs = { ...DEFAULT_PATH_CONSTRAINTS, maxHubDegree: 50 };
+    expect(await findConstraintViolation('Latin', hubs, DEFAULT_WIKI_SOURCE)).toContain('hub');
+    expect(fetchBacklinks).toHaveBeenCalledWith('Latin', 51, DEFAULT_WIKI_SOURCE);
+  });
+
+  it('reports disambiguation pages that lack the title suffix', async () => {
+    vi.spyOn(WikiService, 'fetchDisambiguationFlags').mockImplementation(async titles =>
+      new Map(titles.map(title => [title, title === 'Mercury'])));
+
+    const disambiguation = { ...DEFAULT_PATH_CONSTRAINTS, skipDisambiguation: true };
+    expect(createTitleFilter(disambiguation)('Mercury')).toBe(true);
+    expect(await findConstraintViolation('Mercury', disambiguation, DEFAULT_WIKI_SOURCE)).toBe('a disambiguation page');
+    expect(await findConstraintViolation('Mercury (planet)', disambiguation, DEFAULT_WIKI_SOURCE)).toBeNull();
+  });
+});
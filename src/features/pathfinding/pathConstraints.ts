@@ -0,0 +1,150 @@
+import { WikiService } from '../../WikiService';
+import type { WikiSource } from '../../config/wikiSources';
+
+/**
+ * Path search constraints.
+ * Title rules (avoid lists, "List of…" pages, years, "(disambiguation)"
+ * titles) are cheap and are applied while the search expands. Rules that
+ * need page data (avoided categories, countries, disambiguation pages without
+ * the suffix, hub degree) would cost a request per candidate, so they are
+ * checked only on pages of a found path; a page that fails is excluded and
+ * the search runs again.
+ */
+
+export type PathConstraints = {
+  /** Titles the path has to pass through, in order. */
+  mustPass: string[];
+  avoidTitles: string[];
+  /** Category names without the "Category:" prefix. */
+  avoidCategories: string[];
+  skipLists: boolean;
+  skipYears: boolean;
+  skipCountries: boolean;
+  skipDisambiguation: boolean;
+  /** Pages with more incoming links than this are avoided as hubs; null for no limit. */
+  maxHubDegree: number | null;
+};
+
+export const DEFAULT_PATH_CONSTRAINTS: PathConstraints = {
+  mustPass: [],
+  avoidTitles: [],
+  avoidCategories: [],
+  skipLists: false,
+  skipYears: false,
+  skipCountries: false,
+  skipDisambiguation: false,
+  maxHubDegree: null,
+};
+
+// Backlink queries return at most this many titles per request.
+export const MAX_HUB_DEGREE_LIMIT = 500;
+
+const LIST_TITLE = /^(lists? of|index of|outline of|timeline of|glossary of) /i;
+const YEAR_TITLES = [
+  /^\d{1,4}( (BC|BCE|AD|CE))?$/,
+  /^(AD|BC) \d{1,4}$/,
+  /^\d{1,4}0s( (BC|BCE))?$/,
+  /^\d{1,2}(st|nd|rd|th) (century|millennium)( (BC|BCE))?$/i,
+  /^\d{1,4} in /,
+];
+const DISAMBIGUATION_TITLE = /\(disambiguation\)$/i;
+const COUNTRY_CATEGORY = /^(countries in |member states of the (united nations|european union)|g20 nations)/i;
+
+const normalizeTitle = (title: string) => title.replace(/_/g, ' ').trim().toLowerCase();
+const normalizeCategory = (category: string) => normalizeTitle(category.replace(/^category:/i, ''));
+
+const toTitleList = (value: unknown) =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean)
+    : [];
+
+/**
+ * Coerce stored or user-entered data into a complete PathConstraints,
+ * falling back to defaults for anything missing or malformed.
+ */
+export const normalizePathConstraints = (value: unknown): PathConstraints => {
+  const raw = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const maxHubDegree = typeof raw.maxHubDegree === 'number' && Number.isFinite(raw.maxHubDegree)
+    ? Math.max(1, Math.min(MAX_HUB_DEGREE_LIMIT - 1, Math.round(raw.maxHubDegree)))
+    : null;
+  return {
+    mustPass: toTitleList(raw.mustPass),
+    avoidTitles: toTitleList(raw.avoidTitles),
+    avoidCategories: toTitleList(raw.avoidCategories).map(category => category.replace(/^category:/i, '')),
+    skipLists: raw.skipLists === true,
+    skipYears: raw.skipYears === true,
+    skipCountries: raw.skipCountries === true,
+    skipDisambiguation: raw.skipDisambiguation === true,
+    maxHubDegree,
+  };
+};
+
+/** Short labels for each active constraint, for queue rows and logs. */
+export const describePathConstraints = (constraints: PathConstraints): string[] => [
+  ...constraints.mustPass.map(title => `via ${title}`),
+  ...constraints.avoidTitles.map(title => `not ${title}`),
+  ...constraints.avoidCategories.map(category => `not in ${category}`),
+  ...(constraints.skipLists ? ['no lists'] : []),
+  ...(constraints.skipYears ? ['no years'] : []),
+  ...(constraints.skipCountries ? ['no countries'] : []),
+  ...(constraints.skipDisambiguation ? ['no disambiguation'] : []),
+  ...(constraints.maxHubDegree !== null ? [`hubs ≤ ${constraints.maxHubDegree} links`] : []),
+];
+
+export const hasPathConstraints = (constraints: PathConstraints) => describePathConstraints(constraints).length > 0;
+
+/** Whether found paths still need their pages checked against category and hub rules. */
+export const needsPageChecks = (constraints: PathConstraints) =>
+  constraints.avoidCategories.length > 0
+  || constraints.skipCountries
+  || constraints.skipDisambiguation
+  || constraints.maxHubDegree !== null;
+
+/**
+ * Predicate for the rules that only need a title. Returns true when a page
+ * may appear in the middle of a path. Only "(disambiguation)" titles are
+ * caught here; findConstraintViolation catches the rest.
+ */
+export const createTitleFilter = (constraints: PathConstraints) => {
+  const avoided = new Set(constraints.avoidTitles.map(normalizeTitle));
+  return (title: string) => {
+    if (avoided.has(normalizeTitle(title))) return false;
+    if (constraints.skipLists && LIST_TITLE.test(title)) return false;
+    if (constraints.skipYears && YEAR_TITLES.some(pattern => pattern.test(title))) return false;
+    if (constraints.skipDisambiguation && DISAMBIGUATION_TITLE.test(title)) return false;
+    return true;
+  };
+};
+
+/**
+ * Check one page against the category, disambiguation and hub rules. Returns
+ * a short reason when the page breaks a rule, or null when it is allowed.
+ */
+export async function findConstraintViolation(
+  title: string,
+  constraints: PathConstraints,
+  source: WikiSource
+): Promise<string | null> {
+  if (constraints.avoidCategories.length > 0 || constraints.skipCountries) {
+    const categories = await WikiService.fetchCategories(title, 50, source);
+    const avoided = new Set(constraints.avoidCategories.map(normalizeCategory));
+    const match = categories.find(category => avoided.has(normalizeCategory(category)));
+    if (match) return `in category "${match}"`;
+    if (constraints.skipCountries && categories.some(category => COUNTRY_CATEGORY.test(category))) {
+      return 'a country';
+    }
+  }
+
+  if (constraints.skipDisambiguation) {
+    const flags = await WikiService.fetchDisambiguationFlags([title], source);
+    if (flags.get(title)) return 'a disambiguation page';
+  }
+
+  if (constraints.maxHubDegree !== null) {
+    const limit = Math.min(constraints.maxHubDegree + 1, MAX_HUB_DEGREE_LIMIT);
+    const backlinks = await WikiService.fetchBacklinks(title, limit, source);
+    if (backlinks.length > constraints.maxHubDegree) return `a hub with ${backlinks.length}+ incoming links`;
+  }
+
+  return null;
+}
@@ -3,6 +3,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { GraphManager, Node } from '../../GraphManager';
 import { WikiService } from '../../WikiService';
 import { runPathfinder } from './runPathfinder';
+import { DEFAULT_PATH_CONSTRAINTS } from './pathConstraints';
 import type { SearchProgress } from '../../types/SearchProgress';
 
 function applyStateUpdate<T>(current: T, next: SetStateAction<T>): T {
@@ -23,6 +24,11 @@ function createSearchProgress(): SearchProgress {
   };
 }
 
+function mockLinksBatch(outgoing: Record<string, string[]>) {
+  return vi.spyOn(WikiService, 'fetchLinksBatch').mockImplementation(async titles =>
+    new Map(titles.map(title => [title, outgoing[title] ?? []])));
+}
+
 function createHarness() {
   const graphManagerFns = {
     addNodes: vi.fn(),
@@ -79,6 +85,8 @@ function createHarness() {
 describe('runPathfinder', () => {
   beforeEach(() => {
     vi.spyOn(WikiService, 'resolveTitle').mockImplementation(async title => title);
+    vi.spyOn(WikiService, 'resolveTitlesBatch').mockImplementation(async titles => new Map(titles.map(title => [title, title])));
+    vi.spyOn(WikiService, 'fetchRedirectsBatch').mockResolvedValue(new Map());
   });
 
   afterEach(() => {
@@ -88,11 +96,8 @@ describe('runPathfinder', () => {
   it('builds a path, updates graph state, and returns completion metadata', async () => {
     const harness = createHarness();
 
-    vi.spyOn(WikiService, 'fetchLinks').mockImplementation(async title => {
-      if (title === 'Physics') return [{ title: 'Mathematics', context: 'Physics references Mathematics.' }];
-      if (title === 'Mathematics') return [{ title: 'Science', context: 'Mathematics references Science.' }];
-      return [];
-    });
+    const fetchLinksBatch = mockLinksBatch({ Physics: ['Mathematics', 'Energy'], Mathematics: ['Science'] });
+    const fetchLinks = vi.spyOn(WikiService, 'fetchLinks').mockResolvedValue([]);
     vi.spyOn(WikiService, 'getLinksFromCache').mockImplementation(title => {
       if (title === 'Physics') return [{ title: 'Mathematics', context: 'Physics references Mathematics.' }];
       if (title === 'Mathematics') return [{ title: 'Science', context: 'Mathematics references Science.' }];
@@ -110,14 +115,89 @@ describe('runPathfinder', () => {
       path: ['Physics', 'Mathematics', 'Science'],
     });
     expect(harness.state.error).toBe('');
+    expect(fetchLinksBatch).toHaveBeenCalledWith(['Mathematics', 'Energy'], expect.anything());
+    // Only pages on the found path are parsed for link context.
+    expect(fetchLinks.mock.calls.map(([title]) => title)).toEqual(['Physics', 'Mathematics']);
+    expect(harness.graphManagerFns.addLinks).toHaveBeenCalledWith(
+      expect.arrayContaining([expect.objectContaining({ id: 'Mathematics-Science', context: 'Mathematics references Science.' })])
+    );
+  });
+
+  it('follows links through redirects onto canonical pages, target included', async () => {
+    const harness = createHarness();
+    const redirects: Record<string, string> = { Maths: 'Mathematics', Sciences: 'Science' };
+
+    // The link query follows redirects, so an alias lists its page's links.
+    mockLinksBatch({ Physics: ['Maths', 'Mathematics'], Maths: ['Sciences'], Mathematics: ['Sciences'] });
+    const fetchLinks = vi.spyOn(WikiService, 'fetchLinks').mockResolvedValue([]);
+    vi.spyOn(WikiService, 'getLinksFromCache').mockReturnValue(undefined);
+    vi.spyOn(WikiService, 'fetchRedirectsBatch').mockImplementation(async titles =>
+      new Map(titles.map(title => [title, title === 'Science' ? ['Sciences'] : []])));
+    const resolveTitlesBatch = vi.spyOn(WikiService, 'resolveTitlesBatch').mockImplementation(async titles =>
+      new Map(titles.map(title => [title, redirects[title] ?? title]))
+    );
+
+    const result = await runPathfinder(harness.args);
+
+    expect(result).toEqual({ status: 'completed', foundPathCount: 1 });
+    expect(Array.from(harness.state.pathNodes)).toEqual(['Physics', 'Mathematics', 'Science']);
+    expect(fetchLinks.mock.calls.map(([title]) => title)).toEqual(['Physics', 'Mathematics']);
+    // Only expanded titles are resolved; the target alias is known from its redirects.
+    expect(resolveTitlesBatch.mock.calls.flatMap(([titles]) => titles)).not.toContain('Sciences');
+  });
+
+  it('renders paths found by the bidirectional strategy', async () => {
+    const harness = createHarness();
+
+    mockLinksBatch({ Physics: ['Mathematics'], Mathematics: ['Science'] });
+    vi.spyOn(WikiService, 'fetchLinks').mockResolvedValue([]);
+    vi.spyOn(WikiService, 'fetchBacklinks').mockImplementation(async title =>
+      title === 'Science' ? ['Mathematics'] : []);
+    vi.spyOn(WikiService, 'getLinksFromCache').mockReturnValue(undefined);
+
+    const result = await runPathfinder({ ...harness.args, strategy: 'bidirectional' });
+
+    expect(result).toEqual({ status: 'completed', foundPathCount: 1 });
+    expect(Array.from(harness.state.pathNodes)).toEqual(['Physics', 'Mathematics', 'Science']);
+    expect(harness.args.onFoundPath).toHaveBeenCalledWith({
+      triggerLinkId: 'Mathematics-Science',
+      path: ['Physics', 'Mathematics', 'Science'],
+    });
+  });
+
+  it('routes through must-pass titles and searches again around excluded hubs', async () => {
+    const harness = createHarness();
+
+    mockLinksBatch({
+      Physics: ['United States', 'Energy'],
+      'United States': ['Mathematics'],
+      Energy: ['Mathematics'],
+      Mathematics: ['List of sciences', 'Logic'],
+      'List of sciences': ['Science'],
+      Logic: ['Science'],
+    });
+    vi.spyOn(WikiService, 'fetchLinks').mockResolvedValue([]);
+    vi.spyOn(WikiService, 'getLinksFromCache').mockReturnValue(undefined);
+    const fetchBacklinks = vi.spyOn(WikiService, 'fetchBacklinks').mockImplementation(async (title, limit = 20) =>
+      title === 'United States' ? Array.from({ length: limit }, (_, i) => `Page ${i}`) : ['Physics']);
+
+    const result = await runPathfinder({
+      ...harness.args,
+      constraints: { ...DEFAULT_PATH_CONSTRAINTS, mustPass: ['Mathematics'], skipLists: true, maxHubDegree: 100 },
+    });
+
+    expect(result).toEqual({ status: 'completed', foundPathCount: 1 });
+    expect(Array.from(harness.state.pathNodes)).toEqual(['Physics', 'Energy', 'Mathematics', 'Logic', 'Science']);
+    // The first route went through the hub, which was checked and then excluded.
+    expect(fetchBacklinks).toHaveBeenCalledWith('United States', 101, expect.anything());
   });
 
   it('returns aborted when a search is cancelled after the current fetch', async () => {
     const harness = createHarness();
 
-    vi.spyOn(WikiService, 'fetchLinks').mockImplementation(async () => {
+    vi.spyOn(WikiService, 'fetchLinksBatch').mockImplementation(async () => {
       harness.args.searchAbortRef.current = true;
-      return [{ title: 'Mathematics', context: 'Physics references Mathematics.' }];
+      return new Map([['Physics', ['Mathematics']]]);
     });
     vi.spyOn(WikiService, 'getLinksFromCache').mockReturnValue(undefined);
 
@@ -131,7 +211,7 @@ describe('runPathfinder', () => {
   it('reports not_found when no path exists within the search depth', async () => {
     const harness = createHarness();
 
-    vi.spyOn(WikiService, 'fetchLinks').mockResolvedValue([]);
+    mockLinksBatch({});
     vi.spyOn(WikiService, 'getLinksFromCache').mockReturnValue(undefined);
 
     const result = await runPathfinder(harness.args);
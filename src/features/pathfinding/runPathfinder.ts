@@ -1,7 +1,32 @@
 import type { Dispatch, MutableRefObject, SetStateAction } from 'react';
 import type { GraphManager, Link, Node } from '../../GraphManager';
 import { WikiService } from '../../WikiService';
+import { toNodeId, type WikiSource } from '../../config/wikiSources';
 import type { SearchProgress } from '../../types/SearchProgress';
+import { runSearchPaths } from '../compute-worker/computeClient';
+import { DEFAULT_PATH_CONSTRAINTS, hasPathConstraints, type PathConstraints } from './pathConstraints';
+
+/**
+ * 'bfs' scans outward from the start only; 'bidirectional' also walks
+ * backlinks from the target and meets in the middle; 'bestFirst' follows
+ * whichever pages look most related to the target.
+ */
+export type PathfinderStrategy = 'bfs' | 'bidirectional' | 'bestFirst';
+
+export const PATHFINDER_STRATEGIES: Record<PathfinderStrategy, { label: string; description: string }> = {
+  bfs: {
+    label: 'Breadth-first',
+    description: 'Scans outward from the start topic only. Simple, but deep bridges take many fetches.',
+  },
+  bidirectional: {
+    label: 'Bidirectional',
+    description: 'Also follows incoming links back from the target and meets in the middle. Same shortest paths, far fewer fetches.',
+  },
+  bestFirst: {
+    label: 'Best-first',
+    description: 'Expands the pages most related to the target first, judged by shared categories, link wording and backlink counts. Quick for related topics; paths may be longer than the shortest.',
+  },
+};
 
 export type PathfinderResult = {
   status: 'completed' | 'aborted' | 'not_found';
@@ -23,7 +48,14 @@ export async function runPathfinder(args: {
   setError: Dispatch<SetStateAction<string>>;
   setPathSelectedNodes: Dispatch<SetStateAction<Node[]>>;
   onFoundPath?: (args: { triggerLinkId: string; path: string[] }) => void;
+  /** Wiki to search; defaults to the active source. Found paths use node ids from this source. */
+  source?: WikiSource;
+  strategy?: PathfinderStrategy;
+  constraints?: PathConstraints;
 }): Promise<PathfinderResult> {
+  const source = args.source ?? WikiService.getActiveSource();
+  const strategy = args.strategy ?? 'bfs';
+  const constraints = args.constraints ?? DEFAULT_PATH_CONSTRAINTS;
   args.setLoading(true);
   args.setSearchLog(['Initializing PathFinder protocol...']);
   let startTitle = args.startInput;
@@ -32,8 +64,8 @@ export async function runPathfinder(args: {
   try {
     args.setSearchLog(prev => [...prev, `Resolving targets: "${args.startInput}" / "${args.endInput}"`]);
     const [rStart, rEnd] = await Promise.all([
-      WikiService.resolveTitle(args.startInput),
-      WikiService.resolveTitle(args.endInput),
+      WikiService.resolveTitle(args.startInput, source),
+      WikiService.resolveTitle(args.endInput, source),
     ]);
     startTitle = rStart;
     endTitle = rEnd;
@@ -52,151 +84,85 @@ export async function runPathfinder(args: {
     currentPage: startTitle,
     queueSize: 1,
     exploredNodes: new Set([startTitle]),
+    strategy,
   });
   args.setPathNodes(new Set());
   args.setError('');
   args.searchAbortRef.current = false;
   args.searchPauseRef.current = false;
 
-  const queue: { title: string; depth: number }[] = [{ title: startTitle, depth: 0 }];
-  const depthByNode = new Map<string, number>([[startTitle, 0]]);
-  const parentsByNode = new Map<string, Set<string>>();
-  let foundDepth: number | null = null;
-  let nodesExplored = 0;
-
-  const buildPaths = (maxPaths: number) => {
-    const results: string[][] = [];
-    const stack: string[] = [endTitle];
-
-    const dfs = (current: string) => {
-      if (results.length >= maxPaths) return;
-      if (current === startTitle) {
-        results.push([...stack].reverse());
-        return;
-      }
-      const parents = parentsByNode.get(current);
-      if (!parents || parents.size === 0) return;
-      for (const parent of parents) {
-        stack.push(parent);
-        dfs(parent);
-        stack.pop();
-        if (results.length >= maxPaths) return;
-      }
-    };
-
-    dfs(endTitle);
-    return results;
-  };
-
   try {
-    while (queue.length > 0) {
-      if (args.searchAbortRef.current) {
-        args.setSearchLog(prev => [...prev, '[USER] Search cancelled before next node scan.'].slice(-8));
-        return { status: 'aborted', foundPathCount: 0 };
-      }
-      while (args.searchPauseRef.current && !args.searchAbortRef.current) {
-        await new Promise(r => setTimeout(r, 120));
-      }
-      if (args.searchAbortRef.current) {
-        args.setSearchLog(prev => [...prev, '[USER] Search cancelled while paused.'].slice(-8));
-        return { status: 'aborted', foundPathCount: 0 };
-      }
-      const { title, depth } = queue.shift()!;
-
-      if (foundDepth !== null && depth >= foundDepth && !args.keepSearchingRef.current) {
-        // We've already found the shortest path length; no need to explore deeper unless keepSearching is on.
-        break;
-      }
-
-      nodesExplored++;
-      if (nodesExplored % 3 === 0) {
-        args.setSearchLog(prev => {
-          const newLogs = [...prev, `Scanning: ${title.substring(0, 20)}... (D${depth})`];
-          return newLogs.slice(-8);
-        });
-      }
-
-      if (nodesExplored % 5 === 0) {
-        args.setSearchProgress(prev => ({
-          ...prev,
-          exploredCount: nodesExplored,
-          currentDepth: depth,
-          currentPage: title,
-          queueSize: queue.length,
-          keepSearching: args.keepSearchingRef.current,
-        }));
-        await new Promise(r => setTimeout(r, 0));
-      }
-
-      if (depth >= args.maxDepth) continue;
-      if (nodesExplored > 500) throw new Error(`Exceeded exploration limit (500 nodes).`);
-
-      const links = await WikiService.fetchLinks(title);
-      if (args.searchAbortRef.current) {
-        args.setSearchLog(prev => [...prev, '[USER] Search cancelled after current fetch completed.'].slice(-8));
-        return { status: 'aborted', foundPathCount: 0 };
-      }
-
-      for (const linkObj of links) {
-        const link = linkObj.title;
-        const nextDepth = depth + 1;
-        if (nextDepth > args.maxDepth) continue;
-
-        const knownDepth = depthByNode.get(link);
-        if (knownDepth === undefined) {
-          depthByNode.set(link, nextDepth);
-          parentsByNode.set(link, new Set([title]));
-          queue.push({ title: link, depth: nextDepth });
-        } else if (knownDepth === nextDepth) {
-          const set = parentsByNode.get(link) || new Set<string>();
-          set.add(title);
-          parentsByNode.set(link, set);
-        } else {
-          continue;
-        }
-
-        if (link === endTitle) {
-          if (foundDepth === null) {
-            foundDepth = nextDepth;
-            args.setSearchLog(prev => [...prev, `>> TARGET ACQUIRED @ depth ${foundDepth} <<`].slice(-8));
-          }
-        }
-      }
+    const result = await runSearchPaths({
+      startTitle,
+      endTitle,
+      maxDepth: args.maxDepth,
+      source,
+      strategy,
+      constraints,
+      keepSearchingRef: args.keepSearchingRef,
+      searchAbortRef: args.searchAbortRef,
+      searchPauseRef: args.searchPauseRef,
+      setSearchLog: args.setSearchLog,
+      setSearchProgress: args.setSearchProgress,
+    });
+    if (result.status === 'aborted') {
+      args.setSearchLog(prev => [...prev, '[USER] Search cancelled.'].slice(-8));
+      return { status: 'aborted', foundPathCount: 0 };
     }
+    const { foundDepth, paths } = result;
 
     if (foundDepth === null) {
-      args.setError('No path found yet. The explored topics stayed on the map, so try a related idea or increase depth and continue from here.');
+      args.setError(hasPathConstraints(constraints)
+        ? 'No path found that meets the search constraints. Try relaxing them or increasing depth.'
+        : 'No path found yet. The explored topics stayed on the map, so try a related idea or increase depth and continue from here.');
       args.setSearchLog(prev =>
         [...prev, '[FAILURE] Target not found. Preserving explored topics on the map.'].slice(-8)
       );
       return { status: 'not_found', foundPathCount: 0 };
     }
 
-    const keepSearching = args.keepSearchingRef.current;
-    const paths = keepSearching ? buildPaths(5) : buildPaths(1);
+    // The search folded expanded titles and links to the target; backlinks
+    // and the raw endpoints may still be aliases, and folding can make two
+    // paths one.
+    const canonicalTitles = await WikiService.resolveTitlesBatch(paths.flat(), source);
+    const canonicalPaths = Array.from(new Map(paths
+      .map(path => path.map(title => canonicalTitles.get(title) ?? title))
+      .map(path => [path.join('\n'), path] as const)).values());
+
+    // Batched link lists carry no context, so parse the pages that will land on the map.
+    for (const title of new Set(canonicalPaths.flatMap(path => path.slice(0, -1)))) {
+      if (args.searchAbortRef.current) break;
+      await WikiService.fetchLinks(title, source);
+    }
+
     if (args.searchAbortRef.current) {
       args.setSearchLog(prev => [...prev, '[USER] Search cancelled before rendering path results.'].slice(-8));
       return { status: 'aborted', foundPathCount: 0 };
     }
 
-    if (paths.length === 0) {
+    if (canonicalPaths.length === 0) {
       args.setError('Path found but could not be reconstructed.');
       args.setSearchLog(prev => [...prev, `[ERROR] Failed to reconstruct path.`].slice(-8));
       return { status: 'not_found', foundPathCount: 0 };
     }
 
-    paths.forEach((path, index) => {
-      const newNodes: Node[] = path.map(p => ({ id: p, title: p }));
+    canonicalPaths.forEach((titlePath, index) => {
+      const path = titlePath.map(title => toNodeId(title, source));
+      const newNodes: Node[] = titlePath.map((title, i) => ({
+        id: path[i],
+        title,
+        metadata: { wikiSourceId: source.id },
+      }));
       const newLinks: Link[] = [];
       for (let i = 0; i < path.length - 1; i++) {
-        const source = path[i];
-        const target = path[i + 1];
-        const sourceLinks = WikiService.getLinksFromCache(source);
-        const context = sourceLinks?.find(l => l.title === target)?.context;
+        const sourceId = path[i];
+        const targetId = path[i + 1];
+        const sourceLinks = WikiService.getLinksFromCache(sourceId);
+        const context = sourceLinks?.find(l => l.title === titlePath[i + 1])?.context;
         newLinks.push({
-          source,
-          target,
-          id: `${source}-${target}`,
+          source: sourceId,
+          target: targetId,
+          id: `${sourceId}-${targetId}`,
           type: 'path',
           context,
         });
@@ -212,12 +178,12 @@ export async function runPathfinder(args: {
         args.graphManagerRef.current.highlightNode(null);
       }
 
-      const triggerLinkId = `${path[path.length - 2]}-${endTitle}`;
+      const triggerLinkId = `${path[path.length - 2]}-${path[path.length - 1]}`;
       args.onFoundPath?.({ triggerLinkId, path });
     });
 
-    args.setSearchLog(prev => [...prev, `[DONE] Found ${paths.length} path(s).`].slice(-8));
-    return { status: 'completed', foundPathCount: paths.length };
+    args.setSearchLog(prev => [...prev, `[DONE] Found ${canonicalPaths.length} path(s).`].slice(-8));
+    return { status: 'completed', foundPathCount: canonicalPaths.length };
   } catch (err: any) {
     args.setError(err.message || 'Error during pathfinding');
     args.setSearchLog(prev => [...prev, `[ERROR] ${err.message}`].slice(-8));
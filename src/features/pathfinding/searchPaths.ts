@@ -0,0 +1,164 @@
+import type { Dispatch, MutableRefObject, SetStateAction } from 'react';
+import { WikiService, type LinkWithContext } from '../../WikiService';
+import type { WikiSource } from '../../config/wikiSources';
+import type { SearchProgress } from '../../types/SearchProgress';
+import { bestFirstSearch } from './bestFirstSearch';
+import { bidirectionalSearch } from './bidirectionalSearch';
+import { breadthFirstSearch } from './breadthFirstSearch';
+import { rankByDiversity, yenKShortestPaths, type LinkGraph } from './kShortestPaths';
+import {
+  createTitleFilter,
+  describePathConstraints,
+  findConstraintViolation,
+  needsPageChecks,
+  type PathConstraints,
+} from './pathConstraints';
+import type { PathfinderStrategy } from './runPathfinder';
+
+/**
+ * The search half of the pathfinder: must-pass segments, constraint checks
+ * and alternate ranking, down to plain title paths. It touches no graph or
+ * React state beyond the log and progress setters, so it runs the same on the
+ * main thread and inside the compute worker.
+ */
+
+// Fresh searches per segment after pages on a found path broke a constraint.
+const MAX_CONSTRAINT_RETRIES = 8;
+// Yen candidates generated per requested alternate before ranking by diversity.
+const CANDIDATES_PER_PATH = 4;
+
+type SegmentResult =
+  | { status: 'aborted' }
+  | {
+    status: 'searched';
+    foundDepth: number | null;
+    paths: string[][];
+    scoreByTitle?: Map<string, number>;
+    graph?: LinkGraph;
+  };
+
+export type SearchPathsResult =
+  | { status: 'aborted' }
+  | { status: 'searched'; foundDepth: number | null; paths: string[][] };
+
+export async function searchPaths(args: {
+  startTitle: string;
+  endTitle: string;
+  maxDepth: number;
+  source: WikiSource;
+  strategy: PathfinderStrategy;
+  constraints: PathConstraints;
+  keepSearchingRef: MutableRefObject<boolean>;
+  searchAbortRef: MutableRefObject<boolean>;
+  searchPauseRef: MutableRefObject<boolean>;
+  setSearchLog: Dispatch<SetStateAction<string[]>>;
+  setSearchProgress: Dispatch<SetStateAction<SearchProgress>>;
+  /** Parsed links with context for best-first; defaults to WikiService.fetchLinks. */
+  fetchLinks?: (title: string, source: WikiSource) => Promise<LinkWithContext[]>;
+}): Promise<SearchPathsResult> {
+  const { startTitle, endTitle, source, strategy, constraints } = args;
+
+  const mustPass = await Promise.all(constraints.mustPass.map(title => WikiService.resolveTitle(title, source)));
+  const constraintLabels = describePathConstraints(constraints);
+  if (constraintLabels.length > 0) {
+    args.setSearchLog(prev => [...prev, `Constraints: ${constraintLabels.join(', ')}`].slice(-8));
+  }
+
+  const waypoints = [startTitle, ...mustPass, endTitle];
+  const titleAllowed = createTitleFilter(constraints);
+  const rejected = new Set<string>();
+  const checked = new Map<string, string | null>();
+  const isAllowed = (title: string) => !rejected.has(title) && titleAllowed(title);
+
+  const searchSegment = async (from: string, to: string, maxPaths: number): Promise<SegmentResult> => {
+    const searchArgs = {
+      startTitle: from,
+      endTitle: to,
+      maxDepth: args.maxDepth,
+      maxPaths,
+      source,
+      keepSearchingRef: args.keepSearchingRef,
+      searchAbortRef: args.searchAbortRef,
+      searchPauseRef: args.searchPauseRef,
+      setSearchLog: args.setSearchLog,
+      setSearchProgress: args.setSearchProgress,
+      isAllowed,
+    };
+    const result: SegmentResult = strategy === 'bidirectional'
+      ? await bidirectionalSearch(searchArgs)
+      : strategy === 'bestFirst'
+        ? await bestFirstSearch({ ...searchArgs, fetchLinks: args.fetchLinks })
+        : await breadthFirstSearch(searchArgs);
+    if (result.status === 'aborted' || maxPaths <= 1 || !result.graph || result.paths.length === 0) return result;
+
+    // Alternates come from everything explored, not just shortest-path parents.
+    const candidates = yenKShortestPaths(result.graph, from, to, maxPaths * CANDIDATES_PER_PATH, args.maxDepth);
+    if (candidates.length === 0) return result;
+    const paths = rankByDiversity(candidates, maxPaths);
+    args.setSearchLog(prev => [...prev, `Ranked ${paths.length} diverse path(s) from ${candidates.length} candidates.`].slice(-8));
+    return { ...result, paths };
+  };
+
+  // Pages breaking a category or hub rule are excluded and the segment searched again.
+  const findSegment = async (from: string, to: string, maxPaths: number): Promise<SegmentResult> => {
+    for (let attempt = 0; attempt <= MAX_CONSTRAINT_RETRIES; attempt++) {
+      const result = await searchSegment(from, to, maxPaths);
+      if (result.status === 'aborted' || result.paths.length === 0 || !needsPageChecks(constraints)) return result;
+
+      const valid: string[][] = [];
+      for (const path of result.paths) {
+        let pathValid = true;
+        for (const title of path.slice(1, -1)) {
+          if (waypoints.includes(title)) continue;
+          if (!checked.has(title)) checked.set(title, await findConstraintViolation(title, constraints, source));
+          const violation = checked.get(title);
+          if (!violation) continue;
+          if (!rejected.has(title)) {
+            rejected.add(title);
+            args.setSearchLog(prev => [...prev, `Excluded "${title}": ${violation}.`].slice(-8));
+          }
+          pathValid = false;
+        }
+        if (pathValid) valid.push(path);
+      }
+      if (args.searchAbortRef.current) return { status: 'aborted' };
+      if (valid.length > 0) return { ...result, paths: valid };
+      args.setSearchLog(prev => [...prev, 'Retrying around excluded pages...'].slice(-8));
+    }
+    return { status: 'searched', foundDepth: null, paths: [] };
+  };
+
+  let foundDepth: number | null = null;
+  let paths: string[][] = [];
+  const scoreByTitle = new Map<string, number>();
+  if (strategy === 'bidirectional') {
+    args.setSearchLog(prev => [...prev, 'Strategy: bidirectional (links forward, backlinks backward).'].slice(-8));
+  } else if (strategy === 'bestFirst') {
+    args.setSearchLog(prev => [...prev, 'Strategy: best-first (most related pages first).'].slice(-8));
+  }
+
+  // Must-pass titles split the search into segments; each one contributes its first path.
+  const maxPaths = args.keepSearchingRef.current && waypoints.length === 2 ? 5 : 1;
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    if (waypoints.length > 2) {
+      args.setSearchLog(prev => [...prev, `Segment ${i + 1}/${waypoints.length - 1}: "${waypoints[i]}" → "${waypoints[i + 1]}"`].slice(-8));
+    }
+    const result = await findSegment(waypoints[i], waypoints[i + 1], maxPaths);
+    if (result.status === 'aborted') return { status: 'aborted' };
+    result.scoreByTitle?.forEach((score, title) => scoreByTitle.set(title, score));
+    if (result.foundDepth === null || result.paths.length === 0) {
+      foundDepth = null;
+      paths = [];
+      break;
+    }
+    foundDepth = (foundDepth ?? 0) + result.foundDepth;
+    paths = i === 0 ? result.paths : paths.map(path => [...path, ...result.paths[0].slice(1)]);
+  }
+
+  if (strategy === 'bestFirst' && paths.length > 0) {
+    const pathScores = paths[0].map(title => ({ title, score: scoreByTitle.get(title) ?? 0 }));
+    args.setSearchProgress(prev => ({ ...prev, pathScores }));
+  }
+
+  return { status: 'searched', foundDepth, paths };
+}
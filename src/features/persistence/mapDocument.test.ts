@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { AppSnapshot } from '../../hooks/useGraphState';
+import { DEFAULT_WIKI_SOURCE } from '../../config/wikiSources';
+import {
+  DEFAULT_MAP_SETTINGS,
+  MAP_DOCUMENT_VERSION,
+  MapDocumentError,
+  createMapDocument,
+  getMapDocumentFilename,
+  parseMapDocument,
+  serializeMapDocument,
+} from './mapDocument';
+
+function createSnapshot(): AppSnapshot {
+  return {
+    graph: {
+      nodes: [
+        { id: 'Physics', title: 'Physics', x: 10, y: 20 },
+        { id: 'Energy', title: 'Energy', x: 40, y: 60 },
+      ],
+      links: [{ id: 'Physics-Energy', source: 'Physics', target: 'Energy', type: 'manual' }],
+      nodeMetadata: {},
+    },
+    userTypedNodes: ['Physics'],
+    autoDiscoveredNodes: ['Energy'],
+    expandedNodes: [],
+    pathNodes: [],
+    nodeThumbnails: { Physics: 'https://example.org/physics.png' },
+    nodeDescriptions: { Physics: 'Natural science' },
+    nodeCategories: { Physics: ['Physical sciences'] },
+    nodeBacklinkCounts: { Physics: 25 },
+  };
+}
+
+describe('mapDocument', () => {
+  it('round-trips a saved map with settings, paths, and pins', () => {
+    const doc = createMapDocument({
+      state: createSnapshot(),
+      settings: { ...DEFAULT_MAP_SETTINGS, layoutMode: 'forest', treeSpacing: 220 },
+      foundPaths: [{ triggerLinkId: 'Physics-Energy', path: ['Physics', 'Energy'] }],
+      pinnedLinkIds: ['Physics-Energy'],
+      savedAt: new Date('2026-03-01T12:00:00Z'),
+    });
+
+    const parsed = parseMapDocument(serializeMapDocument(doc));
+
+    expect(parsed).toEqual(doc);
+    expect(parsed.title).toBe('Physics');
+    expect(getMapDocumentFilename(parsed)).toBe('physics-2026-03-01.wikiweb.json');
+  });
+
+  it('migrates a bare snapshot from older builds', () => {
+    const parsed = parseMapDocument(JSON.stringify(createSnapshot()));
+
+    expect(parsed.version).toBe(MAP_DOCUMENT_VERSION);
+    expect(parsed.settings).toEqual(DEFAULT_MAP_SETTINGS);
+    expect(parsed.state.graph.nodes).toHaveLength(2);
+    expect(parsed.pinnedLinkIds).toEqual([]);
+  });
+
+  it('rejects files that fail validation or come from a newer version', () => {
+    const broken = createSnapshot();
+    broken.graph.links.push({ id: 'Physics-Missing', source: 'Physics', target: 'Missing' });
+
+    expect(() => parseMapDocument(JSON.stringify(broken))).toThrow(/points at a missing node/);
+    expect(() => parseMapDocument('{"format":"wikiweb-map","version":99}')).toThrow(/newer version/);
+    expect(() => parseMapDocument('not json')).toThrow(MapDocumentError);
+  });
+
+  it('rejects wiki sources that would replace a preset or drop https', () => {
+    const doc = (wikiSources: unknown[]) => JSON.stringify({
+      ...createMapDocument({ state: createSnapshot(), settings: DEFAULT_MAP_SETTINGS, foundPaths: [], pinnedLinkIds: [] }),
+      wikiSources,
+    });
+
+    expect(() => parseMapDocument(doc([{ ...DEFAULT_WIKI_SOURCE, apiUrl: 'https://evil.example/w/api.php' }])))
+      .toThrow(/"en.wikipedia" is not allowed/);
+    expect(() => parseMapDocument(doc([{
+      id: 'wiki.example.org/w',
+      displayName: 'Example',
+      language: 'en',
+      apiUrl: 'http://wiki.example.org/w/api.php',
+      articleUrl: 'http://wiki.example.org/wiki/',
+    }]))).toThrow(/not served over https/);
+  });
+});
@@ -0,0 +1,263 @@
+import type { AppSnapshot } from '../../hooks/useGraphState';
+import { checkImportedWikiSource, parseNodeId, type WikiSource } from '../../config/wikiSources';
+import {
+  DEFAULT_BRANCH_SPREAD,
+  DEFAULT_SHOW_CROSS_LINKS,
+  DEFAULT_TREE_SPACING,
+  type LayoutMode,
+} from '../layout/layoutConfig';
+
+/**
+ * `.wikiweb.json` map documents.
+ * A document wraps the same AppSnapshot used for undo with the settings and
+ * search results needed to reopen a map exactly as it was left. Older files
+ * are upgraded step by step through MIGRATIONS before validation.
+ */
+
+export const MAP_DOCUMENT_FORMAT = 'wikiweb-map';
+export const MAP_DOCUMENT_VERSION = 1;
+export const MAP_DOCUMENT_EXTENSION = '.wikiweb.json';
+
+export type MapDocumentSettings = {
+  layoutMode: LayoutMode;
+  nodeSpacing: number;
+  treeSpacing: number;
+  branchSpread: number;
+  showCrossLinks: boolean;
+  recursionDepth: number;
+  nodeSizeScale: number;
+  includeBacklinks: boolean;
+};
+
+export type FoundPath = { triggerLinkId: string; path: string[] };
+
+export type MapDocument = {
+  format: typeof MAP_DOCUMENT_FORMAT;
+  version: typeof MAP_DOCUMENT_VERSION;
+  savedAt: string;
+  title: string;
+  state: AppSnapshot;
+  settings: MapDocumentSettings;
+  foundPaths: FoundPath[];
+  pinnedLinkIds: string[];
+  /** Non-preset wiki sources referenced by nodes, so custom endpoints resolve after import. */
+  wikiSources: WikiSource[];
+};
+
+export class MapDocumentError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.slice(0, 3).join('; ')}` : message);
+    this.name = 'MapDocumentError';
+    this.issues = issues;
+  }
+}
+
+export const DEFAULT_MAP_SETTINGS: MapDocumentSettings = {
+  layoutMode: 'web',
+  nodeSpacing: 150,
+  treeSpacing: DEFAULT_TREE_SPACING,
+  branchSpread: DEFAULT_BRANCH_SPREAD,
+  showCrossLinks: DEFAULT_SHOW_CROSS_LINKS,
+  recursionDepth: 3,
+  nodeSizeScale: 1,
+  includeBacklinks: true,
+};
+
+type RawDocument = Record<string, any>;
+
+/**
+ * MIGRATIONS[n] upgrades a version-n document to version n + 1.
+ * Version 0 is the bare AppSnapshot that early builds wrote from the undo stack.
+ */
+const MIGRATIONS: Array<(doc: RawDocument) => RawDocument> = [
+  (snapshot) => ({
+    format: MAP_DOCUMENT_FORMAT,
+    version: 1,
+    savedAt: new Date(0).toISOString(),
+    title: '',
+    state: snapshot,
+    settings: { ...DEFAULT_MAP_SETTINGS },
+    foundPaths: [],
+    pinnedLinkIds: [],
+    wikiSources: [],
+  }),
+];
+
+const isRecord = (value: unknown): value is RawDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isRecordOf = (value: unknown, check: (item: unknown) => boolean) =>
+  isRecord(value) && Object.values(value).every(check);
+
+const getDocumentVersion = (raw: RawDocument) => {
+  if (raw.format === MAP_DOCUMENT_FORMAT) return typeof raw.version === 'number' ? raw.version : NaN;
+  if (isRecord(raw.graph) && Array.isArray(raw.graph.nodes)) return 0;
+  return NaN;
+};
+
+export const migrateMapDocument = (raw: unknown): RawDocument => {
+  if (!isRecord(raw)) throw new MapDocumentError('Not a WikiWeb map file');
+
+  let version = getDocumentVersion(raw);
+  if (!Number.isInteger(version)) throw new MapDocumentError('Not a WikiWeb map file');
+  if (version > MAP_DOCUMENT_VERSION) {
+    throw new MapDocumentError(`This map was saved by a newer version (v${version}); update the app to open it`);
+  }
+
+  let doc = raw;
+  while (version < MAP_DOCUMENT_VERSION) {
+    doc = MIGRATIONS[version](doc);
+    version += 1;
+  }
+  return doc;
+};
+
+export const validateMapDocument = (doc: RawDocument): string[] => {
+  const issues: string[] = [];
+  const state = doc.state;
+
+  if (!isRecord(state) || !isRecord(state.graph)) {
+    return ['state.graph is missing'];
+  }
+
+  const { nodes, links, nodeMetadata } = state.graph;
+  const nodeIds = new Set<string>();
+  if (!Array.isArray(nodes)) {
+    issues.push('state.graph.nodes must be an array');
+  } else {
+    nodes.forEach((node: unknown, index: number) => {
+      if (!isRecord(node) || typeof node.id !== 'string' || typeof node.title !== 'string') {
+        issues.push(`node ${index} needs string id and title`);
+        return;
+      }
+      nodeIds.add(node.id);
+    });
+  }
+
+  if (!Array.isArray(links)) {
+    issues.push('state.graph.links must be an array');
+  } else {
+    links.forEach((link: unknown, index: number) => {
+      if (!isRecord(link) || typeof link.id !== 'string') {
+        issues.push(`link ${index} needs a string id`);
+        return;
+      }
+      if (!nodeIds.has(link.source) || !nodeIds.has(link.target)) {
+        issues.push(`link "${link.id}" points at a missing node`);
+      }
+    });
+  }
+
+  if (!isRecordOf(nodeMetadata, isRecord)) issues.push('state.graph.nodeMetadata must be an object');
+
+  (['userTypedNodes', 'autoDiscoveredNodes', 'expandedNodes', 'pathNodes'] as const).forEach((key) => {
+    if (!isStringArray(state[key])) issues.push(`state.${key} must be a list of node ids`);
+  });
+  (['nodeThumbnails', 'nodeDescriptions'] as const).forEach((key) => {
+    if (!isRecordOf(state[key], item => typeof item === 'string')) issues.push(`state.${key} must map ids to text`);
+  });
+  if (!isRecordOf(state.nodeCategories, isStringArray)) issues.push('state.nodeCategories must map ids to lists');
+  if (!isRecordOf(state.nodeBacklinkCounts, item => typeof item === 'number')) {
+    issues.push('state.nodeBacklinkCounts must map ids to numbers');
+  }
+
+  if (!Array.isArray(doc.foundPaths) || !doc.foundPaths.every((p: unknown) =>
+    isRecord(p) && typeof p.triggerLinkId === 'string' && isStringArray(p.path))) {
+    issues.push('foundPaths is malformed');
+  }
+  if (!isStringArray(doc.pinnedLinkIds)) issues.push('pinnedLinkIds must be a list of link ids');
+  if (!Array.isArray(doc.wikiSources) || !doc.wikiSources.every((s: unknown) =>
+    isRecord(s) && typeof s.id === 'string' && typeof s.apiUrl === 'string' && typeof s.articleUrl === 'string')) {
+    issues.push('wikiSources is malformed');
+  } else {
+    // Unknown https hosts are for the user to allow; a source that would
+    // replace a registered one, or drops https, makes the file unusable.
+    doc.wikiSources.forEach((source: WikiSource) => {
+      const check = checkImportedWikiSource(source);
+      if (check.status === 'rejected') issues.push(`wiki source "${source.id}" is not allowed: ${check.reason}`);
+    });
+  }
+
+  return issues;
+};
+
+const normalizeSettings = (raw: unknown): MapDocumentSettings => {
+  const settings = isRecord(raw) ? raw : {};
+  const positive = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+  return {
+    layoutMode: settings.layoutMode === 'web' || settings.layoutMode === 'forest' || settings.layoutMode === 'structured'
+      ? settings.layoutMode
+      : DEFAULT_MAP_SETTINGS.layoutMode,
+    nodeSpacing: positive(settings.nodeSpacing, DEFAULT_MAP_SETTINGS.nodeSpacing),
+    treeSpacing: positive(settings.treeSpacing, DEFAULT_MAP_SETTINGS.treeSpacing),
+    branchSpread: positive(settings.branchSpread, DEFAULT_MAP_SETTINGS.branchSpread),
+    showCrossLinks: typeof settings.showCrossLinks === 'boolean' ? settings.showCrossLinks : DEFAULT_MAP_SETTINGS.showCrossLinks,
+    recursionDepth: positive(settings.recursionDepth, DEFAULT_MAP_SETTINGS.recursionDepth),
+    nodeSizeScale: positive(settings.nodeSizeScale, DEFAULT_MAP_SETTINGS.nodeSizeScale),
+    includeBacklinks: typeof settings.includeBacklinks === 'boolean'
+      ? settings.includeBacklinks
+      : DEFAULT_MAP_SETTINGS.includeBacklinks,
+  };
+};
+
+export const createMapDocument = (args: {
+  state: AppSnapshot;
+  settings: MapDocumentSettings;
+  foundPaths: FoundPath[];
+  pinnedLinkIds: string[];
+  wikiSources?: WikiSource[];
+  title?: string;
+  savedAt?: Date;
+}): MapDocument => ({
+  format: MAP_DOCUMENT_FORMAT,
+  version: MAP_DOCUMENT_VERSION,
+  savedAt: (args.savedAt ?? new Date()).toISOString(),
+  title: args.title ?? args.state.userTypedNodes.slice(0, 3).map(id => parseNodeId(id).title).join(', '),
+  state: args.state,
+  settings: args.settings,
+  foundPaths: args.foundPaths,
+  pinnedLinkIds: args.pinnedLinkIds,
+  wikiSources: args.wikiSources ?? [],
+});
+
+export const serializeMapDocument = (doc: MapDocument) => JSON.stringify(doc, null, 2);
+
+/**
+ * Parse, migrate, and validate a map file. Throws MapDocumentError with the
+ * list of problems when the file can't be opened.
+ */
+export const parseMapDocument = (text: string): MapDocument => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new MapDocumentError('Map file is not valid JSON');
+  }
+
+  const doc = migrateMapDocument(raw);
+  const issues = validateMapDocument(doc);
+  if (issues.length > 0) throw new MapDocumentError('Map file failed validation', issues);
+
+  return {
+    ...(doc as MapDocument),
+    title: typeof doc.title === 'string' ? doc.title : '',
+    savedAt: typeof doc.savedAt === 'string' ? doc.savedAt : new Date(0).toISOString(),
+    settings: normalizeSettings(doc.settings),
+  };
+};
+
+export const getMapDocumentFilename = (doc: Pick<MapDocument, 'title' | 'savedAt'>) => {
+  const slug = doc.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 48);
+  return `${slug || 'map'}-${doc.savedAt.slice(0, 10)}${MAP_DOCUMENT_EXTENSION}`;
+};
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CanvasGraphRenderer, type CanvasLinkStyle, type CanvasNodeStyle } from './canvasRenderer';
+
+const nodeStyle = (radius: number): CanvasNodeStyle => ({
+  radius,
+  scale: 1,
+  opacity: 1,
+  fill: '#0088ff',
+  fillOpacity: 1,
+  stroke: '#fff',
+  strokeWidth: 2,
+  innerRingWidth: 1,
+  innerRingOpacity: 0.24,
+  sheenOpacity: 0.16,
+  label: { lines: [], fontSize: 9, lineHeight: 10, fontWeight: 'bold' },
+});
+
+const linkStyle: CanvasLinkStyle = { stroke: '#888', strokeWidth: 2, strokeOpacity: 0.6 };
+
+describe('CanvasGraphRenderer', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => {
+    container.remove();
+    vi.restoreAllMocks();
+  });
+
+  it('hit-tests nodes topmost-first and links within a screen-space tolerance', () => {
+    const renderer = new CanvasGraphRenderer(container, null, 800, 600);
+    const a = { x: 100, y: 100 };
+    const b = { x: 120, y: 100 };
+    const c = { x: 500, y: 100 };
+    renderer.setScene(
+      [
+        { id: 'a', position: a, style: nodeStyle(30) },
+        { id: 'b', position: b, style: nodeStyle(30) },
+        { id: 'c', position: c, style: nodeStyle(20) },
+      ],
+      [{ id: 'b-c', source: b, target: c, style: linkStyle }]
+    );
+
+    expect(renderer.nodeAt(110, 100)).toBe('b');
+    expect(renderer.nodeAt(75, 100)).toBe('a');
+    expect(renderer.nodeAt(300, 300)).toBeNull();
+    expect(renderer.linkAt(300, 106)).toBe('b-c');
+    expect(renderer.linkAt(300, 112)).toBeNull();
+
+    // Zoomed out, the same screen tolerance covers more of the world.
+    renderer.setTransform({ x: 0, y: 0, k: 0.5 });
+    expect(renderer.linkAt(300, 112)).toBe('b-c');
+
+    // Moved nodes are found at their new position once positions change.
+    c.y = 400;
+    renderer.positionsChanged();
+    expect(renderer.nodeAt(500, 400)).toBe('c');
+    expect(renderer.nodeAt(500, 100)).toBeNull();
+
+    renderer.destroy();
+    expect(container.querySelector('canvas')).toBeNull();
+  });
+});
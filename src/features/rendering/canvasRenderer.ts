@@ -0,0 +1,415 @@
+import { THUMBNAIL_ZOOM_THRESHOLD, getViewportBox, isCircleInBox, isSegmentInBox } from './levelOfDetail';
+import { SpatialGrid } from './spatialGrid';
+
+/**
+ * Canvas 2D backend for GraphManager on large maps. GraphManager still owns
+ * the simulation, zoom and styling rules; it hands this renderer resolved
+ * styles plus the live simulation objects for positions, and asks it which
+ * node or link lies under the pointer.
+ */
+
+type Point = { x?: number; y?: number };
+
+export type CanvasNodeStyle = {
+  radius: number;
+  /** Focus scale applied to everything drawn for the node. */
+  scale: number;
+  opacity: number;
+  fill: string;
+  fillOpacity: number;
+  stroke: string;
+  strokeWidth: number;
+  /** Dashed outline, for disambiguation pages. */
+  strokeDash?: number[];
+  glow?: string;
+  aura?: { radius: number; fill: string; opacity: number };
+  ring?: { radius: number; stroke: string; opacity: number; width: number; dash?: number[] };
+  thumbnail?: string;
+  innerRingWidth: number;
+  innerRingOpacity: number;
+  sheenOpacity: number;
+  /** Category nodes are rounded squares; everything else is a circle. */
+  shape?: 'circle' | 'square';
+  label: { lines: string[]; fontSize: number; lineHeight: number; fontWeight: number | string };
+};
+
+export type CanvasLinkStyle = {
+  stroke: string;
+  strokeWidth: number;
+  strokeOpacity: number;
+  dash?: number[];
+  /** Start and end colours for path links. */
+  gradient?: [string, string];
+};
+
+export type CanvasNodeItem = { id: string; position: Point; style: CanvasNodeStyle };
+export type CanvasLinkItem = { id: string; source: Point; target: Point; style: CanvasLinkStyle };
+/** Community bubble behind the links; `path` is SVG path data in world units. */
+export type CanvasHullItem = { id: string; path: string; color: string; label?: string; labelX: number; labelY: number };
+
+// World units per hit-test cell; roughly one node diameter.
+const HIT_CELL_SIZE = 96;
+// Extra screen pixels around a link that still count as hovering it.
+const LINK_HIT_TOLERANCE_PX = 6;
+const HOVER_SCALE = 1.08;
+
+const hasPosition = (point: Point): point is { x: number; y: number } =>
+  typeof point.x === 'number' && typeof point.y === 'number';
+
+const distanceToSegment = (px: number, py: number, a: { x: number; y: number }, b: { x: number; y: number }) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - a.x) * dx + (py - a.y) * dy) / lengthSquared));
+  return Math.hypot(px - (a.x + t * dx), py - (a.y + t * dy));
+};
+
+export class CanvasGraphRenderer {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D | null;
+  private width: number;
+  private height: number;
+  private transform = { x: 0, y: 0, k: 1 };
+  private nodes: CanvasNodeItem[] = [];
+  private links: CanvasLinkItem[] = [];
+  private hulls: CanvasHullItem[] = [];
+  private nodeOrder = new Map<string, number>();
+  private nodeGrid = new SpatialGrid<CanvasNodeItem>(HIT_CELL_SIZE);
+  private linkGrid = new SpatialGrid<CanvasLinkItem>(HIT_CELL_SIZE);
+  private gridDirty = true;
+  private frameId: number | null = null;
+  private images = new Map<string, HTMLImageElement>();
+  private hoveredNodeId: string | null = null;
+  private hoveredLinkId: string | null = null;
+  /** Nodes whose label is drawn; null draws every label. */
+  private labelIds: Set<string> | null = null;
+
+  constructor(container: Element, before: Element | null, width: number, height: number) {
+    this.canvas = document.createElement('canvas');
+    this.canvas.className = 'graph-canvas';
+    Object.assign(this.canvas.style, {
+      position: 'absolute',
+      inset: '0',
+      pointerEvents: 'none',
+    });
+    container.insertBefore(this.canvas, before);
+    this.ctx = this.canvas.getContext('2d');
+    this.width = width;
+    this.height = height;
+    this.resize(width, height);
+  }
+
+  resize(width: number, height: number) {
+    const ratio = window.devicePixelRatio || 1;
+    this.width = width;
+    this.height = height;
+    this.canvas.width = Math.max(1, Math.floor(width * ratio));
+    this.canvas.height = Math.max(1, Math.floor(height * ratio));
+    this.canvas.style.width = `${width}px`;
+    this.canvas.style.height = `${height}px`;
+    this.requestDraw();
+  }
+
+  setVisible(visible: boolean) {
+    this.canvas.style.display = visible ? '' : 'none';
+  }
+
+  setScene(nodes: CanvasNodeItem[], links: CanvasLinkItem[]) {
+    this.nodes = nodes;
+    this.links = links;
+    this.nodeOrder = new Map(nodes.map((item, index) => [item.id, index]));
+    this.gridDirty = true;
+    this.requestDraw();
+  }
+
+  setHulls(hulls: CanvasHullItem[]) {
+    this.hulls = hulls;
+    this.requestDraw();
+  }
+
+  setTransform(transform: { x: number; y: number; k: number }) {
+    this.transform = { x: transform.x, y: transform.y, k: transform.k };
+    this.requestDraw();
+  }
+
+  /** Call after the simulation moved nodes. */
+  positionsChanged() {
+    this.gridDirty = true;
+    this.requestDraw();
+  }
+
+  setHover(hover: { nodeId: string | null; linkId: string | null }) {
+    if (hover.nodeId === this.hoveredNodeId && hover.linkId === this.hoveredLinkId) return;
+    this.hoveredNodeId = hover.nodeId;
+    this.hoveredLinkId = hover.linkId;
+    this.requestDraw();
+  }
+
+  setLabelIds(labelIds: Set<string> | null) {
+    this.labelIds = labelIds;
+    this.requestDraw();
+  }
+
+  /** Topmost node whose circle contains the world point. */
+  nodeAt(x: number, y: number): string | null {
+    this.ensureGrid();
+    let best: CanvasNodeItem | null = null;
+    for (const item of this.nodeGrid.query(x, y)) {
+      if (!hasPosition(item.position)) continue;
+      const reach = item.style.radius * item.style.scale;
+      if (Math.hypot(x - item.position.x, y - item.position.y) > reach) continue;
+      if (!best || this.nodeOrder.get(item.id)! > this.nodeOrder.get(best.id)!) best = item;
+    }
+    return best?.id ?? null;
+  }
+
+  /** Closest link passing within a few screen pixels of the world point. */
+  linkAt(x: number, y: number): string | null {
+    this.ensureGrid();
+    const tolerance = LINK_HIT_TOLERANCE_PX / this.transform.k;
+    let best: { id: string; distance: number } | null = null;
+    for (const item of this.linkGrid.query(x, y, tolerance)) {
+      if (!hasPosition(item.source) || !hasPosition(item.target)) continue;
+      const distance = distanceToSegment(x, y, item.source, item.target);
+      if (distance > tolerance + item.style.strokeWidth / 2) continue;
+      if (!best || distance < best.distance) best = { id: item.id, distance };
+    }
+    return best?.id ?? null;
+  }
+
+  private ensureGrid() {
+    if (!this.gridDirty) return;
+    this.nodeGrid.clear();
+    this.linkGrid.clear();
+    this.nodes.forEach((item) => {
+      if (!hasPosition(item.position)) return;
+      const reach = item.style.radius * item.style.scale;
+      const { x, y } = item.position;
+      this.nodeGrid.insertBox(item, x - reach, y - reach, x + reach, y + reach);
+    });
+    this.links.forEach((item) => {
+      if (!hasPosition(item.source) || !hasPosition(item.target)) return;
+      this.linkGrid.insertSegment(item, item.source.x, item.source.y, item.target.x, item.target.y, item.style.strokeWidth);
+    });
+    this.gridDirty = false;
+  }
+
+  requestDraw() {
+    if (this.frameId !== null || typeof requestAnimationFrame === 'undefined') return;
+    this.frameId = requestAnimationFrame(() => {
+      this.frameId = null;
+      this.draw();
+    });
+  }
+
+  draw() {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    const ratio = this.canvas.width / Math.max(1, this.width);
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0);
+    ctx.clearRect(0, 0, this.width, this.height);
+    ctx.translate(this.transform.x, this.transform.y);
+    ctx.scale(this.transform.k, this.transform.k);
+
+    // Off-screen items are skipped; hovered ones are drawn last so they sit on top.
+    const { x: tx, y: ty, k } = this.transform;
+    const viewport = getViewportBox(this.width, this.height);
+    const detailed = k >= THUMBNAIL_ZOOM_THRESHOLD;
+
+    this.hulls.forEach(item => this.drawHull(ctx, item));
+
+    let hoveredLink: CanvasLinkItem | null = null;
+    for (const item of this.links) {
+      const { source, target } = item;
+      if (!hasPosition(source) || !hasPosition(target)) continue;
+      if (!isSegmentInBox(tx + source.x * k, ty + source.y * k, tx + target.x * k, ty + target.y * k, viewport)) continue;
+      if (item.id === this.hoveredLinkId) hoveredLink = item;
+      else this.drawLink(ctx, item, false);
+    }
+    if (hoveredLink) this.drawLink(ctx, hoveredLink, true);
+
+    let hoveredNode: CanvasNodeItem | null = null;
+    for (const item of this.nodes) {
+      const { position, style } = item;
+      if (!hasPosition(position)) continue;
+      const reach = (style.aura?.radius ?? style.radius) * style.scale * k;
+      if (!isCircleInBox(tx + position.x * k, ty + position.y * k, reach, viewport)) continue;
+      if (item.id === this.hoveredNodeId) hoveredNode = item;
+      else this.drawNode(ctx, item, 1, detailed);
+    }
+    if (hoveredNode) this.drawNode(ctx, hoveredNode, HOVER_SCALE, detailed);
+  }
+
+  private drawHull(ctx: CanvasRenderingContext2D, item: CanvasHullItem) {
+    const shape = new Path2D(item.path);
+    ctx.save();
+    ctx.globalAlpha = 0.1;
+    ctx.fillStyle = item.color;
+    ctx.fill(shape);
+    ctx.globalAlpha = 0.45;
+    ctx.strokeStyle = item.color;
+    ctx.lineWidth = 1.5;
+    ctx.stroke(shape);
+    if (item.label) {
+      ctx.globalAlpha = 0.9;
+      ctx.fillStyle = item.color;
+      ctx.font = '600 14px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'alphabetic';
+      ctx.fillText(item.label, item.labelX, item.labelY);
+    }
+    ctx.restore();
+  }
+
+  private drawLink(ctx: CanvasRenderingContext2D, item: CanvasLinkItem, highlighted: boolean) {
+    const { source, target, style } = item;
+    if (!hasPosition(source) || !hasPosition(target)) return;
+
+    let stroke: string | CanvasGradient = style.stroke;
+    if (style.gradient) {
+      const gradient = ctx.createLinearGradient(source.x, source.y, target.x, target.y);
+      gradient.addColorStop(0, style.gradient[0]);
+      gradient.addColorStop(1, style.gradient[1]);
+      stroke = gradient;
+    } else if (highlighted) {
+      stroke = '#00ffff';
+    }
+
+    ctx.save();
+    ctx.globalAlpha = highlighted ? 1 : style.strokeOpacity * (style.gradient ? 0.9 : 1);
+    ctx.strokeStyle = stroke;
+    ctx.lineWidth = highlighted ? Math.max(style.strokeWidth + 2, 6) : style.strokeWidth;
+    ctx.lineCap = 'round';
+    ctx.setLineDash(style.dash ?? []);
+    ctx.beginPath();
+    ctx.moveTo(source.x, source.y);
+    ctx.lineTo(target.x, target.y);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /** Zoomed out (`detailed` false), a node is just its filled, stroked circle and maybe a label. */
+  private drawNode(ctx: CanvasRenderingContext2D, item: CanvasNodeItem, hoverScale: number, detailed: boolean) {
+    const { position, style } = item;
+    if (!hasPosition(position)) return;
+    const { radius } = style;
+
+    ctx.save();
+    ctx.translate(position.x, position.y);
+    ctx.scale(style.scale * hoverScale, style.scale * hoverScale);
+    ctx.globalAlpha = style.opacity;
+
+    const circle = (r: number) => {
+      ctx.beginPath();
+      ctx.arc(0, 0, r, 0, Math.PI * 2);
+    };
+    const isSquare = style.shape === 'square';
+    // Matches the SVG rect: side 1.7 × radius, corners 22% of the side.
+    const body = (r: number) => {
+      if (!isSquare) {
+        circle(r);
+        return;
+      }
+      const half = r * 0.85;
+      const corner = half * 0.44;
+      ctx.beginPath();
+      ctx.moveTo(-half + corner, -half);
+      ctx.arcTo(half, -half, half, half, corner);
+      ctx.arcTo(half, half, -half, half, corner);
+      ctx.arcTo(-half, half, -half, -half, corner);
+      ctx.arcTo(-half, -half, half, -half, corner);
+      ctx.closePath();
+    };
+
+    if (detailed && style.aura) {
+      circle(style.aura.radius);
+      ctx.globalAlpha = style.opacity * style.aura.opacity;
+      ctx.fillStyle = style.aura.fill;
+      ctx.fill();
+    }
+
+    if (detailed && style.ring) {
+      circle(style.ring.radius);
+      ctx.globalAlpha = style.opacity * style.ring.opacity;
+      ctx.strokeStyle = style.ring.stroke;
+      ctx.lineWidth = style.ring.width;
+      ctx.setLineDash(style.ring.dash ?? []);
+      ctx.stroke();
+      ctx.setLineDash([]);
+    }
+
+    const image = detailed && style.thumbnail ? this.getImage(style.thumbnail) : null;
+    if (image) {
+      ctx.save();
+      body(radius);
+      ctx.clip();
+      ctx.globalAlpha = style.opacity * 0.4;
+      const side = radius * 2;
+      const fit = Math.max(side / image.naturalWidth, side / image.naturalHeight);
+      const w = image.naturalWidth * fit;
+      const h = image.naturalHeight * fit;
+      ctx.drawImage(image, -w / 2, -h / 2, w, h);
+      ctx.restore();
+    }
+
+    body(radius);
+    if (style.glow) {
+      ctx.shadowColor = style.glow;
+      ctx.shadowBlur = 8;
+    }
+    ctx.globalAlpha = style.opacity * style.fillOpacity;
+    ctx.fillStyle = style.fill;
+    ctx.fill();
+    ctx.globalAlpha = style.opacity;
+    ctx.strokeStyle = style.stroke;
+    ctx.lineWidth = style.strokeWidth;
+    ctx.setLineDash(style.strokeDash ?? []);
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.shadowBlur = 0;
+
+    if (detailed && !isSquare) {
+      circle(Math.max(8, radius * 0.74));
+      ctx.globalAlpha = style.opacity * style.innerRingOpacity;
+      ctx.strokeStyle = 'rgba(255,255,255,0.22)';
+      ctx.lineWidth = style.innerRingWidth;
+      ctx.stroke();
+
+      ctx.beginPath();
+      ctx.ellipse(-radius * 0.16, -radius * 0.22, Math.max(6, radius * 0.38), Math.max(4, radius * 0.22), 0, 0, Math.PI * 2);
+      ctx.globalAlpha = style.opacity * style.sheenOpacity;
+      ctx.fillStyle = 'rgba(255,255,255,0.16)';
+      ctx.fill();
+    }
+
+    const { lines, fontSize, lineHeight, fontWeight } = style.label;
+    if (lines.length > 0 && (!this.labelIds || this.labelIds.has(item.id))) {
+      ctx.globalAlpha = style.opacity;
+      ctx.fillStyle = '#ffffff';
+      ctx.font = `${fontWeight} ${fontSize}px sans-serif`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'alphabetic';
+      const startY = -(lines.length * lineHeight) / 2 + lineHeight / 2;
+      lines.forEach((line, index) => ctx.fillText(line, 0, startY + index * lineHeight));
+    }
+
+    ctx.restore();
+  }
+
+  private getImage(url: string): HTMLImageElement | null {
+    let image = this.images.get(url);
+    if (!image) {
+      image = new Image();
+      image.onload = () => this.requestDraw();
+      image.src = url;
+      this.images.set(url, image);
+    }
+    return image.complete && image.naturalWidth > 0 ? image : null;
+  }
+
+  destroy() {
+    if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.canvas.remove();
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HUB_LABEL_MIN_DEGREE,
+  getLabelPriority,
+  getViewportBox,
+  isCircleInBox,
+  isSegmentInBox,
+  placeLabels,
+} from './levelOfDetail';
+
+describe('levelOfDetail', () => {
+  it('ranks focus, path, root and hub labels above the rest', () => {
+    expect(getLabelPriority({ isFocus: true, degree: 0 })).toBe(3);
+    expect(getLabelPriority({ isInPath: true, degree: 0 })).toBe(2);
+    expect(getLabelPriority({ isRoot: true, degree: 0 })).toBe(1);
+    expect(getLabelPriority({ degree: HUB_LABEL_MIN_DEGREE })).toBe(1);
+    expect(getLabelPriority({ degree: HUB_LABEL_MIN_DEGREE - 1 })).toBe(0);
+  });
+
+  it('keeps the higher-priority label when two collide', () => {
+    const placed = placeLabels([
+      { id: 'leaf', x: 100, y: 100, width: 60, height: 12, priority: 0 },
+      { id: 'hub', x: 120, y: 104, width: 60, height: 12, priority: 1008 },
+      { id: 'apart', x: 100, y: 140, width: 60, height: 12, priority: 0 },
+      { id: 'wide', x: 400, y: 100, width: 300, height: 12, priority: 0 },
+      { id: 'under-wide', x: 520, y: 102, width: 20, height: 10, priority: 0 },
+    ]);
+
+    expect([...placed].sort()).toEqual(['apart', 'hub', 'wide']);
+  });
+
+  it('culls circles and segments outside the padded viewport', () => {
+    const viewport = getViewportBox(800, 600, 50);
+
+    expect(isCircleInBox(400, 300, 10, viewport)).toBe(true);
+    expect(isCircleInBox(-55, 300, 10, viewport)).toBe(true);
+    expect(isCircleInBox(-100, 300, 10, viewport)).toBe(false);
+    // Both ends off screen, but the link crosses it.
+    expect(isSegmentInBox(-500, 300, 1500, 300, viewport)).toBe(true);
+    expect(isSegmentInBox(-500, -200, -100, 900, viewport)).toBe(false);
+  });
+});
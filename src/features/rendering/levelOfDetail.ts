@@ -0,0 +1,88 @@
+import { SpatialGrid } from './spatialGrid';
+
+/**
+ * Semantic zoom rules shared by the SVG and canvas renderers: which labels to
+ * draw, when thumbnails give way to plain colour dots, and what is far enough
+ * off screen to skip. Everything here works in screen pixels.
+ */
+
+/** Below this zoom only priority labels (roots, paths, focus, hubs) are drawn. */
+export const LABEL_ZOOM_THRESHOLD = 0.7;
+/** Below this zoom thumbnails and node decorations collapse to colour dots. */
+export const THUMBNAIL_ZOOM_THRESHOLD = 0.5;
+/** Nodes with at least this many links count as hubs and keep their label. */
+export const HUB_LABEL_MIN_DEGREE = 8;
+/** Elements this close to the edge are still drawn, so panning doesn't pop. */
+export const VIEWPORT_MARGIN_PX = 80;
+
+export type ScreenBox = { minX: number; minY: number; maxX: number; maxY: number };
+
+export type LabelCandidate = {
+  id: string;
+  /** Screen position of the label centre. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Higher wins when labels collide. */
+  priority: number;
+};
+
+export const getLabelPriority = (node: {
+  isFocus?: boolean;
+  isInPath?: boolean;
+  isRoot?: boolean;
+  degree: number;
+}) => {
+  if (node.isFocus) return 3;
+  if (node.isInPath) return 2;
+  if (node.isRoot || node.degree >= HUB_LABEL_MIN_DEGREE) return 1;
+  return 0;
+};
+
+/** The screen rectangle, widened by the viewport margin. */
+export const getViewportBox = (width: number, height: number, margin = VIEWPORT_MARGIN_PX): ScreenBox => ({
+  minX: -margin,
+  minY: -margin,
+  maxX: width + margin,
+  maxY: height + margin,
+});
+
+export const boxesOverlap = (a: ScreenBox, b: ScreenBox) =>
+  a.minX < b.maxX && b.minX < a.maxX && a.minY < b.maxY && b.minY < a.maxY;
+
+export const isCircleInBox = (x: number, y: number, radius: number, box: ScreenBox) =>
+  x + radius >= box.minX && x - radius <= box.maxX && y + radius >= box.minY && y - radius <= box.maxY;
+
+/** Bounding-box test; a segment crossing a corner may be kept, never dropped wrongly. */
+export const isSegmentInBox = (x1: number, y1: number, x2: number, y2: number, box: ScreenBox) =>
+  Math.max(x1, x2) >= box.minX && Math.min(x1, x2) <= box.maxX && Math.max(y1, y2) >= box.minY && Math.min(y1, y2) <= box.maxY;
+
+/**
+ * Greedy label placement: candidates are taken in priority order and a label
+ * is kept only if it doesn't overlap one already kept. Returns the ids kept.
+ */
+export function placeLabels(candidates: LabelCandidate[], padding = 2): Set<string> {
+  const placed = new Set<string>();
+  const boxes = new SpatialGrid<ScreenBox>(64);
+  const ordered = candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .sort((a, b) => b.candidate.priority - a.candidate.priority || a.index - b.index);
+
+  for (const { candidate } of ordered) {
+    const halfWidth = candidate.width / 2 + padding;
+    const halfHeight = candidate.height / 2 + padding;
+    const box = {
+      minX: candidate.x - halfWidth,
+      minY: candidate.y - halfHeight,
+      maxX: candidate.x + halfWidth,
+      maxY: candidate.y + halfHeight,
+    };
+    const nearby = boxes.query(candidate.x, candidate.y, Math.max(halfWidth, halfHeight));
+    if (nearby.some(other => boxesOverlap(box, other))) continue;
+    boxes.insertBox(box, box.minX, box.minY, box.maxX, box.maxY);
+    placed.add(candidate.id);
+  }
+
+  return placed;
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { SpatialGrid } from './spatialGrid';
+
+describe('SpatialGrid', () => {
+  it('returns items from the cells around a point without duplicates', () => {
+    const grid = new SpatialGrid<string>(100);
+    grid.insertBox('box', 10, 10, 250, 40);
+    grid.insertSegment('diagonal', 0, 0, 1000, 1000, 5);
+
+    expect(grid.query(220, 20).sort()).toEqual(['box']);
+    expect(grid.query(20, 20).sort()).toEqual(['box', 'diagonal']);
+    expect(grid.query(950, 940)).toEqual(['diagonal']);
+    // The diagonal's bounding box covers this corner, but the segment does not.
+    expect(grid.query(950, 50)).toEqual([]);
+  });
+});
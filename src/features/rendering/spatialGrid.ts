@@ -0,0 +1,69 @@
+/**
+ * Uniform grid over world coordinates for hit testing. Items are registered
+ * in every cell they touch; a point query returns the items of the cells
+ * around it, which callers then test exactly.
+ */
+export class SpatialGrid<T> {
+  private cells = new Map<string, T[]>();
+
+  constructor(private readonly cellSize: number) {}
+
+  private cellKey(column: number, row: number) {
+    return `${column}:${row}`;
+  }
+
+  private addToCell(column: number, row: number, item: T) {
+    const key = this.cellKey(column, row);
+    const cell = this.cells.get(key);
+    if (cell) {
+      if (cell[cell.length - 1] !== item) cell.push(item);
+    } else {
+      this.cells.set(key, [item]);
+    }
+  }
+
+  clear() {
+    this.cells.clear();
+  }
+
+  /** Registers an item under every cell its bounding box overlaps. */
+  insertBox(item: T, minX: number, minY: number, maxX: number, maxY: number) {
+    const c0 = Math.floor(minX / this.cellSize);
+    const c1 = Math.floor(maxX / this.cellSize);
+    const r0 = Math.floor(minY / this.cellSize);
+    const r1 = Math.floor(maxY / this.cellSize);
+    for (let column = c0; column <= c1; column++) {
+      for (let row = r0; row <= r1; row++) this.addToCell(column, row, item);
+    }
+  }
+
+  /**
+   * Registers a line segment under the cells it passes through, widened by
+   * `pad`. Long diagonals only touch the cells along them, not their whole
+   * bounding box.
+   */
+  insertSegment(item: T, x1: number, y1: number, x2: number, y2: number, pad = 0) {
+    const length = Math.hypot(x2 - x1, y2 - y1);
+    const steps = Math.max(1, Math.ceil(length / (this.cellSize / 2)));
+    for (let i = 0; i <= steps; i++) {
+      const x = x1 + ((x2 - x1) * i) / steps;
+      const y = y1 + ((y2 - y1) * i) / steps;
+      this.insertBox(item, x - pad, y - pad, x + pad, y + pad);
+    }
+  }
+
+  /** Items registered in any cell within `radius` of the point, without duplicates. */
+  query(x: number, y: number, radius = 0): T[] {
+    const found = new Set<T>();
+    const c0 = Math.floor((x - radius) / this.cellSize);
+    const c1 = Math.floor((x + radius) / this.cellSize);
+    const r0 = Math.floor((y - radius) / this.cellSize);
+    const r1 = Math.floor((y + radius) / this.cellSize);
+    for (let column = c0; column <= c1; column++) {
+      for (let row = r0; row <= r1; row++) {
+        this.cells.get(this.cellKey(column, row))?.forEach(item => found.add(item));
+      }
+    }
+    return Array.from(found);
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import {
+  LEAD_SECTION_KEY,
+  filterLinksBySections,
+  formatSectionSource,
+  summarizeSections,
+} from './sectionLinks';
+
+describe('sectionLinks', () => {
+  const links = [
+    { title: 'Charles Babbage', section: 'History' },
+    { title: 'Mathematics' },
+    { title: 'Analytical Engine', section: 'History' },
+    { title: 'Ada (programming language)', section: 'Legacy' },
+    { title: 'Poetry' },
+    { title: 'Mathematics', section: 'Legacy' },
+  ];
+
+  it('summarizes sections with the lead first and the rest in article order', () => {
+    expect(summarizeSections(links)).toEqual([
+      { key: LEAD_SECTION_KEY, label: 'Lead', linkCount: 2 },
+      { key: 'History', label: 'History', linkCount: 2 },
+      { key: 'Legacy', label: 'Legacy', linkCount: 2 },
+    ]);
+  });
+
+  it('keeps links from the chosen sections and labels where they came from', () => {
+    expect(filterLinksBySections(links, [LEAD_SECTION_KEY, 'Legacy']).map(link => link.title))
+      .toEqual(['Mathematics', 'Ada (programming language)', 'Poetry']);
+    expect(filterLinksBySections(links, ['Legacy']).map(link => link.title))
+      .toEqual(['Ada (programming language)', 'Mathematics']);
+    expect(formatSectionSource('Legacy')).toBe('from section: Legacy');
+    expect(formatSectionSource(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,46 @@
+import type { LinkWithContext } from '../../WikiService';
+
+/**
+ * Article sections as a filter for expansion. Links carry the heading they
+ * sit under, with h3 subsections as "Section › Subsection"; lead links carry
+ * none, so the lead gets an empty key here that no real heading can take.
+ */
+
+export type SectionSummary = {
+  key: string;
+  label: string;
+  linkCount: number;
+};
+
+export const LEAD_SECTION_KEY = '';
+
+export const getSectionKey = (link: LinkWithContext) => link.section ?? LEAD_SECTION_KEY;
+
+export const getSectionLabel = (section?: string) => section || 'Lead';
+
+/** "from section: History" for links that came from below the lead. */
+export const formatSectionSource = (section?: string) =>
+  section ? `from section: ${section}` : undefined;
+
+/** Sections that have links, lead first, then in article order. */
+export function summarizeSections(links: LinkWithContext[]): SectionSummary[] {
+  const counts = new Map<string, number>();
+  links.forEach((link) => {
+    const key = getSectionKey(link);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .sort(([a], [b]) => Number(b === LEAD_SECTION_KEY) - Number(a === LEAD_SECTION_KEY))
+    .map(([key, linkCount]) => ({ key, label: getSectionLabel(key), linkCount }));
+}
+
+/** Links from the chosen sections; a page linked from several keeps its first. */
+export const filterLinksBySections = (links: LinkWithContext[], sectionKeys: string[]) => {
+  const keys = new Set(sectionKeys);
+  const seen = new Set<string>();
+  return links.filter((link) => {
+    if (!keys.has(getSectionKey(link)) || seen.has(link.title)) return false;
+    seen.add(link.title);
+    return true;
+  });
+};
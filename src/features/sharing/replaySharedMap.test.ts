@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from 'vitest';
+import { replaySharedMap, type ReplayProgress } from './replaySharedMap';
+
+describe('replaySharedMap', () => {
+  it('replays seeds, expansions and paths in order and skips missing nodes', async () => {
+    const calls: string[] = [];
+    const progress: ReplayProgress[] = [];
+    const graph = new Set<string>();
+
+    const result = await replaySharedMap({
+      state: {
+        seeds: ['Physics', 'de.wikipedia|Energie'],
+        expanded: ['Energy', 'Gone'],
+        layoutMode: 'web',
+        paths: [['Physics', 'Music']],
+        wikiSources: [],
+      },
+      addTopic: async (title, source) => {
+        calls.push(`add:${source.id}:${title}`);
+        graph.add(title);
+        if (title === 'Physics') graph.add('Energy');
+        return title;
+      },
+      expandNode: async (nodeId) => { calls.push(`expand:${nodeId}`); },
+      findPath: async (start, end) => {
+        calls.push(`path:${start}→${end}`);
+        return { status: 'completed', foundPathCount: 1 };
+      },
+      hasNode: nodeId => graph.has(nodeId),
+      settle: vi.fn(async () => { calls.push('settle'); }),
+      isCancelled: () => false,
+      onProgress: p => progress.push(p),
+    });
+
+    expect(calls).toEqual([
+      'add:en.wikipedia:Physics', 'settle',
+      'add:de.wikipedia:Energie', 'settle',
+      'expand:Energy', 'settle',
+      'path:Physics→Music', 'settle',
+    ]);
+    expect(result).toEqual({ status: 'completed', skipped: ['Gone'] });
+    expect(progress.map(p => p.step)).toEqual([1, 2, 3, 4, 5]);
+    expect(progress.every(p => p.total === 5)).toBe(true);
+  });
+
+  it('stops when cancelled', async () => {
+    const addTopic = vi.fn(async (title: string) => title);
+    let cancelled = false;
+
+    const result = await replaySharedMap({
+      state: { seeds: ['A', 'B'], expanded: [], layoutMode: 'web', paths: [], wikiSources: [] },
+      addTopic,
+      expandNode: vi.fn(),
+      findPath: vi.fn(),
+      hasNode: () => true,
+      settle: async () => { cancelled = true; },
+      isCancelled: () => cancelled,
+      onProgress: () => {},
+    });
+
+    expect(result.status).toBe('aborted');
+    expect(addTopic).toHaveBeenCalledTimes(1);
+  });
+});
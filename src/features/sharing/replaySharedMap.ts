@@ -0,0 +1,86 @@
+import { getNodeSource, parseNodeId, type WikiSource } from '../../config/wikiSources';
+import type { PathfinderResult } from '../pathfinding/runPathfinder';
+import type { SharedMapState } from './shareUrl';
+
+export type ReplayProgress = {
+  step: number;
+  total: number;
+  label: string;
+};
+
+export type ReplayResult = {
+  status: 'completed' | 'aborted';
+  /** Node ids or path labels that could not be rebuilt. */
+  skipped: string[];
+};
+
+/**
+ * Rebuild a shared map one step at a time: seeds, then expansions in their
+ * original order, then path searches. Steps run strictly in sequence and
+ * `settle` is awaited between them so each step sees the graph the previous
+ * one produced, which keeps spawn positions and cross-links deterministic.
+ */
+export async function replaySharedMap(args: {
+  state: SharedMapState;
+  addTopic: (title: string, source: WikiSource) => Promise<string | undefined>;
+  expandNode: (nodeId: string) => Promise<void>;
+  findPath: (startTitle: string, endTitle: string, source: WikiSource) => Promise<PathfinderResult>;
+  hasNode: (nodeId: string) => boolean;
+  settle: () => Promise<void>;
+  isCancelled: () => boolean;
+  onProgress: (progress: ReplayProgress) => void;
+}): Promise<ReplayResult> {
+  const { state } = args;
+  const total = state.seeds.length + state.expanded.length + state.paths.length;
+  const skipped: string[] = [];
+  let step = 0;
+
+  const report = (label: string) => {
+    step += 1;
+    args.onProgress({ step, total, label });
+  };
+
+  for (const seedId of state.seeds) {
+    if (args.isCancelled()) return { status: 'aborted', skipped };
+    const { title } = parseNodeId(seedId);
+    report(`Adding ${title}`);
+    try {
+      await args.addTopic(title, getNodeSource(seedId));
+    } catch {
+      skipped.push(seedId);
+    }
+    await args.settle();
+  }
+
+  for (const nodeId of state.expanded) {
+    if (args.isCancelled()) return { status: 'aborted', skipped };
+    report(`Expanding ${parseNodeId(nodeId).title}`);
+    if (!args.hasNode(nodeId)) {
+      skipped.push(nodeId);
+      continue;
+    }
+    try {
+      await args.expandNode(nodeId);
+    } catch {
+      skipped.push(nodeId);
+    }
+    await args.settle();
+  }
+
+  for (const [startId, endId] of state.paths) {
+    if (args.isCancelled()) return { status: 'aborted', skipped };
+    const startTitle = parseNodeId(startId).title;
+    const endTitle = parseNodeId(endId).title;
+    report(`Finding path ${startTitle} → ${endTitle}`);
+    try {
+      const result = await args.findPath(startTitle, endTitle, getNodeSource(startId));
+      if (result.status === 'aborted') return { status: 'aborted', skipped };
+      if (result.status === 'not_found') skipped.push(`${startTitle} → ${endTitle}`);
+    } catch {
+      skipped.push(`${startTitle} → ${endTitle}`);
+    }
+    await args.settle();
+  }
+
+  return { status: 'completed', skipped };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WIKI_SOURCE, createCustomWikiSource } from '../../config/wikiSources';
+import {
+  buildShareHash,
+  decodeSharedMap,
+  encodeSharedMap,
+  readShareHash,
+  type SharedMapState,
+} from './shareUrl';
+
+describe('shareUrl', () => {
+  it('round-trips a shared map through the URL hash', async () => {
+    const source = createCustomWikiSource({ apiUrl: 'https://wiki.example.org/w/api.php' });
+    const state: SharedMapState = {
+      seeds: ['Physics', 'de.wikipedia|Energie'],
+      expanded: ['Energy', 'Physics'],
+      layoutMode: 'forest',
+      paths: [['Physics', 'Music']],
+      wikiSources: [source],
+    };
+
+    const encoded = await encodeSharedMap(state);
+    expect(encoded).toMatch(/^[a-z][A-Za-z0-9_-]+$/);
+
+    const hash = buildShareHash(encoded);
+    const fromHash = readShareHash(hash);
+    expect(fromHash).toBe(encoded);
+    expect(await decodeSharedMap(fromHash!)).toEqual(state);
+  });
+
+  it('rejects hashes that are not share links', async () => {
+    expect(readShareHash('#other=1')).toBeNull();
+    expect(await decodeSharedMap('q-not-a-payload')).toBeNull();
+    expect(await decodeSharedMap('jbm90IGpzb24')).toBeNull();
+
+    const noSeeds = await encodeSharedMap({ seeds: [], expanded: [], layoutMode: 'web', paths: [], wikiSources: [] });
+    expect(await decodeSharedMap(noSeeds)).toBeNull();
+
+    const hijack = await encodeSharedMap({
+      seeds: ['Physics'],
+      expanded: [],
+      layoutMode: 'web',
+      paths: [],
+      wikiSources: [{ ...DEFAULT_WIKI_SOURCE, apiUrl: 'https://evil.example/w/api.php' }],
+    });
+    expect(await decodeSharedMap(hijack)).toBeNull();
+  });
+
+  it('rejects corrupted deflated payloads', async () => {
+    const encoded = await encodeSharedMap({ seeds: ['Physics'], expanded: [], layoutMode: 'web', paths: [], wikiSources: [] });
+    expect(encoded.charAt(0)).toBe('z');
+
+    // An invalid block type, and a stream cut off partway.
+    expect(await decodeSharedMap('z_____w')).toBeNull();
+    expect(await decodeSharedMap(encoded.slice(0, -4))).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { checkImportedWikiSource, type WikiSource } from '../../config/wikiSources';
+import type { LayoutMode } from '../layout/layoutConfig';
+
+/**
+ * Shareable map URLs.
+ * Instead of the full snapshot, the hash carries the steps needed to rebuild a
+ * map: seed topics, expanded nodes (in the order they were opened), the layout
+ * and the endpoints of every found path. The JSON is deflated when the browser
+ * supports CompressionStream and always base64url-encoded, so it survives chat
+ * apps that mangle `+` and `/`.
+ */
+
+export const SHARE_HASH_KEY = 'map';
+export const SHARE_STATE_VERSION = 1;
+
+export type SharedMapState = {
+  seeds: string[];
+  expanded: string[];
+  layoutMode: LayoutMode;
+  /** Start and end node ids of each found path. */
+  paths: Array<[string, string]>;
+  /**
+   * Non-preset wiki sources referenced by the node ids above. Decoded sources
+   * are not registered; the opener asks before trusting unknown hosts.
+   */
+  wikiSources: WikiSource[];
+};
+
+type EncodedState = {
+  v: number;
+  s: string[];
+  e?: string[];
+  l?: LayoutMode;
+  p?: Array<[string, string]>;
+  w?: WikiSource[];
+};
+
+// One-character prefix so decoding knows whether the payload was deflated.
+const DEFLATE_PREFIX = 'z';
+const PLAIN_PREFIX = 'j';
+
+const canCompress = () =>
+  typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+const pipeBytes = async (bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream) => {
+  const writer = stream.writable.getWriter();
+  // Awaited together so a corrupt payload rejects here instead of leaving the write unhandled.
+  const [, buffer] = await Promise.all([
+    writer.write(bytes).then(() => writer.close()),
+    new Response(stream.readable).arrayBuffer(),
+  ]);
+  return new Uint8Array(buffer);
+};
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isLayoutMode = (value: unknown): value is LayoutMode =>
+  value === 'web' || value === 'forest' || value === 'structured';
+
+export const encodeSharedMap = async (state: SharedMapState): Promise<string> => {
+  const payload: EncodedState = { v: SHARE_STATE_VERSION, s: state.seeds, l: state.layoutMode };
+  if (state.expanded.length > 0) payload.e = state.expanded;
+  if (state.paths.length > 0) payload.p = state.paths;
+  if (state.wikiSources.length > 0) payload.w = state.wikiSources;
+
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  if (!canCompress()) return PLAIN_PREFIX + toBase64Url(bytes);
+  return DEFLATE_PREFIX + toBase64Url(await pipeBytes(bytes, new CompressionStream('deflate-raw')));
+};
+
+/**
+ * Decode a payload produced by encodeSharedMap. Returns null for anything that
+ * isn't a usable share link rather than throwing, since it comes from a URL.
+ */
+export const decodeSharedMap = async (encoded: string): Promise<SharedMapState | null> => {
+  try {
+    const prefix = encoded.charAt(0);
+    let bytes = fromBase64Url(encoded.slice(1));
+    if (prefix === DEFLATE_PREFIX) {
+      if (!canCompress()) return null;
+      bytes = await pipeBytes(bytes, new DecompressionStream('deflate-raw'));
+    } else if (prefix !== PLAIN_PREFIX) {
+      return null;
+    }
+
+    const raw = JSON.parse(new TextDecoder().decode(bytes)) as Partial<EncodedState>;
+    if (!raw || raw.v !== SHARE_STATE_VERSION || !isStringArray(raw.s) || raw.s.length === 0) return null;
+
+    const paths = Array.isArray(raw.p)
+      ? raw.p.filter((pair): pair is [string, string] => isStringArray(pair) && pair.length === 2)
+      : [];
+    const wikiSources = Array.isArray(raw.w)
+      ? raw.w.filter((source): source is WikiSource => Boolean(source)
+        && typeof source.id === 'string'
+        && typeof source.displayName === 'string'
+        && typeof source.language === 'string'
+        && typeof source.apiUrl === 'string'
+        && typeof source.articleUrl === 'string')
+      : [];
+    // Sources that would replace a registered one (or drop https) make the
+    // link unusable; unknown hosts are left for the user to allow.
+    if (wikiSources.some(source => checkImportedWikiSource(source).status === 'rejected')) return null;
+
+    return {
+      seeds: raw.s,
+      expanded: isStringArray(raw.e) ? raw.e : [],
+      layoutMode: isLayoutMode(raw.l) ? raw.l : 'web',
+      paths,
+      wikiSources,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Pull the share payload out of a location hash such as `#map=z…`.
+ */
+export const readShareHash = (hash: string): string | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const value = params.get(SHARE_HASH_KEY);
+  return value && value.length > 1 ? value : null;
+};
+
+export const buildShareHash = (encoded: string) => `#${SHARE_HASH_KEY}=${encoded}`;
@@ -1,6 +1,11 @@
 import type { GraphStateSnapshot, NodeMetadata } from '../../GraphManager';
 
-type StructuredLayoutResult = {
+export type StructuredLayoutInput = {
+  snapshot: GraphStateSnapshot;
+  preferredRootOrder?: string[];
+};
+
+export type StructuredLayoutResult = {
   positions: Map<string, { x: number; y: number }>;
   hiddenNodeIds: Set<string>;
   rootIds: string[];
@@ -37,10 +42,7 @@ const sortByPreferredOrder = (preferredOrder: string[]) => {
 export const computeStructuredLayout = ({
   snapshot,
   preferredRootOrder = [],
-}: {
-  snapshot: GraphStateSnapshot;
-  preferredRootOrder?: string[];
-}): StructuredLayoutResult => {
+}: StructuredLayoutInput): StructuredLayoutResult => {
   const nodeIds = snapshot.nodes.map((node) => node.id);
   const idSet = new Set(nodeIds);
   const metadataById = snapshot.nodeMetadata || {};
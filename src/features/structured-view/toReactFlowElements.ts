@@ -1,6 +1,6 @@
 import { MarkerType, Position, type Edge, type Node } from '@xyflow/react';
 import type { GraphStateSnapshot, Node as GraphNode, NodeMetadata } from '../../GraphManager';
-import { computeStructuredLayout } from './structuredLayout';
+import type { StructuredLayoutResult } from './structuredLayout';
 
 export type StructuredFlowNodeData = {
   title: string;
@@ -38,24 +38,20 @@ export const toStructuredFlowElements = ({
   clickedNodeId,
   pathSelectedNodeIds,
   showCrossLinks,
-  preferredRootOrder,
+  layout,
 }: {
   snapshot: GraphStateSnapshot;
   nodeDescriptions: Record<string, string>;
   clickedNodeId: string | null;
   pathSelectedNodeIds: Set<string>;
   showCrossLinks: boolean;
-  preferredRootOrder: string[];
+  /** From computeStructuredLayout; nodes it has no position for are left out. */
+  layout: StructuredLayoutResult;
 }): {
   nodes: StructuredFlowNode[];
   edges: Edge[];
   sourceNodesById: Record<string, GraphNode>;
 } => {
-  const layout = computeStructuredLayout({
-    snapshot,
-    preferredRootOrder,
-  });
-
   const visibleNodeIds = new Set(
     snapshot.nodes
       .map((node) => node.id)
@@ -101,7 +97,7 @@ export const toStructuredFlowElements = ({
         selectable: true,
         data: {
           title: node.title,
-          subtitle: nodeDescriptions[node.title],
+          subtitle: nodeDescriptions[node.id],
           degree: degreeById.get(node.id) || 0,
           depth: meta.layoutDepth ?? meta.originDepth ?? 0,
           role,
@@ -1,7 +1,7 @@
 import { act } from 'react';
 import { createRoot, type Root } from 'react-dom/client';
 import { afterEach, describe, expect, it, vi } from 'vitest';
-import type { GraphManager, GraphStateSnapshot, NodeMetadata } from '../GraphManager';
+import type { GraphManager, GraphStateSnapshot, Link, Node as GraphNode, NodeMetadata } from '../GraphManager';
 import type { UpdateQueue } from '../UpdateQueue';
 import { WikiService } from '../WikiService';
 import { useGraphState } from './useGraphState';
@@ -187,6 +187,7 @@ describe('useGraphState', () => {
       Array.from({ length: 10 }, (_, index) => `Backlink ${index + 1}`)
     );
     vi.spyOn(WikiService, 'getCachedNodes').mockReturnValue([]);
+    vi.spyOn(WikiService, 'fetchDisambiguationFlags').mockResolvedValue(new Map());
 
     act(() => {
       current.graphManagerRef.current = graphManagerFns as unknown as GraphManager;
@@ -205,4 +206,112 @@ describe('useGraphState', () => {
 
     rendered.unmount();
   });
+
+  it('hands a disambiguation seed to the chooser instead of adding its links', async () => {
+    const rendered = renderUseGraphStateHook();
+    const current = rendered.getCurrent();
+    const queueUpdate = vi.fn();
+    const onDisambiguation = vi.fn();
+
+    vi.spyOn(WikiService, 'resolveTitle').mockResolvedValue('Mercury');
+    vi.spyOn(WikiService, 'fetchLinks').mockResolvedValue([{ title: 'Mercury (planet)' }, { title: 'Mercury (element)' }]);
+    vi.spyOn(WikiService, 'fetchSummary').mockResolvedValue({ title: 'Mercury', extract: '', summary: '' });
+    vi.spyOn(WikiService, 'fetchCategories').mockResolvedValue([]);
+    vi.spyOn(WikiService, 'fetchDisambiguationFlags').mockResolvedValue(new Map([['Mercury', true]]));
+
+    act(() => {
+      current.graphManagerRef.current = { getNodeIds: vi.fn(() => []) } as unknown as GraphManager;
+      current.updateQueueRef.current = { queueUpdate } as unknown as UpdateQueue;
+    });
+
+    let result: string | undefined = 'unset';
+    await act(async () => {
+      result = await rendered.getCurrent().addTopic('mercury', false, undefined, undefined, undefined, onDisambiguation);
+    });
+
+    expect(result).toBeUndefined();
+    expect(onDisambiguation).toHaveBeenCalledWith('Mercury', expect.objectContaining({ id: expect.any(String) }));
+    expect(queueUpdate).not.toHaveBeenCalled();
+
+    rendered.unmount();
+  });
+
+  it('drops a disambiguation seed whose lookup outlives a graph reset', async () => {
+    const rendered = renderUseGraphStateHook();
+    const current = rendered.getCurrent();
+    const onDisambiguation = vi.fn();
+    let resolveFlags: (flags: Map<string, boolean>) => void = () => {};
+
+    vi.spyOn(WikiService, 'resolveTitle').mockResolvedValue('Mercury');
+    vi.spyOn(WikiService, 'fetchLinks').mockResolvedValue([{ title: 'Mercury (planet)' }]);
+    vi.spyOn(WikiService, 'fetchSummary').mockResolvedValue({ title: 'Mercury', extract: '', summary: '' });
+    vi.spyOn(WikiService, 'fetchCategories').mockResolvedValue([]);
+    vi.spyOn(WikiService, 'fetchDisambiguationFlags').mockImplementation(() =>
+      new Promise(resolve => { resolveFlags = resolve; }));
+
+    act(() => {
+      current.graphManagerRef.current = { getNodeIds: vi.fn(() => []), clear: vi.fn() } as unknown as GraphManager;
+      current.updateQueueRef.current = { queueUpdate: vi.fn(), clear: vi.fn() } as unknown as UpdateQueue;
+    });
+
+    let pending: Promise<string | undefined> = Promise.resolve(undefined);
+    act(() => {
+      pending = rendered.getCurrent().addTopic('mercury', false, undefined, undefined, undefined, onDisambiguation);
+    });
+    await act(async () => {
+      await vi.waitFor(() => expect(WikiService.fetchDisambiguationFlags).toHaveBeenCalled());
+      rendered.getCurrent().resetGraphState();
+      resolveFlags(new Map([['Mercury', true]]));
+      await pending;
+    });
+
+    expect(onDisambiguation).not.toHaveBeenCalled();
+
+    rendered.unmount();
+  });
+
+  it('ranks backlinks reciprocal through links beyond the lead and leaves outgoing links to their own slots', async () => {
+    const rendered = renderUseGraphStateHook();
+    const current = rendered.getCurrent();
+    const outlinks = ['Outlink 1', 'Outlink 2', 'Outlink 3'];
+    const incoming = Array.from({ length: 40 }, (_, index) => `Incoming ${index + 1}`);
+    const setError = vi.fn();
+    const queueUpdate = vi.fn();
+
+    vi.spyOn(WikiService, 'fetchLinks').mockResolvedValue(outlinks.map(title => ({ title })));
+    // 'Deep link' is linked from further down the page than the lead links offered here.
+    vi.spyOn(WikiService, 'fetchLinksBatch').mockResolvedValue(new Map([['Physics', [...outlinks, 'Deep link']]]));
+    vi.spyOn(WikiService, 'fetchBacklinks').mockResolvedValue([...outlinks, ...incoming, 'Deep link']);
+    vi.spyOn(WikiService, 'fetchCategories').mockResolvedValue([]);
+    const fetchCategoriesBatch = vi.spyOn(WikiService, 'fetchCategoriesBatch').mockResolvedValue(new Map());
+    vi.spyOn(WikiService, 'fetchLinksAmong').mockResolvedValue(new Map());
+    vi.spyOn(WikiService, 'fetchDisambiguationFlags').mockResolvedValue(new Map());
+
+    act(() => {
+      current.graphManagerRef.current = {
+        getNodeIds: vi.fn(() => ['Physics']),
+        getNodeDegree: vi.fn(() => 0),
+        getNodeMetadata: vi.fn(() => undefined),
+        getNodePosition: vi.fn(() => ({ x: 0, y: 0 })),
+        getStateSnapshot: vi.fn(() => ({ nodes: [], links: [], nodeMetadata: {} })),
+      } as unknown as GraphManager;
+      current.updateQueueRef.current = { queueUpdate } as unknown as UpdateQueue;
+    });
+
+    await act(async () => {
+      await rendered.getCurrent().expandNode('Physics', true, undefined, setError);
+    });
+
+    expect(setError).not.toHaveBeenCalled();
+    // Reciprocal backlinks, lead outlinks included, are scored first.
+    expect(fetchCategoriesBatch.mock.calls[0][0].slice(0, 4)).toEqual([...outlinks, 'Deep link']);
+    const [nodes, links] = queueUpdate.mock.calls[0] as [GraphNode[], Link[]];
+    const backlinkSources = links.filter(link => link.target === 'Physics').map(link => link.source);
+    expect(backlinkSources[0]).toBe('Deep link');
+    expect(backlinkSources.filter(backlinkSource => outlinks.includes(String(backlinkSource)))).toEqual([]);
+    expect(nodes.map(node => node.title)).toEqual(expect.arrayContaining([...outlinks, 'Deep link']));
+    expect(rendered.getCurrent().nodeBacklinkCounts).toEqual({ Physics: 44 });
+
+    rendered.unmount();
+  });
 });
@@ -1,7 +1,24 @@
 import { useState, useRef } from 'react';
 import { GraphManager, Node as GraphNode, Link, GraphStateSnapshot } from '../GraphManager';
 import { UpdateQueue } from '../UpdateQueue';
-import { WikiService, LinkWithContext } from '../WikiService';
+import { WikiService, LinkWithContext, type LangLink } from '../WikiService';
+import {
+    CATEGORY_MEMBER_LIMIT,
+    findCategoryMembersOnMap,
+    getCategoryName,
+    getNodeKind,
+    toCategoryTitle,
+    type CategoryRelation,
+} from '../features/categories/categoryNodes';
+import { BACKLINK_COUNT_LIMIT, BACKLINK_SAMPLE_SIZE, rankBacklinkSample } from '../features/backlinks/backlinkRanking';
+import { filterLinksBySections } from '../features/sections/sectionLinks';
+import {
+    getLanguageEditionSource,
+    getNodeSource,
+    parseNodeId,
+    toNodeId,
+    type WikiSource,
+} from '../config/wikiSources';
 
 export type AppSnapshot = {
     graph: GraphStateSnapshot;
@@ -17,6 +34,21 @@ export type AppSnapshot = {
 
 const INITIAL_SEED_OUTGOING_LIMIT = 9;
 const INITIAL_SEED_BACKLINK_LIMIT = 3;
+// Backlinks added with a topic; the full fetch is only counted.
+const SEED_BACKLINK_LIMIT = 25;
+// New nodes per category action, like an article expansion.
+const CATEGORY_EXPANSION_LIMIT = 15;
+// Ranked backlinks offered to an expansion, from a much wider sample.
+const EXPAND_BACKLINK_LIMIT = 30;
+
+const createCategoryLink = (memberId: string, categoryId: string, layoutRole: Link['layoutRole']): Link => ({
+    source: memberId,
+    target: categoryId,
+    id: `${memberId}-${categoryId}`,
+    type: 'category',
+    context: `“${getCategoryName(parseNodeId(memberId).title)}” is in ${parseNodeId(categoryId).title}.`,
+    layoutRole,
+});
 
 export const useGraphState = () => {
     const getRadialSpawnPosition = (
@@ -84,6 +116,8 @@ export const useGraphState = () => {
     const redoStackRef = useRef<AppSnapshot[]>([]);
     const suppressHistoryRef = useRef(false);
     const MAX_HISTORY = 30;
+    // Bumped on every history change so the app can autosave after mutations settle.
+    const [historyRevision, setHistoryRevision] = useState(0);
 
     const createSnapshot = (): AppSnapshot | null => {
         if (!graphManagerRef.current) return null;
@@ -107,6 +141,7 @@ export const useGraphState = () => {
         undoStackRef.current.push(snap);
         if (undoStackRef.current.length > MAX_HISTORY) undoStackRef.current.shift();
         redoStackRef.current = [];
+        setHistoryRevision(rev => rev + 1);
     };
 
     const restoreSnapshot = (snap: AppSnapshot) => {
@@ -166,6 +201,7 @@ export const useGraphState = () => {
         const current = createSnapshot();
         if (current) redoStackRef.current.push(current);
         restoreSnapshot(prev);
+        setHistoryRevision(rev => rev + 1);
     };
 
     const redo = () => {
@@ -174,6 +210,7 @@ export const useGraphState = () => {
         const current = createSnapshot();
         if (current) undoStackRef.current.push(current);
         restoreSnapshot(next);
+        setHistoryRevision(rev => rev + 1);
     };
 
     const cleanupDeletedNodeIds = (ids: Iterable<string>) => {
@@ -211,7 +248,31 @@ export const useGraphState = () => {
 
     // --- Logic ---
 
-    const addTopic = async (title: string, includeBacklinks: boolean, setLoading?: (v: boolean) => void, setError?: (v: string) => void) => {
+    // Linked pages can be disambiguation pages too; mark them once the check comes back.
+    const markDisambiguationNodes = (nodeIds: string[], source: WikiSource, epoch: number) => {
+        if (nodeIds.length === 0) return;
+        void WikiService.fetchDisambiguationFlags(nodeIds.map(id => parseNodeId(id).title), source).then((flags) => {
+            if (epoch !== mutationEpochRef.current || !graphManagerRef.current) return;
+            const updates = nodeIds
+                .filter(id => flags.get(parseNodeId(id).title))
+                .map(nodeId => ({ nodeId, metadata: { isDisambiguation: true } }));
+            if (updates.length > 0) graphManagerRef.current.setNodesMetadata(updates);
+        });
+    };
+
+    /**
+     * Seeds a topic. A disambiguation page is handed to `onDisambiguation`
+     * so the user can pick a meaning; without one it is added on its own,
+     * since its links are every meaning at once.
+     */
+    const addTopic = async (
+        title: string,
+        includeBacklinks: boolean,
+        setLoading?: (v: boolean) => void,
+        setError?: (v: string) => void,
+        source: WikiSource = WikiService.getActiveSource(),
+        onDisambiguation?: (title: string, source: WikiSource) => void
+    ) => {
         if (!title.trim()) {
             if (setError) setError('Please enter a topic');
             return;
@@ -223,62 +284,74 @@ export const useGraphState = () => {
         const epoch = mutationEpochRef.current;
 
         try {
-            const resolvedTitle = await WikiService.resolveTitle(title);
-            const [links, summaryData, categories, backlinks] = await Promise.all([
-                WikiService.fetchLinks(resolvedTitle),
-                WikiService.fetchSummary(resolvedTitle),
-                WikiService.fetchCategories(resolvedTitle).catch(() => []),
-                includeBacklinks ? WikiService.fetchBacklinks(resolvedTitle, 25) : Promise.resolve([]),
+            const resolvedTitle = await WikiService.resolveTitle(title, source);
+            const rootId = toNodeId(resolvedTitle, source);
+            const [links, summaryData, categories, backlinks, disambiguationFlags] = await Promise.all([
+                WikiService.fetchLinks(resolvedTitle, source),
+                WikiService.fetchSummary(resolvedTitle, source),
+                WikiService.fetchCategories(resolvedTitle, 50, source).catch(() => []),
+                includeBacklinks ? WikiService.fetchBacklinks(resolvedTitle, BACKLINK_COUNT_LIMIT, source) : Promise.resolve([]),
+                WikiService.fetchDisambiguationFlags([resolvedTitle], source),
             ]);
-
             if (epoch !== mutationEpochRef.current) return resolvedTitle;
+
+            const isDisambiguation = disambiguationFlags.get(resolvedTitle) === true;
+            if (isDisambiguation && onDisambiguation) {
+                onDisambiguation(resolvedTitle, source);
+                return undefined;
+            }
+
             pushHistory();
 
             if (summaryData.thumbnail) {
-                setNodeThumbnails(prev => ({ ...prev, [resolvedTitle]: summaryData.thumbnail! }));
+                setNodeThumbnails(prev => ({ ...prev, [rootId]: summaryData.thumbnail! }));
             }
             if (summaryData.description) {
-                setNodeDescriptions(prev => ({ ...prev, [resolvedTitle]: summaryData.description! }));
-                graphManagerRef.current?.setNodeMetadata(resolvedTitle, { colorSeed: summaryData.description });
+                setNodeDescriptions(prev => ({ ...prev, [rootId]: summaryData.description! }));
+                graphManagerRef.current?.setNodeMetadata(rootId, { colorSeed: summaryData.description });
             }
             if (categories.length > 0) {
-                setNodeCategories(prev => ({ ...prev, [resolvedTitle]: categories }));
+                setNodeCategories(prev => ({ ...prev, [rootId]: categories }));
             }
             if (includeBacklinks) {
-                setNodeBacklinkCounts(prev => ({ ...prev, [resolvedTitle]: backlinks.length }));
+                setNodeBacklinkCounts(prev => ({ ...prev, [rootId]: backlinks.length }));
             }
 
-            setUserTypedNodes(prev => new Set([...prev, resolvedTitle]));
-            graphManagerRef.current?.setNodeMetadata(resolvedTitle, {
-                originSeed: resolvedTitle,
+            setUserTypedNodes(prev => new Set([...prev, rootId]));
+            graphManagerRef.current?.setNodeMetadata(rootId, {
+                originSeed: rootId,
                 originDepth: 0,
                 colorRole: 'root',
-                treeId: resolvedTitle,
+                treeId: rootId,
                 layoutDepth: 0,
                 primaryParentId: undefined,
             });
             const existingNodeCount = graphManagerRef.current?.getNodeIds().length || 0;
             const existingRootCount = userTypedNodes.size;
             const isInitialSeed = existingNodeCount === 0;
-            const visibleLinks = isInitialSeed ? links.slice(0, INITIAL_SEED_OUTGOING_LIMIT) : links;
-            const visibleBacklinks = isInitialSeed ? backlinks.slice(0, INITIAL_SEED_BACKLINK_LIMIT) : backlinks;
+            const visibleLinks = isDisambiguation ? [] : isInitialSeed ? links.slice(0, INITIAL_SEED_OUTGOING_LIMIT) : links;
+            const visibleBacklinks = isDisambiguation
+                ? []
+                : backlinks.slice(0, isInitialSeed ? INITIAL_SEED_BACKLINK_LIMIT : SEED_BACKLINK_LIMIT);
             const viewportCenter = graphManagerRef.current?.getViewportCenter() || { x: 0, y: 0 };
             const rootPosition = getRootSeedPosition(viewportCenter, existingRootCount, existingRootCount + 1);
             const spawnCount = Math.max(visibleLinks.length + visibleBacklinks.length, 1);
             let spawnIndex = 0;
 
             const newNodes: GraphNode[] = [{
-                id: resolvedTitle,
+                id: rootId,
                 title: resolvedTitle,
                 x: rootPosition.x,
                 y: rootPosition.y,
                 metadata: {
-                    originSeed: resolvedTitle,
+                    originSeed: rootId,
                     originDepth: 0,
                     colorRole: 'root',
-                    treeId: resolvedTitle,
+                    treeId: rootId,
                     layoutDepth: 0,
                     primaryParentId: undefined,
+                    wikiSourceId: source.id,
+                    isDisambiguation: isDisambiguation || undefined,
                 }
             }];
             const newLinks: Link[] = [];
@@ -287,25 +360,27 @@ export const useGraphState = () => {
             visibleLinks.forEach((linkObj: LinkWithContext) => {
                 const position = getRadialSpawnPosition(rootPosition, spawnIndex, spawnCount, 130);
                 spawnIndex++;
+                const childId = toNodeId(linkObj.title, source);
                 newNodes.push({
-                    id: linkObj.title,
+                    id: childId,
                     title: linkObj.title,
                     x: position.x,
                     y: position.y,
                     metadata: {
-                        originSeed: resolvedTitle,
+                        originSeed: rootId,
                         originDepth: 1,
                         colorRole: 'child',
-                        treeId: resolvedTitle,
+                        treeId: rootId,
                         layoutDepth: 1,
-                        primaryParentId: resolvedTitle,
+                        primaryParentId: rootId,
+                        wikiSourceId: source.id,
                     }
                 });
-                newAutoDiscovered.add(linkObj.title);
+                newAutoDiscovered.add(childId);
                 newLinks.push({
-                    source: resolvedTitle,
-                    target: linkObj.title,
-                    id: `${resolvedTitle}-${linkObj.title}`,
+                    source: rootId,
+                    target: childId,
+                    id: `${rootId}-${childId}`,
                     type: 'manual',
                     context: linkObj.context,
                     layoutRole: 'primary',
@@ -316,25 +391,27 @@ export const useGraphState = () => {
                 if (!blTitle || blTitle === resolvedTitle) return;
                 const position = getRadialSpawnPosition(rootPosition, spawnIndex, spawnCount, 130);
                 spawnIndex++;
+                const backlinkId = toNodeId(blTitle, source);
                 newNodes.push({
-                    id: blTitle,
+                    id: backlinkId,
                     title: blTitle,
                     x: position.x,
                     y: position.y,
                     metadata: {
-                        originSeed: resolvedTitle,
+                        originSeed: rootId,
                         originDepth: 1,
                         colorRole: 'child',
-                        treeId: resolvedTitle,
+                        treeId: rootId,
                         layoutDepth: 1,
-                        primaryParentId: resolvedTitle,
+                        primaryParentId: rootId,
+                        wikiSourceId: source.id,
                     }
                 });
-                newAutoDiscovered.add(blTitle);
+                newAutoDiscovered.add(backlinkId);
                 newLinks.push({
-                    source: blTitle,
-                    target: resolvedTitle,
-                    id: `${blTitle}-${resolvedTitle}`,
+                    source: backlinkId,
+                    target: rootId,
+                    id: `${backlinkId}-${rootId}`,
                     type: 'backlink',
                     layoutRole: 'primary',
                 });
@@ -347,12 +424,13 @@ export const useGraphState = () => {
             WikiService.getCachedNodes().forEach(existingNodeId => {
                 if (!graphNodeIds.has(existingNodeId)) return;
                 const cachedLinks = WikiService.getLinksFromCache(existingNodeId);
+                if (getNodeSource(existingNodeId).id !== source.id) return;
                 const match = cachedLinks?.find(l => l.title === resolvedTitle);
                 if (match) {
                     newLinks.push({
                         source: existingNodeId,
-                        target: resolvedTitle,
-                        id: `${existingNodeId}-${resolvedTitle}`,
+                        target: rootId,
+                        id: `${existingNodeId}-${rootId}`,
                         type: 'auto',
                         context: match.context,
                         layoutRole: 'cross',
@@ -362,6 +440,7 @@ export const useGraphState = () => {
 
             if (epoch !== mutationEpochRef.current) return resolvedTitle;
             updateQueueRef.current.queueUpdate(newNodes, newLinks);
+            markDisambiguationNodes(Array.from(newAutoDiscovered), source, epoch);
 
             return resolvedTitle;
         } catch (err: any) {
@@ -417,44 +496,97 @@ export const useGraphState = () => {
         }
     };
 
-    const expandNode = async (title: string, includeBacklinks: boolean, setLoading?: (v: boolean) => void, setError?: (v: string) => void) => {
-        if (expandedNodes.has(title)) {
-            setExpandedNodes(prev => { const s = new Set(prev); s.delete(title); return s; });
+    /**
+     * Grow the map from a node's links. With `sectionKeys` the links come from
+     * those sections of the full article (see sectionLinks) rather than the
+     * lead, and an already expanded node is expanded further instead of being
+     * toggled back.
+     */
+    const expandNode = async (
+        nodeId: string,
+        includeBacklinks: boolean,
+        setLoading?: (v: boolean) => void,
+        setError?: (v: string) => void,
+        sectionKeys?: string[]
+    ) => {
+        if (!sectionKeys && expandedNodes.has(nodeId)) {
+            setExpandedNodes(prev => { const s = new Set(prev); s.delete(nodeId); return s; });
+            return;
+        }
+        if (getNodeKind(nodeId) === 'category') return expandCategory(nodeId, 'members', setLoading, setError);
+        if (graphManagerRef.current?.getNodeMetadata(nodeId)?.isDisambiguation) {
+            if (setError) setError(`${parseNodeId(nodeId).title} is a disambiguation page. Pick one of its meanings instead.`);
             return;
         }
         if (setLoading) setLoading(true);
 
         const epoch = mutationEpochRef.current;
+        // Expansions stay within the wiki the node came from.
+        const { title } = parseNodeId(nodeId);
+        const source = getNodeSource(nodeId);
 
         try {
-            const [linksWithContext, backlinks, categories] = await Promise.all([
-                WikiService.fetchLinks(title),
-                includeBacklinks ? WikiService.fetchBacklinks(title, 30) : Promise.resolve([]),
-                WikiService.fetchCategories(title).catch(() => []),
+            const [linksWithContext, backlinkSample, categories, pageLinks] = await Promise.all([
+                sectionKeys
+                    ? WikiService.fetchSectionLinks(title, source).then(links => filterLinksBySections(links, sectionKeys))
+                    : WikiService.fetchLinks(title, source),
+                includeBacklinks ? WikiService.fetchBacklinks(title, BACKLINK_SAMPLE_SIZE, source) : Promise.resolve([]),
+                WikiService.fetchCategories(title, 50, source).catch(() => []),
+                // Reciprocity is judged on every link the page has, not only the ones offered here.
+                includeBacklinks
+                    ? WikiService.fetchLinksBatch([title], source).then(links => links.get(title) ?? [])
+                    : Promise.resolve([]),
             ]);
+            const outSet = new Set(linksWithContext.map(l => l.title));
+
+            const mapTitles = (graphManagerRef.current?.getNodeIds() || [])
+                .filter(id => id !== nodeId && getNodeSource(id).id === source.id && getNodeKind(id) === 'page')
+                .sort((a, b) => (graphManagerRef.current?.getNodeDegree(b) || 0) - (graphManagerRef.current?.getNodeDegree(a) || 0))
+                .map(id => parseNodeId(id).title);
+            // Backlinks already offered as outgoing links are dropped after
+            // ranking, so they don't take incoming slots.
+            const rankedBacklinks = includeBacklinks
+                ? (await rankBacklinkSample(backlinkSample.filter(t => t !== title), {
+                    outgoingTitles: new Set([...outSet, ...pageLinks]),
+                    categories: categories.length > 0 ? categories : (nodeCategories[nodeId] || []),
+                    mapTitles,
+                    source,
+                })).filter(backlink => !outSet.has(backlink.title)).slice(0, EXPAND_BACKLINK_LIMIT)
+                : [];
 
             if (epoch !== mutationEpochRef.current) return;
             pushHistory();
 
             const gm = graphManagerRef.current;
-            const originMeta = gm?.getNodeMetadata(title);
-            const originSeed = originMeta?.originSeed || title;
+            const originMeta = gm?.getNodeMetadata(nodeId);
+            const originSeed = originMeta?.originSeed || nodeId;
             const treeId = originMeta?.treeId || originSeed;
             const originDepthBase = originMeta?.originDepth ?? 0;
             const layoutDepthBase = originMeta?.layoutDepth ?? originDepthBase;
             const existingGraphNodeIds = new Set(gm?.getNodeIds() || []);
-            const originPosition = gm?.getNodePosition(title) || gm?.getViewportCenter() || { x: 0, y: 0 };
+            const originPosition = gm?.getNodePosition(nodeId) || gm?.getViewportCenter() || { x: 0, y: 0 };
+
+            // A page may already be on the map under an alias (maps saved before
+            // links were folded); reuse that node rather than adding a twin.
+            const mapIdByCanonicalTitle = new Map<string, string>();
+            existingGraphNodeIds.forEach((id) => {
+                if (getNodeSource(id).id !== source.id) return;
+                mapIdByCanonicalTitle.set(WikiService.getCanonicalTitle(parseNodeId(id).title, source), id);
+            });
+            const candidateIdFor = (candidateTitle: string) =>
+                mapIdByCanonicalTitle.get(candidateTitle) ?? toNodeId(candidateTitle, source);
 
-            if (categories.length > 0) setNodeCategories(prev => ({ ...prev, [title]: categories }));
-            if (includeBacklinks) setNodeBacklinkCounts(prev => ({ ...prev, [title]: backlinks.length }));
+            if (categories.length > 0) setNodeCategories(prev => ({ ...prev, [nodeId]: categories }));
+            if (includeBacklinks) {
+                setNodeBacklinkCounts(prev => ({ ...prev, [nodeId]: backlinkSample.length }));
+            }
 
-            const boldSet = new Set(WikiService.getBoldLinkTitlesFromCache(title) || []);
-            const backlinkSet = new Set(backlinks);
-            const outSet = new Set(linksWithContext.map(l => l.title));
+            const boldSet = new Set(WikiService.getBoldLinkTitlesFromCache(nodeId) || []);
+            const backlinkSet = new Set(backlinkSample);
 
-            const sourceCategories = categories.length > 0 ? categories : (nodeCategories[title] || []);
+            const sourceCategories = categories.length > 0 ? categories : (nodeCategories[nodeId] || []);
             const sharedCategoryCount = (candidateTitle: string) => {
-                const candidateCategories = nodeCategories[candidateTitle];
+                const candidateCategories = nodeCategories[toNodeId(candidateTitle, source)];
                 if (!candidateCategories || candidateCategories.length === 0) return 0;
                 if (!sourceCategories || sourceCategories.length === 0) return 0;
                 const set = new Set(candidateCategories);
@@ -465,45 +597,49 @@ export const useGraphState = () => {
                 return count;
             };
 
-            type Candidate = { title: string; direction: 'out' | 'in'; context?: string; isBold: boolean; isBidirectional: boolean; sharedCats: number };
+            type Candidate = { id: string; title: string; direction: 'out' | 'in'; context?: string; section?: string; isBold: boolean; isBidirectional: boolean; sharedCats: number; mapOverlap: number };
             const candidates: Candidate[] = [];
 
             linksWithContext.forEach(linkObj => {
                 const candidateTitle = linkObj.title;
                 if (!candidateTitle || candidateTitle === title) return;
                 candidates.push({
+                    id: candidateIdFor(candidateTitle),
                     title: candidateTitle,
                     direction: 'out',
                     context: linkObj.context,
+                    section: linkObj.section,
                     isBold: boldSet.has(candidateTitle),
                     isBidirectional: backlinkSet.has(candidateTitle),
                     sharedCats: sharedCategoryCount(candidateTitle),
+                    mapOverlap: 0,
                 });
             });
 
-            backlinks.forEach((blTitle: string) => {
-                if (!blTitle || blTitle === title) return;
-                if (outSet.has(blTitle)) return; // bidirectional already represented via outgoing link
+            rankedBacklinks.forEach((backlink) => {
                 candidates.push({
-                    title: blTitle,
+                    id: candidateIdFor(backlink.title),
+                    title: backlink.title,
                     direction: 'in',
                     context: undefined,
                     isBold: false,
                     isBidirectional: false,
-                    sharedCats: sharedCategoryCount(blTitle),
+                    sharedCats: backlink.sharedCategories.length,
+                    mapOverlap: backlink.mapOverlap,
                 });
             });
 
             const scoreOf = (c: Candidate) => {
-                const inGraph = existingGraphNodeIds.has(c.title);
-                const degree = inGraph ? (gm?.getNodeDegree(c.title) || 0) : 0;
+                const inGraph = existingGraphNodeIds.has(c.id);
+                const degree = inGraph ? (gm?.getNodeDegree(c.id) || 0) : 0;
                 return (
                     degree * 10 +
                     (inGraph ? 20 : 10) +
                     (c.direction === 'in' ? 15 : 0) +
                     (c.isBidirectional ? 35 : 0) +
                     (c.isBold ? 12 : 0) +
-                    (c.sharedCats * 15)
+                    (c.sharedCats * 15) +
+                    (c.mapOverlap * 10)
                 );
             };
 
@@ -515,12 +651,13 @@ export const useGraphState = () => {
             const newAutoDiscovered = new Set<string>();
 
             sortedCandidates.forEach(c => {
+                const candidateId = c.id;
                 const candidateTitle = c.title;
-                const alreadyInGraph = existingGraphNodeIds.has(candidateTitle);
+                const alreadyInGraph = existingGraphNodeIds.has(candidateId);
                 const position = getRadialSpawnPosition(originPosition, nodesToAdd.length, sortedCandidates.length, 145);
                 if (!alreadyInGraph) {
                     nodesToAdd.push({
-                        id: candidateTitle,
+                        id: candidateId,
                         title: candidateTitle,
                         x: position.x,
                         y: position.y,
@@ -530,39 +667,42 @@ export const useGraphState = () => {
                             colorRole: 'child',
                             treeId,
                             layoutDepth: layoutDepthBase + 1,
-                            primaryParentId: title,
+                            primaryParentId: nodeId,
+                            wikiSourceId: source.id,
                         }
                     });
-                    newAutoDiscovered.add(candidateTitle);
+                    newAutoDiscovered.add(candidateId);
                 }
 
                 if (c.direction === 'out') {
                     linksToAdd.push({
-                        source: title,
-                        target: candidateTitle,
-                        id: `${title}-${candidateTitle}`,
+                        source: nodeId,
+                        target: candidateId,
+                        id: `${nodeId}-${candidateId}`,
                         type: c.isBidirectional ? 'expand_backlink' : 'expand',
                         context: c.context,
+                        section: c.section,
                         layoutRole: alreadyInGraph ? 'cross' : 'primary',
                     });
                 } else {
                     linksToAdd.push({
-                        source: candidateTitle,
-                        target: title,
-                        id: `${candidateTitle}-${title}`,
+                        source: candidateId,
+                        target: nodeId,
+                        id: `${candidateId}-${nodeId}`,
                         type: 'expand_backlink',
                         layoutRole: alreadyInGraph ? 'cross' : 'primary',
                     });
                 }
 
                 existingGraphNodeIds.forEach(existing => {
-                    if (existing === title) return;
+                    if (existing === nodeId) return;
+                    if (getNodeSource(existing).id !== source.id) return;
                     const existingLinks = WikiService.getLinksFromCache(existing);
                     const match = existingLinks?.find(l => l.title === candidateTitle);
                     if (match) linksToAdd.push({
                         source: existing,
-                        target: candidateTitle,
-                        id: `${existing}-${candidateTitle}`,
+                        target: candidateId,
+                        id: `${existing}-${candidateId}`,
                         type: 'auto',
                         context: match.context,
                         layoutRole: 'cross',
@@ -576,7 +716,8 @@ export const useGraphState = () => {
                 if (epoch !== mutationEpochRef.current) return;
                 if (updateQueueRef.current) updateQueueRef.current.queueUpdate(nodesToAdd, linksToAdd);
                 if (newAutoDiscovered.size > 0) setAutoDiscoveredNodes(prev => new Set([...prev, ...newAutoDiscovered]));
-                setExpandedNodes(prev => new Set([...prev, title]));
+                setExpandedNodes(prev => new Set([...prev, nodeId]));
+                markDisambiguationNodes(Array.from(newAutoDiscovered), source, epoch);
             }
         } catch {
             if (setError) setError(`Failed to expand ${title}`);
@@ -599,6 +740,257 @@ export const useGraphState = () => {
         if (setError) setError(`Pruned ${branchIds.length} nodes from the branch.`);
     };
 
+    /**
+     * Add another language edition of a node as its own root, joined by a 'langlink' edge.
+     */
+    const addLangLink = async (nodeId: string, langLink: LangLink, setError?: (v: string) => void) => {
+        const gm = graphManagerRef.current;
+        if (!gm || !updateQueueRef.current) return;
+
+        const foreignSource = getLanguageEditionSource(getNodeSource(nodeId), langLink.language);
+        if (!foreignSource) {
+            if (setError) setError(`No ${langLink.language} edition is configured for this wiki.`);
+            return;
+        }
+
+        const foreignId = toNodeId(langLink.title, foreignSource);
+        const epoch = mutationEpochRef.current;
+        const summaryData = await WikiService.fetchSummary(langLink.title, foreignSource);
+        if (epoch !== mutationEpochRef.current) return;
+        pushHistory();
+
+        if (summaryData.thumbnail) {
+            setNodeThumbnails(prev => ({ ...prev, [foreignId]: summaryData.thumbnail! }));
+        }
+        if (summaryData.description) {
+            setNodeDescriptions(prev => ({ ...prev, [foreignId]: summaryData.description! }));
+        }
+
+        const newNodes: GraphNode[] = [];
+        if (!gm.getNodeIds().includes(foreignId)) {
+            const anchor = gm.getNodePosition(nodeId) || gm.getViewportCenter();
+            const position = getRadialSpawnPosition(anchor, 0, 1, 220);
+            newNodes.push({
+                id: foreignId,
+                title: langLink.title,
+                x: position.x,
+                y: position.y,
+                metadata: {
+                    originSeed: foreignId,
+                    originDepth: 0,
+                    colorRole: 'root',
+                    colorSeed: summaryData.description,
+                    treeId: foreignId,
+                    layoutDepth: 0,
+                    primaryParentId: undefined,
+                    wikiSourceId: foreignSource.id,
+                },
+            });
+            setAutoDiscoveredNodes(prev => new Set([...prev, foreignId]));
+        }
+
+        const { title } = parseNodeId(nodeId);
+        const language = langLink.autonym || langLink.language;
+        updateQueueRef.current.queueUpdate(newNodes, [{
+            source: nodeId,
+            target: foreignId,
+            id: `${nodeId}-${foreignId}`,
+            type: 'langlink',
+            context: `“${langLink.title}” is the ${language} edition of “${title}”.`,
+            layoutRole: 'cross',
+        }]);
+    };
+
+    /**
+     * Seed the meaning picked from a disambiguation node and link the node to
+     * it, which is what expanding a disambiguation page means.
+     */
+    const addDisambiguationMeaning = async (
+        disambiguationId: string,
+        title: string,
+        includeBacklinks: boolean,
+        setLoading?: (v: boolean) => void,
+        setError?: (v: string) => void
+    ) => {
+        const source = getNodeSource(disambiguationId);
+        const resolvedTitle = await addTopic(title, includeBacklinks, setLoading, setError, source);
+        if (!resolvedTitle || !updateQueueRef.current) return;
+        const meaningId = toNodeId(resolvedTitle, source);
+        updateQueueRef.current.queueUpdate([], [{
+            source: disambiguationId,
+            target: meaningId,
+            id: `${disambiguationId}-${meaningId}`,
+            type: 'expand',
+            layoutRole: 'cross',
+        }]);
+        setExpandedNodes(prev => new Set([...prev, disambiguationId]));
+    };
+
+    /**
+     * Add a category as its own root, joined by 'category' edges to every map
+     * page known to be in it, whether from categories fetched for the page or
+     * from the category's member list.
+     */
+    const addCategoryNode = async (categoryName: string, fromNodeId?: string, setError?: (v: string) => void) => {
+        const gm = graphManagerRef.current;
+        if (!gm || !updateQueueRef.current) return;
+
+        const source = fromNodeId ? getNodeSource(fromNodeId) : WikiService.getActiveSource();
+        const categoryTitle = toCategoryTitle(categoryName);
+        const categoryId = toNodeId(categoryTitle, source);
+        const epoch = mutationEpochRef.current;
+        const members = await WikiService.fetchCategoryMembers(categoryTitle, CATEGORY_MEMBER_LIMIT, source);
+        if (epoch !== mutationEpochRef.current) return;
+
+        const nodeIds = gm.getNodeIds();
+        const listedIds = new Set([...members.pages, ...members.subcategories].map(title => toNodeId(title, source)));
+        const memberIds = new Set([
+            ...findCategoryMembersOnMap(getCategoryName(categoryTitle), nodeIds, nodeCategories),
+            ...nodeIds.filter(id => listedIds.has(id)),
+            ...(fromNodeId ? [fromNodeId] : []),
+        ]);
+        memberIds.delete(categoryId);
+        const links = Array.from(memberIds)
+            .filter(id => getNodeSource(id).id === source.id)
+            .map(id => createCategoryLink(id, categoryId, 'cross'));
+
+        const newNodes: GraphNode[] = [];
+        if (!nodeIds.includes(categoryId)) {
+            const anchor = (fromNodeId && gm.getNodePosition(fromNodeId)) || gm.getViewportCenter();
+            const position = getRadialSpawnPosition(anchor, 0, 1, 200);
+            newNodes.push({
+                id: categoryId,
+                title: categoryTitle,
+                x: position.x,
+                y: position.y,
+                metadata: {
+                    originSeed: categoryId,
+                    originDepth: 0,
+                    colorRole: 'root',
+                    treeId: categoryId,
+                    layoutDepth: 0,
+                    primaryParentId: undefined,
+                    wikiSourceId: source.id,
+                },
+            });
+            setAutoDiscoveredNodes(prev => new Set([...prev, categoryId]));
+        } else if (links.length === 0) {
+            if (setError) setError(`${categoryTitle} is already on the map.`);
+            return;
+        }
+
+        pushHistory();
+        updateQueueRef.current.queueUpdate(newNodes, links);
+    };
+
+    /**
+     * Add pages or categories related to a category node and link them to it.
+     * Titles already on the map are only linked; at most CATEGORY_EXPANSION_LIMIT
+     * new nodes are added unless the titles were picked one by one.
+     */
+    const addCategoryRelatives = (
+        categoryId: string,
+        relation: CategoryRelation,
+        titles: string[],
+        options: { limit?: number } = {}
+    ) => {
+        const gm = graphManagerRef.current;
+        if (!gm || !updateQueueRef.current) return 0;
+
+        const source = getNodeSource(categoryId);
+        const existingIds = new Set(gm.getNodeIds());
+        const candidates = titles
+            .map(title => ({ id: toNodeId(title, source), title }))
+            .filter(candidate => candidate.id !== categoryId);
+        const picked = [
+            ...candidates.filter(candidate => existingIds.has(candidate.id)),
+            ...candidates.filter(candidate => !existingIds.has(candidate.id)).slice(0, options.limit ?? CATEGORY_EXPANSION_LIMIT),
+        ];
+        if (picked.length === 0) return 0;
+
+        const originMeta = gm.getNodeMetadata(categoryId);
+        const originSeed = originMeta?.originSeed || categoryId;
+        const treeId = originMeta?.treeId || originSeed;
+        const originDepthBase = originMeta?.originDepth ?? 0;
+        const layoutDepthBase = originMeta?.layoutDepth ?? originDepthBase;
+        const anchor = gm.getNodePosition(categoryId) || gm.getViewportCenter();
+        const newNodes: GraphNode[] = [];
+        const links: Link[] = [];
+
+        picked.forEach(({ id, title }) => {
+            const isNew = !existingIds.has(id);
+            if (isNew) {
+                const position = getRadialSpawnPosition(anchor, newNodes.length, picked.length, 145);
+                newNodes.push({
+                    id,
+                    title,
+                    x: position.x,
+                    y: position.y,
+                    metadata: {
+                        originSeed,
+                        originDepth: originDepthBase + 1,
+                        colorRole: 'child',
+                        treeId,
+                        layoutDepth: layoutDepthBase + 1,
+                        primaryParentId: categoryId,
+                        wikiSourceId: source.id,
+                    },
+                });
+            }
+            const layoutRole = isNew ? 'primary' : 'cross';
+            // Edges always run from the member to the category it sits in.
+            links.push(relation === 'parents'
+                ? createCategoryLink(categoryId, id, layoutRole)
+                : createCategoryLink(id, categoryId, layoutRole));
+        });
+
+        pushHistory();
+        updateQueueRef.current.queueUpdate(newNodes, links);
+        if (newNodes.length > 0) setAutoDiscoveredNodes(prev => new Set([...prev, ...newNodes.map(node => node.id)]));
+        return picked.length;
+    };
+
+    /** Walk the category graph from a category node: its member pages, parents or subcategories. */
+    const expandCategory = async (
+        nodeId: string,
+        relation: CategoryRelation,
+        setLoading?: (v: boolean) => void,
+        setError?: (v: string) => void
+    ) => {
+        const { title } = parseNodeId(nodeId);
+        const source = getNodeSource(nodeId);
+        const epoch = mutationEpochRef.current;
+        if (setLoading) setLoading(true);
+
+        try {
+            let titles: string[];
+            if (relation === 'parents') {
+                const parents = await WikiService.fetchCategories(title, 50, source);
+                if (parents.length > 0) setNodeCategories(prev => ({ ...prev, [nodeId]: parents }));
+                titles = parents.map(toCategoryTitle);
+            } else {
+                const members = await WikiService.fetchCategoryMembers(title, CATEGORY_MEMBER_LIMIT, source);
+                titles = relation === 'members' ? members.pages : members.subcategories;
+            }
+            if (epoch !== mutationEpochRef.current) return;
+
+            const added = addCategoryRelatives(nodeId, relation, titles);
+            if (added === 0) {
+                if (setError) {
+                    setError(relation === 'parents'
+                        ? `${title} has no parent categories.`
+                        : relation === 'subcategories'
+                            ? `${title} has no subcategories.`
+                            : `${title} has no article members.`);
+                }
+                return;
+            }
+            if (relation === 'members') setExpandedNodes(prev => new Set([...prev, nodeId]));
+        } finally {
+            if (setLoading) setLoading(false);
+        }
+    };
+
     return {
         // Refs
         graphManagerRef,
@@ -622,6 +1014,7 @@ export const useGraphState = () => {
         nodeBacklinkCounts, setNodeBacklinkCounts,
         clickedNode, setClickedNode,
         clickedSummary, setClickedSummary,
+        historyRevision,
 
         // Methods
         addTopic,
@@ -630,6 +1023,11 @@ export const useGraphState = () => {
         pruneGraph,
         pruneLeafNodes,
         pruneBranch,
+        addLangLink,
+        addDisambiguationMeaning,
+        addCategoryNode,
+        addCategoryRelatives,
+        expandCategory,
         undo,
         redo,
         pushHistory,
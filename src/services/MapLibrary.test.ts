@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { createMapDocument, DEFAULT_MAP_SETTINGS } from '../features/persistence/mapDocument';
+import { MapLibrary, describeMapDocument } from './MapLibrary';
+
+const doc = createMapDocument({
+  state: {
+    graph: {
+      nodes: [
+        { id: 'Energy', title: 'Energy' },
+        { id: 'Physics', title: 'Physics' },
+      ],
+      links: [{ id: 'Physics-Energy', source: 'Physics', target: 'Energy' }],
+      nodeMetadata: {},
+    },
+    userTypedNodes: ['Physics'],
+    autoDiscoveredNodes: ['Energy'],
+    expandedNodes: [],
+    pathNodes: [],
+    nodeThumbnails: { Energy: 'energy.png', Physics: 'physics.png' },
+    nodeDescriptions: {},
+    nodeCategories: {},
+    nodeBacklinkCounts: {},
+  },
+  settings: DEFAULT_MAP_SETTINGS,
+  foundPaths: [],
+  pinnedLinkIds: [],
+});
+
+describe('MapLibrary', () => {
+  it('summarises a map with counts and the first seed thumbnail', () => {
+    expect(describeMapDocument(doc)).toEqual({ nodeCount: 2, linkCount: 1, thumbnail: 'physics.png' });
+  });
+
+  it('degrades to an empty library when IndexedDB is unavailable', async () => {
+    const library = new MapLibrary();
+
+    expect(await library.save(doc)).toBeUndefined();
+    expect(await library.list()).toEqual([]);
+    expect(await library.get('missing')).toBeUndefined();
+  });
+});
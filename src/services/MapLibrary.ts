@@ -0,0 +1,164 @@
+/**
+ * Map library
+ * Named maps saved in IndexedDB. Entries (name, counts, thumbnail, dates) and
+ * full map documents live in separate stores so the library list never has to
+ * load every snapshot.
+ */
+
+import type { MapDocument } from '../features/persistence/mapDocument';
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+export type SavedMapEntry = {
+  id: string;
+  name: string;
+  nodeCount: number;
+  linkCount: number;
+  thumbnail?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+const DB_NAME = 'wikiweb_maps';
+const DB_VERSION = 1;
+const ENTRY_STORE = 'entries';
+const DOCUMENT_STORE = 'documents';
+
+const createMapId = () => `map-${Date.now().toString(36)}-${Math.random().toString(16).slice(2, 8)}`;
+
+/**
+ * Library entry fields derived from a document: counts plus the first seed's thumbnail.
+ */
+export const describeMapDocument = (doc: MapDocument) => {
+  const { graph, userTypedNodes, nodeThumbnails } = doc.state;
+  const thumbnail = [...userTypedNodes, ...graph.nodes.map(node => node.id)]
+    .map(id => nodeThumbnails[id])
+    .find(Boolean);
+  return {
+    nodeCount: graph.nodes.length,
+    linkCount: graph.links.length,
+    thumbnail,
+  };
+};
+
+export class MapLibrary {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  isAvailable() {
+    return isIndexedDbAvailable();
+  }
+
+  private openDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(ENTRY_STORE)) db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DOCUMENT_STORE)) db.createObjectStore(DOCUMENT_STORE);
+      }, '[MapLibrary]');
+    }
+    return this.dbPromise;
+  }
+
+  /**
+   * All saved maps, most recently modified first.
+   */
+  async list(): Promise<SavedMapEntry[]> {
+    const db = await this.openDb();
+    if (!db) return [];
+
+    try {
+      const entries = await requestToPromise(
+        db.transaction(ENTRY_STORE, 'readonly').objectStore(ENTRY_STORE).getAll()
+      ) as SavedMapEntry[];
+      return entries.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (err) {
+      console.warn('[MapLibrary] Failed to list maps.', err);
+      return [];
+    }
+  }
+
+  async get(id: string): Promise<{ entry: SavedMapEntry; document: MapDocument } | undefined> {
+    const db = await this.openDb();
+    if (!db) return undefined;
+
+    try {
+      const tx = db.transaction([ENTRY_STORE, DOCUMENT_STORE], 'readonly');
+      const [entry, document] = await Promise.all([
+        requestToPromise(tx.objectStore(ENTRY_STORE).get(id)) as Promise<SavedMapEntry | undefined>,
+        requestToPromise(tx.objectStore(DOCUMENT_STORE).get(id)) as Promise<MapDocument | undefined>,
+      ]);
+      return entry && document ? { entry, document } : undefined;
+    } catch (err) {
+      console.warn('[MapLibrary] Failed to read map.', err);
+      return undefined;
+    }
+  }
+
+  /**
+   * Create or overwrite a map. Without an id a new entry is created; the name
+   * defaults to the existing entry's name, then the document title.
+   */
+  async save(document: MapDocument, options: { id?: string; name?: string } = {}): Promise<SavedMapEntry | undefined> {
+    const db = await this.openDb();
+    if (!db) return undefined;
+
+    const id = options.id ?? createMapId();
+    const now = Date.now();
+    try {
+      const tx = db.transaction([ENTRY_STORE, DOCUMENT_STORE], 'readwrite');
+      const entries = tx.objectStore(ENTRY_STORE);
+      const existing = await requestToPromise(entries.get(id)) as SavedMapEntry | undefined;
+      const entry: SavedMapEntry = {
+        id,
+        name: options.name ?? existing?.name ?? (document.title || 'Untitled map'),
+        ...describeMapDocument(document),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+      entries.put(entry);
+      tx.objectStore(DOCUMENT_STORE).put(document, id);
+      await transactionDone(tx);
+      return entry;
+    } catch (err) {
+      console.warn('[MapLibrary] Failed to save map.', err);
+      return undefined;
+    }
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    const db = await this.openDb();
+    const trimmed = name.trim();
+    if (!db || !trimmed) return;
+
+    try {
+      const tx = db.transaction(ENTRY_STORE, 'readwrite');
+      const store = tx.objectStore(ENTRY_STORE);
+      const entry = await requestToPromise(store.get(id)) as SavedMapEntry | undefined;
+      if (!entry) return;
+      store.put({ ...entry, name: trimmed, updatedAt: Date.now() });
+      await transactionDone(tx);
+    } catch (err) {
+      console.warn('[MapLibrary] Failed to rename map.', err);
+    }
+  }
+
+  async duplicate(id: string): Promise<SavedMapEntry | undefined> {
+    const saved = await this.get(id);
+    if (!saved) return undefined;
+    return this.save(saved.document, { name: `${saved.entry.name} (copy)` });
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.openDb();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction([ENTRY_STORE, DOCUMENT_STORE], 'readwrite');
+      tx.objectStore(ENTRY_STORE).delete(id);
+      tx.objectStore(DOCUMENT_STORE).delete(id);
+      await transactionDone(tx);
+    } catch (err) {
+      console.warn('[MapLibrary] Failed to delete map.', err);
+    }
+  }
+}
+
+export const mapLibrary = new MapLibrary();
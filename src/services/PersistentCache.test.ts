@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CACHE_TTL_MS,
+  PersistentCache,
+  isCacheEntryFresh,
+  planCacheEviction,
+  type PersistentCacheEntryMeta,
+} from './PersistentCache';
+
+function createEntry(overrides: Partial<PersistentCacheEntryMeta> & { id: string }): PersistentCacheEntryMeta {
+  return {
+    kind: 'links',
+    key: overrides.id,
+    timestamp: 1_000_000,
+    lastAccessed: 1_000_000,
+    size: 100,
+    ...overrides,
+  };
+}
+
+describe('PersistentCache', () => {
+  it('applies per-kind TTLs', () => {
+    const now = 1_000_000 + 2 * 60 * 60 * 1000;
+    expect(isCacheEntryFresh({ kind: 'links', timestamp: 1_000_000 }, now)).toBe(false);
+    expect(isCacheEntryFresh({ kind: 'categories', timestamp: 1_000_000 }, now)).toBe(true);
+    expect(CACHE_TTL_MS.categories).toBe(24 * CACHE_TTL_MS.links);
+  });
+
+  it('evicts expired entries and then the least recently used until under budget', () => {
+    const now = 1_000_000 + 10 * 60 * 1000;
+    const entries = [
+      createEntry({ id: 'expired', timestamp: now - CACHE_TTL_MS.links - 1 }),
+      createEntry({ id: 'oldest', lastAccessed: now - 3000 }),
+      createEntry({ id: 'middle', lastAccessed: now - 2000 }),
+      createEntry({ id: 'newest', lastAccessed: now - 1000 }),
+    ];
+
+    expect(planCacheEviction(entries, 200, now)).toEqual(['expired', 'oldest']);
+    expect(planCacheEviction(entries, 1000, now)).toEqual(['expired']);
+  });
+
+  it('degrades to a no-op store when IndexedDB is unavailable', async () => {
+    const cache = new PersistentCache();
+
+    await cache.set('links', 'Physics', { links: [] });
+    const hit = await cache.get('links', 'Physics');
+    const stats = await cache.getStats();
+
+    expect(hit).toBeUndefined();
+    expect(stats.available).toBe(false);
+    expect(stats.entryCount).toBe(0);
+  });
+});
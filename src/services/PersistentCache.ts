@@ -0,0 +1,258 @@
+/**
+ * Persistent cache tier
+ * IndexedDB-backed store that sits behind WikiService's in-memory Maps so
+ * explored pages survive reloads. Values and their bookkeeping live in two
+ * object stores so LRU eviction can scan sizes without loading payloads.
+ */
+
+import { isIndexedDbAvailable, openDatabase, requestToPromise, transactionDone } from './indexedDb';
+
+export type PersistentCacheKind = 'links' | 'pageLinks' | 'summary' | 'backlinks' | 'categories' | 'linkContext' | 'langLinks' | 'pageInfo' | 'redirects' | 'categoryMembers' | 'aliases' | 'disambiguation' | 'sectionLinks';
+
+export const PERSISTENT_CACHE_KINDS: PersistentCacheKind[] = ['links', 'pageLinks', 'summary', 'backlinks', 'categories', 'linkContext', 'langLinks', 'pageInfo', 'redirects', 'categoryMembers', 'aliases', 'disambiguation', 'sectionLinks'];
+
+export const CACHE_TTL_MS: Record<PersistentCacheKind, number> = {
+  links: 1000 * 60 * 60, // 1 hour
+  pageLinks: 1000 * 60 * 60, // 1 hour
+  backlinks: 1000 * 60 * 60, // 1 hour
+  linkContext: 1000 * 60 * 60, // 1 hour
+  categories: 1000 * 60 * 60 * 24, // 24 hours
+  summary: 1000 * 60 * 60 * 24, // 24 hours
+  langLinks: 1000 * 60 * 60 * 24, // 24 hours
+  pageInfo: 1000 * 60 * 60 * 6, // 6 hours
+  redirects: 1000 * 60 * 60 * 24, // 24 hours
+  categoryMembers: 1000 * 60 * 60 * 24, // 24 hours
+  aliases: 1000 * 60 * 60 * 24, // 24 hours
+  disambiguation: 1000 * 60 * 60 * 24, // 24 hours
+  sectionLinks: 1000 * 60 * 60, // 1 hour
+};
+
+export type PersistentCacheEntryMeta = {
+  id: string;
+  kind: PersistentCacheKind;
+  key: string;
+  timestamp: number;
+  lastAccessed: number;
+  size: number;
+};
+
+export type PersistentCacheStats = {
+  available: boolean;
+  entryCount: number;
+  totalBytes: number;
+  maxBytes: number;
+  byKind: Record<PersistentCacheKind, { entries: number; bytes: number }>;
+};
+
+const DB_NAME = 'wikiweb_cache';
+const DB_VERSION = 1;
+const VALUE_STORE = 'values';
+const META_STORE = 'meta';
+const DEFAULT_MAX_BYTES = 25 * 1024 * 1024;
+
+export const isCacheEntryFresh = (
+  entry: Pick<PersistentCacheEntryMeta, 'kind' | 'timestamp'>,
+  now: number = Date.now()
+) => now - entry.timestamp < CACHE_TTL_MS[entry.kind];
+
+/**
+ * Pick the least-recently-used entries to drop so the total fits under maxBytes.
+ * Expired entries are always dropped first.
+ */
+export const planCacheEviction = (
+  entries: PersistentCacheEntryMeta[],
+  maxBytes: number,
+  now: number = Date.now()
+): string[] => {
+  const evicted: string[] = [];
+  const live: PersistentCacheEntryMeta[] = [];
+  let total = 0;
+
+  entries.forEach((entry) => {
+    if (!isCacheEntryFresh(entry, now)) {
+      evicted.push(entry.id);
+      return;
+    }
+    live.push(entry);
+    total += entry.size;
+  });
+
+  if (total <= maxBytes) return evicted;
+
+  const byAge = [...live].sort((a, b) => a.lastAccessed - b.lastAccessed);
+  for (const entry of byAge) {
+    if (total <= maxBytes) break;
+    evicted.push(entry.id);
+    total -= entry.size;
+  }
+
+  return evicted;
+};
+
+const createEmptyStats = (available: boolean, maxBytes: number): PersistentCacheStats => ({
+  available,
+  entryCount: 0,
+  totalBytes: 0,
+  maxBytes,
+  byKind: PERSISTENT_CACHE_KINDS.reduce((acc, kind) => {
+    acc[kind] = { entries: 0, bytes: 0 };
+    return acc;
+  }, {} as PersistentCacheStats['byKind']),
+});
+
+export class PersistentCache {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private evictionScheduled = false;
+  private maxBytes: number;
+
+  constructor(maxBytes: number = DEFAULT_MAX_BYTES) {
+    this.maxBytes = maxBytes;
+  }
+
+  isAvailable() {
+    return isIndexedDbAvailable();
+  }
+
+  private openDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = openDatabase(DB_NAME, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(VALUE_STORE)) db.createObjectStore(VALUE_STORE);
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+      }, '[PersistentCache]');
+    }
+    return this.dbPromise;
+  }
+
+  private toId(kind: PersistentCacheKind, key: string) {
+    return `${kind}|${key}`;
+  }
+
+  /**
+   * Read a fresh entry. Expired entries are removed and treated as a miss.
+   */
+  async get<T>(kind: PersistentCacheKind, key: string): Promise<{ value: T; timestamp: number } | undefined> {
+    const db = await this.openDb();
+    if (!db) return undefined;
+
+    const id = this.toId(kind, key);
+    try {
+      const tx = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+      const metaStore = tx.objectStore(META_STORE);
+      const meta = await requestToPromise(metaStore.get(id)) as PersistentCacheEntryMeta | undefined;
+      if (!meta) return undefined;
+
+      if (!isCacheEntryFresh(meta)) {
+        metaStore.delete(id);
+        tx.objectStore(VALUE_STORE).delete(id);
+        await transactionDone(tx);
+        return undefined;
+      }
+
+      const value = await requestToPromise(tx.objectStore(VALUE_STORE).get(id)) as T | undefined;
+      if (value === undefined) return undefined;
+      metaStore.put({ ...meta, lastAccessed: Date.now() });
+      await transactionDone(tx);
+      return { value, timestamp: meta.timestamp };
+    } catch (err) {
+      console.warn('[PersistentCache] Read failed.', err);
+      return undefined;
+    }
+  }
+
+  async set<T>(kind: PersistentCacheKind, key: string, value: T, timestamp: number = Date.now()): Promise<void> {
+    const db = await this.openDb();
+    if (!db) return;
+
+    const id = this.toId(kind, key);
+    let size = 0;
+    try {
+      size = JSON.stringify(value ?? null).length * 2;
+    } catch {
+      return;
+    }
+
+    const meta: PersistentCacheEntryMeta = { id, kind, key, timestamp, lastAccessed: Date.now(), size };
+    try {
+      const tx = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+      tx.objectStore(VALUE_STORE).put(value, id);
+      tx.objectStore(META_STORE).put(meta);
+      await transactionDone(tx);
+      this.scheduleEviction();
+    } catch (err) {
+      console.warn('[PersistentCache] Write failed.', err);
+    }
+  }
+
+  private scheduleEviction() {
+    if (this.evictionScheduled) return;
+    this.evictionScheduled = true;
+    setTimeout(() => {
+      this.evictionScheduled = false;
+      void this.enforceSizeLimit();
+    }, 1000);
+  }
+
+  async enforceSizeLimit(): Promise<number> {
+    const db = await this.openDb();
+    if (!db) return 0;
+
+    try {
+      const entries = await requestToPromise(
+        db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll()
+      ) as PersistentCacheEntryMeta[];
+      const evicted = planCacheEviction(entries, this.maxBytes);
+      if (evicted.length === 0) return 0;
+
+      const tx = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+      evicted.forEach((id) => {
+        tx.objectStore(VALUE_STORE).delete(id);
+        tx.objectStore(META_STORE).delete(id);
+      });
+      await transactionDone(tx);
+      return evicted.length;
+    } catch (err) {
+      console.warn('[PersistentCache] Eviction failed.', err);
+      return 0;
+    }
+  }
+
+  async getStats(): Promise<PersistentCacheStats> {
+    const db = await this.openDb();
+    if (!db) return createEmptyStats(false, this.maxBytes);
+
+    const stats = createEmptyStats(true, this.maxBytes);
+    try {
+      const entries = await requestToPromise(
+        db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll()
+      ) as PersistentCacheEntryMeta[];
+      entries.forEach((entry) => {
+        stats.entryCount += 1;
+        stats.totalBytes += entry.size;
+        const bucket = stats.byKind[entry.kind];
+        if (bucket) {
+          bucket.entries += 1;
+          bucket.bytes += entry.size;
+        }
+      });
+    } catch (err) {
+      console.warn('[PersistentCache] Failed to read stats.', err);
+    }
+    return stats;
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.openDb();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction([VALUE_STORE, META_STORE], 'readwrite');
+      tx.objectStore(VALUE_STORE).clear();
+      tx.objectStore(META_STORE).clear();
+      await transactionDone(tx);
+    } catch (err) {
+      console.warn('[PersistentCache] Clear failed.', err);
+    }
+  }
+}
+
+export const persistentCache = new PersistentCache();
@@ -0,0 +1,47 @@
+/**
+ * Small promise wrappers shared by the IndexedDB-backed services.
+ */
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+export const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Open a database, resolving to null instead of rejecting so callers can fall
+ * back to running without persistence.
+ */
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase) => void,
+  logPrefix: string
+): Promise<IDBDatabase | null> => {
+  if (!isIndexedDbAvailable()) return Promise.resolve(null);
+
+  return new Promise<IDBDatabase | null>((resolve) => {
+    try {
+      const request = indexedDB.open(name, version);
+      request.onupgradeneeded = () => upgrade(request.result);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn(`${logPrefix} Failed to open IndexedDB, continuing without persistence.`, request.error);
+        resolve(null);
+      };
+      request.onblocked = () => resolve(null);
+    } catch (err) {
+      console.warn(`${logPrefix} IndexedDB unavailable.`, err);
+      resolve(null);
+    }
+  });
+};
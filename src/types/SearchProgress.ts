@@ -1,3 +1,5 @@
+import type { PathfinderStrategy } from '../features/pathfinding/runPathfinder';
+
 export type SearchProgress = {
   isSearching: boolean;
   isPaused: boolean;
@@ -8,4 +10,8 @@ export type SearchProgress = {
   exploredCount: number;
   queueSize: number;
   exploredNodes: Set<string>;
+  /** Strategy of the current or most recent search. */
+  strategy?: PathfinderStrategy;
+  /** Heuristic score of each page on the first found path; best-first searches only. */
+  pathScores?: Array<{ title: string; score: number }>;
 };